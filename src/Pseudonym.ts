@@ -1,6 +1,6 @@
-import { pedersenCommitmentG1, generateRandomG1Element } from 'crypto-wasm-new';
+import { pedersenCommitmentG1, generateFieldElementFromBytes, generateRandomG1Element } from 'crypto-wasm-new';
 import { BytearrayWrapper } from './bytearray-wrapper';
-import { base58ToBytearray, bytearrayToBase58 } from './util';
+import { base58ToBytearray, bigIntToInverseFieldElement, bytearrayToBase58, fromLeToBigInt } from './util';
 
 /**
  * A pseudonym is meant to be used as a unique identifier. It can be considered as a public key where the creator of the
@@ -69,6 +69,49 @@ export class AttributeBoundPseudonym extends BytearrayWrapper {
   }
 }
 
+/**
+ * A pseudonym bound to one or more attributes and a counter that changes every epoch. It is computed as
+ * `B * 1/(w_1 * a_1 + w_2 * a_2 + ... + w_n * a_n + w_c * counter)` where `B` is derived from the verifier's scope and
+ * the epoch, `a_i` are the attributes and `w_i`, `w_c` are weights derived from the scope, so that pseudonyms with
+ * different counters can't be linked to each other unlike with a Pedersen commitment. The weights commit to each
+ * attribute and the counter under a separate base `w_i * pseudonym` so that holders with different attributes, like
+ * sequential ids, or with swapped attributes don't get the same pseudonym for some counters. The prover shows it knows
+ * the attributes and the counter by proving `(w_1 * pseudonym) * a_1 + ... + (w_c * pseudonym) * counter = B`
+ */
+export class EpochBoundPseudonym extends BytearrayWrapper {
+  /**
+   *
+   * @param baseForEpoch - Created using `PseudonymBases.generateBaseForEpoch`
+   * @param weights - Created using `PseudonymBases.generateWeightsForEpoch`, 1 for each attribute and the last one for
+   * the counter
+   * @param attributes
+   * @param counter
+   */
+  static new(
+    baseForEpoch: Uint8Array,
+    weights: Uint8Array[],
+    attributes: Uint8Array[],
+    counter: Uint8Array
+  ): Pseudonym {
+    const witnesses = [...attributes, counter];
+    if (weights.length !== witnesses.length) {
+      throw new Error(`Need ${witnesses.length} weights for ${attributes.length} attributes and the counter`);
+    }
+    const sum = witnesses.reduce((s, a, i) => s + fromLeToBigInt(weights[i]) * fromLeToBigInt(a), BigInt(0));
+    return new EpochBoundPseudonym(pedersenCommitmentG1([baseForEpoch], [bigIntToInverseFieldElement(sum)]));
+  }
+
+  /**
+   * Returns the bases `w_i * pseudonym` of the Pedersen commitment to the attributes and the counter which equals the
+   * base for the epoch
+   * @param pseudonym
+   * @param weights
+   */
+  static commitmentBases(pseudonym: Uint8Array, weights: Uint8Array[]): Uint8Array[] {
+    return weights.map((w) => pedersenCommitmentG1([pseudonym], [w]));
+  }
+}
+
 /**
  * Used to create commitment key for pseudonyms
  */
@@ -112,6 +155,50 @@ export class PseudonymBases {
     return b;
   }
 
+  /**
+   * Public parameter for pseudonyms that change every epoch, i.e. a holder has a single pseudonym per verifier per epoch
+   * for each value of the counter, see `EpochBoundPseudonym`. Proving that the counter is in [0, k) lets a holder present
+   * at most k unlinkable pseudonyms in an epoch. The pseudonym should be bound only to attributes and not a secret key as
+   * otherwise the holder could create any number of pseudonyms.
+   * @param scope - Unique scope of the verifier
+   * @param epoch - Index of the epoch, like returned by `epochOf`
+   */
+  static generateBaseForEpoch(scope: Uint8Array, epoch: number): Uint8Array {
+    if (!Number.isInteger(epoch) || epoch < 0) {
+      throw new Error(`Epoch must be a non-negative integer but was ${epoch}`);
+    }
+    const suffix = new TextEncoder().encode(`|epoch:${epoch}`);
+    return PseudonymBases.generateBaseForSecretKey(new Uint8Array([...scope, ...suffix]));
+  }
+
+  /**
+   * Public parameters for pseudonyms that change every epoch, the weights of the attributes and the counter, see
+   * `EpochBoundPseudonym`
+   * @param scope - Unique scope of the verifier
+   * @param attributeCount - Number of attributes the pseudonym is bound to. There is 1 more weight for the counter
+   */
+  static generateWeightsForEpoch(scope: Uint8Array, attributeCount: number): Uint8Array[] {
+    const w: Uint8Array[] = [];
+    for (let i = 0; i <= attributeCount; i++) {
+      const suffix = new TextEncoder().encode(`|epoch-weight:${i}`);
+      w.push(generateFieldElementFromBytes(new Uint8Array([...scope, ...suffix])));
+    }
+    return w;
+  }
+
+  /**
+   * Index of the epoch containing the given time where epochs are consecutive periods of `epochDuration` milliseconds
+   * starting from the Unix epoch
+   * @param time
+   * @param epochDuration - in milliseconds
+   */
+  static epochOf(time: Date | number, epochDuration: number): number {
+    if (!Number.isInteger(epochDuration) || epochDuration <= 0) {
+      throw new Error(`Epoch duration must be a positive integer but was ${epochDuration}`);
+    }
+    return Math.floor((typeof time === 'number' ? time : time.getTime()) / epochDuration);
+  }
+
   static encodeBasesForAttributes(basesForAttributes: string[]): Uint8Array[] {
     return basesForAttributes.map((base) => PseudonymBases.encode(base));
   }
@@ -4,14 +4,23 @@ import { IBlindCredentialRequest } from './presentation-specification';
 import {
   BBS_PLUS_SIGNATURE_PARAMS_LABEL_BYTES,
   BBS_SIGNATURE_PARAMS_LABEL_BYTES, STATUS_STR,
-  BBDT16_MAC_PARAMS_LABEL_BYTES
+  BBDT16_MAC_PARAMS_LABEL_BYTES,
+  psBlindedAttributeBase
 } from './types-and-consts';
-import { BBSCredential, BBSPlusCredential, BBDT16Credential } from './credential';
+import { BBSCredential, BBSPlusCredential, BBDT16Credential, PSCredential } from './credential';
 import { BBSBlindSignature, BBSSecretKey, BBSSignatureParams } from '../bbs';
 import { BBSPlusBlindSignatureG1, BBSPlusSecretKey, BBSPlusSignatureParamsG1 } from '../bbs-plus';
 import { CredentialSchema } from './schema';
-import { BBSBlindedCredential, BBSPlusBlindedCredential, BBDT16BlindedCredential } from './blinded-credential';
+import {
+  BBSBlindedCredential,
+  BBSPlusBlindedCredential,
+  BBDT16BlindedCredential,
+  PSBlindedCredential
+} from './blinded-credential';
 import { BBDT16BlindMac, BBDT16MacParams, BBDT16MacSecretKey } from '../bbdt16-mac';
+import { PSBlindSignature, PSSecretKey } from '../ps';
+import { PSCommitmentOrMessage } from 'crypto-wasm-new';
+import { flatten } from 'flat';
 
 /**
  * Used by the signer to create a blinded credential. The signer will know only the unblinded attributes
@@ -134,6 +143,68 @@ export class BBSPlusBlindedCredentialBuilder extends BlindedCredentialBuilder {
   }
 }
 
+export class PSBlindedCredentialBuilder extends BlindedCredentialBuilder {
+  protected applyDefaultProofMetadataIfNeeded(s: object) {
+    PSCredential.applyDefaultProofMetadataIfNeeded(s);
+  }
+
+  /**
+   * Blind sign a credential. PS signature params aren't needed as the signer signs the commitment to each blinded
+   * attribute with a base derived from the request's commitment.
+   * @param secretKey
+   * @returns
+   */
+  sign(secretKey: PSSecretKey): PSBlindedCredential {
+    const attributeCommitments = this.blindedCredReq.attributeCommitments;
+    if (attributeCommitments === undefined) {
+      throw new Error('Request does not have commitments to each blinded attribute');
+    }
+    const [totalAttrs, encodedAttrs] = this.getTotalAttributesAndEncodedKnownAttributes();
+    const flattenedSchema = (this.schema as CredentialSchema).flatten();
+    const blindedIndices = Object.keys(flatten(this.blindedCredReq.blindedAttributes))
+      .map((name) => flattenedSchema[0].indexOf(name))
+      .sort((a, b) => a - b);
+    if (blindedIndices.length !== attributeCommitments.length) {
+      throw new Error(
+        `Request has ${attributeCommitments.length} attribute commitments but ${blindedIndices.length} blinded ` +
+          'attributes'
+      );
+    }
+    const messages: PSCommitmentOrMessage[] = [];
+    for (let i = 0; i < totalAttrs; i++) {
+      const j = blindedIndices.indexOf(i);
+      const known = encodedAttrs.get(i);
+      if (j !== -1 && known !== undefined) {
+        throw new Error(`Attribute ${flattenedSchema[0][i]} is blinded but was set by the signer as well`);
+      }
+      if (j !== -1) {
+        messages.push({ BlindedMessage: attributeCommitments[j] });
+      } else if (known !== undefined) {
+        messages.push({ RevealedMessage: known });
+      } else {
+        throw new Error(`Attribute ${flattenedSchema[0][i]} is neither blinded nor set by the signer`);
+      }
+    }
+    const supportedMsgCount = secretKey.supportedMessageCount();
+    if (supportedMsgCount < totalAttrs) {
+      throw new Error(`Unsupported message count - supported up to ${supportedMsgCount}, received: ${totalAttrs}`);
+    } else if (supportedMsgCount > totalAttrs) {
+      secretKey = secretKey.adaptForLess(totalAttrs);
+    }
+    const sig = PSBlindSignature.generate(messages, secretKey, psBlindedAttributeBase(this.blindedCredReq.commitment));
+    this.processUnBlindedAttributes();
+    return new PSBlindedCredential(
+      this.version,
+      this.schema as CredentialSchema,
+      // @ts-ignore
+      this.subject,
+      this._topLevelFields,
+      sig,
+      this.credStatus
+    );
+  }
+}
+
 export class BBDT16BlindedCredentialBuilder extends BlindedCredentialBuilder {
   protected applyDefaultProofMetadataIfNeeded(s: object) {
     BBDT16Credential.applyDefaultProofMetadataIfNeeded(s);
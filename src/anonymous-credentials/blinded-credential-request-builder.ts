@@ -7,6 +7,7 @@ import { BBDT16MacParams } from '../bbdt16-mac';
 import { BytearrayWrapper } from '../bytearray-wrapper';
 import { LegoProvingKey, LegoProvingKeyUncompressed } from '../legosnark';
 import { PederCommKey, PederCommKeyUncompressed } from '../ped-com';
+import { PSBlindSignature, PSSignatureParams } from '../ps';
 import { getR1CS, ParsedR1CSFile } from '../r1cs/file';
 import {
   SaverChunkedCommitmentKey,
@@ -19,9 +20,10 @@ import {
 import {
   BBSBlindedCredentialRequest,
   BBSPlusBlindedCredentialRequest,
-  BBDT16BlindedCredentialRequest
+  BBDT16BlindedCredentialRequest,
+  PSBlindedCredentialRequest
 } from './blinded-credential-request';
-import { BBSCredential, BBSPlusCredential, PSCredential } from './credential';
+import { BBSCredential, BBSPlusCredential, BBDT16Credential, PSCredential } from './credential';
 import { Presentation } from './presentation';
 import {
   IProverBoundedPseudonymInBlindedCredReq,
@@ -29,36 +31,45 @@ import {
   PresentationBuilder
 } from './presentation-builder';
 import {
+  IBlindCredentialRequest,
   IPresentedAttributeBound,
   IPresentedAttributeInequality,
   IPresentedAttributeVE
 } from './presentation-specification';
+import { ParamsCache } from './params-cache';
 import { CredentialSchema } from './schema';
 import {
   AccumulatorWitnessType,
   AttributeEquality,
+  AttributeRef,
   BBS_PLUS_SIGNATURE_PARAMS_LABEL_BYTES,
   BBS_SIGNATURE_PARAMS_LABEL_BYTES,
   BBDT16_MAC_PARAMS_LABEL_BYTES,
   BlindedAttributeEquality,
+  BlindedAttributeInequality,
   BlindSignatureType,
   BoundCheckParamType,
   BoundType,
   ID_STR, MEM_CHECK_KV_STR,
   MEM_CHECK_STR, NON_MEM_CHECK_KV_STR,
   NON_MEM_CHECK_STR,
+  PS_SIGNATURE_PARAMS_LABEL_BYTES,
+  psBlindedAttributeBase,
   PublicKey,
   REV_CHECK_STR,
   REV_ID_STR,
   RevocationStatusProtocol,
   SignatureParams,
+  SignatureParamsClass,
   STATUS_STR,
   SUBJECT_STR,
   TYPE_STR
 } from './types-and-consts';
+import { getDefaultLabelBytesForSignatureParams } from './util';
+import { areUint8ArraysEqual } from '../util';
 import { Versioned } from './versioned';
 
-type Credential = BBSCredential | BBSPlusCredential | PSCredential;
+type Credential = BBSCredential | BBSPlusCredential | PSCredential | BBDT16Credential;
 
 /**
  * Creates a request for a blinded credential, i.e. where some of the attributes are not known to the signer
@@ -91,6 +102,9 @@ export abstract class BlindedCredentialRequestBuilder<SigParams> extends Version
   // Attributes proved inequal to a public value in zero knowledge. An attribute can be proven inequal to any number of values
   attributeInequalities: Map<string, [IPresentedAttributeInequality, Uint8Array][]>;
 
+  // Inequalities between blinded and credential attributes
+  privateInequalities: BlindedAttributeInequality[];
+
   // Bounds on blinded attributes
   bounds: Map<string, IPresentedAttributeBound[]>;
 
@@ -108,6 +122,7 @@ export abstract class BlindedCredentialRequestBuilder<SigParams> extends Version
     this.presentationBuilder = new PresentationBuilder();
     this.attributeEqualities = [];
     this.attributeInequalities = new Map();
+    this.privateInequalities = [];
     this.bounds = new Map();
     this.verifEnc = new Map();
     this.circomPredicates = [];
@@ -133,6 +148,18 @@ export abstract class BlindedCredentialRequestBuilder<SigParams> extends Version
     return this._schema;
   }
 
+  /**
+   * Cache of params to reuse across requests. It's also used by the presentation builder of this request
+   * @param cache
+   */
+  set paramsCache(cache: ParamsCache | undefined) {
+    this.presentationBuilder.paramsCache = cache;
+  }
+
+  get paramsCache(): ParamsCache | undefined {
+    return this.presentationBuilder.paramsCache;
+  }
+
   /**
    * Blind some of the credential status values
    * @param registryId - this won't be blinded
@@ -192,6 +219,20 @@ export abstract class BlindedCredentialRequestBuilder<SigParams> extends Version
 
   abstract getBlinding(): Uint8Array | undefined;
 
+  /**
+   * Commitment to each blinded attribute, sorted by the attribute index. Only needed for PS.
+   */
+  protected getAttributeCommitments(): Uint8Array[] | undefined {
+    return undefined;
+  }
+
+  /**
+   * Blinding of the commitment to each blinded attribute, keyed by the attribute index. Only needed for PS.
+   */
+  protected getAttributeBlindings(): Map<number, Uint8Array> | undefined {
+    return undefined;
+  }
+
   static getSigType(): BlindSignatureType {
     throw new Error('This method should be implemented by extending class');
   }
@@ -347,6 +388,15 @@ export abstract class BlindedCredentialRequestBuilder<SigParams> extends Version
     this.attributeEqualities.push(equality);
   }
 
+  /**
+   * Enforce that the blinded attribute `attributeName` is inequal to an attribute of a credential without revealing either
+   * @param attributeName
+   * @param other - Reference to the credential attribute as a pair of credential index and attribute name
+   */
+  enforcePrivateInequalityOnBlindedAttribute(attributeName: string, other: AttributeRef) {
+    this.privateInequalities.push([attributeName, other]);
+  }
+
   /**
    * Enforce that the blinded attribute `attributeName` is inequal to the public value `inEqualTo`
    * @param attributeName
@@ -482,6 +532,22 @@ export abstract class BlindedCredentialRequestBuilder<SigParams> extends Version
     });
   }
 
+  // Get the signature params from the cache if they are created using the default label else create them
+  protected sigParamsOfRequiredSize<T extends SignatureParams>(
+    paramsClass: SignatureParamsClass,
+    totalAttributes: number,
+    labelOrParams: Uint8Array | T,
+    create: () => T
+  ): T {
+    if (this.paramsCache !== undefined && labelOrParams instanceof Uint8Array) {
+      const defaultLabel = getDefaultLabelBytesForSignatureParams(paramsClass);
+      if (defaultLabel !== null && areUint8ArraysEqual(labelOrParams, defaultLabel)) {
+        return this.paramsCache.getSignatureParams(paramsClass, totalAttributes) as T;
+      }
+    }
+    return create();
+  }
+
   protected createPresentation(sigParams?: SigParams | Uint8Array): Presentation {
     if (this.schema === undefined || this.subjectToBlind === undefined) {
       throw new Error('Both schema and subject to be present');
@@ -527,23 +593,30 @@ export abstract class BlindedCredentialRequestBuilder<SigParams> extends Version
     const blindedAttributes = unflatten(attributesWithoutVals) as object;
     // Compute commitment (commitments for PS)
     const commitment = this.computeCommitment(encodedAttributes, flattenedSchema[0].length, sigParams);
+    const req: IBlindCredentialRequest = {
+      // @ts-ignore
+      sigType: this.constructor.getSigType(),
+      version: this.version,
+      schema,
+      blindedAttributes,
+      commitment,
+      blindedAttributeEqualities: this.attributeEqualities,
+      unBlindedAttributes
+    };
+    const attributeCommitments = this.getAttributeCommitments();
+    if (attributeCommitments !== undefined) {
+      req.attributeCommitments = attributeCommitments;
+    }
     this.presentationBuilder.blindCredReq = {
-      req: {
-        // @ts-ignore
-        sigType: this.constructor.getSigType(),
-        version: this.version,
-        schema,
-        blindedAttributes,
-        commitment,
-        blindedAttributeEqualities: this.attributeEqualities,
-        unBlindedAttributes
-      },
+      req,
       sigParams: this.sigParams as SignatureParams,
       encodedAttributes,
       attrNameToIndex,
       flattenedSchema,
       blinding: this.getBlinding(),
+      attributeBlindings: this.getAttributeBlindings(),
       attributeInequalities: this.attributeInequalities,
+      privateInequalities: this.privateInequalities,
       bounds: this.bounds,
       verifEnc: this.verifEnc,
       circPred: this.circomPredicates,
@@ -559,7 +632,9 @@ export class BBSBlindedCredentialRequestBuilder extends BlindedCredentialRequest
     totalAttributes: number,
     labelOrParams: Uint8Array | BBSSignatureParams = BBS_SIGNATURE_PARAMS_LABEL_BYTES
   ): Uint8Array {
-    const sigParams = BBSSignatureParams.getSigParamsOfRequiredSize(totalAttributes, labelOrParams);
+    const sigParams = this.sigParamsOfRequiredSize(BBSSignatureParams, totalAttributes, labelOrParams, () =>
+      BBSSignatureParams.getSigParamsOfRequiredSize(totalAttributes, labelOrParams)
+    );
     this.sigParams = sigParams;
     return sigParams.commitToMessagesConstantTime(encodedSubject, false);
   }
@@ -617,7 +692,9 @@ export class BBSPlusBlindedCredentialRequestBuilder extends BlindedCredentialReq
     totalAttributes: number,
     labelOrParams: Uint8Array | BBSPlusSignatureParamsG1 = BBS_PLUS_SIGNATURE_PARAMS_LABEL_BYTES
   ): Uint8Array {
-    const sigParams = BBSPlusSignatureParamsG1.getSigParamsOfRequiredSize(totalAttributes, labelOrParams);
+    const sigParams = this.sigParamsOfRequiredSize(BBSPlusSignatureParamsG1, totalAttributes, labelOrParams, () =>
+      BBSPlusSignatureParamsG1.getSigParamsOfRequiredSize(totalAttributes, labelOrParams)
+    );
     this.sigParams = sigParams;
     const [commitment] = sigParams.commitToMessagesConstantTime(encodedSubject, false, this.blinding);
     return commitment;
@@ -659,7 +736,9 @@ export class BBDT16BlindedCredentialRequestBuilder extends BlindedCredentialRequ
     totalAttributes: number,
     labelOrParams: Uint8Array | BBDT16MacParams = BBDT16_MAC_PARAMS_LABEL_BYTES
   ): Uint8Array {
-    const sigParams = BBDT16MacParams.getMacParamsOfRequiredSize(totalAttributes, labelOrParams);
+    const sigParams = this.sigParamsOfRequiredSize(BBDT16MacParams, totalAttributes, labelOrParams, () =>
+      BBDT16MacParams.getMacParamsOfRequiredSize(totalAttributes, labelOrParams)
+    );
     this.sigParams = sigParams;
     const [commitment] = sigParams.commitToMessagesConstantTime(encodedSubject, false, this.blinding);
     return commitment;
@@ -670,8 +749,94 @@ export class BBDT16BlindedCredentialRequestBuilder extends BlindedCredentialRequ
   }
 }
 
+export class PSBlindedCredentialRequestBuilder extends BlindedCredentialRequestBuilder<PSSignatureParams> {
+  private readonly blinding: Uint8Array;
+
+  // Blinding of the commitment to each blinded attribute, keyed by the attribute index
+  private readonly attributeBlindings: Map<number, Uint8Array>;
+
+  // Commitment to each blinded attribute, sorted by the attribute index
+  private attributeCommitments?: Uint8Array[];
+
+  constructor() {
+    super();
+    this.blinding = generateRandomFieldElement();
+    this.attributeBlindings = new Map();
+  }
+
+  /**
+   * Create the request to be sent to the signer and the blindings to be kept to later unblind the credential
+   * @param sigParams
+   * @returns
+   */
+  finalize(
+    sigParams: Uint8Array | PSSignatureParams = PS_SIGNATURE_PARAMS_LABEL_BYTES
+  ): [PSBlindedCredentialRequest, PSBlinding] {
+    const request = new PSBlindedCredentialRequest(this.version, super.createPresentation(sigParams));
+    return [request, new PSBlinding(new Map(this.attributeBlindings), psBlindedAttributeBase(request.commitment))];
+  }
+
+  getBlinding(): Uint8Array {
+    return this.blinding;
+  }
+
+  protected getAttributeCommitments(): Uint8Array[] | undefined {
+    return this.attributeCommitments;
+  }
+
+  protected getAttributeBlindings(): Map<number, Uint8Array> {
+    return this.attributeBlindings;
+  }
+
+  /**
+   * Create a commitment to all blinded attributes and then a commitment to each blinded attribute, which is what the
+   * signer signs, with the base derived from the former
+   */
+  computeCommitment(
+    encodedSubject: Map<number, Uint8Array>,
+    totalAttributes: number,
+    labelOrParams: Uint8Array | PSSignatureParams = PS_SIGNATURE_PARAMS_LABEL_BYTES
+  ): Uint8Array {
+    const sigParams = this.sigParamsOfRequiredSize(PSSignatureParams, totalAttributes, labelOrParams, () =>
+      PSSignatureParams.getSigParamsOfRequiredSize(totalAttributes, labelOrParams)
+    );
+    this.sigParams = sigParams;
+    const indices = Array.from(encodedSubject.keys()).sort((a, b) => a - b);
+    const messages = indices.map((i) => encodedSubject.get(i) as Uint8Array);
+    // The WASM functions return arrays so converting to bytearrays like the deserialized commitments
+    const commitment = new Uint8Array(
+      sigParams.multiMessageCommitment(messages, sigParams.getParamsForIndices(indices), this.blinding)
+    );
+    const h = psBlindedAttributeBase(commitment);
+    this.attributeBlindings.clear();
+    this.attributeCommitments = indices.map((idx, j) => {
+      const blinding = PSBlindSignature.generateBlinding();
+      this.attributeBlindings.set(idx, blinding);
+      return new Uint8Array(sigParams.messageCommitment(messages[j], blinding, h));
+    });
+    return commitment;
+  }
+
+  static getSigType(): BlindSignatureType {
+    return BlindSignatureType.Ps;
+  }
+}
+
 export class BBSPlusBlinding extends BytearrayWrapper {}
 
 export class BBDT16Blinding extends BytearrayWrapper {}
 
-// TODO: Add for PS as well
+/**
+ * Blindings used in a PS blinded credential request. Kept by the requester to unblind the credential.
+ */
+export class PSBlinding {
+  // Blinding of the commitment to each blinded attribute, keyed by the attribute index
+  readonly blindings: Map<number, Uint8Array>;
+  // Base of the commitment to each blinded attribute
+  readonly h: Uint8Array;
+
+  constructor(blindings: Map<number, Uint8Array>, h: Uint8Array) {
+    this.blindings = blindings;
+    this.h = h;
+  }
+}
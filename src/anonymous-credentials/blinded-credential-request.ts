@@ -1,12 +1,15 @@
 import { Versioned } from './versioned';
 import { Presentation } from './presentation';
+import { IKeyResolver } from './key-resolver';
+import { cborToJson, CborObjectTag, jsonToCbor } from './cbor-serialization';
 import { CredentialVerificationParam, PredicateParamType, PublicKey, VERSION_STR } from './types-and-consts';
 import { AccumulatorPublicKey } from '../accumulator';
 import { VerifyResult } from 'crypto-wasm-new';
 import {
   BBSBlindedCredentialBuilder,
   BBSPlusBlindedCredentialBuilder,
-  BBDT16BlindedCredentialBuilder
+  BBDT16BlindedCredentialBuilder,
+  PSBlindedCredentialBuilder
 } from './blinded-credential-builder';
 
 /**
@@ -26,8 +29,11 @@ export abstract class BlindedCredentialRequest extends Versioned {
     this.presentation = presentation;
   }
 
+  /**
+   * Verify the presentation contained in the request. See `Presentation.verify` for the parameters.
+   */
   verify(
-    publicKeys: Map<number, CredentialVerificationParam> | CredentialVerificationParam[],
+    publicKeys: Map<number, CredentialVerificationParam> | CredentialVerificationParam[] | IKeyResolver,
     accumulatorPublicKeys?: Map<number, AccumulatorPublicKey>,
     predicateParams?: Map<string, PredicateParamType>,
     circomOutputs?: Map<number, Uint8Array[][]>,
@@ -73,6 +79,21 @@ export abstract class BlindedCredentialRequest extends Versioned {
       presentation: this.presentation.toJSON()
     };
   }
+
+  /**
+   * Serialize to compact binary form using deterministic CBOR. Decoding gives back the same JSON as `toJSON`.
+   */
+  toCBOR(): Uint8Array {
+    return jsonToCbor(this.toJSON(), CborObjectTag.BlindedCredentialRequest);
+  }
+
+  /**
+   * Create a request from the CBOR created by `toCBOR`
+   * @param bytes
+   */
+  static fromCBOR<T>(this: { fromJSON(j: object): T }, bytes: Uint8Array): T {
+    return this.fromJSON(cborToJson(bytes, CborObjectTag.BlindedCredentialRequest));
+  }
 }
 
 export class BBSBlindedCredentialRequest extends BlindedCredentialRequest {
@@ -117,6 +138,27 @@ export class BBSPlusBlindedCredentialRequest extends BlindedCredentialRequest {
   }
 }
 
+export class PSBlindedCredentialRequest extends BlindedCredentialRequest {
+  constructor(version: string, presentation: Presentation) {
+    super(version, presentation);
+  }
+
+  /**
+   * Return the blinded credential builder which will be used to create the blinded credential
+   * @returns
+   */
+  generateBlindedCredentialBuilder(): PSBlindedCredentialBuilder {
+    // @ts-ignore
+    return new PSBlindedCredentialBuilder(this.presentation.spec.blindCredentialRequest);
+  }
+
+  static fromJSON(j: object): PSBlindedCredentialRequest {
+    // @ts-ignore
+    const { version, presentation } = j;
+    return new PSBlindedCredentialRequest(version, Presentation.fromJSON(presentation));
+  }
+}
+
 export class BBDT16BlindedCredentialRequest extends BlindedCredentialRequest {
   constructor(version: string, presentation: Presentation) {
     super(version, presentation);
@@ -1,7 +1,7 @@
 import { BBSPlusBlindSignatureG1 } from '../bbs-plus';
 import { BBSBlindSignature, BBSSignature } from '../bbs';
-import { BBSCredential, BBSPlusCredential, BBDT16Credential } from './credential';
-import { BBSPlusBlinding, BBDT16Blinding } from './blinded-credential-request-builder';
+import { BBSCredential, BBSPlusCredential, BBDT16Credential, PSCredential } from './credential';
+import { BBSPlusBlinding, BBDT16Blinding, PSBlinding } from './blinded-credential-request-builder';
 import * as _ from 'lodash';
 import { CredentialCommon } from './credential-common';
 import {
@@ -12,9 +12,12 @@ import {
   BBDT16_BLINDED_CRED_PROOF_TYPE,
   BBDT16_CRED_PROOF_TYPE,
   PROOF_STR,
+  PS_BLINDED_CRED_PROOF_TYPE,
+  PS_CRED_PROOF_TYPE,
   TYPE_STR
 } from './types-and-consts';
 import { BBDT16BlindMac } from '../bbdt16-mac';
+import { PSBlindSignature, PSPublicKey } from '../ps';
 
 /**
  * A blinded credential created by the signer. Has to be converted to a (unblinded) credential
@@ -73,7 +76,12 @@ export abstract class BlindedCredential<BlindSig> extends CredentialCommon<Blind
 
   protected static validateProofType(typ: string) {
     if (
-      ![BBS_BLINDED_CRED_PROOF_TYPE, BBS_PLUS_BLINDED_CRED_PROOF_TYPE, BBDT16_BLINDED_CRED_PROOF_TYPE].includes(typ)
+      ![
+        BBS_BLINDED_CRED_PROOF_TYPE,
+        BBS_PLUS_BLINDED_CRED_PROOF_TYPE,
+        PS_BLINDED_CRED_PROOF_TYPE,
+        BBDT16_BLINDED_CRED_PROOF_TYPE
+      ].includes(typ)
     ) {
       throw new Error(`Invalid proof type ${typ}`);
     }
@@ -190,6 +198,58 @@ export class BBSPlusBlindedCredential extends BlindedCredential<BBSPlusBlindSign
   }
 }
 
+export class PSBlindedCredential extends BlindedCredential<PSBlindSignature> {
+  /**
+   * Convert to unblinded credential which can be verified with the public key
+   * @param blindedSubject
+   * @param blinding - blindings returned while creating the request
+   * @param publicKey - public key of the signer
+   * @param blindedStatus
+   * @param blindedTopLevelFields - Any top level fields that are blinded. Ensure that these are not set by the issuer.
+   * @returns
+   */
+  toCredential(
+    blindedSubject: object | object[],
+    blinding: PSBlinding,
+    publicKey: PSPublicKey,
+    blindedStatus?: object,
+    blindedTopLevelFields?: Map<string, unknown>
+  ): PSCredential {
+    const [updatedSubject, credStatus, topLevelFields] = this.getUpdatedAttributes(
+      PS_CRED_PROOF_TYPE,
+      blindedSubject,
+      blindedStatus,
+      blindedTopLevelFields
+    );
+    const unblindedSig = this.signature.unblind(blinding.blindings, publicKey, blinding.h);
+    return new PSCredential(this.version, this.schema, updatedSubject, topLevelFields, unblindedSig, credStatus);
+  }
+
+  static fromJSON(j: object, proofValue?: string): PSBlindedCredential {
+    const [cryptoVersion, credentialSchema, credentialSubject, topLevelFields, sig, credentialStatus] = this.parseJSON(
+      j,
+      proofValue
+    );
+
+    return new this(
+      cryptoVersion,
+      credentialSchema,
+      credentialSubject,
+      topLevelFields,
+      new PSBlindSignature(sig),
+      credentialStatus
+    );
+  }
+
+  static applyDefaultProofMetadataIfNeeded(s: object) {
+    if (!s[PROOF_STR]) {
+      s[PROOF_STR] = {
+        type: PS_BLINDED_CRED_PROOF_TYPE
+      };
+    }
+  }
+}
+
 export class BBDT16BlindedCredential extends BlindedCredential<BBDT16BlindMac> {
   /**
    * Convert to unblinded credential which can be verified with the secret key
@@ -0,0 +1,229 @@
+import b58 from 'bs58';
+import { CborTagged, decodeCbor, encodeCbor } from '../cbor';
+import {
+  CRYPTO_VERSION_STR,
+  ID_STR,
+  ISSUER_STR,
+  PROOF_STR,
+  REV_CHECK_STR,
+  REV_ID_STR,
+  SCHEMA_DETAILS_STR,
+  SCHEMA_STR,
+  STATUS_STR,
+  SUBJECT_STR,
+  TYPE_STR,
+  VERSION_STR
+} from './types-and-consts';
+
+// Functions for the compact binary serialization of credentials, presentations and blinded credential requests. The
+// serialization is the deterministic CBOR encoding of their JSON with the following changes:
+// 1. Keys present in `KNOWN_KEYS` are replaced with their index in it.
+// 2. Base58 strings of binary values like signatures, proofs, accumulators and ciphertexts are replaced with byte strings.
+// 3. The encoded object is tagged with the tag of its kind.
+// Decoding reverses the above so the decoded JSON is same as the JSON that was encoded.
+
+/**
+ * CBOR tag identifying the kind of the encoded object
+ */
+export enum CborObjectTag {
+  Credential = 53441,
+  Presentation = 53442,
+  BlindedCredentialRequest = 53443
+}
+
+// Keys are replaced with their index in this list. Entries must only be appended to this list, never removed or reordered
+// as that would break decoding of already encoded objects.
+const KNOWN_KEYS = [
+  VERSION_STR,
+  CRYPTO_VERSION_STR,
+  SCHEMA_STR,
+  SUBJECT_STR,
+  STATUS_STR,
+  PROOF_STR,
+  TYPE_STR,
+  'proofValue',
+  ID_STR,
+  REV_CHECK_STR,
+  REV_ID_STR,
+  ISSUER_STR,
+  SCHEMA_DETAILS_STR,
+  'context',
+  'nonce',
+  'spec',
+  'credentials',
+  'schema',
+  'revealedAttributes',
+  'status',
+  'accumulated',
+  'extra',
+  'sigType',
+  'bounds',
+  'min',
+  'max',
+  'paramId',
+  'protocol',
+  'verifiableEncryptions',
+  'chunkBitSize',
+  'commitmentGensId',
+  'encryptionKeyId',
+  'snarkKeyId',
+  'circomPredicates',
+  'circuitId',
+  'privateVars',
+  'publicVars',
+  'varName',
+  'value',
+  'attributeName',
+  'attributeRef',
+  'attributeInequalities',
+  'inEqualTo',
+  'attributeEqualities',
+  'boundedPseudonyms',
+  'unboundedPseudonyms',
+  'commitKey',
+  'basesForAttributes',
+  'baseForSecretKey',
+  'attributes',
+  'circomPredicatesMultiCred',
+  'blindCredentialRequest',
+  'blindedAttributes',
+  'unBlindedAttributes',
+  'commitment',
+  'blindedAttributeEqualities',
+  'pseudonyms',
+  'credentialAttributes',
+  'attributeCiphertexts',
+  'blindedAttributeCiphertexts',
+  'presentation',
+  'privateInequalities',
+  'blindedAttributePrivateInequalities',
+  'blindedAttribute',
+  'attribute',
+  'attributeComparisons',
+  'operator',
+  'multiplier',
+  'offset',
+  'setMemberships',
+  'values',
+  'commitments',
+  'linearCombinations',
+  'weights',
+  'epochPseudonyms',
+  'scope',
+  'epoch',
+  'maxCount',
+  'arrayMemberships',
+  'credIdx',
+  'arrayName',
+  'itemAttributeName'
+];
+
+const KEY_INDICES = new Map<string, number>(KNOWN_KEYS.map((k, i) => [k, i]));
+
+// Keys whose string values (or array of strings) are base58 encoded binary values
+const BINARY_KEYS = new Set([
+  'proofValue',
+  PROOF_STR,
+  'nonce',
+  'accumulated',
+  'commitment',
+  'commitments',
+  'value',
+  'basesForAttributes',
+  'baseForSecretKey'
+]);
+
+// Keys under which all strings are base58 encoded binary values
+const BINARY_SUBTREE_KEYS = new Set(['attributeCiphertexts', 'blindedAttributeCiphertexts']);
+
+/**
+ * Serialize the JSON of an object, like the one returned by `Presentation.toJSON`, to CBOR
+ * @param j
+ * @param tag - Kind of the object
+ */
+export function jsonToCbor(j: object, tag: CborObjectTag): Uint8Array {
+  return encodeCbor(new CborTagged(tag, toCborValue(j, false)));
+}
+
+/**
+ * Deserialize the CBOR created by `jsonToCbor` to the JSON of the object
+ * @param bytes
+ * @param tag - Expected kind of the object
+ */
+export function cborToJson(bytes: Uint8Array, tag: CborObjectTag): object {
+  const decoded = decodeCbor(bytes);
+  if (!(decoded instanceof CborTagged)) {
+    throw new Error(`Expected a tagged CBOR item`);
+  }
+  if (decoded.tag !== tag) {
+    throw new Error(`Expected CBOR tag ${tag} but found ${decoded.tag}`);
+  }
+  if (!(decoded.value instanceof Map)) {
+    throw new Error(`Expected the tagged CBOR item to be a map`);
+  }
+  return fromCborValue(decoded.value) as object;
+}
+
+function toCborValue(v: unknown, binary: boolean): unknown {
+  if (typeof v === 'string') {
+    return binary ? bs58ToBytesIfLossless(v) : v;
+  }
+  if (Array.isArray(v)) {
+    return v.map((item) => toCborValue(item, binary));
+  }
+  if (v !== null && typeof v === 'object') {
+    if (typeof v['toJSON'] === 'function') {
+      // Like JSON.stringify does, eg. a `Date` is serialized as its ISO string
+      return toCborValue(v['toJSON'](), binary);
+    }
+    const m = new Map<number | string, unknown>();
+    for (const [k, val] of Object.entries(v)) {
+      const idx = KEY_INDICES.get(k);
+      const isBinary = binary || BINARY_SUBTREE_KEYS.has(k) || (BINARY_KEYS.has(k) && isStringOrStringArray(val));
+      m.set(idx !== undefined ? idx : k, toCborValue(val, isBinary));
+    }
+    return m;
+  }
+  return v;
+}
+
+function fromCborValue(v: unknown): unknown {
+  if (v instanceof Uint8Array) {
+    return b58.encode(v);
+  }
+  if (Array.isArray(v)) {
+    return v.map(fromCborValue);
+  }
+  if (v instanceof Map) {
+    const o = {};
+    for (const [k, val] of v.entries()) {
+      if (typeof k === 'number') {
+        if (k >= KNOWN_KEYS.length) {
+          throw new Error(`Unknown key index ${k}`);
+        }
+        o[KNOWN_KEYS[k]] = fromCborValue(val);
+      } else {
+        o[k] = fromCborValue(val);
+      }
+    }
+    return o;
+  }
+  if (v instanceof CborTagged) {
+    throw new Error(`Unexpected tag ${v.tag}`);
+  }
+  return v;
+}
+
+// Only convert if decoding gives back the same string so that the conversion is lossless
+function bs58ToBytesIfLossless(s: string): string | Uint8Array {
+  try {
+    const b = b58.decode(s);
+    return b58.encode(b) === s ? b : s;
+  } catch (e) {
+    return s;
+  }
+}
+
+function isStringOrStringArray(v: unknown): boolean {
+  return typeof v === 'string' || (Array.isArray(v) && v.every((s) => typeof s === 'string'));
+}
@@ -12,9 +12,12 @@ import {
   SCHEMA_STR,
   STATUS_STR,
   SUBJECT_STR,
-  TYPE_STR
+  TYPE_STR,
+  VALID_FROM_STR,
+  VALID_UNTIL_STR
 } from './types-and-consts';
 import { Versioned } from './versioned';
+import { convertDateToTimestamp } from '../util';
 
 /**
  * Common fields and methods of `CredentialBuilder` and `BlindedCredentialBuilder`
@@ -90,6 +93,29 @@ export abstract class CredentialBuilderCommon extends Versioned {
     };
   }
 
+  /**
+   * Set the period in which the credential is valid as the top level fields `validFrom` and `validUntil`. The dates are
+   * stored as ISO 8601 strings so the schema should have them as date-times, see `CredentialSchema.validityPeriodAsJsonSchema`.
+   * @param validFrom - If absent, the credential is valid from its issuance
+   * @param validUntil - If absent, the credential never expires
+   */
+  setValidityPeriod(validFrom?: Date | string, validUntil?: Date | string) {
+    if (validFrom === undefined && validUntil === undefined) {
+      throw new Error('Either validFrom or validUntil should be given');
+    }
+    const from = validFrom !== undefined ? convertDateToTimestamp(validFrom) : undefined;
+    const until = validUntil !== undefined ? convertDateToTimestamp(validUntil) : undefined;
+    if (from !== undefined && until !== undefined && from >= until) {
+      throw new Error(`validFrom ${validFrom} should be before validUntil ${validUntil}`);
+    }
+    if (from !== undefined) {
+      this._topLevelFields.set(VALID_FROM_STR, new Date(from).toISOString());
+    }
+    if (until !== undefined) {
+      this._topLevelFields.set(VALID_UNTIL_STR, new Date(until).toISOString());
+    }
+  }
+
   setTopLevelField(name: string, value: unknown) {
     if (value !== undefined) {
       this._topLevelFields.set(name, value);
@@ -119,7 +145,7 @@ export abstract class CredentialBuilderCommon extends Versioned {
     }
 
     this.applyDefaultProofMetadataIfNeeded(s);
-    return s;
+    return this.schema !== undefined ? this.schema.padForSigning(s) : s;
   }
 
   /**
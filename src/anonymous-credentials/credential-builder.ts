@@ -21,6 +21,13 @@ import { PSPublicKey, PSSecretKey, PSSignature, PSSignatureParams } from '../ps'
 import { SignedMessages } from '../types';
 import { CredentialBuilderCommon } from './credential-builder-common';
 import { BBDT16Mac, BBDT16MacParams, BBDT16MacSecretKey } from '../bbdt16-mac';
+import {
+  ThresholdBbsPlusSignatureShare,
+  ThresholdBbsPlusSigner,
+  ThresholdBbsSignatureShare,
+  ThresholdBbsSigner,
+  ThresholdSigner
+} from '../threshold-sigs';
 
 export interface ISigningOpts {
   // Whether the credential should contain exactly the same fields (object keys, array items, literals) as the
@@ -33,6 +40,15 @@ export const DefaultSigningOpts: ISigningOpts = {
   requireSameFieldsAsSchema: true
 };
 
+// Threshold signer of a signature scheme with the given signature params and signature share
+type ThresholdSignerOf<SignatureParams, Share> = ThresholdSigner & {
+  createSigShare(messages: Uint8Array[], indexInBatch: number, params: SignatureParams, encodeMessages: boolean): Share;
+};
+
+type SignatureParamsClass<SignatureParams> = {
+  getSigParamsOfRequiredSize(msgCount: number, labelOrParams: Uint8Array | SignatureParams): SignatureParams;
+};
+
 /**
  * Create a credential
  */
@@ -95,6 +111,132 @@ export abstract class CredentialBuilder<
     );
   }
 
+  /**
+   * Serializes and encodes the credential like `sign` does but doesn't sign it. Used when the signature is created by
+   * a threshold of signers. Returns the encoded attributes in the order they are signed.
+   * @param signingOpts
+   */
+  protected encodeForSigning(signingOpts?: Partial<ISigningOpts>): Uint8Array[] {
+    const cred = this.updateSchemaIfNeeded(signingOpts ?? DefaultSigningOpts);
+    this._encodedAttributes = (this.schema as CredentialSchema).encoder.encodeMessageObjectAsObjectConstantTime(cred);
+    return Object.values(this._encodedAttributes);
+  }
+
+  /**
+   * Create the credential with a signature which was not created by `sign`, like one aggregated from the signature
+   * shares of threshold signers. Expects `encodeForSigning` to have been called.
+   * @param sig
+   */
+  protected credentialWithSignature(sig: Signature): Credential<PublicKey, Signature, SignatureParams> {
+    this._sig = sig;
+    return this.newCredential(
+      this._version,
+      this.schema as CredentialSchema,
+      // @ts-ignore
+      this._subject,
+      this._topLevelFields,
+      this._sig,
+      this._credStatus
+    );
+  }
+
+  /**
+   * Create the threshold signer's share of the signature on the credential. Used by the builders of signature schemes
+   * supporting threshold signing.
+   * @param signer - Should have finished round 2 of the threshold signing protocol
+   * @param indexInBatch - Index (0-based) of this credential's signature in the batch of signatures produced by the
+   * signers' execution of the protocol. Each credential signed in that execution must have a different index so this
+   * throws if the signer has already created a share for the index.
+   * @param paramsClass - Class of the signature params of the scheme
+   * @param label - Label to generate the signature params when `signatureParams` isn't given
+   * @param signatureParams
+   * @param signingOpts
+   */
+  protected createThresholdSigShareWith<Share>(
+    signer: ThresholdSignerOf<SignatureParams, Share>,
+    indexInBatch: number,
+    paramsClass: SignatureParamsClass<SignatureParams>,
+    label: Uint8Array,
+    signatureParams?: SignatureParams,
+    signingOpts?: Partial<ISigningOpts>
+  ): Share {
+    signer.ensureIndexInBatchUnused(indexInBatch);
+    const encodedAttributes = this.encodeForSigning(signingOpts);
+    const sigParams = paramsClass.getSigParamsOfRequiredSize(encodedAttributes.length, signatureParams ?? label);
+    return signer.createSigShare(encodedAttributes, indexInBatch, sigParams, false);
+  }
+
+  /**
+   * Create the credential with the signature aggregated from the signature shares of a threshold of signers
+   * @param shares
+   * @param aggregate - Aggregates the shares as per the signature scheme
+   * @param signingOpts
+   */
+  protected aggregateThresholdSigSharesWith<Share>(
+    shares: Share[],
+    aggregate: (shares: Share[]) => Signature,
+    signingOpts?: Partial<ISigningOpts>
+  ): Credential<PublicKey, Signature, SignatureParams> {
+    this.encodeForSigning(signingOpts);
+    return this.credentialWithSignature(aggregate(shares));
+  }
+
+  /**
+   * Create the credential by creating a signature share with each of the threshold signers and aggregating the shares
+   * @param signers - Should have finished round 2 of the threshold signing protocol
+   * @param indexInBatch - See `createThresholdSigShareWith`
+   * @param paramsClass
+   * @param label
+   * @param aggregate
+   * @param signatureParams
+   * @param signingOpts
+   */
+  protected signWithThresholdSignersWith<Share>(
+    signers: ThresholdSignerOf<SignatureParams, Share>[],
+    indexInBatch: number,
+    paramsClass: SignatureParamsClass<SignatureParams>,
+    label: Uint8Array,
+    aggregate: (shares: Share[]) => Signature,
+    signatureParams?: SignatureParams,
+    signingOpts?: Partial<ISigningOpts>
+  ): Credential<PublicKey, Signature, SignatureParams> {
+    // Check all signers first so that no signer uses up the index when another can't sign
+    signers.forEach((s) => s.ensureIndexInBatchUnused(indexInBatch));
+    const shares = signers.map((s) =>
+      this.createThresholdSigShareWith(s, indexInBatch, paramsClass, label, signatureParams, signingOpts)
+    );
+    return this.aggregateThresholdSigSharesWith(shares, aggregate, signingOpts);
+  }
+
+  /**
+   * Returns the indices in the batch to sign a batch of credentials with the threshold signers, i.e. the smallest
+   * indices none of the signers has created a signature share for. Throws if the signers have different batch sizes or
+   * there aren't enough unused indices.
+   * @param numCredentials
+   * @param signers
+   */
+  protected static indicesForBatch(numCredentials: number, signers: ThresholdSigner[]): number[] {
+    if (signers.length === 0) {
+      throw new Error('Need at least one threshold signer');
+    }
+    const sigBatchSize = signers[0].sigBatchSize;
+    if (signers.some((s) => s.sigBatchSize !== sigBatchSize)) {
+      throw new Error('All threshold signers should have the same batch size');
+    }
+    const indices: number[] = [];
+    for (let i = 0; i < sigBatchSize && indices.length < numCredentials; i++) {
+      if (!signers.some((s) => s.usedIndicesInBatch.has(i))) {
+        indices.push(i);
+      }
+    }
+    if (indices.length < numCredentials) {
+      throw new Error(
+        `Cannot sign ${numCredentials} credentials as the batch size is ${sigBatchSize} with ${indices.length} unused`
+      );
+    }
+    return indices;
+  }
+
   /**
    * When schema doesn't match the credential, create a new appropriate schema and update the credential. Returns the
    * serialized credential. Legacy version. Used by SDK for some older credential versions
@@ -201,6 +343,91 @@ export class BBSCredentialBuilder extends CredentialBuilder<
   protected applyDefaultProofMetadataIfNeeded(s: object) {
     BBSCredential.applyDefaultProofMetadataIfNeeded(s);
   }
+
+  /**
+   * Create this signer's share of the signature on the credential when the credential is signed by a threshold of
+   * signers instead of a single secret key. Each signer creates its share using a builder with the same credential and
+   * the shares are aggregated using `aggregateThresholdSigShares`.
+   * @param signer - Should have finished round 2 of the threshold signing protocol
+   * @param indexInBatch - See `CredentialBuilder.createThresholdSigShareWith`
+   * @param signatureParams
+   * @param signingOpts
+   */
+  createThresholdSigShare(
+    signer: ThresholdBbsSigner,
+    indexInBatch: number,
+    signatureParams?: BBSSignatureParams,
+    signingOpts?: Partial<ISigningOpts>
+  ): ThresholdBbsSignatureShare {
+    return this.createThresholdSigShareWith(
+      signer,
+      indexInBatch,
+      BBSSignatureParams,
+      BBS_SIGNATURE_PARAMS_LABEL_BYTES,
+      signatureParams,
+      signingOpts
+    );
+  }
+
+  /**
+   * Aggregate the signature shares of a threshold of signers to create the credential. The credential can be verified
+   * using the threshold public key.
+   * @param shares
+   * @param signingOpts
+   */
+  aggregateThresholdSigShares(
+    shares: ThresholdBbsSignatureShare[],
+    signingOpts?: Partial<ISigningOpts>
+  ): BBSCredential {
+    return this.aggregateThresholdSigSharesWith(
+      shares,
+      ThresholdBbsSigner.aggregateShares,
+      signingOpts
+    ) as BBSCredential;
+  }
+
+  /**
+   * Sign the credential with the given threshold signers by creating a signature share with each of them and
+   * aggregating the shares.
+   * @param signers - Should have finished round 2 of the threshold signing protocol
+   * @param indexInBatch - See `CredentialBuilder.createThresholdSigShareWith`
+   * @param signatureParams
+   * @param signingOpts
+   */
+  signWithThresholdSigners(
+    signers: ThresholdBbsSigner[],
+    indexInBatch: number,
+    signatureParams?: BBSSignatureParams,
+    signingOpts?: Partial<ISigningOpts>
+  ): BBSCredential {
+    return this.signWithThresholdSignersWith(
+      signers,
+      indexInBatch,
+      BBSSignatureParams,
+      BBS_SIGNATURE_PARAMS_LABEL_BYTES,
+      ThresholdBbsSigner.aggregateShares,
+      signatureParams,
+      signingOpts
+    ) as BBSCredential;
+  }
+
+  /**
+   * Sign a batch of credentials with the given threshold signers. The credentials get the signatures of the batch with
+   * the smallest indices that none of the signers has used yet so the batch can be signed in several calls.
+   * @param builders
+   * @param signers - Should have finished round 2 of the threshold signing protocol
+   * @param signatureParams
+   * @param signingOpts
+   */
+  static signBatchWithThresholdSigners(
+    builders: BBSCredentialBuilder[],
+    signers: ThresholdBbsSigner[],
+    signatureParams?: BBSSignatureParams,
+    signingOpts?: Partial<ISigningOpts>
+  ): BBSCredential[] {
+    const indices = CredentialBuilder.indicesForBatch(builders.length, signers);
+    return builders.map((b, i) => b.signWithThresholdSigners(signers, indices[i], signatureParams, signingOpts));
+  }
 }
 
 /**
@@ -235,6 +462,91 @@ export class BBSPlusCredentialBuilder extends CredentialBuilder<
   protected applyDefaultProofMetadataIfNeeded(s: object) {
     BBSPlusCredential.applyDefaultProofMetadataIfNeeded(s);
   }
+
+  /**
+   * Create this signer's share of the signature on the credential when the credential is signed by a threshold of
+   * signers instead of a single secret key. Each signer creates its share using a builder with the same credential and
+   * the shares are aggregated using `aggregateThresholdSigShares`.
+   * @param signer - Should have finished round 2 of the threshold signing protocol
+   * @param indexInBatch - See `CredentialBuilder.createThresholdSigShareWith`
+   * @param signatureParams
+   * @param signingOpts
+   */
+  createThresholdSigShare(
+    signer: ThresholdBbsPlusSigner,
+    indexInBatch: number,
+    signatureParams?: BBSPlusSignatureParamsG1,
+    signingOpts?: Partial<ISigningOpts>
+  ): ThresholdBbsPlusSignatureShare {
+    return this.createThresholdSigShareWith(
+      signer,
+      indexInBatch,
+      BBSPlusSignatureParamsG1,
+      BBS_PLUS_SIGNATURE_PARAMS_LABEL_BYTES,
+      signatureParams,
+      signingOpts
+    );
+  }
+
+  /**
+   * Aggregate the signature shares of a threshold of signers to create the credential. The credential can be verified
+   * using the threshold public key.
+   * @param shares
+   * @param signingOpts
+   */
+  aggregateThresholdSigShares(
+    shares: ThresholdBbsPlusSignatureShare[],
+    signingOpts?: Partial<ISigningOpts>
+  ): BBSPlusCredential {
+    return this.aggregateThresholdSigSharesWith(
+      shares,
+      ThresholdBbsPlusSigner.aggregateShares,
+      signingOpts
+    ) as BBSPlusCredential;
+  }
+
+  /**
+   * Sign the credential with the given threshold signers by creating a signature share with each of them and
+   * aggregating the shares.
+   * @param signers - Should have finished round 2 of the threshold signing protocol
+   * @param indexInBatch - See `CredentialBuilder.createThresholdSigShareWith`
+   * @param signatureParams
+   * @param signingOpts
+   */
+  signWithThresholdSigners(
+    signers: ThresholdBbsPlusSigner[],
+    indexInBatch: number,
+    signatureParams?: BBSPlusSignatureParamsG1,
+    signingOpts?: Partial<ISigningOpts>
+  ): BBSPlusCredential {
+    return this.signWithThresholdSignersWith(
+      signers,
+      indexInBatch,
+      BBSPlusSignatureParamsG1,
+      BBS_PLUS_SIGNATURE_PARAMS_LABEL_BYTES,
+      ThresholdBbsPlusSigner.aggregateShares,
+      signatureParams,
+      signingOpts
+    ) as BBSPlusCredential;
+  }
+
+  /**
+   * Sign a batch of credentials with the given threshold signers. The credentials get the signatures of the batch with
+   * the smallest indices that none of the signers has used yet so the batch can be signed in several calls.
+   * @param builders
+   * @param signers - Should have finished round 2 of the threshold signing protocol
+   * @param signatureParams
+   * @param signingOpts
+   */
+  static signBatchWithThresholdSigners(
+    builders: BBSPlusCredentialBuilder[],
+    signers: ThresholdBbsPlusSigner[],
+    signatureParams?: BBSPlusSignatureParamsG1,
+    signingOpts?: Partial<ISigningOpts>
+  ): BBSPlusCredential[] {
+    const indices = CredentialBuilder.indicesForBatch(builders.length, signers);
+    return builders.map((b, i) => b.signWithThresholdSigners(signers, indices[i], signatureParams, signingOpts));
+  }
 }
 
 /**
@@ -1,9 +1,9 @@
 import semver from 'semver/preload';
 import { Versioned } from './versioned';
 import { CredentialSchema } from './schema';
-import { PROOF_STR, SCHEMA_STR, STATUS_STR, SUBJECT_STR } from './types-and-consts';
+import { PROOF_STR, SCHEMA_STR, STATUS_STR, SUBJECT_STR, VALID_FROM_STR, VALID_UNTIL_STR } from './types-and-consts';
 import b58 from 'bs58';
-import { isEmptyObject } from '../util';
+import { convertDateToTimestamp, isEmptyObject } from '../util';
 
 /**
  * Common fields and methods of Credential and BlindedCredential
@@ -40,6 +40,21 @@ export abstract class CredentialCommon<Sig> extends Versioned {
     return v;
   }
 
+  /**
+   * Returns true if the credential's validity period, if any, includes the given time. A credential without `validFrom` and
+   * `validUntil` is always valid.
+   * @param time - Defaults to the current time
+   */
+  isValidAt(time: Date | number = new Date()): boolean {
+    const t = typeof time === 'number' ? time : convertDateToTimestamp(time);
+    const validFrom = this.topLevelFields.get(VALID_FROM_STR);
+    const validUntil = this.topLevelFields.get(VALID_UNTIL_STR);
+    return (
+      (validFrom === undefined || convertDateToTimestamp(validFrom) <= t) &&
+      (validUntil === undefined || t <= convertDateToTimestamp(validUntil))
+    );
+  }
+
   toJSON(): object {
     const j = {};
     const schema = semver.gte(this.version, '0.6.0') ? this.schema.toJSON() : this.schema.toJsonString();
@@ -0,0 +1,192 @@
+import { VerifyResult } from 'crypto-wasm-new';
+import { flatten } from 'flat';
+import _ from 'lodash';
+import { AccumulatorPublicKey, AccumulatorSecretKey, IAccumulatorState, PositiveAccumulator } from '../accumulator';
+import { BBSCredential, BBSPlusCredential, BBDT16Credential, PSCredential } from './credential';
+import { BlindedCredentialRequest } from './blinded-credential-request';
+import { BlindedCredentialRequestBuilder } from './blinded-credential-request-builder';
+import { IKeyResolver, isKeyResolver } from './key-resolver';
+import { IPresentedSetMembership } from './presentation-specification';
+import { CredentialSchema } from './schema';
+import {
+  AccumulatorValueType,
+  CredentialVerificationParam,
+  ID_STR,
+  PredicateParamType,
+  PublicKey,
+  REV_ID_STR,
+  STATUS_STR,
+  SUBJECT_STR
+} from './types-and-consts';
+import { areAccumulatorValuesEqual } from './util';
+
+type Credential = BBSCredential | BBSPlusCredential | PSCredential | BBDT16Credential;
+
+/**
+ * Request by a holder to refresh a credential, i.e. get a new credential with updated attributes from the issuer while
+ * keeping some attributes, like a link secret, blinded. Sent by the holder to the issuer.
+ */
+export interface ICredentialRefreshRequest<Req extends BlindedCredentialRequest = BlindedCredentialRequest> {
+  // Request for the new credential. Its presentation proves possession of the old credential and that the blinded
+  // attributes are the same as in the old credential
+  request: Req;
+  // Index of the old credential in the request's presentation
+  credentialIndex: number;
+  // Revocation id of the old credential, proven to be the one in the old credential, so that the issuer can revoke it
+  revocationId?: string;
+}
+
+/**
+ * Response of the issuer to a refresh request. Sent by the issuer to the holder.
+ */
+export interface ICredentialRefreshResponse<BlindedCred> {
+  // The new credential which the holder unblinds with the blinded attributes of the old credential
+  blindedCredential: BlindedCred;
+  // Whether the old credential was revoked
+  revoked: boolean;
+}
+
+/**
+ * Prepare a blinded credential request to refresh a credential. The blinded attributes of the request are the given
+ * attributes of the old credential and the request proves that these are equal to the ones in the old credential. The
+ * holder can add more predicates on the request and then finalize it. If the old credential has a status, the accumulator
+ * info for it must be added using `addAccumInfoForCredStatus` with the returned credential index.
+ * @param reqBuilder - Builder without a subject to blind. Its schema is set to the old credential's schema if not set.
+ * @param credential - The old credential
+ * @param blindedAttributeNames - Names of the old credential's attributes to keep blinded, like
+ * `credentialSubject.linkSecret`
+ * @param pk - Public key of the issuer, needed for PS
+ * @param revealRevocationId - Whether to reveal the revocation id of the old credential to the issuer for revoking it
+ * @returns - The request without the blinded credential request which is created by finalizing `reqBuilder`
+ */
+export function prepareCredentialRefresh<SigParams>(
+  reqBuilder: BlindedCredentialRequestBuilder<SigParams>,
+  credential: Credential,
+  blindedAttributeNames: string[],
+  pk?: PublicKey,
+  revealRevocationId = false
+): Omit<ICredentialRefreshRequest, 'request'> {
+  if (reqBuilder.subjectToBlind !== undefined) {
+    throw new Error('Subject to blind should not be set as it is taken from the credential being refreshed');
+  }
+  if (blindedAttributeNames.length === 0) {
+    throw new Error('Provide at least one attribute to keep blinded');
+  }
+  const subjectToBlind = {};
+  for (const name of blindedAttributeNames) {
+    if (!name.startsWith(`${SUBJECT_STR}.`)) {
+      throw new Error(`Only attributes of ${SUBJECT_STR} can be kept blinded but was given ${name}`);
+    }
+    const path = name.slice(SUBJECT_STR.length + 1);
+    const value = _.get(credential.subject, path);
+    if (value === undefined) {
+      throw new Error(`Attribute ${name} isn't present in the credential`);
+    }
+    _.set(subjectToBlind, path, value);
+  }
+  if (reqBuilder.schema === undefined) {
+    reqBuilder.schema = credential.schema;
+  }
+  reqBuilder.subjectToBlind = subjectToBlind;
+
+  const credentialIndex = reqBuilder.addCredentialToPresentation(credential, pk);
+  for (const name of blindedAttributeNames) {
+    reqBuilder.enforceEqualityOnBlindedAttribute([name, [[credentialIndex, name]]]);
+  }
+
+  let revocationId: string | undefined;
+  if (revealRevocationId) {
+    if (credential.credentialStatus === undefined) {
+      throw new Error('Credential has no status so there is no revocation id to reveal');
+    }
+    revocationId = credential.credentialStatus[REV_ID_STR];
+    // Status can't be revealed so prove that the revocation id is in a set of only that id
+    reqBuilder.presentationBuilder.enforceSetMembership(credentialIndex, `${STATUS_STR}.${REV_ID_STR}`, [revocationId]);
+  }
+  return { credentialIndex, revocationId };
+}
+
+/**
+ * Verify a refresh request by the issuer. Besides verifying the request's presentation, checks that every blinded
+ * attribute is proven equal to the same attribute of the old credential and that the revocation id, if given, is the
+ * old credential's. The issuer should pass its own key for the old credential and can then create the new credential
+ * using the request's `generateBlindedCredentialBuilder`. If the old credential has a status, the accumulated value in the
+ * presentation must be the current one as otherwise a revoked credential could be refreshed.
+ * @param refreshRequest
+ * @param publicKeys - See `Presentation.verify`
+ * @param accumulatorPublicKeys
+ * @param accumulated - Current accumulated value of the old credential's accumulator. Needed if the old credential has a
+ * status unless `publicKeys` is a resolver which returns the current accumulated value.
+ * @param predicateParams
+ */
+export function verifyCredentialRefreshRequest(
+  refreshRequest: ICredentialRefreshRequest,
+  publicKeys: Map<number, CredentialVerificationParam> | CredentialVerificationParam[] | IKeyResolver,
+  accumulatorPublicKeys?: Map<number, AccumulatorPublicKey>,
+  accumulated?: AccumulatorValueType,
+  predicateParams?: Map<string, PredicateParamType>
+): VerifyResult {
+  const { request, credentialIndex, revocationId } = refreshRequest;
+  const presentedCred = request.presentation.spec.credentials[credentialIndex];
+  if (presentedCred === undefined) {
+    return { verified: false, error: `No credential at index ${credentialIndex} in the request` };
+  }
+
+  // All blinded attributes must come from the old credential, except a blinded revocation id
+  const equalities = request.presentation.spec.blindCredentialRequest?.blindedAttributeEqualities ?? [];
+  for (const name of Object.keys(flatten(request.blindedAttributes))) {
+    if (name === `${STATUS_STR}.${REV_ID_STR}`) {
+      continue;
+    }
+    const kept = equalities.some(
+      ([n, refs]) => n === name && refs.some(([i, other]) => i === credentialIndex && other === name)
+    );
+    if (!kept) {
+      return { verified: false, error: `Blinded attribute ${name} isn't proven equal to the old credential's` };
+    }
+  }
+
+  if (revocationId !== undefined) {
+    const sets = _.get(presentedCred.setMemberships, `${STATUS_STR}.${REV_ID_STR}`) as
+      | IPresentedSetMembership[]
+      | undefined;
+    if (sets === undefined || !sets.some((s) => s.values.length === 1 && s.values[0] === revocationId)) {
+      return { verified: false, error: `Revocation id ${revocationId} isn't proven to be the old credential's` };
+    }
+  }
+
+  if (presentedCred.status !== undefined) {
+    const current =
+      accumulated ??
+      (isKeyResolver(publicKeys) ? publicKeys.accumulator(presentedCred.status[ID_STR])?.accumulated : undefined);
+    if (current === undefined) {
+      return { verified: false, error: 'Current accumulated value is needed as the old credential has a status' };
+    }
+    if (!areAccumulatorValuesEqual(current, presentedCred.status.accumulated)) {
+      return { verified: false, error: 'Accumulated value in the request is not the current one' };
+    }
+  }
+  return request.verify(publicKeys, accumulatorPublicKeys, predicateParams);
+}
+
+/**
+ * Revoke the old credential of a verified refresh request by removing its revocation id from the accumulator
+ * @param refreshRequest
+ * @param accumulator
+ * @param secretKey
+ * @param state
+ */
+export async function revokeRefreshedCredential(
+  refreshRequest: ICredentialRefreshRequest,
+  accumulator: PositiveAccumulator,
+  secretKey: AccumulatorSecretKey,
+  state?: IAccumulatorState
+) {
+  if (refreshRequest.revocationId === undefined) {
+    throw new Error('Refresh request does not reveal the revocation id of the old credential');
+  }
+  const presentedCred = refreshRequest.request.presentation.spec.credentials[refreshRequest.credentialIndex];
+  const schema = CredentialSchema.fromSerialized(presentedCred.schema);
+  const member = schema.encoder.encodeMessage(`${STATUS_STR}.${REV_ID_STR}`, refreshRequest.revocationId);
+  await accumulator.remove(member, secretKey, state);
+}
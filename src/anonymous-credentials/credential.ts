@@ -21,6 +21,8 @@ import { BBSPublicKey, BBSSignature, BBSSignatureParams } from '../bbs';
 import { PSPublicKey, PSSignature, PSSignatureParams } from '../ps';
 import { BBSPlusPublicKeyG2, BBSPlusSignatureG1, BBSPlusSignatureParamsG1 } from '../bbs-plus';
 import { CredentialCommon } from './credential-common';
+import { credentialJsonToW3C, IW3CCredentialDefaults, w3cToCredentialJson } from './w3c';
+import { cborToJson, CborObjectTag, jsonToCbor } from './cbor-serialization';
 import {
   BBDT16Mac,
   BBDT16MacParams,
@@ -52,7 +54,7 @@ export abstract class Credential<PublicKey, Signature, SignatureParams> extends
     (this.constructor as typeof Credential).applyDefaultProofMetadataIfNeeded(s);
     delete s[PROOF_STR]['proofValue'];
 
-    return s;
+    return this.schema !== undefined ? this.schema.padForSigning(s) : s;
   }
 
   toJSONWithJsonLdContext(): object {
@@ -70,6 +72,39 @@ export abstract class Credential<PublicKey, Signature, SignatureParams> extends
     return j;
   }
 
+  /**
+   * Convert to a W3C verifiable credential (data model 2.0) having a `DataIntegrityProof` with a cryptosuite identifying
+   * the signature type. The `issuer` and `validFrom` are taken from `defaults` when the credential doesn't have them and
+   * an error is thrown if neither has them.
+   * @param defaults
+   */
+  toW3CVerifiableCredential(defaults?: IW3CCredentialDefaults): object {
+    return credentialJsonToW3C(this.toJSON(), defaults);
+  }
+
+  /**
+   * Create a credential from a W3C verifiable credential created by `toW3CVerifiableCredential`
+   * @param vc
+   */
+  static fromW3CVerifiableCredential<T>(this: { fromJSON(j: object): T }, vc: object): T {
+    return this.fromJSON(w3cToCredentialJson(vc));
+  }
+
+  /**
+   * Serialize to compact binary form using deterministic CBOR. Decoding gives back the same JSON as `toJSON`.
+   */
+  toCBOR(): Uint8Array {
+    return jsonToCbor(this.toJSON(), CborObjectTag.Credential);
+  }
+
+  /**
+   * Create a credential from the CBOR created by `toCBOR`
+   * @param bytes
+   */
+  static fromCBOR<T>(this: { fromJSON(j: object): T }, bytes: Uint8Array): T {
+    return this.fromJSON(cborToJson(bytes, CborObjectTag.Credential));
+  }
+
   /**
    * Ensure proof type is correct
    * @param typ
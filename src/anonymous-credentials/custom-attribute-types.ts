@@ -0,0 +1,117 @@
+import { EncodeFunc, MessageEncoder, ToPositiveIntFunc } from '../encoder';
+
+/**
+ * An attribute type defined by the application, like a postal code, a country code or a duration.
+ */
+export interface ICustomAttributeType {
+  // Unique name of the type. This is recorded in the serialized schema
+  name: string;
+  // Returns true if the node of the JSON schema is of this type, like `{type: 'string', format: 'postal-code'}`
+  matches: (node: object) => boolean;
+  // Encoding of the attribute's value. If absent, the output of `toPositiveInt` is encoded as a positive integer
+  encoder?: EncodeFunc;
+  // Reverses `encoder`, like when a verifiable encryption of the attribute is decrypted
+  decoder?: (encoded: Uint8Array) => unknown;
+  // Converts the attribute's value to a positive integer for bound checks. It's also called on the bounds given to
+  // `PresentationBuilder.enforceBounds` which are numbers. When `encoder` is given, it must encode this integer as
+  // `MessageEncoder.encodePositiveNumberForSigning` does for the bound checks to be sound.
+  toPositiveInt?: ToPositiveIntFunc;
+}
+
+/**
+ * Registry of the custom attribute types. A JSON schema node matched by a registered type is encoded as per that type.
+ * The issuer, the holder and the verifier should register the same types before creating or deserializing the schema as
+ * otherwise they would encode the attributes differently.
+ */
+export class CustomAttributeTypes {
+  private static readonly types = new Map<string, ICustomAttributeType>();
+
+  /**
+   * Register a type. Throws if a type with the same name is already registered.
+   * @param typ
+   */
+  static register(typ: ICustomAttributeType) {
+    if (CustomAttributeTypes.types.has(typ.name)) {
+      throw new Error(`Custom attribute type ${typ.name} is already registered`);
+    }
+    if (typ.encoder === undefined && typ.toPositiveInt === undefined) {
+      throw new Error(`Custom attribute type ${typ.name} needs either an encoder or a function to convert to integer`);
+    }
+    CustomAttributeTypes.types.set(typ.name, typ);
+  }
+
+  static unregister(name: string) {
+    if (!CustomAttributeTypes.types.delete(name)) {
+      throw new Error(`Custom attribute type ${name} is not registered`);
+    }
+  }
+
+  static has(name: string): boolean {
+    return CustomAttributeTypes.types.has(name);
+  }
+
+  static get(name: string): ICustomAttributeType {
+    const typ = CustomAttributeTypes.types.get(name);
+    if (typ === undefined) {
+      throw new Error(`Custom attribute type ${name} is not registered`);
+    }
+    return typ;
+  }
+
+  /**
+   * Returns the type matching the JSON schema node, if any. Throws if more than 1 type matches as then the encoding
+   * would depend on the order of registration.
+   * @param node
+   * @param nodeName - Used for the error message
+   */
+  static match(node: object, nodeName: string): ICustomAttributeType | undefined {
+    const matching = Array.from(CustomAttributeTypes.types.values()).filter((t) => t.matches(node));
+    if (matching.length > 1) {
+      throw new Error(`Key ${nodeName} matches multiple custom attribute types ${matching.map((t) => t.name)}`);
+    }
+    return matching[0];
+  }
+
+  /**
+   * Returns the encoding function of the type
+   * @param name
+   */
+  static encoderFor(name: string): EncodeFunc {
+    const typ = CustomAttributeTypes.get(name);
+    if (typ.encoder !== undefined) {
+      return typ.encoder;
+    }
+    const f = typ.toPositiveInt as ToPositiveIntFunc;
+    return (v: unknown) => {
+      return MessageEncoder.encodePositiveNumberForSigning(f(v));
+    };
+  }
+
+  /**
+   * Returns the minimum and maximum of a bound check converted to positive integers. Throws if the type can't be used in
+   * bound checks.
+   * @param name
+   * @param min
+   * @param max
+   */
+  static transformedMinMax(name: string, min: number, max: number): [number, number] {
+    const typ = CustomAttributeTypes.get(name);
+    if (typ.toPositiveInt === undefined) {
+      throw new Error(`Custom attribute type ${name} can't be used in bound checks`);
+    }
+    return [typ.toPositiveInt(min), typ.toPositiveInt(max)];
+  }
+
+  /**
+   * Decode the value of the type from its encoding. Throws if the type has no decoder.
+   * @param name
+   * @param encoded
+   */
+  static decode(name: string, encoded: Uint8Array): unknown {
+    const typ = CustomAttributeTypes.get(name);
+    if (typ.decoder === undefined) {
+      throw new Error(`Custom attribute type ${name} has no decoder`);
+    }
+    return typ.decoder(encoded);
+  }
+}
@@ -0,0 +1,425 @@
+import { areUint8ArraysEqual, flattenObjectToKeyValuesList } from '../util';
+import { PseudonymBases } from '../Pseudonym';
+import { CredentialSchema } from './schema';
+import {
+  IArrayMembership,
+  IPresentedAttributeBound,
+  IPresentedAttributeComparison,
+  IPresentedAttributeInequality,
+  IPresentedAttributeVE,
+  IPresentedLinearCombination
+} from './presentation-specification';
+import {
+  AttributeEquality,
+  AttributeRef,
+  BlindedAttributeEquality,
+  BlindedAttributeInequality,
+  VALID_UNTIL_STR
+} from './types-and-consts';
+
+// Functions for summarizing what a presentation discloses to the verifier, like for showing on a consent screen. Each
+// disclosure has a type and type specific params so that the UI can create a localized message from them. An English
+// message is included as well.
+
+export enum DisclosureType {
+  RevealedAttribute = 'revealed-attribute',
+  Bound = 'bound',
+  Expiry = 'expiry',
+  Inequality = 'inequality',
+  SetMembership = 'set-membership',
+  VerifiableEncryption = 'verifiable-encryption',
+  CircomPredicate = 'circom-predicate',
+  Status = 'status',
+  AttributeEquality = 'attribute-equality',
+  PrivateInequality = 'private-inequality',
+  AttributeComparison = 'attribute-comparison',
+  LinearCombination = 'linear-combination',
+  ArrayMembership = 'array-membership',
+  Pseudonym = 'pseudonym',
+  BlindCredentialRequest = 'blind-credential-request'
+}
+
+export interface IDisclosure {
+  type: DisclosureType;
+  // References to the attributes this is about. Empty when it isn't about any attribute, like a status check
+  attributes: AttributeRef[];
+  // Type specific details like the revealed value, the bounds or the encryption key id
+  params: { [key: string]: unknown };
+  message: string;
+}
+
+export interface ICredentialDisclosureSummary {
+  credIdx: number;
+  schemaId?: string;
+  disclosures: IDisclosure[];
+}
+
+export interface IDisclosureSummary {
+  credentials: ICredentialDisclosureSummary[];
+  // Disclosures not limited to a single credential like equalities and pseudonyms
+  disclosures: IDisclosure[];
+}
+
+/**
+ * Predicates on the attributes of a credential or on blinded attributes. Predicates are keyed by the fully qualified
+ * attribute name.
+ */
+export interface IAttributePredicatesDisclosureInput {
+  schema?: CredentialSchema;
+  bounds: Map<string, IPresentedAttributeBound[]>;
+  inequalities: Map<string, IPresentedAttributeInequality[]>;
+  // Values of each set that the attribute is a member of
+  setMemberships?: Map<string, unknown[][]>;
+  verifiableEncryptions: Map<string, IPresentedAttributeVE[]>;
+  // Circuit id and the attributes used in the circuit
+  circomPredicates: [string, string[]][];
+}
+
+/**
+ * What's disclosed about a credential.
+ */
+export interface ICredentialDisclosureInput extends IAttributePredicatesDisclosureInput {
+  revealedAttributes: object;
+  // Registry id and the check type
+  status?: [string, string];
+  setMemberships: Map<string, unknown[][]>;
+}
+
+export interface IPseudonymDisclosureInput {
+  pseudonym: string;
+  attributes: AttributeRef[];
+  basesForAttributes: Uint8Array[];
+  baseForSecretKey?: Uint8Array;
+  // Present for epoch scoped pseudonyms
+  epoch?: { scope: Uint8Array; epoch: number; maxCount: number };
+  // Present for pseudonyms in a blind credential request. The bases for these come after the bases for `attributes`
+  blindedAttributes?: string[];
+}
+
+/**
+ * What's disclosed about the blinded attributes of the requested credential.
+ */
+export interface IBlindCredentialRequestDisclosureInput extends IAttributePredicatesDisclosureInput {
+  sigType: string;
+  blindedAttributes: string[];
+  unBlindedAttributes?: object;
+  blindedAttributeEqualities: BlindedAttributeEquality[];
+  blindedAttributePrivateInequalities: BlindedAttributeInequality[];
+  pseudonyms: IPseudonymDisclosureInput[];
+}
+
+/**
+ * What's disclosed by a presentation. Created from the `PresentationSpecification` or the `PresentationBuilder`.
+ */
+export interface IDisclosureSummaryInput {
+  credentials: ICredentialDisclosureInput[];
+  attributeEqualities: AttributeEquality[];
+  privateInequalities: [AttributeRef, AttributeRef][];
+  attributeComparisons: IPresentedAttributeComparison[];
+  linearCombinations: IPresentedLinearCombination[];
+  arrayMemberships: IArrayMembership[];
+  pseudonyms: IPseudonymDisclosureInput[];
+  // Circuit id and the attributes used in the circuit
+  circomPredicatesMultiCred: [string, AttributeRef[]][];
+  blindCredentialRequest?: IBlindCredentialRequestDisclosureInput;
+}
+
+/**
+ * Create the summary of what's disclosed.
+ * @param input
+ * @param knownScopes - Scopes used to generate pseudonym bases. The scope of a pseudonym is found by matching its bases
+ * with the bases generated from these.
+ */
+export function summarizeDisclosures(
+  input: IDisclosureSummaryInput,
+  knownScopes: Uint8Array[] = []
+): IDisclosureSummary {
+  const credentials = input.credentials.map((c, credIdx) => ({
+    credIdx,
+    schemaId: c.schema?.jsonSchema.$id,
+    disclosures: describeCredential(credIdx, c)
+  }));
+
+  const disclosures: IDisclosure[] = [];
+  for (const eq of input.attributeEqualities) {
+    disclosures.push({
+      type: DisclosureType.AttributeEquality,
+      attributes: eq,
+      params: {},
+      message: `Attributes ${refsToString(eq)} are proven equal without revealing them`
+    });
+  }
+  for (const ineq of input.privateInequalities) {
+    disclosures.push({
+      type: DisclosureType.PrivateInequality,
+      attributes: ineq,
+      params: {},
+      message: `Attributes ${refsToString(ineq)} are proven unequal without revealing them`
+    });
+  }
+  for (const { attributes, operator, multiplier, offset } of input.attributeComparisons) {
+    const [first, second] = attributes.map(refToString);
+    disclosures.push({
+      type: DisclosureType.AttributeComparison,
+      attributes,
+      params: { operator, multiplier, offset },
+      message: `Attributes are proven to satisfy ${first} ${operator} ${second} * ${multiplier} + ${offset} without revealing them`
+    });
+  }
+  for (const { attributes, weights, min, max } of input.linearCombinations) {
+    const sum = attributes.map((a, i) => `${weights[i]} * ${refToString(a)}`).join(' + ');
+    disclosures.push({
+      type: DisclosureType.LinearCombination,
+      attributes,
+      params: { weights, min, max },
+      message: `Sum ${sum} is proven to be in [${min}, ${max}) without revealing the attributes`
+    });
+  }
+  for (const { credIdx, arrayName, itemAttributeName, value } of input.arrayMemberships) {
+    const item = itemAttributeName !== undefined ? `Attribute ${itemAttributeName} of some item` : 'Some item';
+    disclosures.push({
+      type: DisclosureType.ArrayMembership,
+      attributes: [[credIdx, arrayName]],
+      params: { arrayName, itemAttributeName, value },
+      message: `${item} of ${refToString([credIdx, arrayName])} is proven to be ${value} without revealing which item`
+    });
+  }
+  for (const [circuitId, attributes] of input.circomPredicatesMultiCred) {
+    disclosures.push({
+      type: DisclosureType.CircomPredicate,
+      attributes,
+      params: { circuitId },
+      message: `Attributes ${refsToString(attributes)} are proven to satisfy the predicate ${circuitId}`
+    });
+  }
+  for (const p of input.pseudonyms) {
+    disclosures.push(describePseudonym(p, knownScopes));
+  }
+  if (input.blindCredentialRequest !== undefined) {
+    disclosures.push(...describeBlindCredentialRequest(input.blindCredentialRequest, knownScopes));
+  }
+  return { credentials, disclosures };
+}
+
+function describePseudonym(p: IPseudonymDisclosureInput, knownScopes: Uint8Array[]): IDisclosure {
+  const scope = p.epoch !== undefined ? p.epoch.scope : findScope(p, knownScopes);
+  let message = `Pseudonym ${p.pseudonym} is presented`;
+  if (p.attributes.length > 0) {
+    message += `, derived from attributes ${refsToString(p.attributes)}`;
+  }
+  if (p.blindedAttributes !== undefined && p.blindedAttributes.length > 0) {
+    message += `${p.attributes.length > 0 ? ' and' : ', derived from'} blinded attributes ${p.blindedAttributes.join(
+      ', '
+    )}`;
+  }
+  if (scope !== undefined) {
+    message += `, for scope ${new TextDecoder().decode(scope)}`;
+  }
+  const params = { pseudonym: p.pseudonym, scope, usesSecretKey: p.baseForSecretKey !== undefined };
+  if (p.epoch !== undefined) {
+    message += `, for epoch ${p.epoch.epoch} with at most ${p.epoch.maxCount} presentations in the epoch`;
+    params['epoch'] = p.epoch.epoch;
+    params['maxCount'] = p.epoch.maxCount;
+  }
+  if (p.blindedAttributes !== undefined) {
+    params['blindedAttributes'] = p.blindedAttributes;
+  }
+  return {
+    type: DisclosureType.Pseudonym,
+    attributes: p.attributes,
+    params,
+    message
+  };
+}
+
+function describeBlindCredentialRequest(
+  req: IBlindCredentialRequestDisclosureInput,
+  knownScopes: Uint8Array[]
+): IDisclosure[] {
+  const { sigType, blindedAttributes, unBlindedAttributes, blindedAttributeEqualities } = req;
+  const equalTo: AttributeRef[] = [];
+  blindedAttributeEqualities.forEach(([, refs]) => equalTo.push(...refs));
+  const disclosures: IDisclosure[] = [
+    {
+      type: DisclosureType.BlindCredentialRequest,
+      attributes: equalTo,
+      params: { sigType, blindedAttributes, unBlindedAttributes, blindedAttributeEqualities },
+      message: `A ${sigType} credential is requested without revealing its attributes ${blindedAttributes.join(', ')}`
+    }
+  ];
+  for (const [blindedAttribute, ref] of req.blindedAttributePrivateInequalities) {
+    disclosures.push({
+      type: DisclosureType.PrivateInequality,
+      attributes: [ref],
+      params: { blindedAttribute },
+      message: `Blinded attribute ${blindedAttribute} and attribute ${refToString(
+        ref
+      )} are proven unequal without revealing them`
+    });
+  }
+  disclosures.push(...describePredicates(req));
+  for (const p of req.pseudonyms) {
+    disclosures.push(describePseudonym(p, knownScopes));
+  }
+  return disclosures;
+}
+
+function describeCredential(credIdx: number, cred: ICredentialDisclosureInput): IDisclosure[] {
+  const disclosures: IDisclosure[] = [];
+
+  const [names, values] = flattenObjectToKeyValuesList(cred.revealedAttributes);
+  names.forEach((name, i) => {
+    const absent = values[i] === null && cred.schema !== undefined && cred.schema.isOptional(name);
+    if ((values[i] === null || values[i] === undefined) && !absent) {
+      // Unrevealed item of a partially revealed array
+      return;
+    }
+    disclosures.push({
+      type: DisclosureType.RevealedAttribute,
+      attributes: [[credIdx, name]],
+      params: { value: values[i] },
+      message: absent ? `Attribute ${name} is revealed to be absent` : `Attribute ${name} is revealed as ${values[i]}`
+    });
+  });
+
+  disclosures.push(...describePredicates(cred, credIdx));
+
+  if (cred.status !== undefined) {
+    const [registryId, revocationCheck] = cred.status;
+    disclosures.push({
+      type: DisclosureType.Status,
+      attributes: [],
+      params: { registryId, revocationCheck },
+      message: `Revocation status is checked (${revocationCheck}) in registry ${registryId}`
+    });
+  }
+  return disclosures;
+}
+
+/**
+ * Describe the predicates on the attributes of the credential at index `credIdx` or on the blinded attributes when
+ * `credIdx` is undefined. Disclosures about blinded attributes have the attribute name in params as `blindedAttribute`
+ * since they can't be referred to by a credential index.
+ */
+function describePredicates(preds: IAttributePredicatesDisclosureInput, credIdx?: number): IDisclosure[] {
+  const disclosures: IDisclosure[] = [];
+  const isDateTime = (name: string) => preds.schema !== undefined && preds.schema.isDateTime(name);
+  const format = (name: string, v: number) => (isDateTime(name) ? new Date(v).toISOString() : `${v}`);
+  const blinded = credIdx === undefined;
+  const refs = (names: string[]): AttributeRef[] => (blinded ? [] : names.map((n) => [credIdx, n]));
+  const withName = (name: string, params: { [key: string]: unknown }) =>
+    blinded ? { blindedAttribute: name, ...params } : params;
+  const label = (name: string) => `${blinded ? 'Blinded attribute' : 'Attribute'} ${name}`;
+
+  for (const [name, bounds] of preds.bounds.entries()) {
+    for (const { min, max, paramId } of bounds) {
+      if (name === VALID_UNTIL_STR && !blinded) {
+        disclosures.push({
+          type: DisclosureType.Expiry,
+          attributes: refs([name]),
+          params: { time: min },
+          message: `Credential is proven to be unexpired at ${format(name, min)}`
+        });
+      } else {
+        disclosures.push({
+          type: DisclosureType.Bound,
+          attributes: refs([name]),
+          params: withName(name, { min, max, paramId }),
+          message: `${label(name)} is proven to be in [${format(name, min)}, ${format(name, max)}) without revealing it`
+        });
+      }
+    }
+  }
+
+  for (const [name, ineqs] of preds.inequalities.entries()) {
+    for (const { inEqualTo } of ineqs) {
+      disclosures.push({
+        type: DisclosureType.Inequality,
+        attributes: refs([name]),
+        params: withName(name, { inEqualTo }),
+        // Absent optional attributes are null
+        message:
+          inEqualTo === null
+            ? `${label(name)} is proven to be present without revealing it`
+            : `${label(name)} is proven to not be ${inEqualTo} without revealing it`
+      });
+    }
+  }
+
+  for (const [name, sets] of (preds.setMemberships ?? new Map<string, unknown[][]>()).entries()) {
+    for (const set of sets) {
+      disclosures.push({
+        type: DisclosureType.SetMembership,
+        attributes: refs([name]),
+        params: withName(name, { values: set }),
+        message: `${label(name)} is proven to be one of ${set.join(', ')} without revealing which`
+      });
+    }
+  }
+
+  for (const [name, encs] of preds.verifiableEncryptions.entries()) {
+    for (const { encryptionKeyId, commitmentGensId, snarkKeyId, chunkBitSize } of encs) {
+      disclosures.push({
+        type: DisclosureType.VerifiableEncryption,
+        attributes: refs([name]),
+        params: withName(name, { encryptionKeyId, commitmentGensId, snarkKeyId, chunkBitSize }),
+        message: `${label(name)} is encrypted for the holder of the decryption key of ${encryptionKeyId}`
+      });
+    }
+  }
+
+  for (const [circuitId, attributeNames] of preds.circomPredicates) {
+    disclosures.push({
+      type: DisclosureType.CircomPredicate,
+      attributes: refs(attributeNames),
+      params: blinded ? { circuitId, blindedAttributes: attributeNames } : { circuitId },
+      message: `${blinded ? 'Blinded attributes' : 'Attributes'} ${attributeNames.join(
+        ', '
+      )} are proven to satisfy the predicate ${circuitId}`
+    });
+  }
+  return disclosures;
+}
+
+function findScope(pseudonym: IPseudonymDisclosureInput, knownScopes: Uint8Array[]): Uint8Array | undefined {
+  return knownScopes.find((scope) => {
+    if (pseudonym.baseForSecretKey !== undefined) {
+      return areUint8ArraysEqual(pseudonym.baseForSecretKey, PseudonymBases.generateBaseForSecretKey(scope));
+    }
+    const bases = PseudonymBases.generateBasesForAttributes(pseudonym.basesForAttributes.length, scope);
+    return bases.every((b, i) => areUint8ArraysEqual(b, pseudonym.basesForAttributes[i]));
+  });
+}
+
+function refToString([c, n]: AttributeRef): string {
+  return `(${c},${n})`;
+}
+
+function refsToString(refs: AttributeRef[]): string {
+  return refs.map(refToString).join(', ');
+}
+
+/**
+ * Returns the minimum length each variable length array must be proven to have so that none of its items used in the
+ * disclosures is padding. Keyed by the credential index and then the array name.
+ * @param summary
+ * @param arrays - Variable length arrays of each credential as returned by `CredentialSchema.variableLengthArrays`
+ */
+export function requiredArrayLengths(
+  summary: IDisclosureSummary,
+  arrays: Map<string, number>[]
+): Map<number, Map<string, number>> {
+  const required = new Map<number, Map<string, number>>();
+  const disclosures = [...summary.disclosures];
+  summary.credentials.forEach((c) => disclosures.push(...c.disclosures));
+  for (const { attributes } of disclosures) {
+    for (const [credIdx, name] of attributes) {
+      for (const [arrayName, index] of CredentialSchema.arrayElementsOf(name, arrays[credIdx] ?? new Map())) {
+        const lengths = required.get(credIdx) ?? new Map<string, number>();
+        lengths.set(arrayName, Math.max(lengths.get(arrayName) ?? 0, index + 1));
+        required.set(credIdx, lengths);
+      }
+    }
+  }
+  return required;
+}
@@ -0,0 +1,132 @@
+import b58 from 'bs58';
+import { VerifyResult } from 'crypto-wasm-new';
+import { PseudonymBases } from '../Pseudonym';
+import { Presentation } from './presentation';
+
+/**
+ * Interface for the storage of the pseudonyms seen by an epoch pseudonym registry. This should be implemented by the
+ * persistence layer of the verifier so that the pseudonyms are remembered across restarts and shared by all instances
+ * of the verifier.
+ */
+export interface IEpochPseudonymRegistryState {
+  /**
+   * Remember the pseudonym as seen in the epoch. Returns false if it was seen already. This must be atomic when the state
+   * is shared by several instances of the verifier as otherwise the same pseudonym could be accepted by each of them.
+   * @param epoch
+   * @param pseudonym - Base58 encoded pseudonym
+   */
+  addIfAbsent(epoch: number, pseudonym: string): Promise<boolean>;
+
+  /**
+   * Forget the pseudonyms of the epochs before the given one
+   * @param epoch
+   */
+  deleteBefore(epoch: number): Promise<void>;
+}
+
+/**
+ * In memory implementation of the state. For testing only
+ */
+export class InMemoryEpochPseudonymRegistryState implements IEpochPseudonymRegistryState {
+  // Pseudonyms seen in each epoch
+  seen: Map<number, Set<string>>;
+
+  constructor() {
+    this.seen = new Map();
+  }
+
+  async addIfAbsent(epoch: number, pseudonym: string): Promise<boolean> {
+    let pseudonyms = this.seen.get(epoch);
+    if (pseudonyms === undefined) {
+      pseudonyms = new Set();
+      this.seen.set(epoch, pseudonyms);
+    }
+    if (pseudonyms.has(pseudonym)) {
+      return Promise.resolve(false);
+    }
+    pseudonyms.add(pseudonym);
+    return Promise.resolve(true);
+  }
+
+  async deleteBefore(epoch: number): Promise<void> {
+    for (const e of Array.from(this.seen.keys())) {
+      if (e < epoch) {
+        this.seen.delete(e);
+      }
+    }
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Used by a verifier to accept presentations with an epoch scoped pseudonym (see `PresentationBuilder.addEpochPseudonym`)
+ * only once per pseudonym, thus limiting each holder to `maxCount` presentations per epoch. The seen pseudonyms are kept
+ * in the given state and the ones of past epochs are forgotten. This doesn't verify the presentation which must be
+ * done separately using `Presentation.verify`.
+ */
+export class EpochPseudonymRegistry {
+  readonly scope: Uint8Array;
+  // Duration of an epoch in milliseconds
+  readonly epochDuration: number;
+  // Number of presentations allowed per holder per epoch
+  readonly maxCount: number;
+  // Should be used only by this registry as the pseudonyms are stored without the scope
+  readonly state: IEpochPseudonymRegistryState;
+
+  // Epoch for which the pseudonyms of the past epochs were last deleted
+  private prunedBefore?: number;
+
+  constructor(state: IEpochPseudonymRegistryState, scope: Uint8Array, epochDuration: number, maxCount = 1) {
+    if (!Number.isInteger(maxCount) || maxCount < 1) {
+      throw new Error(`maxCount must be a positive integer but was ${maxCount}`);
+    }
+    // Validates the duration
+    PseudonymBases.epochOf(0, epochDuration);
+    this.scope = scope;
+    this.epochDuration = epochDuration;
+    this.maxCount = maxCount;
+    this.state = state;
+  }
+
+  currentEpoch(time: Date | number = new Date()): number {
+    return PseudonymBases.epochOf(time, this.epochDuration);
+  }
+
+  /**
+   * Checks that the presentation has exactly one pseudonym for this registry's scope, for the epoch of the given time,
+   * and that the pseudonym hasn't been seen in this epoch. The counter isn't known to the verifier but the presentation
+   * proves that it's in [0, maxCount) for the `maxCount` in the specification so that shouldn't be more than this
+   * registry's. If the check passes, the pseudonym is remembered so that it's rejected the next time.
+   * @param presentation - The presentation, already verified
+   * @param time - Defaults to the current time
+   */
+  async register(presentation: Presentation, time: Date | number = new Date()): Promise<VerifyResult> {
+    const epoch = this.currentEpoch(time);
+    if (this.prunedBefore !== epoch) {
+      await this.state.deleteBefore(epoch);
+      this.prunedBefore = epoch;
+    }
+    const scope = b58.encode(this.scope);
+    const pseudonyms = Object.entries(presentation.spec.epochPseudonyms ?? {}).filter(([, p]) => p.scope === scope);
+    if (pseudonyms.length !== 1) {
+      return {
+        verified: false,
+        error: `Expected 1 epoch pseudonym for the scope but found ${pseudonyms.length}`
+      };
+    }
+    const [pseudonym, p] = pseudonyms[0];
+    if (p.epoch !== epoch) {
+      return { verified: false, error: `Pseudonym is for epoch ${p.epoch} but current epoch is ${epoch}` };
+    }
+    if (!(p.maxCount <= this.maxCount)) {
+      return {
+        verified: false,
+        error: `Pseudonym allows ${p.maxCount} presentations per epoch but only ${this.maxCount} are allowed`
+      };
+    }
+    if (!(await this.state.addIfAbsent(epoch, pseudonym))) {
+      return { verified: false, error: `Pseudonym ${pseudonym} was already used in epoch ${epoch}` };
+    }
+    return { verified: true, error: '' };
+  }
+}
@@ -1,13 +1,28 @@
 export * from './schema';
+export * from './custom-attribute-types';
+export * from './schema-compatibility';
+export * from './schema-resolver';
 export * from './credential-builder';
 export * from './credential';
 export { PresentationBuilder } from './presentation-builder';
 export * from './presentation-specification';
 export { Presentation } from './presentation';
+export { PresentationVerifier } from './presentation-verifier';
+export * from './epoch-pseudonym-registry';
+export * from './pseudonym-registry';
+export * from './params-cache';
+export * from './presentation-request';
+export * from './presentation-policy';
+export * from './disclosure-summary';
+export * from './privacy-analyzer';
+export * from './key-resolver';
+export { CborObjectTag } from './cbor-serialization';
+export { IW3CCredentialDefaults } from './w3c';
 export * from './types-and-consts';
 export * from './util';
 export * from './blinded-credential-request-builder';
 export * from './blinded-credential-request';
 export * from './blinded-credential-builder';
 export * from './blinded-credential';
+export * from './credential-refresh';
 export * from './keyed-proof';
@@ -0,0 +1,156 @@
+import {
+  AccumulatorValueType,
+  AccumulatorVerificationParam,
+  CredentialVerificationParam,
+  ID_STR,
+  ISSUER_STR,
+  PROOF_STR,
+  VERIFICATION_METHOD_STR
+} from './types-and-consts';
+import { IPresentedCredential, PresentationSpecification } from './presentation-specification';
+import { flattenObjectToKeyValuesList } from '../util';
+import { areAccumulatorValuesEqual } from './util';
+
+/**
+ * Accumulator verification parameter and optionally the accumulated value that the verifier considers current.
+ */
+export interface IResolvedAccumulator {
+  verificationParam: AccumulatorVerificationParam;
+  // If present, the presentation must use this accumulated value
+  accumulated?: AccumulatorValueType;
+}
+
+/**
+ * Looks up the keys needed to verify a presentation using the credentials' metadata rather than their position in the
+ * presentation. Implementations could fetch keys from a local store, a DID resolver cache, etc.
+ */
+export interface IKeyResolver {
+  /**
+   * Returns the public key (or the secret key for KVAC) to verify the credential issued by `issuer`.
+   * @param issuer - Id of the issuer
+   * @param keyId - Id of the key if the credential specifies one
+   */
+  credentialKey(issuer: string, keyId?: string): CredentialVerificationParam | undefined;
+
+  /**
+   * Returns the accumulator public key (or the secret key) and optionally the current accumulated value.
+   * @param accumulatorId - Id of the accumulator (registry) as in the credential status
+   */
+  accumulator(accumulatorId: string): IResolvedAccumulator | undefined;
+}
+
+/**
+ * In memory implementation of `IKeyResolver`.
+ */
+export class InMemoryKeyResolver implements IKeyResolver {
+  credentialKeys: Map<string, CredentialVerificationParam>;
+  accumulators: Map<string, IResolvedAccumulator>;
+
+  constructor() {
+    this.credentialKeys = new Map();
+    this.accumulators = new Map();
+  }
+
+  /**
+   * Add key of an issuer. If `keyId` is not given, the key is used for any credential of the issuer that does not specify
+   * a key id.
+   * @param issuer
+   * @param key
+   * @param keyId
+   */
+  addCredentialKey(issuer: string, key: CredentialVerificationParam, keyId?: string) {
+    this.credentialKeys.set(InMemoryKeyResolver.key(issuer, keyId), key);
+  }
+
+  addAccumulator(
+    accumulatorId: string,
+    verificationParam: AccumulatorVerificationParam,
+    accumulated?: AccumulatorValueType
+  ) {
+    this.accumulators.set(accumulatorId, { verificationParam, accumulated });
+  }
+
+  credentialKey(issuer: string, keyId?: string): CredentialVerificationParam | undefined {
+    return this.credentialKeys.get(InMemoryKeyResolver.key(issuer, keyId));
+  }
+
+  accumulator(accumulatorId: string): IResolvedAccumulator | undefined {
+    return this.accumulators.get(accumulatorId);
+  }
+
+  private static key(issuer: string, keyId?: string): string {
+    return JSON.stringify([issuer, keyId ?? null]);
+  }
+}
+
+export function isKeyResolver(obj: unknown): obj is IKeyResolver {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    typeof obj['credentialKey'] === 'function' &&
+    typeof obj['accumulator'] === 'function'
+  );
+}
+
+/**
+ * Returns the issuer id and the key id from the revealed attributes of the presented credential. The issuer can be revealed
+ * either as a string or as an object with an `id` field. The key id is the revealed `proof.verificationMethod`, if any.
+ * @param presentedCred
+ */
+export function getIssuerAndKeyId(presentedCred: IPresentedCredential): [string | undefined, string | undefined] {
+  const [names, values] = flattenObjectToKeyValuesList(presentedCred.revealedAttributes);
+  const valueOf = (name: string) => {
+    const i = names.indexOf(name);
+    return i !== -1 && typeof values[i] === 'string' ? (values[i] as string) : undefined;
+  };
+  return [
+    valueOf(ISSUER_STR) ?? valueOf(`${ISSUER_STR}.${ID_STR}`),
+    valueOf(`${PROOF_STR}.${VERIFICATION_METHOD_STR}`)
+  ];
+}
+
+/**
+ * Get the verification params for the credentials and their statuses in the presentation using the resolver.
+ * Throws an error if the issuer of a credential is not revealed or its key can't be resolved as otherwise the credential
+ * wouldn't be verified fully, like a KVAC credential without the secret key. Also throws if the accumulator used for a
+ * credential's status can't be resolved or its value isn't the current one.
+ * @param spec
+ * @param resolver
+ * @returns - The key of the maps is the credential index
+ */
+export function resolveVerificationParams(
+  spec: PresentationSpecification,
+  resolver: IKeyResolver
+): [Map<number, CredentialVerificationParam>, Map<number, AccumulatorVerificationParam>] {
+  const credVerifParams = new Map<number, CredentialVerificationParam>();
+  const accumVerifParams = new Map<number, AccumulatorVerificationParam>();
+  spec.credentials.forEach((presentedCred, credIdx) => {
+    const [issuer, keyId] = getIssuerAndKeyId(presentedCred);
+    if (issuer === undefined) {
+      throw new Error(`Issuer of credential index ${credIdx} is not revealed so its key can't be resolved`);
+    }
+    const key = resolver.credentialKey(issuer, keyId);
+    if (key === undefined) {
+      const withKeyId = keyId !== undefined ? ` with key id ${keyId}` : '';
+      throw new Error(`Key of issuer ${issuer}${withKeyId} couldn't be resolved for credential index ${credIdx}`);
+    }
+    credVerifParams.set(credIdx, key);
+    if (presentedCred.status !== undefined) {
+      const accumId = presentedCred.status[ID_STR];
+      const accum = resolver.accumulator(accumId);
+      if (accum === undefined) {
+        throw new Error(`Accumulator with id ${accumId} couldn't be resolved for credential index ${credIdx}`);
+      }
+      if (
+        accum.accumulated !== undefined &&
+        !areAccumulatorValuesEqual(accum.accumulated, presentedCred.status.accumulated)
+      ) {
+        throw new Error(
+          `Accumulator value for credential index ${credIdx} is not the current value of accumulator ${accumId}`
+        );
+      }
+      accumVerifParams.set(credIdx, accum.verificationParam);
+    }
+  });
+  return [credVerifParams, accumVerifParams];
+}
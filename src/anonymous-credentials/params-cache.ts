@@ -0,0 +1,248 @@
+import stringify from 'json-stringify-deterministic';
+import {
+  BoundCheckBppParams,
+  BoundCheckSmcParams,
+  BoundCheckSmcWithKVProverParams,
+  BoundCheckSmcWithKVVerifierParams
+} from '../bound-check';
+import { BytearrayWrapper } from '../bytearray-wrapper';
+import { SetupParam } from '../composite-proof';
+import { LegoProvingKey, LegoVerifyingKey } from '../legosnark';
+import { PederCommKey } from '../ped-com';
+import { SaverChunkedCommitmentKey, SaverEncryptionKey, SaverProvingKey, SaverVerifyingKey } from '../saver';
+import { CredentialSchema } from './schema';
+import { FlattenedSchema, PredicateParamType, SignatureParams, SignatureParamsClass } from './types-and-consts';
+import { getSignatureParamsForMsgCount } from './util';
+
+/**
+ * Returns the uncompressed form of a predicate param or the param as it is if it has no uncompressed form. Uncompressed params
+ * are faster to use as the cost of decompression is avoided in each proof.
+ * @param param
+ */
+export function decompressPredicateParam(param: PredicateParamType): PredicateParamType {
+  if (isDecompressable(param)) {
+    // @ts-ignore
+    return param.decompress() as PredicateParamType;
+  }
+  return param;
+}
+
+function isDecompressable(param: PredicateParamType): boolean {
+  return (
+    param instanceof LegoProvingKey ||
+    param instanceof LegoVerifyingKey ||
+    param instanceof SaverProvingKey ||
+    param instanceof SaverVerifyingKey ||
+    param instanceof SaverEncryptionKey ||
+    param instanceof SaverChunkedCommitmentKey ||
+    param instanceof BoundCheckBppParams ||
+    param instanceof BoundCheckSmcParams ||
+    param instanceof BoundCheckSmcWithKVProverParams ||
+    param instanceof BoundCheckSmcWithKVVerifierParams ||
+    param instanceof PederCommKey
+  );
+}
+
+/**
+ * Limits on the entries of a `ParamsCache`
+ */
+export interface IParamsCacheOptions {
+  // Maximum number of cached entries
+  maxEntries?: number;
+  // Maximum total size in bytes of the cached entries. The size of an entry is the size of its serialized value
+  maxSize?: number;
+}
+
+interface ICacheEntry {
+  value: unknown;
+  size: number;
+  // The value from which the cached value was derived. Used to detect a changed predicate param with the same id
+  source?: unknown;
+}
+
+/**
+ * Parameters that are derived the same way for every proof and can thus be reused across many proofs, like signature params
+ * for a message count, the default setup params of predicates, parsed schemas and decompressed predicate params.
+ * The cache is bounded and evicts the least recently used entries when the number of entries or their total size exceeds the
+ * limits. A cache can be shared by many `PresentationBuilder`s, `BlindedCredentialRequestBuilder`s and `PresentationVerifier`s.
+ */
+export class ParamsCache {
+  static DEFAULT_MAX_ENTRIES = 100;
+
+  readonly maxEntries: number;
+  readonly maxSize?: number;
+
+  // Entries in the order of their use, least recently used first
+  private readonly entries: Map<string, ICacheEntry>;
+  private _size: number;
+
+  // The params of each scheme for the largest message count seen so far. Used to derive params for smaller message counts.
+  // There is only one entry per scheme so these aren't counted towards the limits.
+  readonly sigParamsByScheme: Map<SignatureParamsClass, { params: SignatureParams; msgCount: number }>;
+
+  constructor(options?: IParamsCacheOptions) {
+    const maxEntries = options?.maxEntries ?? ParamsCache.DEFAULT_MAX_ENTRIES;
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new Error(`Maximum entries should be a positive integer but was ${maxEntries}`);
+    }
+    if (options?.maxSize !== undefined && !(options.maxSize > 0)) {
+      throw new Error(`Maximum size should be positive but was ${options.maxSize}`);
+    }
+    this.maxEntries = maxEntries;
+    this.maxSize = options?.maxSize;
+    this.entries = new Map();
+    this._size = 0;
+    this.sigParamsByScheme = new Map();
+  }
+
+  /**
+   * Get a static setup param like accumulator params or Bulletproofs++ setup
+   * @param name - Name of the param
+   * @param create - Creates the param if not cached
+   */
+  getStaticParam(name: string, create: () => SetupParam): SetupParam {
+    return this.getOrCreate(ParamsCache.staticParamKey(name), create);
+  }
+
+  getSignatureParams(paramsClass: SignatureParamsClass, msgCount: number): SignatureParams {
+    return this.getOrCreate(ParamsCache.sigParamsKey(paramsClass, msgCount), () =>
+      getSignatureParamsForMsgCount(this.sigParamsByScheme, paramsClass, msgCount)
+    );
+  }
+
+  /**
+   * Get the parsed schema and its flattened form
+   * @param schema - Schema JSON as an object or as a string
+   */
+  getSchema(schema: object | string): [CredentialSchema, FlattenedSchema] {
+    return this.getOrCreate(ParamsCache.schemaKey(schema), () => {
+      const s = CredentialSchema.fromSerialized(schema);
+      return [s, s.flatten()];
+    });
+  }
+
+  /**
+   * Get the uncompressed form of a predicate param. Returns the param as it is if it has no uncompressed form. If a different
+   * param is later passed for the same id, it's decompressed again.
+   * @param paramId
+   * @param param
+   */
+  getDecompressedPredicateParam(paramId: string, param: PredicateParamType): PredicateParamType {
+    if (!isDecompressable(param)) {
+      return param;
+    }
+    const key = ParamsCache.predicateParamKey(paramId);
+    const entry = this.entries.get(key);
+    if (entry !== undefined && entry.source === param) {
+      this.touch(key, entry);
+      return entry.value as PredicateParamType;
+    }
+    const value = decompressPredicateParam(param);
+    this.set(key, { value, size: ParamsCache.sizeOf(value), source: param });
+    return value;
+  }
+
+  has(key: string): boolean {
+    return this.entries.has(key);
+  }
+
+  /**
+   * Remove an entry. Returns true if the entry was present.
+   * @param key - Key of the entry as created by one of the `*Key` functions of this class
+   */
+  invalidate(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (entry === undefined) {
+      return false;
+    }
+    this.entries.delete(key);
+    this._size -= entry.size;
+    return true;
+  }
+
+  /**
+   * Remove the decompressed predicate param with the given id. Should be called when a predicate param is not going to be used
+   * anymore.
+   * @param paramId
+   */
+  invalidatePredicateParam(paramId: string): boolean {
+    return this.invalidate(ParamsCache.predicateParamKey(paramId));
+  }
+
+  clear() {
+    this.entries.clear();
+    this._size = 0;
+    this.sigParamsByScheme.clear();
+  }
+
+  get numEntries(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Total size in bytes of the cached entries
+   */
+  get size(): number {
+    return this._size;
+  }
+
+  static staticParamKey(name: string): string {
+    return `static:${name}`;
+  }
+
+  static sigParamsKey(paramsClass: SignatureParamsClass, msgCount: number): string {
+    return `sig:${paramsClass.name}:${msgCount}`;
+  }
+
+  static schemaKey(schema: object | string): string {
+    return `schema:${typeof schema === 'string' ? schema : stringify(schema)}`;
+  }
+
+  static predicateParamKey(paramId: string): string {
+    return `predicate:${paramId}`;
+  }
+
+  private getOrCreate<T>(key: string, create: () => T): T {
+    const entry = this.entries.get(key);
+    if (entry !== undefined) {
+      this.touch(key, entry);
+      return entry.value as T;
+    }
+    const value = create();
+    // Size of a schema is the size of its JSON
+    const size = key.startsWith('schema:') ? key.length : ParamsCache.sizeOf(value);
+    this.set(key, { value, size });
+    return value;
+  }
+
+  // Mark the entry as most recently used
+  private touch(key: string, entry: ICacheEntry) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+  }
+
+  private set(key: string, entry: ICacheEntry) {
+    this.invalidate(key);
+    this.entries.set(key, entry);
+    this._size += entry.size;
+    // Evict the least recently used entries but keep the newly added one even if its bigger than the maximum size
+    for (const k of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries && (this.maxSize === undefined || this._size <= this.maxSize)) {
+        break;
+      }
+      if (k !== key) {
+        this.invalidate(k);
+      }
+    }
+  }
+
+  private static sizeOf(value: unknown): number {
+    if (value instanceof BytearrayWrapper) {
+      return value.value.length;
+    }
+    if (value !== null && typeof value === 'object' && typeof value['toBytes'] === 'function') {
+      return (value['toBytes']() as Uint8Array).length;
+    }
+    return 0;
+  }
+}
@@ -1,3 +1,4 @@
+import b58 from 'bs58';
 import semver from 'semver/preload';
 import { KBUniversalMembershipWitness, KBUniversalNonMembershipWitness } from '../accumulator/kb-acccumulator-witness';
 import { KBUniversalAccumulatorValue } from '../accumulator/kb-universal-accumulator';
@@ -16,22 +17,29 @@ import {
 } from '../composite-proof';
 import { LegoProvingKey, LegoProvingKeyUncompressed } from '../legosnark';
 import { CircomInputs } from '../r1cs';
-import { R1CS } from 'crypto-wasm-new';
+import { generateRandomFieldElement, pedersenCommitmentG1, R1CS } from 'crypto-wasm-new';
 import { CredentialSchema, getTransformedMinMax, ValueType } from './schema';
-import { getRevealedAndUnrevealed } from '../sign-verify-js-objs';
+import { getPSWitnessesForBlindSigRequest, getRevealedAndUnrevealed } from '../sign-verify-js-objs';
 import {
   AccumulatorValueType,
   AccumulatorWitnessType,
   AttributeCiphertexts,
   AttributeEquality,
+  AttributeInequality,
+  AttributeRef,
+  BlindedAttributeInequality,
   BoundCheckParamType,
   BoundCheckProtocol,
   BoundType,
   CircomProtocol,
+  ComparisonOperator,
   CRYPTO_VERSION_STR,
+  dockPrivateInequalityCommKey,
+  dockSetMembershipCommKey,
   FlattenedSchema,
   ID_STR,
   InequalityProtocol,
+  MAX_ATTRIBUTE_COMPARISON_DIFFERENCE,
   MEM_CHECK_KV_STR,
   MEM_CHECK_STR,
   NON_MEM_CHECK_KV_STR,
@@ -42,25 +50,32 @@ import {
   REV_ID_STR,
   RevocationStatusProtocol, SCHEMA_FIELDS,
   SCHEMA_STR,
+  SetMembershipProtocol,
   SignatureParams,
   STATUS_STR,
   TYPE_STR,
+  VALID_UNTIL_STR,
   VerifiableEncryptionProtocol
 } from './types-and-consts';
 import {
+  IArrayMembership,
   IBlindCredentialRequest,
   ICircomPredicate,
   ICircuitPrivateVar,
   ICircuitPrivateVarMultiCred,
   IPresentedAttributeBound,
+  IPresentedAttributeComparison,
+  IPresentedLinearCombination,
   IPresentedAttributeInequality,
   IPresentedAttributeVE,
+  IPresentedSetMembership,
   IPresentedStatus,
   PresentationSpecification
 } from './presentation-specification';
 import { buildContextForProof, Presentation } from './presentation';
 import { AccumulatorPublicKey, VBMembershipWitness, VBNonMembershipWitness } from '../accumulator';
 import {
+  addPSBlindedCredReqStatements,
   buildSignatureProverStatementFromParamsRef,
   buildWitness,
   createWitEq,
@@ -78,13 +93,28 @@ import {
   SaverProvingKey,
   SaverProvingKeyUncompressed
 } from '../saver';
-import { unflatten } from 'flat';
+import { flatten, unflatten } from 'flat';
 import { SetupParamsTracker } from './setup-params-tracker';
-import { AttributeBoundPseudonym, Pseudonym, PseudonymBases } from '../Pseudonym';
+import { ParamsCache } from './params-cache';
+import {
+  IBlindCredentialRequestDisclosureInput,
+  ICredentialDisclosureInput,
+  IDisclosureSummary,
+  IPseudonymDisclosureInput,
+  requiredArrayLengths,
+  summarizeDisclosures
+} from './disclosure-summary';
+import { AttributeBoundPseudonym, EpochBoundPseudonym, Pseudonym, PseudonymBases } from '../Pseudonym';
 import { BBSSignatureParams } from '../bbs';
 import { BBSPlusSignatureParamsG1 } from '../bbs-plus';
 import { getR1CS, ParsedR1CSFile } from '../r1cs/file';
-import { areUint8ArraysEqual, convertDateToTimestamp, fromLeToBigInt } from '../util';
+import {
+  areUint8ArraysEqual,
+  bigIntToFieldElement,
+  convertDateToTimestamp,
+  fromLeToBigInt,
+  subtractFieldElements
+} from '../util';
 import {
   BoundCheckBppParams,
   BoundCheckBppParamsUncompressed,
@@ -95,6 +125,7 @@ import {
 } from '../bound-check';
 import { PederCommKey, PederCommKeyUncompressed } from '../ped-com';
 import { BBDT16MacParams } from '../bbdt16-mac';
+import { PSSignatureParams } from '../ps';
 
 /**
  * Arguments required to generate the corresponding AttributeBoundPseudonym
@@ -115,6 +146,23 @@ export interface UnboundedPseudonym {
   secretKey: Uint8Array;
 }
 
+/**
+ * Arguments required to generate a pseudonym bound to attributes for an epoch
+ * */
+export interface EpochPseudonym {
+  /** Keys are credential indices, values are the attribute names in that credential*/
+  attributeNames: Map<number, string[]>;
+  baseForEpoch: Uint8Array;
+  // Weights of the attributes and the counter
+  weights: Uint8Array[];
+  scope: Uint8Array;
+  epoch: number;
+  counter: number;
+  maxCount: number;
+  paramId?: string;
+  protocol: BoundCheckProtocol;
+}
+
 type Credential = BBSCredential | BBSPlusCredential | PSCredential | BBDT16Credential;
 
 export class PresentationBuilder extends Versioned {
@@ -122,6 +170,10 @@ export class PresentationBuilder extends Versioned {
   // underlying crypto changes.
   static VERSION = '0.10.0';
 
+  // Exclusive upper bound used when proving that a credential isn't expired. This is the start of year 10000 which is
+  // greater than any date-time that can be written as YYYY-MM-DDThh:mm:ss
+  static MAX_VALID_UNTIL = Date.UTC(10000, 0, 1);
+
   // This can specify the reason why the proof was created, or date of the proof, or self-attested attributes (as JSON string), etc
   _context?: string;
   // To prevent replay attack
@@ -143,6 +195,9 @@ export class PresentationBuilder extends Versioned {
   // Arguments required to calculate the pseudonyms to be presented
   unboundedPseudonyms: UnboundedPseudonym[];
 
+  // Arguments required to calculate the epoch scoped pseudonyms to be presented
+  epochPseudonyms: EpochPseudonym[];
+
   // Attributes proved equal in zero knowledge
   attributeEqualities: AttributeEquality[];
 
@@ -150,6 +205,21 @@ export class PresentationBuilder extends Versioned {
   // The 2nd item, i.e. Uint8Array in the pair is the encoded value of the public value with which inequality is proved
   attributeInequalities: Map<number, Map<string, [IPresentedAttributeInequality, Uint8Array][]>>;
 
+  // Attributes proved to be members of public sets in zero knowledge. An attribute can be proven a member of any number of sets
+  setMemberships: Map<number, Map<string, unknown[][]>>;
+
+  // Attributes proved unequal to each other in zero knowledge
+  privateInequalities: AttributeInequality[];
+
+  // Attributes compared with each other in zero knowledge
+  attributeComparisons: IPresentedAttributeComparison[];
+
+  // Weighted sums of attributes proved to be in a range in zero knowledge
+  linearCombinations: IPresentedLinearCombination[];
+
+  // Variable length arrays proved to contain values in zero knowledge
+  arrayMemberships: IArrayMembership[];
+
   // Each credential has only one accumulator for status
   credStatuses: Map<number, [AccumulatorWitnessType, AccumulatorValueType, AccumulatorPublicKey | undefined, object]>;
 
@@ -171,6 +241,9 @@ export class PresentationBuilder extends Versioned {
   // Parameters for predicates like snark proving key for bound check, verifiable encryption, Circom program
   predicateParams: Map<string, PredicateParamType>;
 
+  // Optional cache of signature params, default setup params and decompressed predicate params to reuse across presentations
+  paramsCache?: ParamsCache;
+
   // Blinded credential request. Stores `SignatureParams` as appropriately sized params are created by the request
   // builder already so not creating it again
   blindCredReq?: {
@@ -180,8 +253,11 @@ export class PresentationBuilder extends Versioned {
     attrNameToIndex: Map<string, number>;
     flattenedSchema: FlattenedSchema;
     blinding?: Uint8Array;
+    // Blinding of the commitment to each blinded attribute, keyed by the attribute index. Only for PS
+    attributeBlindings?: Map<number, Uint8Array>;
     // The 2nd item, i.e. Uint8Array in the pair is the encoded value of the public value with which inequality is proved
     attributeInequalities: Map<string, [IPresentedAttributeInequality, Uint8Array][]>;
+    privateInequalities: BlindedAttributeInequality[];
     bounds: Map<string, IPresentedAttributeBound[]>;
     verifEnc: Map<string, IPresentedAttributeVE[]>;
     circPred: IProverCircomPredicate[];
@@ -194,8 +270,14 @@ export class PresentationBuilder extends Versioned {
     this.revealedAttributes = new Map();
     this.attributeEqualities = [];
     this.attributeInequalities = new Map();
+    this.setMemberships = new Map();
+    this.privateInequalities = [];
+    this.attributeComparisons = [];
+    this.linearCombinations = [];
+    this.arrayMemberships = [];
     this.boundedPseudonyms = [];
     this.unboundedPseudonyms = [];
+    this.epochPseudonyms = [];
     this.credStatuses = new Map();
     this.bounds = new Map();
     this.verifEnc = new Map();
@@ -253,6 +335,160 @@ export class PresentationBuilder extends Versioned {
     this.attributeEqualities.push(equality);
   }
 
+  /**
+   * Enforce that a credential attribute is one of the given public values, like an allow-list, without revealing which.
+   * The proof size grows linearly with the number of values.
+   * @param credIdx
+   * @param attributeName - Nested attribute names use the "dot" separator
+   * @param values - Values of the same type as the attribute
+   */
+  enforceSetMembership(credIdx: number, attributeName: string, values: unknown[]) {
+    this.validateCredIndex(credIdx);
+    if (values.length === 0) {
+      throw new Error(`Set of values for attribute ${attributeName} should not be empty`);
+    }
+    let setsForThisCred = this.setMemberships.get(credIdx);
+    if (setsForThisCred === undefined) {
+      setsForThisCred = new Map();
+    }
+    const sets = setsForThisCred.get(attributeName) || [];
+    sets.push([...values]);
+    setsForThisCred.set(attributeName, sets);
+    this.setMemberships.set(credIdx, setsForThisCred);
+  }
+
+  /**
+   * Enforce that an enum attribute is one of the given values of its enum without revealing which, like the license class
+   * being one of "B" or "C". Throws if any of the values isn't in the enum as per the schema.
+   * @param credIdx
+   * @param attributeName - Nested attribute names use the "dot" separator
+   * @param values - A subset of the values of the enum
+   */
+  enforceEnumMembership(credIdx: number, attributeName: string, values: unknown[]) {
+    this.validateCredIndex(credIdx);
+    const enumValues = this.credentials[credIdx][0].schema.enumValues(attributeName);
+    for (const v of values) {
+      if (enumValues.indexOf(v) === -1) {
+        throw new Error(`${v} is not a value of the enum attribute ${attributeName} of credential index ${credIdx}`);
+      }
+    }
+    this.enforceSetMembership(credIdx, attributeName, values);
+  }
+
+  /**
+   * Enforce that a credential attribute is none of the given public values, like a deny-list. This is the same as enforcing
+   * inequality of the attribute with each value so the presentation contains an inequality for each value.
+   * @param credIdx
+   * @param attributeName - Nested attribute names use the "dot" separator
+   * @param values - Values of the same type as the attribute
+   * @param paramId - If absent, the default commitment key is used
+   * @param param
+   */
+  enforceSetNonMembership(
+    credIdx: number,
+    attributeName: string,
+    values: unknown[],
+    paramId?: string,
+    param?: PederCommKey | PederCommKeyUncompressed
+  ) {
+    if (values.length === 0) {
+      throw new Error(`Set of values for attribute ${attributeName} should not be empty`);
+    }
+    values.forEach((v, i) => {
+      // Param needs to be passed only once
+      this.enforceAttributeInequality(credIdx, attributeName, v, paramId, i === 0 ? param : undefined);
+    });
+  }
+
+  /**
+   * Enforce inequality between attributes of the credentials without revealing them. Unlike `enforceAttributeInequality`,
+   * the attribute isn't compared with a public value but with another hidden attribute, of the same or a different credential.
+   * @param first - Reference to an attribute as a pair with 1st item being credential index and 2nd being the attribute name
+   * @param second - Reference to the attribute that should be unequal to `first`
+   */
+  enforcePrivateAttributeInequality(first: AttributeRef, second: AttributeRef) {
+    this.validateCredIndex(first[0]);
+    this.validateCredIndex(second[0]);
+    if (first[0] === second[0] && first[1] === second[1]) {
+      throw new Error(`Cannot prove attribute ${first[1]} of credential index ${first[0]} unequal to itself`);
+    }
+    this.privateInequalities.push([first, second]);
+  }
+
+  /**
+   * Compare attributes of the credentials without revealing them, i.e. prove `first <operator> second * multiplier + offset`,
+   * like `salary >= rent * 3` or `issuanceDate < birthDate + 18 years`. Both attributes should be numeric or date-times as per
+   * their schemas. The difference of both sides is proven to be in a range using a bound check so the protocol is selected as
+   * in `enforceBounds`.
+   * @param first - Reference to an attribute as a pair with 1st item being credential index and 2nd being the attribute name
+   * @param operator
+   * @param second - Reference to the attribute that `first` is compared with
+   * @param multiplier - Positive integer that `second` is multiplied with
+   * @param offset - Added to `second` after multiplying. For date-times, this is in milliseconds
+   * @param paramId - An identifier, unique in the context of this builder that identifies a param. If absent, transparent range proof (Bulletproofs++) is used
+   * @param param - This is optional because if the param is already added in previous call to `enforceBounds`,
+   * then it shouldn't be passed.
+   */
+  enforceAttributeComparison(
+    first: AttributeRef,
+    operator: ComparisonOperator,
+    second: AttributeRef,
+    multiplier = 1,
+    offset = 0,
+    paramId?: string,
+    param?: BoundCheckParamType
+  ) {
+    this.validateCredIndex(first[0]);
+    this.validateCredIndex(second[0]);
+    if (!Number.isSafeInteger(multiplier) || multiplier < 1) {
+      throw new Error(`Multiplier should be a positive integer but was ${multiplier}`);
+    }
+    if (!Number.isFinite(offset)) {
+      throw new Error(`Offset should be a number but was ${offset}`);
+    }
+    const protocol = PresentationBuilder.boundCheckProtocol(this, paramId, param);
+    this.attributeComparisons.push({ attributes: [first, second], operator, multiplier, offset, paramId, protocol });
+  }
+
+  /**
+   * Enforce bounds on a weighted sum of attributes of the credentials without revealing them, i.e. prove
+   * `min <= w_1 * a_1 + w_2 * a_2 + ... + w_n * a_n < max`, like the sum of income across several payslip credentials being at
+   * least 50000. All attributes should be numeric or date-times as per their schemas. The sum is proven to be in the range
+   * using a bound check so the protocol is selected as in `enforceBounds`.
+   * @param attributes - References to attributes as pairs with 1st item being credential index and 2nd being the attribute name
+   * @param weights - Non-zero integers, one for each attribute. Use negative weights for subtracting attributes
+   * @param min - Inclusive lower bound on the sum
+   * @param max - Exclusive upper bound on the sum
+   * @param paramId - An identifier, unique in the context of this builder that identifies a param. If absent, transparent range proof (Bulletproofs++) is used
+   * @param param - This is optional because if the param is already added in previous call to `enforceBounds`,
+   * then it shouldn't be passed.
+   */
+  enforceBoundsOnLinearCombination(
+    attributes: AttributeRef[],
+    weights: number[],
+    min: number,
+    max: number,
+    paramId?: string,
+    param?: BoundCheckParamType
+  ) {
+    if (attributes.length === 0 || attributes.length !== weights.length) {
+      throw new Error(
+        `Need a weight for each of the attributes but found ${weights.length} weights for ${attributes.length} attributes`
+      );
+    }
+    attributes.forEach(([cIdx]) => this.validateCredIndex(cIdx));
+    for (const w of weights) {
+      if (!Number.isSafeInteger(w) || w === 0) {
+        throw new Error(`Weight should be a non-zero integer but was ${w}`);
+      }
+    }
+    if (!Number.isFinite(min) || !Number.isFinite(max) || min >= max) {
+      throw new Error(`Invalid bounds [${min}, ${max})`);
+    }
+    const protocol = PresentationBuilder.boundCheckProtocol(this, paramId, param);
+    this.linearCombinations.push({ attributes: [...attributes], weights: [...weights], min, max, paramId, protocol });
+  }
+
   /**
    * Add accumulator value, witness and public key for proving credential status.
    * @param credIdx
@@ -323,6 +559,95 @@ export class PresentationBuilder extends Versioned {
     this.bounds.set(credIdx, b);
   }
 
+  /**
+   * Prove that the credential isn't expired as of the given time without revealing its expiration date, i.e. its `validUntil`
+   * is at or after `time`. This is a bound check on `validUntil` so the protocol is selected as in `enforceBounds`. The
+   * verifier sees `time` as the minimum of the bound and should check that it's recent enough, like with `checkAgainstPolicy`.
+   * @param credIdx
+   * @param time - Defaults to the current time
+   * @param paramId - An identifier, unique in the context of this builder that identifies a param. If absent, transparent range proof (Bulletproofs++) is used
+   * @param param - This is optional because if the param is already added in previous call to `enforceBounds`,
+   * then it shouldn't be passed.
+   */
+  enforceNotExpired(credIdx: number, time: Date | number = new Date(), paramId?: string, param?: BoundCheckParamType) {
+    this.validateCredIndex(credIdx);
+    const cred = this.credentials[credIdx][0];
+    if (!cred.schema.isDateTime(VALID_UNTIL_STR)) {
+      throw new Error(`Credential at index ${credIdx} should have ${VALID_UNTIL_STR} of date-time type in its schema`);
+    }
+    const validUntil = cred.topLevelFields.get(VALID_UNTIL_STR);
+    if (validUntil === undefined) {
+      throw new Error(`Credential at index ${credIdx} does not have ${VALID_UNTIL_STR}`);
+    }
+    const t = typeof time === 'number' ? time : convertDateToTimestamp(time);
+    if (convertDateToTimestamp(validUntil) < t) {
+      throw new Error(`Credential at index ${credIdx} is expired at ${new Date(t).toISOString()}`);
+    }
+    this.enforceBounds(credIdx, VALID_UNTIL_STR, t, PresentationBuilder.MAX_VALID_UNTIL, paramId, param);
+  }
+
+  /**
+   * Prove that some item of a variable length array, or some attribute of its items, equals the given value without
+   * revealing which item, the other items or the length of the array. Like `enforceSetMembership`, this proves that the
+   * product of the differences of each item and the value is 0. All items up to `maxItems` are used so the padding
+   * items are used as well and thus the value can't be the same as the padding, like an empty string. The items can't
+   * be revealed. The proof size grows linearly with `maxItems`.
+   * @param credIdx
+   * @param arrayName - Nested attribute names use the "dot" separator, like `credentialSubject.degrees`
+   * @param value
+   * @param itemAttributeName - Name of the attribute in the array items, like `field` for
+   * `credentialSubject.degrees[].field`. Omit when the items aren't objects.
+   */
+  proveArrayContains(credIdx: number, arrayName: string, value: unknown, itemAttributeName?: string) {
+    this.validateCredIndex(credIdx);
+    const cred = this.credentials[credIdx][0];
+    const membership: IArrayMembership = { credIdx, arrayName, itemAttributeName, value };
+    // Throws if not an array or the value is the padding
+    Presentation.arrayMembershipItems(membership, cred.schema, cred.schema.flatten());
+    const attributes = flatten(cred.serializeForSigning()) as object;
+    const length = attributes[CredentialSchema.arrayLengthName(arrayName)] as number;
+    for (let i = 0; i < length; i++) {
+      const name = itemAttributeName !== undefined ? `${arrayName}.${i}.${itemAttributeName}` : `${arrayName}.${i}`;
+      if (attributes[name] === value) {
+        this.arrayMemberships.push(membership);
+        return;
+      }
+    }
+    throw new Error(`No item of ${arrayName} in credential index ${credIdx} has value ${value}`);
+  }
+
+  /**
+   * Prove that an optional attribute is present without revealing it. As an absent attribute is `null`, this is an
+   * inequality with `null`.
+   * @param credIdx
+   * @param attributeName - Nested attribute names use the "dot" separator
+   * @param paramId - If absent, the default commitment key is used
+   * @param param
+   */
+  proveAttributePresent(
+    credIdx: number,
+    attributeName: string,
+    paramId?: string,
+    param?: PederCommKey | PederCommKeyUncompressed
+  ) {
+    if (this.optionalAttributeValue(credIdx, attributeName) === null) {
+      throw new Error(`Attribute ${attributeName} is absent in credential index ${credIdx}`);
+    }
+    this.enforceAttributeInequality(credIdx, attributeName, null, paramId, param);
+  }
+
+  /**
+   * Prove that an optional attribute is absent. This reveals the attribute as it's `null` when absent.
+   * @param credIdx
+   * @param attributeName - Nested attribute names use the "dot" separator
+   */
+  proveAttributeAbsent(credIdx: number, attributeName: string) {
+    if (this.optionalAttributeValue(credIdx, attributeName) !== null) {
+      throw new Error(`Attribute ${attributeName} is present in credential index ${credIdx}`);
+    }
+    this.markAttributesRevealed(credIdx, new Set([attributeName]));
+  }
+
   /**
    *
    * @param credIdx
@@ -498,10 +823,210 @@ export class PresentationBuilder extends Versioned {
     return this.unboundedPseudonyms.length - 1;
   }
 
+  /**
+   * Add a pseudonym bound to the given attributes that is unique to the verifier's scope, the epoch and the counter. The
+   * verifier links presentations with the same pseudonym in an epoch and can limit the holder to `maxCount` presentations
+   * per epoch, like for voting or rate limiting. The counter is hidden and proven to be in [0, maxCount) using a bound
+   * check so the protocol is selected as in `enforceBounds`. The attributes should be unique to the holder and have high
+   * entropy, like a secret issued blindly, as otherwise the pseudonym can be brute forced.
+   * @param scope - Unique scope of the verifier
+   * @param epoch - Index of the epoch, like returned by `PseudonymBases.epochOf`
+   * @param attributeNames - Attributes from each credential: keys are credential indexes, values are attribute names
+   * @param counter - A different counter must be used for each presentation to the verifier in the epoch
+   * @param maxCount - The number of presentations allowed by the verifier in an epoch
+   * @param paramId - An identifier, unique in the context of this builder that identifies a param. If absent, transparent range proof (Bulletproofs++) is used
+   * @param param - This is optional because if the param is already added in previous call to `enforceBounds`,
+   * then it shouldn't be passed.
+   * @returns - index of the pseudonym
+   */
+  addEpochPseudonym(
+    scope: Uint8Array,
+    epoch: number,
+    attributeNames: Map<number, string[]>,
+    counter = 0,
+    maxCount = 1,
+    paramId?: string,
+    param?: BoundCheckParamType
+  ): number {
+    let numberOfAttributes = 0;
+    for (const [credIdx, attributes] of attributeNames.entries()) {
+      this.validateCredIndex(credIdx);
+      numberOfAttributes += attributes.length;
+    }
+    if (numberOfAttributes === 0) {
+      throw new Error('Epoch pseudonym must be bound to at least 1 attribute');
+    }
+    if (!Number.isInteger(maxCount) || maxCount < 1) {
+      throw new Error(`maxCount must be a positive integer but was ${maxCount}`);
+    }
+    if (!Number.isInteger(counter) || counter < 0 || counter >= maxCount) {
+      throw new Error(`Counter must be an integer in [0, ${maxCount}) but was ${counter}`);
+    }
+    const protocol = PresentationBuilder.boundCheckProtocol(this, paramId, param);
+    this.epochPseudonyms.push({
+      attributeNames,
+      baseForEpoch: PseudonymBases.generateBaseForEpoch(scope, epoch),
+      weights: PseudonymBases.generateWeightsForEpoch(scope, numberOfAttributes),
+      scope,
+      epoch,
+      counter,
+      maxCount,
+      paramId,
+      protocol
+    });
+    return this.epochPseudonyms.length - 1;
+  }
+
+  /**
+   * Summarize what the presentation will disclose to the verifier, like for getting the holder's consent before calling
+   * `finalize`. This is same as `PresentationSpecification.describe` but uses what has been added to this builder.
+   * @param knownScopes - Scopes used to generate pseudonym bases. Used to find the scope of each pseudonym.
+   */
+  describe(knownScopes?: Uint8Array[]): IDisclosureSummary {
+    // Encoded attributes of each credential, needed for computing pseudonyms
+    const encodedAttrs: Map<number, Uint8Array>[] = [];
+    const credentials = this.credentials.map(([cred], credIdx) => {
+      const [revealedEncoded, unrevealedEncoded, revealedAtts] = getRevealedAndUnrevealed(
+        cred.serializeForSigning(),
+        this.revealedAttributes.get(credIdx) ?? new Set<string>(),
+        cred.schema.encoder,
+        semver.gte(cred.version, '0.6.0')
+      );
+      encodedAttrs.push(new Map([...revealedEncoded.entries(), ...unrevealedEncoded.entries()]));
+      // These are always revealed by `finalize` and the status is described separately
+      delete revealedAtts[CRYPTO_VERSION_STR];
+      delete revealedAtts[SCHEMA_STR];
+      delete revealedAtts[STATUS_STR];
+      const ineqs =
+        this.attributeInequalities.get(credIdx) ?? new Map<string, [IPresentedAttributeInequality, Uint8Array][]>();
+      const c: ICredentialDisclosureInput = {
+        schema: cred.schema,
+        revealedAttributes: revealedAtts,
+        status:
+          cred.credentialStatus !== undefined
+            ? [cred.credentialStatus[ID_STR], cred.credentialStatus[REV_CHECK_STR]]
+            : undefined,
+        bounds: this.bounds.get(credIdx) ?? new Map(),
+        inequalities: new Map([...ineqs.entries()].map(([n, i]) => [n, i.map(([ineq]) => ineq)])),
+        setMemberships: this.setMemberships.get(credIdx) ?? new Map(),
+        verifiableEncryptions: this.verifEnc.get(credIdx) ?? new Map(),
+        circomPredicates: (this.circomPredicates.get(credIdx) ?? []).map(circomPredicateAttributes)
+      };
+      return c;
+    });
+
+    // References to the attributes of a pseudonym and their encoded values
+    const pseudonymAttributes = (attributeNames: Map<number, string[]>): [AttributeRef[], Uint8Array[]] => {
+      const attributes: AttributeRef[] = [];
+      const attributeValues: Uint8Array[] = [];
+      for (const [credIdx, names] of attributeNames.entries()) {
+        const flattenedNames = this.credentials[credIdx][0].schema.flatten()[0];
+        for (const n of names) {
+          attributes.push([credIdx, n]);
+          attributeValues.push(encodedAttrs[credIdx].get(flattenedNames.indexOf(n)) as Uint8Array);
+        }
+      }
+      return [attributes, attributeValues];
+    };
+    const pseudonyms: IPseudonymDisclosureInput[] = this.boundedPseudonyms.map((p) => {
+      const [attributes, attributeValues] = pseudonymAttributes(p.attributeNames);
+      const pseudonym = AttributeBoundPseudonym.new(
+        p.basesForAttributes,
+        attributeValues,
+        p.baseForSecretKey,
+        p.secretKey
+      );
+      return {
+        pseudonym: Pseudonym.decode(pseudonym.value),
+        attributes,
+        basesForAttributes: p.basesForAttributes,
+        baseForSecretKey: p.baseForSecretKey
+      };
+    });
+    this.unboundedPseudonyms.forEach((p) => {
+      pseudonyms.push({
+        pseudonym: Pseudonym.decode(Pseudonym.new(p.baseForSecretKey, p.secretKey).value),
+        attributes: [],
+        basesForAttributes: [],
+        baseForSecretKey: p.baseForSecretKey
+      });
+    });
+    this.epochPseudonyms.forEach((p) => {
+      const [attributes, attributeValues] = pseudonymAttributes(p.attributeNames);
+      pseudonyms.push({
+        pseudonym: Pseudonym.decode(
+          EpochBoundPseudonym.new(p.baseForEpoch, p.weights, attributeValues, bigIntToFieldElement(BigInt(p.counter)))
+            .value
+        ),
+        attributes,
+        basesForAttributes: [p.baseForEpoch],
+        epoch: { scope: p.scope, epoch: p.epoch, maxCount: p.maxCount }
+      });
+    });
+
+    let blindCredentialRequest: IBlindCredentialRequestDisclosureInput | undefined;
+    if (this.blindCredReq !== undefined) {
+      const { req, encodedAttributes, attrNameToIndex } = this.blindCredReq;
+      blindCredentialRequest = {
+        schema: req.schema,
+        sigType: req.sigType,
+        blindedAttributes: Object.keys(flatten(req.blindedAttributes)),
+        unBlindedAttributes: req.unBlindedAttributes,
+        blindedAttributeEqualities: req.blindedAttributeEqualities ?? [],
+        blindedAttributePrivateInequalities: this.blindCredReq.privateInequalities,
+        bounds: this.blindCredReq.bounds,
+        inequalities: new Map(
+          [...this.blindCredReq.attributeInequalities.entries()].map(([n, i]) => [n, i.map(([ineq]) => ineq)])
+        ),
+        verifiableEncryptions: this.blindCredReq.verifEnc,
+        circomPredicates: this.blindCredReq.circPred.map(circomPredicateAttributes),
+        pseudonyms: this.blindCredReq.pseudonyms.map((p) => {
+          const [attributes, attributeValues] = pseudonymAttributes(p.credentialAttributes);
+          for (const name of p.blindedAttributes) {
+            attributeValues.push(encodedAttributes.get(attrNameToIndex.get(name) as number) as Uint8Array);
+          }
+          const pseudonym = AttributeBoundPseudonym.new(
+            p.basesForAttributes,
+            attributeValues,
+            p.baseForSecretKey,
+            p.secretKey
+          );
+          return {
+            pseudonym: Pseudonym.decode(pseudonym.value),
+            attributes,
+            basesForAttributes: p.basesForAttributes,
+            baseForSecretKey: p.baseForSecretKey,
+            blindedAttributes: p.blindedAttributes
+          };
+        })
+      };
+    }
+    return summarizeDisclosures(
+      {
+        credentials,
+        attributeEqualities: this.attributeEqualities,
+        privateInequalities: this.privateInequalities,
+        attributeComparisons: this.attributeComparisons,
+        linearCombinations: this.linearCombinations,
+        arrayMemberships: this.arrayMemberships,
+        pseudonyms,
+        circomPredicatesMultiCred: this.circomPredicatesMultiCred.map((p) => {
+          const refs: AttributeRef[] = [];
+          p.privateVars.forEach(([, r]) => refs.push(...((Array.isArray(r[0]) ? r : [r]) as AttributeRef[])));
+          return [p.circuitId, refs];
+        }),
+        blindCredentialRequest
+      },
+      knownScopes
+    );
+  }
+
   /**
    * Create a presentation
    */
   finalize(): Presentation {
+    this.enforceArrayLengths();
+
     const numCreds = this.credentials.length;
     const statements = new Statements();
     const metaStatements = new MetaStatements();
@@ -516,7 +1041,13 @@ export class PresentationBuilder extends Versioned {
     // For credentials with status, i.e. using accumulators, type is [credIndex, protocol, revCheckType, encoded (non)member]
     const credStatusAux: [number, string, string, Uint8Array][] = [];
 
-    const setupParamsTrk = new SetupParamsTracker();
+    // For set membership, type is [credIndex, attribute index in schema, encoded attribute, encoded values, commitments, randomness]
+    const setMemAux: [number, number, Uint8Array, Uint8Array[], Uint8Array[], Uint8Array[]][] = [];
+
+    // For array membership, type is [membership, attribute indices of items in schema, encoded items, encoded values]
+    const arrayMemAux: [IArrayMembership, number[], Uint8Array[], Uint8Array[]][] = [];
+
+    const setupParamsTrk = new SetupParamsTracker(this.paramsCache);
     const sigParamsByScheme = new Map();
 
     // Create statements and witnesses for proving possession of each credential, i.e. proof of knowledge of the sigs.
@@ -535,7 +1066,10 @@ export class PresentationBuilder extends Versioned {
       if (paramsClass === null) {
         throw new Error(`Invalid signature: ${cred.signature.constructor.name} at credential index ${credIndex}`);
       }
-      const sigParams = getSignatureParamsForMsgCount(sigParamsByScheme, paramsClass, numAttribs);
+      const sigParams =
+        this.paramsCache !== undefined
+          ? this.paramsCache.getSignatureParams(paramsClass, numAttribs)
+          : getSignatureParamsForMsgCount(sigParamsByScheme, paramsClass, numAttribs);
 
       // CredentialBuilder version, schema and 2 fields of revocation - registry id (denoting the accumulator) and the check
       // type, i.e. "membership" or "non-membership" are always revealed.
@@ -630,6 +1164,24 @@ export class PresentationBuilder extends Versioned {
         unrevealedMsgsEncoded.set(credIndex, encodedAttrs);
       }
 
+      // Get encoded attributes which are proved unequal to or compared with other attributes
+      const privIneqRefs: AttributeRef[] = [];
+      this.privateInequalities.forEach(([f, s]) => privIneqRefs.push(f, s));
+      this.attributeComparisons.forEach(({ attributes }) => privIneqRefs.push(...attributes));
+      this.linearCombinations.forEach(({ attributes }) => privIneqRefs.push(...attributes));
+      if (this.blindCredReq !== undefined) {
+        privIneqRefs.push(...this.blindCredReq.privateInequalities.map((ineq) => ineq[1]));
+      }
+      if (privIneqRefs.some((r) => r[0] === credIndex)) {
+        const encodedAttrs = unrevealedMsgsEncoded.get(credIndex) || new Map<number, Uint8Array>();
+        for (const [cId, name] of privIneqRefs) {
+          if (cId === credIndex) {
+            updateEncodedAttrs(name, encodedAttrs);
+          }
+        }
+        unrevealedMsgsEncoded.set(credIndex, encodedAttrs);
+      }
+
       // Get encoded attributes which are used in inequality check
       const ineqs = this.attributeInequalities.get(credIndex);
       let attributeIneqs: { [key: string]: string | IPresentedAttributeInequality[] } | undefined;
@@ -650,6 +1202,45 @@ export class PresentationBuilder extends Versioned {
         unrevealedMsgsEncoded.set(credIndex, encodedAttrs);
       }
 
+      // Get encoded attributes which are proved members of sets and commit to the products of their differences with the values
+      const sets = this.setMemberships.get(credIndex);
+      let attributeSetMems: { [key: string]: string | IPresentedSetMembership[] } | undefined;
+      if (sets !== undefined && sets.size > 0) {
+        attributeSetMems = {};
+        const encodedAttrs = unrevealedMsgsEncoded.get(credIndex) || new Map<number, Uint8Array>();
+        for (const [name, valueSets] of sets.entries()) {
+          const encodedAttr = updateEncodedAttrs(name, encodedAttrs);
+          const nameIdx = flattenedSchema[0].indexOf(name);
+          attributeSetMems[name] = valueSets.map((values) => {
+            const encodedValues = values.map((v) => schema.encoder.encodeMessageConstantTime(name, v));
+            const [commitments, randomness] = PresentationBuilder.commitToProductOfDifferences(
+              encodedValues.map(() => encodedAttr),
+              encodedValues,
+              `Attribute ${name} is not a member of the set`
+            );
+            setMemAux.push([credIndex, nameIdx, encodedAttr, encodedValues, commitments, randomness]);
+            return {
+              values,
+              commitments: commitments.map((c) => b58.encode(c)),
+              protocol: SetMembershipProtocol.ProductOfDifferences
+            };
+          });
+        }
+        attributeSetMems = unflatten(attributeSetMems);
+        unrevealedMsgsEncoded.set(credIndex, encodedAttrs);
+      }
+
+      // Get encoded items of arrays proved to contain values
+      for (const membership of this.arrayMemberships) {
+        if (membership.credIdx === credIndex) {
+          const encodedAttrs = unrevealedMsgsEncoded.get(credIndex) || new Map<number, Uint8Array>();
+          const [indices, values] = Presentation.arrayMembershipItems(membership, schema, flattenedSchema);
+          const items = indices.map((idx) => updateEncodedAttrs(flattenedSchema[0][idx], encodedAttrs));
+          arrayMemAux.push([membership, indices, items, values]);
+          unrevealedMsgsEncoded.set(credIndex, encodedAttrs);
+        }
+      }
+
       // Get encoded attributes which are used in bound check
       const bounds = this.bounds.get(credIndex);
       let attributeBounds: { [key: string]: string | IPresentedAttributeBound[] } | undefined;
@@ -735,6 +1326,9 @@ export class PresentationBuilder extends Versioned {
         const attributeNames = this.boundedPseudonyms[j].attributeNames.get(credIndex);
         updateUnrevealedMsgsEncoded(attributeNames);
       }
+      for (const p of this.epochPseudonyms) {
+        updateUnrevealedMsgsEncoded(p.attributeNames.get(credIndex));
+      }
 
       // Get encoded attributes which are used in bounded pseudonyms for the blinded credential request
       if (this.blindCredReq !== undefined && this.blindCredReq.pseudonyms.length > 0) {
@@ -759,7 +1353,8 @@ export class PresentationBuilder extends Versioned {
         predicatesForSpec,
         // @ts-ignore
         cred.constructor.getSigType(),
-        attributeIneqs
+        attributeIneqs,
+        attributeSetMems
       );
 
       flattenedSchemas.push(flattenedSchema);
@@ -965,6 +1560,51 @@ export class PresentationBuilder extends Versioned {
       this.spec.unboundedPseudonyms = presentedUnboundedPseudonyms;
     }
 
+    // Create statements and witnesses for each epoch scoped pseudonyms. The pseudonym times the weighted sum of the
+    // attributes and the counter is the base so the statement is a Pedersen commitment with the pseudonym times each
+    // weight as the bases. The counter is the last witness and a bound check proves that it's in [0, maxCount)
+    if (this.epochPseudonyms.length > 0) {
+      const presentedEpochPseudonyms = {};
+      for (const epochPseudonym of this.epochPseudonyms) {
+        const [witnessEqs, attributes] = createWitnessEqualitiesForPseudonyms(epochPseudonym.attributeNames);
+        const counter = bigIntToFieldElement(BigInt(epochPseudonym.counter));
+        const { baseForEpoch, weights } = epochPseudonym;
+        const pseudonym = EpochBoundPseudonym.new(baseForEpoch, weights, attributes, counter);
+        const sIdx = statements.add(
+          Statement.pedersenCommitmentG1(EpochBoundPseudonym.commitmentBases(pseudonym.value, weights), baseForEpoch)
+        );
+        witnesses.add(Witness.pedersenCommitment([...attributes, counter]));
+        for (const [witnessEq, attributeIndex] of witnessEqs) {
+          witnessEq.addWitnessRef(sIdx, attributeIndex);
+          metaStatements.addWitnessEquality(witnessEq);
+        }
+        const [statement, witness] = this.boundCheckStatementAndWitness(
+          0,
+          epochPseudonym.maxCount,
+          counter,
+          epochPseudonym.paramId,
+          epochPseudonym.protocol,
+          setupParamsTrk,
+          sIdx
+        );
+        const bIdx = statements.add(statement);
+        witnesses.add(witness);
+        const witnessEq = new WitnessEqualityMetaStatement();
+        witnessEq.addWitnessRef(sIdx, attributes.length);
+        witnessEq.addWitnessRef(bIdx, 0);
+        metaStatements.addWitnessEquality(witnessEq);
+        presentedEpochPseudonyms[Pseudonym.decode(pseudonym.value)] = {
+          scope: b58.encode(epochPseudonym.scope),
+          epoch: epochPseudonym.epoch,
+          maxCount: epochPseudonym.maxCount,
+          paramId: epochPseudonym.paramId,
+          protocol: epochPseudonym.protocol,
+          attributes: Object.fromEntries(epochPseudonym.attributeNames)
+        };
+      }
+      this.spec.epochPseudonyms = presentedEpochPseudonyms;
+    }
+
     // Create meta-statements for enforcing attribute equalities
     for (const eql of this.attributeEqualities) {
       const [wq, attrIndices] = createWitEq(eql, flattenedSchemas);
@@ -985,6 +1625,112 @@ export class PresentationBuilder extends Versioned {
       this.spec.addAttributeEquality(eql);
     }
 
+    // For enforcing inequalities between attributes, add statements and witnesses
+    for (const [first, second] of this.privateInequalities) {
+      const firstIdx = flattenedSchemas[first[0]][0].indexOf(first[1]);
+      const secondIdx = flattenedSchemas[second[0]][0].indexOf(second[1]);
+      const commitment = this.processPrivateInequality(
+        [first[0], firstIdx],
+        [second[0], secondIdx],
+        unrevealedMsgsEncoded.get(first[0])?.get(firstIdx) as Uint8Array,
+        unrevealedMsgsEncoded.get(second[0])?.get(secondIdx) as Uint8Array,
+        `Attribute inequality not satisfied: (${first[0]},${first[1]}), (${second[0]},${second[1]})`,
+        statements,
+        witnesses,
+        metaStatements,
+        setupParamsTrk
+      );
+      this.spec.addPrivateInequality({
+        attributes: [first, second],
+        commitment,
+        protocol: InequalityProtocol.Uprove
+      });
+    }
+
+    // For enforcing comparisons between attributes, add statement for the difference of both sides and a bound check on it
+    for (const comparison of this.attributeComparisons) {
+      const [[c1, n1], [c2, n2]] = comparison.attributes;
+      const first: [number, number] = [c1, flattenedSchemas[c1][0].indexOf(n1)];
+      const second: [number, number] = [c2, flattenedSchemas[c2][0].indexOf(n2)];
+      const a = unrevealedMsgsEncoded.get(c1)?.get(first[1]) as Uint8Array;
+      const b = unrevealedMsgsEncoded.get(c2)?.get(second[1]) as Uint8Array;
+      const coefficients = Presentation.attributeComparisonCoefficients(comparison, flattenedSchemas);
+      const diff = coefficients[0] * fromLeToBigInt(a) + coefficients[1] * fromLeToBigInt(b) + coefficients[2];
+      const minDiff = Presentation.attributeComparisonMinDifference(comparison.operator);
+      if (diff < BigInt(minDiff) || diff >= BigInt(MAX_ATTRIBUTE_COMPARISON_DIFFERENCE)) {
+        throw new Error(
+          `Attribute comparison not satisfied: (${c1},${n1}) ${comparison.operator} (${c2},${n2}) * ${comparison.multiplier} + ${comparison.offset}`
+        );
+      }
+      const diffFe = bigIntToFieldElement(diff);
+      const sIdx = Presentation.addAttributeComparisonStatement(coefficients, first, second, statements, metaStatements);
+      witnesses.add(Witness.pedersenCommitment([a, b, diffFe]));
+      const [statement, witness] = this.boundCheckStatementAndWitness(
+        minDiff,
+        MAX_ATTRIBUTE_COMPARISON_DIFFERENCE,
+        diffFe,
+        comparison.paramId,
+        comparison.protocol,
+        setupParamsTrk,
+        sIdx
+      );
+      const bIdx = statements.add(statement);
+      witnesses.add(witness);
+      const witnessEq = new WitnessEqualityMetaStatement();
+      witnessEq.addWitnessRef(sIdx, 2);
+      witnessEq.addWitnessRef(bIdx, 0);
+      metaStatements.addWitnessEquality(witnessEq);
+      this.spec.addAttributeComparison(comparison);
+    }
+
+    // For enforcing bounds on linear combinations of attributes, add statement for the sum minus its lower bound and a bound
+    // check on it
+    for (const linearCombination of this.linearCombinations) {
+      const attributes = linearCombination.attributes.map(
+        ([c, n]) => [c, flattenedSchemas[c][0].indexOf(n)] as [number, number]
+      );
+      const values = attributes.map(([c, i]) => unrevealedMsgsEncoded.get(c)?.get(i) as Uint8Array);
+      const [coefficients, constant, max] = Presentation.linearCombinationCoefficients(
+        linearCombination,
+        flattenedSchemas
+      );
+      let sum = constant;
+      coefficients.forEach((c, i) => {
+        sum += c * fromLeToBigInt(values[i]);
+      });
+      if (sum < BigInt(0) || sum >= BigInt(max)) {
+        const terms = linearCombination.attributes.map(([c, n], i) => `${linearCombination.weights[i]} * (${c},${n})`);
+        throw new Error(
+          `Linear combination not in bounds: ${terms.join(' + ')} not in [${linearCombination.min}, ${linearCombination.max})`
+        );
+      }
+      const sumFe = bigIntToFieldElement(sum);
+      const sIdx = Presentation.addLinearCombinationStatement(
+        coefficients,
+        constant,
+        attributes,
+        statements,
+        metaStatements
+      );
+      witnesses.add(Witness.pedersenCommitment([...values, sumFe]));
+      const [statement, witness] = this.boundCheckStatementAndWitness(
+        0,
+        max,
+        sumFe,
+        linearCombination.paramId,
+        linearCombination.protocol,
+        setupParamsTrk,
+        sIdx
+      );
+      const bIdx = statements.add(statement);
+      witnesses.add(witness);
+      const witnessEq = new WitnessEqualityMetaStatement();
+      witnessEq.addWitnessRef(sIdx, coefficients.length);
+      witnessEq.addWitnessRef(bIdx, 0);
+      metaStatements.addWitnessEquality(witnessEq);
+      this.spec.addLinearCombination(linearCombination);
+    }
+
     // For enforcing attribute inequalities, add statement and witness
     for (const [cId, ineqs] of this.attributeInequalities.entries()) {
       this.processAttributeInequalities(
@@ -1003,6 +1749,43 @@ export class PresentationBuilder extends Versioned {
       );
     }
 
+    // For enforcing set memberships, add statements and witnesses. Sort by attribute index so that both prover and verifier
+    // create statements in the same order
+    setMemAux.sort((a, b) => (a[0] === b[0] ? a[1] - b[1] : a[0] - b[0]));
+    for (const [cId, nameIdx, encodedAttr, encodedValues, commitments, randomness] of setMemAux) {
+      Presentation.addSetMembershipStatements([cId, nameIdx], encodedValues, commitments, statements, metaStatements);
+      for (let i = 0; i < encodedValues.length; i++) {
+        witnesses.add(Witness.pedersenCommitment([encodedAttr, randomness[i]]));
+      }
+      witnesses.add(Witness.pedersenCommitment([randomness[encodedValues.length]]));
+    }
+
+    // For proving that arrays contain values, commit to the products of the differences of the items and the values and
+    // add statements and witnesses
+    for (const [membership, indices, items, values] of arrayMemAux) {
+      const [commitments, randomness] = PresentationBuilder.commitToProductOfDifferences(
+        items,
+        values,
+        `No item of ${membership.arrayName} in credential index ${membership.credIdx} has value ${membership.value}`
+      );
+      Presentation.addArrayMembershipStatements(
+        indices.map((idx) => [membership.credIdx, idx]),
+        values,
+        commitments,
+        statements,
+        metaStatements
+      );
+      for (let i = 0; i < items.length; i++) {
+        witnesses.add(Witness.pedersenCommitment([items[i], randomness[i]]));
+      }
+      witnesses.add(Witness.pedersenCommitment([randomness[items.length]]));
+      this.spec.addArrayMembership({
+        ...membership,
+        commitments: commitments.map((c) => b58.encode(c)),
+        protocol: SetMembershipProtocol.ProductOfDifferences
+      });
+    }
+
     // For enforcing attribute bounds, add statement and witness
     for (const [cId, bounds] of this.bounds.entries()) {
       this.processBoundChecks(
@@ -1154,8 +1937,17 @@ export class PresentationBuilder extends Versioned {
       ) {
         const commKey = sigParams.getParamsForIndices(blindedAttributeIndices);
         pedCommStId = statements.add(Statement.pedersenCommitmentG1(commKey, this.blindCredReq.req.commitment));
+      } else if (sigParams instanceof PSSignatureParams) {
+        pedCommStId = addPSBlindedCredReqStatements(
+          statements,
+          metaStatements,
+          sigParams,
+          blindedAttributeIndices,
+          this.blindCredReq.req.commitment,
+          this.blindCredReq.req.attributeCommitments as Uint8Array[]
+        );
       } else {
-        throw new Error('Not yet implemented for PS');
+        throw new Error(`Blind signing not implemented for ${sigParams}`);
       }
 
       if (sigParams instanceof BBSSignatureParams) {
@@ -1165,7 +1957,13 @@ export class PresentationBuilder extends Versioned {
         witnesses.add(Witness.pedersenCommitment([this.blindCredReq.blinding as Uint8Array, ...blindedAttributeValues]));
         pedCommWitnessOffset = 1;
       } else {
-        throw new Error('Blind signing not yet implemented for PS');
+        // The commitment to all blinded attributes is perfectly hiding as in BBS+
+        getPSWitnessesForBlindSigRequest(
+          encodedAttributes,
+          this.blindCredReq.blinding as Uint8Array,
+          this.blindCredReq.attributeBlindings as Map<number, Uint8Array>
+        ).forEach((w) => witnesses.add(w));
+        pedCommWitnessOffset = 1;
       }
 
       // Get the attribute index in the Pedersen commitment witness
@@ -1198,6 +1996,33 @@ export class PresentationBuilder extends Versioned {
 
       this.spec.blindCredentialRequest = this.blindCredReq.req;
 
+      // Create statements, witnesses and meta-statements for enforcing inequalities between blinded attributes and other
+      // credential attributes
+      if (this.blindCredReq.privateInequalities.length > 0) {
+        this.spec.blindCredentialRequest.blindedAttributePrivateInequalities = [];
+        for (const [name, attribute] of this.blindCredReq.privateInequalities) {
+          const index = getAttrIndexInPedComm(name);
+          const otherIdx = flattenedSchemas[attribute[0]][0].indexOf(attribute[1]);
+          const commitment = this.processPrivateInequality(
+            [pedCommStId, index],
+            [attribute[0], otherIdx],
+            getAttrValue(index),
+            unrevealedMsgsEncoded.get(attribute[0])?.get(otherIdx) as Uint8Array,
+            `Inequality of blinded attribute ${name} with (${attribute[0]},${attribute[1]}) not satisfied`,
+            statements,
+            witnesses,
+            metaStatements,
+            setupParamsTrk
+          );
+          this.spec.blindCredentialRequest.blindedAttributePrivateInequalities.push({
+            blindedAttribute: name,
+            attribute,
+            commitment,
+            protocol: InequalityProtocol.Uprove
+          });
+        }
+      }
+
       // Create statements, witnesses and meta-statements for enforcing inequalities on blinded attributes
       if (this.blindCredReq.attributeInequalities.size > 0) {
         let m = new Map();
@@ -1380,6 +2205,45 @@ export class PresentationBuilder extends Versioned {
     this._nonce = nonce;
   }
 
+  /**
+   * A variable length array is padded to its maximum length so for each array whose items are used in this
+   * presentation, prove that the array is long enough to have those items. Otherwise, the holder could use the padding.
+   * The length is proved using a bound check so that its not revealed. The verifier checks these in
+   * `Presentation.verify`.
+   */
+  private enforceArrayLengths() {
+    const arrays = this.credentials.map(([cred]) => cred.schema.variableLengthArrays());
+    if (arrays.every((a) => a.size === 0)) {
+      return;
+    }
+    requiredArrayLengths(this.describe(), arrays).forEach((lengths, credIdx) => {
+      const attributes = flatten(this.credentials[credIdx][0].serializeForSigning()) as object;
+      for (const [arrayName, minLength] of lengths) {
+        const lengthName = CredentialSchema.arrayLengthName(arrayName);
+        if (attributes[lengthName] < minLength) {
+          throw new Error(
+            `Array ${arrayName} of credential index ${credIdx} has ${attributes[lengthName]} items but item ${
+              minLength - 1
+            } is used`
+          );
+        }
+        const bounds = this.bounds.get(credIdx)?.get(lengthName) ?? [];
+        if (!bounds.some((b) => b.min >= minLength)) {
+          this.enforceBounds(credIdx, lengthName, minLength, (arrays[credIdx].get(arrayName) as number) + 1);
+        }
+      }
+    });
+  }
+
+  private optionalAttributeValue(credIdx: number, attributeName: string): unknown {
+    this.validateCredIndex(credIdx);
+    const cred = this.credentials[credIdx][0];
+    if (!cred.schema.isOptional(attributeName)) {
+      throw new Error(`Attribute ${attributeName} isn't optional in the schema of credential index ${credIdx}`);
+    }
+    return (flatten(cred.serializeForSigning()) as object)[attributeName];
+  }
+
   validateCredIndex(credIdx: number) {
     if (credIdx >= this.credentials.length) {
       throw new Error(`Invalid credential index ${credIdx}. Number of credentials is ${this.credentials.length}`);
@@ -1395,6 +2259,14 @@ export class PresentationBuilder extends Versioned {
     }
   }
 
+  // Get the predicate param, in uncompressed form if a cache is being used
+  private getPredicateParam(id: string): PredicateParamType | undefined {
+    const param = this.predicateParams.get(id);
+    return param !== undefined && this.paramsCache !== undefined
+      ? this.paramsCache.getDecompressedPredicateParam(id, param)
+      : param;
+  }
+
   static r1csParamId(circuitId: string): string {
     return `${circuitId}__r1cs__`;
   }
@@ -1476,7 +2348,7 @@ export class PresentationBuilder extends Versioned {
         if (areUint8ArraysEqual(encodedAttrVal, ineq)) {
           throw new Error(`Attribute inequality for ${name} with ${inEqualTo} not satisfied`);
         }
-        const param = paramId !== undefined ? this.predicateParams.get(paramId) : undefined;
+        const param = paramId !== undefined ? this.getPredicateParam(paramId) : undefined;
         const statement = Presentation.publicInequalityStatement(ineq, setupParamsTrk, credIdx, paramId, param);
         const witness = Witness.publicInequality(encodedAttrVal);
 
@@ -1490,6 +2362,130 @@ export class PresentationBuilder extends Versioned {
     });
   }
 
+  /**
+   * Commit to the products of differences of each attribute `a_i` and value `v_i` as described in
+   * `Presentation.addSetMembershipStatements`. Returns the commitments and the randomness `r_1, r_2, ..., r_n` used in each
+   * commitment followed by the randomness `R` of the last commitment.
+   * @param attributes
+   * @param values
+   * @param error - Thrown when the product isn't 0
+   */
+  private static commitToProductOfDifferences(
+    attributes: Uint8Array[],
+    values: Uint8Array[],
+    error: string
+  ): [Uint8Array[], Uint8Array[]] {
+    // Reduce modulo the field order
+    const reduce = (n: bigint): bigint => fromLeToBigInt(bigIntToFieldElement(n));
+    const [g, h] = dockSetMembershipCommKey();
+    let product = BigInt(1);
+    let blinding = BigInt(0);
+    const commitments: Uint8Array[] = [];
+    const randomness: Uint8Array[] = [];
+    for (const [i, v] of values.entries()) {
+      const diff = reduce(fromLeToBigInt(attributes[i]) - fromLeToBigInt(v));
+      const r = generateRandomFieldElement();
+      product = reduce(product * diff);
+      blinding = reduce(blinding * diff + fromLeToBigInt(r));
+      commitments.push(pedersenCommitmentG1([g, h], [bigIntToFieldElement(product), bigIntToFieldElement(blinding)]));
+      randomness.push(r);
+    }
+    // Check if attribute is actually a member. This is needed as the proof can't be created otherwise.
+    if (product !== BigInt(0)) {
+      throw new Error(error);
+    }
+    randomness.push(bigIntToFieldElement(blinding));
+    return [commitments, randomness];
+  }
+
+  /**
+   * Add statements, witnesses and meta-statements for proving that attributes `a` and `b` are unequal. Returns the base58
+   * encoded commitment to `a`, which is shared with the verifier.
+   */
+  private processPrivateInequality(
+    first: [number, number],
+    second: [number, number],
+    a: Uint8Array,
+    b: Uint8Array,
+    errorMsg: string,
+    statements: Statements,
+    witnesses: Witnesses,
+    metaStatements: MetaStatements,
+    setupParamsTrk: SetupParamsTracker
+  ): string {
+    // Check if attributes are actually unequal. This is needed as the proof can't be created otherwise.
+    if (areUint8ArraysEqual(a, b)) {
+      throw new Error(errorMsg);
+    }
+    const randomness = generateRandomFieldElement();
+    const diff = subtractFieldElements(a, b);
+    const commitment = pedersenCommitmentG1(dockPrivateInequalityCommKey(), [a, randomness]);
+    Presentation.addPrivateInequalityStatements(commitment, first, second, statements, metaStatements, setupParamsTrk);
+    witnesses.add(Witness.pedersenCommitment([a, randomness]));
+    witnesses.add(Witness.pedersenCommitment([b, diff, randomness]));
+    witnesses.add(Witness.publicInequality(diff));
+    return b58.encode(commitment);
+  }
+
+  // Create the prover's statement and witness for proving that `value` lies in `[min, max)` using the given protocol
+  private boundCheckStatementAndWitness(
+    min: number,
+    max: number,
+    value: Uint8Array,
+    paramId: string | undefined,
+    protocol: BoundCheckProtocol,
+    setupParamsTrk: SetupParamsTracker,
+    statementIdx: number
+  ): [Uint8Array, Uint8Array] {
+    let witness: Uint8Array, statement: Uint8Array;
+    if (paramId === undefined) {
+      // paramId is undefined means no setup param was passed and thus the default setup of Bulletproofs++ can be used.
+      if (protocol !== BoundCheckProtocol.Bpp) {
+        throw new Error(
+          `paramId was undefined but protocol was not Bulletproofs++ but ${protocol}. This shouldn't have happened and is a bug in the code.`
+        );
+      } else {
+        if (!setupParamsTrk.hasBoundCheckBppSetup()) {
+          setupParamsTrk.addBoundCheckBppSetup();
+        }
+        statement = Statement.boundCheckBppFromSetupParamRefs(min, max, setupParamsTrk.boundCheckBppSetupIdx);
+        witness = Witness.boundCheckBpp(value);
+      }
+    } else {
+      const param = this.getPredicateParam(paramId);
+
+      switch (protocol) {
+        case BoundCheckProtocol.Legogroth16:
+          PresentationBuilder.addLegoProvingKeyToTracker(paramId, param, setupParamsTrk, statementIdx);
+          statement = Statement.boundCheckLegoProverFromSetupParamRefs(min, max, setupParamsTrk.indexForParam(paramId));
+          witness = Witness.boundCheckLegoGroth16(value);
+          break;
+        case BoundCheckProtocol.Bpp:
+          Presentation.addBppSetupParamsToTracker(paramId, param, setupParamsTrk, statementIdx);
+          statement = Statement.boundCheckBppFromSetupParamRefs(min, max, setupParamsTrk.indexForParam(paramId));
+          witness = Witness.boundCheckBpp(value);
+          break;
+        case BoundCheckProtocol.Smc:
+          Presentation.addSmcSetupParamsToTracker(paramId, param, setupParamsTrk, statementIdx);
+          statement = Statement.boundCheckSmcFromSetupParamRefs(min, max, setupParamsTrk.indexForParam(paramId));
+          witness = Witness.boundCheckSmc(value);
+          break;
+        case BoundCheckProtocol.SmcKV:
+          PresentationBuilder.addSmcKVProverParamsToTracker(paramId, param, setupParamsTrk, statementIdx);
+          statement = Statement.boundCheckSmcWithKVProverFromSetupParamRefs(
+            min,
+            max,
+            setupParamsTrk.indexForParam(paramId)
+          );
+          witness = Witness.boundCheckSmcWithKV(value);
+          break;
+        default:
+          throw new Error(`Unknown protocol ${protocol} for bound check`);
+      }
+    }
+    return [statement, witness];
+  }
+
   private processBoundChecks(
     credIdx: number,
     witnessIndexGetter: (string) => number,
@@ -1514,7 +2510,6 @@ export class PresentationBuilder extends Versioned {
       const valTyp = CredentialSchema.typeOfName(name, flattenedSchema);
       bounds.forEach(({ min, max, paramId, protocol }) => {
         const [transformedMin, transformedMax] = getTransformedMinMax(name, valTyp, min, max);
-        let witness: Uint8Array, statement: Uint8Array;
         const encodedAttrVal = encodedAttrGetter(nameIdx);
 
         // Following is just for better error handling
@@ -1526,67 +2521,15 @@ export class PresentationBuilder extends Versioned {
           throw new Error(`Value of attribute ${name} is ${decodedAttrVal} and is greater than or equal to the maximum ${transformedMax}`);
         }
 
-        if (paramId === undefined) {
-          // paramId is undefined means no setup param was passed and thus the default setup of Bulletproofs++ can be used.
-          if (protocol !== BoundCheckProtocol.Bpp) {
-            throw new Error(
-              `paramId was undefined but protocol was not Bulletproofs++ but ${protocol}. This shouldn't have happened and is a bug in the code.`
-            );
-          } else {
-            if (!setupParamsTrk.hasBoundCheckBppSetup()) {
-              setupParamsTrk.addBoundCheckBppSetup();
-            }
-            statement = Statement.boundCheckBppFromSetupParamRefs(
-              transformedMin,
-              transformedMax,
-              setupParamsTrk.boundCheckBppSetupIdx
-            );
-            witness = Witness.boundCheckBpp(encodedAttrVal);
-          }
-        } else {
-          const param = this.predicateParams.get(paramId);
-
-          switch (protocol) {
-            case BoundCheckProtocol.Legogroth16:
-              PresentationBuilder.addLegoProvingKeyToTracker(paramId, param, setupParamsTrk, credIdx);
-              statement = Statement.boundCheckLegoProverFromSetupParamRefs(
-                transformedMin,
-                transformedMax,
-                setupParamsTrk.indexForParam(paramId)
-              );
-              witness = Witness.boundCheckLegoGroth16(encodedAttrVal);
-              break;
-            case BoundCheckProtocol.Bpp:
-              Presentation.addBppSetupParamsToTracker(paramId, param, setupParamsTrk, credIdx);
-              statement = Statement.boundCheckBppFromSetupParamRefs(
-                transformedMin,
-                transformedMax,
-                setupParamsTrk.indexForParam(paramId)
-              );
-              witness = Witness.boundCheckBpp(encodedAttrVal);
-              break;
-            case BoundCheckProtocol.Smc:
-              Presentation.addSmcSetupParamsToTracker(paramId, param, setupParamsTrk, credIdx);
-              statement = Statement.boundCheckSmcFromSetupParamRefs(
-                transformedMin,
-                transformedMax,
-                setupParamsTrk.indexForParam(paramId)
-              );
-              witness = Witness.boundCheckSmc(encodedAttrVal);
-              break;
-            case BoundCheckProtocol.SmcKV:
-              PresentationBuilder.addSmcKVProverParamsToTracker(paramId, param, setupParamsTrk, credIdx);
-              statement = Statement.boundCheckSmcWithKVProverFromSetupParamRefs(
-                transformedMin,
-                transformedMax,
-                setupParamsTrk.indexForParam(paramId)
-              );
-              witness = Witness.boundCheckSmcWithKV(encodedAttrVal);
-              break;
-            default:
-              throw new Error(`Unknown protocol ${protocol} for bound check`);
-          }
-        }
+        const [statement, witness] = this.boundCheckStatementAndWitness(
+          transformedMin,
+          transformedMax,
+          encodedAttrVal,
+          paramId,
+          protocol,
+          setupParamsTrk,
+          credIdx
+        );
 
         const sIdx = statements.add(statement);
         witnesses.add(witness);
@@ -1621,15 +2564,15 @@ export class PresentationBuilder extends Versioned {
     const attrToSid = new Map<string, number[]>();
     dataSortedByNameIdx.forEach(([nameIdx, name, ve]) => {
       ve.forEach(({ chunkBitSize, commitmentGensId, encryptionKeyId, snarkKeyId }) => {
-        const commKey = this.predicateParams.get(commitmentGensId);
+        const commKey = this.getPredicateParam(commitmentGensId);
         if (commKey === undefined) {
           throw new Error(`Predicate param for id ${commitmentGensId} not found`);
         }
-        const encKey = this.predicateParams.get(encryptionKeyId);
+        const encKey = this.getPredicateParam(encryptionKeyId);
         if (encKey === undefined) {
           throw new Error(`Predicate param for id ${encryptionKeyId} not found`);
         }
-        const snarkPk = this.predicateParams.get(snarkKeyId);
+        const snarkPk = this.getPredicateParam(snarkKeyId);
         if (snarkPk === undefined) {
           throw new Error(`Predicate param for id ${snarkKeyId} not found`);
         }
@@ -1808,7 +2751,7 @@ export class PresentationBuilder extends Versioned {
     setupParamsTrk: SetupParamsTracker,
     statementIdx?: number
   ): Uint8Array {
-    const snarkKey = this.predicateParams.get(snarkKeyId);
+    const snarkKey = this.getPredicateParam(snarkKeyId);
     const r1csId = PresentationBuilder.r1csParamId(circuitId);
     const r1cs = this.predicateParams.get(r1csId);
     const wasmId = PresentationBuilder.wasmParamId(circuitId);
@@ -1878,27 +2821,7 @@ export class PresentationBuilder extends Versioned {
     if (min >= max) {
       throw new Error(`Invalid bounds min=${min}, max=${max}`);
     }
-    let protocol: BoundCheckProtocol;
-    if (paramId !== undefined) {
-      self.updatePredicateParams(paramId, param);
-      let par = self.predicateParams.get(paramId);
-      if (par instanceof LegoProvingKey || par instanceof LegoProvingKeyUncompressed) {
-        protocol = BoundCheckProtocol.Legogroth16;
-      } else if (par instanceof BoundCheckBppParams || par instanceof BoundCheckBppParamsUncompressed) {
-        protocol = BoundCheckProtocol.Bpp;
-      } else if (par instanceof BoundCheckSmcParams || par instanceof BoundCheckSmcParamsUncompressed) {
-        protocol = BoundCheckProtocol.Smc;
-      } else if (
-        par instanceof BoundCheckSmcWithKVProverParams ||
-        par instanceof BoundCheckSmcWithKVProverParamsUncompressed
-      ) {
-        protocol = BoundCheckProtocol.SmcKV;
-      } else {
-        throw new Error(`Invalid predicate param type ${par} for bound check protocol`);
-      }
-    } else {
-      protocol = BoundCheckProtocol.Bpp;
-    }
+    const protocol = PresentationBuilder.boundCheckProtocol(self, paramId, param);
 
     const existingBounds = boundsMap.get(attributeName);
     if (existingBounds === undefined) {
@@ -1909,6 +2832,35 @@ export class PresentationBuilder extends Versioned {
     }
   }
 
+  /**
+   * Returns the bound check protocol as per the type of the given param. If no param is given, its Bulletproofs++ with the
+   * default setup.
+   * @param self
+   * @param paramId
+   * @param param
+   */
+  static boundCheckProtocol(self, paramId?: string, param?: BoundCheckParamType): BoundCheckProtocol {
+    if (paramId === undefined) {
+      return BoundCheckProtocol.Bpp;
+    }
+    self.updatePredicateParams(paramId, param);
+    const par = self.predicateParams.get(paramId);
+    if (par instanceof LegoProvingKey || par instanceof LegoProvingKeyUncompressed) {
+      return BoundCheckProtocol.Legogroth16;
+    } else if (par instanceof BoundCheckBppParams || par instanceof BoundCheckBppParamsUncompressed) {
+      return BoundCheckProtocol.Bpp;
+    } else if (par instanceof BoundCheckSmcParams || par instanceof BoundCheckSmcParamsUncompressed) {
+      return BoundCheckProtocol.Smc;
+    } else if (
+      par instanceof BoundCheckSmcWithKVProverParams ||
+      par instanceof BoundCheckSmcWithKVProverParamsUncompressed
+    ) {
+      return BoundCheckProtocol.SmcKV;
+    } else {
+      throw new Error(`Invalid predicate param type ${par} for bound check protocol`);
+    }
+  }
+
   static processVerifiableEncs(
     self,
     verEncsMap: Map<string, IPresentedAttributeVE[]>,
@@ -1948,6 +2900,13 @@ export class PresentationBuilder extends Versioned {
   }
 }
 
+// Returns the circuit id and the names of the attributes used in the Circom predicate
+function circomPredicateAttributes(p: IProverCircomPredicate): [string, string[]] {
+  const names: string[] = [];
+  p.privateVars.forEach(([, n]) => names.push(...(Array.isArray(n) ? n : [n])));
+  return [p.circuitId, names];
+}
+
 export interface IProverCircomPredicate {
   privateVars: [string, string | string[]][];
   publicVars: [string, Uint8Array | Uint8Array[]][];
@@ -0,0 +1,408 @@
+import { areUint8ArraysEqual, convertDateToTimestamp, flattenObjectToKeyValuesList } from '../util';
+import { CredentialSchema } from './schema';
+import {
+  ICircomPredicate,
+  ICircuitPrivateVar,
+  ICircuitPublicVar,
+  IPresentedAttributeBound,
+  IPresentedAttributeInequality,
+  IPresentedAttributeVE,
+  IPresentedCredential,
+  predicatesByName
+} from './presentation-specification';
+import { Presentation } from './presentation';
+import { IRequestedCredential, IRequestedStatus, PresentationRequest } from './presentation-request';
+import {
+  AccumulatorValueType,
+  AttributeRef,
+  ID_STR,
+  ISSUER_STR,
+  REV_CHECK_STR,
+  VALID_UNTIL_STR
+} from './types-and-consts';
+import { areAccumulatorValuesEqual } from './util';
+import { flatten } from 'flat';
+import _ from 'lodash';
+import semver from 'semver/preload';
+
+export enum PolicyMismatchType {
+  MissingCredential = 'missing-credential',
+  SchemaId = 'schema-id',
+  Issuer = 'issuer',
+  RevealedAttribute = 'revealed-attribute',
+  Bound = 'bound',
+  Inequality = 'inequality',
+  VerifiableEncryption = 'verifiable-encryption',
+  CircomPredicate = 'circom-predicate',
+  Status = 'status',
+  Expiry = 'expiry',
+  AttributeEquality = 'attribute-equality',
+  Context = 'context',
+  Nonce = 'nonce'
+}
+
+export interface IPolicyMismatch {
+  type: PolicyMismatchType;
+  // Index of the credential in the presentation, absent for mismatches not related to a single credential
+  credIdx?: number;
+  attributeName?: string;
+  message: string;
+}
+
+export interface IPolicyCheckResult {
+  satisfied: boolean;
+  mismatches: IPolicyMismatch[];
+}
+
+export interface IPolicyVerifiableEncryption {
+  attributeName: string;
+  chunkBitSize?: number;
+  commitmentGensId?: string;
+  encryptionKeyId?: string;
+  snarkKeyId?: string;
+}
+
+/**
+ * Mapping of a private variable of the circuit to one or more attributes of the credential, like
+ * `credentialSubject.salary`
+ */
+export interface IPolicyCircuitPrivateVar {
+  varName: string;
+  attributeName: string | string[];
+}
+
+/**
+ * A Circom predicate that must be proven on the given attributes with the given public inputs. The presented predicate
+ * must have exactly these private and public variables.
+ */
+export interface IPolicyCircomPredicate {
+  circuitId: string;
+  snarkKeyId?: string;
+  privateVars: IPolicyCircuitPrivateVar[];
+  publicVars: ICircuitPublicVar[];
+}
+
+export interface IPolicyStatus extends IRequestedStatus {
+  // The accumulator value the verifier considers current. If absent, the accumulator value is not checked
+  accumulated?: AccumulatorValueType;
+}
+
+/**
+ * Requirement that the credential isn't expired, i.e. the presentation proves that `validUntil` is at or after a time that
+ * differs from `time` by at most `tolerance` milliseconds.
+ */
+export interface IPolicyNotExpired {
+  // Defaults to the time of the check
+  time?: Date | number;
+  // Allowed clock difference between the holder and verifier. Defaults to 0
+  tolerance?: number;
+}
+
+/**
+ * What the verifier requires from a credential in the presentation. A presented bound satisfies the required bound if it's
+ * equal or tighter.
+ */
+export interface ICredentialPolicy extends Omit<IRequestedCredential, 'status'> {
+  status?: IPolicyStatus;
+  verifiableEncryptions?: IPolicyVerifiableEncryption[];
+  circomPredicates?: IPolicyCircomPredicate[];
+  notExpired?: IPolicyNotExpired;
+}
+
+/**
+ * What the verifier requires from a presentation. Credential indices in the policy are the indices in the presentation.
+ */
+export interface IPresentationPolicy {
+  credentials: ICredentialPolicy[];
+  attributeEqualities?: AttributeRef[][];
+  context?: string;
+  nonce?: Uint8Array;
+}
+
+/**
+ * Create a policy from a request created by the verifier.
+ * @param request
+ * @param accumulated - The accumulator value the verifier considers current. The key of the map is the credential index.
+ */
+export function policyFromRequest(
+  request: PresentationRequest,
+  accumulated?: Map<number, AccumulatorValueType>
+): IPresentationPolicy {
+  return {
+    credentials: request.credentials.map((c, i) => {
+      const p: ICredentialPolicy = { ...c };
+      if (c.status !== undefined) {
+        p.status = { ...c.status, accumulated: accumulated?.get(i) };
+      }
+      return p;
+    }),
+    attributeEqualities: request.attributeEqualities,
+    context: request.context,
+    nonce: request.nonce
+  };
+}
+
+/**
+ * Compare what a presentation proves (its specification, context and nonce) to what the verifier requires. This does not
+ * verify the presentation's proof so `Presentation.verify` must be called as well.
+ * @param presentation
+ * @param policy
+ */
+export function checkAgainstPolicy(presentation: Presentation, policy: IPresentationPolicy): IPolicyCheckResult {
+  const { spec, context, nonce } = presentation;
+  // Older versions of presentation had a single predicate of each kind per attribute
+  const singlePredicatePerAttr = semver.lte(presentation.version, '0.4.0');
+  const mismatches: IPolicyMismatch[] = [];
+
+  policy.credentials.forEach((credPolicy, credIdx) => {
+    if (credIdx >= spec.credentials.length) {
+      mismatches.push({
+        type: PolicyMismatchType.MissingCredential,
+        credIdx,
+        message: `Credential index ${credIdx} is not present. Number of credentials is ${spec.credentials.length}`
+      });
+      return;
+    }
+    mismatches.push(...checkCredential(credIdx, spec.credentials[credIdx], credPolicy, singlePredicatePerAttr));
+  });
+
+  for (const eq of policy.attributeEqualities ?? []) {
+    const found = (spec.attributeEqualities ?? []).some((presentedEq) =>
+      eq.every(([c, n]) => presentedEq.some(([pc, pn]) => pc === c && pn === n))
+    );
+    if (!found) {
+      mismatches.push({
+        type: PolicyMismatchType.AttributeEquality,
+        message: `Equality of attributes ${JSON.stringify(eq)} is not proved`
+      });
+    }
+  }
+
+  if (policy.context !== undefined && policy.context !== context) {
+    mismatches.push({
+      type: PolicyMismatchType.Context,
+      message: `Expected context ${policy.context} but found ${context}`
+    });
+  }
+  if (policy.nonce !== undefined && (nonce === undefined || !areUint8ArraysEqual(policy.nonce, nonce))) {
+    mismatches.push({ type: PolicyMismatchType.Nonce, message: 'Nonce does not match' });
+  }
+
+  return { satisfied: mismatches.length === 0, mismatches };
+}
+
+function checkCredential(
+  credIdx: number,
+  cred: IPresentedCredential,
+  policy: ICredentialPolicy,
+  singlePredicatePerAttr: boolean
+): IPolicyMismatch[] {
+  const mismatches: IPolicyMismatch[] = [];
+  const mismatch = (type: PolicyMismatchType, message: string, attributeName?: string) => {
+    mismatches.push({ type, credIdx, attributeName, message });
+  };
+
+  const [revealedNames, revealedValues] = flattenObjectToKeyValuesList(cred.revealedAttributes);
+  // Schema of the credential, needed to find the predicates on each attribute and to encode values
+  let schema: CredentialSchema | undefined;
+  const credSchema = (): CredentialSchema => {
+    if (schema === undefined) {
+      schema = CredentialSchema.fromSerialized(cred.schema);
+    }
+    return schema;
+  };
+  const presentedPredicates = <T>(predicates?: { [key: string]: unknown }): Map<string, T[]> => {
+    return predicatesByName<T>(predicates, credSchema().flatten()[0], singlePredicatePerAttr);
+  };
+
+  if (policy.schemaId !== undefined) {
+    const schemaId = getSchemaId(cred);
+    if (schemaId !== policy.schemaId) {
+      mismatch(PolicyMismatchType.SchemaId, `Expected schema id ${policy.schemaId} but found ${schemaId}`);
+    }
+  }
+
+  if (policy.issuer !== undefined) {
+    let idx = revealedNames.indexOf(ISSUER_STR);
+    if (idx === -1) {
+      idx = revealedNames.indexOf(`${ISSUER_STR}.${ID_STR}`);
+    }
+    if (idx === -1) {
+      mismatch(PolicyMismatchType.Issuer, `Issuer is not revealed`);
+    } else if (revealedValues[idx] !== policy.issuer) {
+      mismatch(PolicyMismatchType.Issuer, `Expected issuer ${policy.issuer} but found ${revealedValues[idx]}`);
+    }
+  }
+
+  for (const name of policy.revealedAttributes ?? []) {
+    if (revealedNames.indexOf(name) === -1) {
+      mismatch(PolicyMismatchType.RevealedAttribute, `Attribute ${name} is not revealed`, name);
+    }
+  }
+
+  if (policy.bounds !== undefined && policy.bounds.length > 0) {
+    const presented = presentedPredicates<IPresentedAttributeBound>(cred.bounds);
+    for (const b of policy.bounds) {
+      const min = typeof b.min === 'number' ? b.min : convertDateToTimestamp(b.min);
+      const max = typeof b.max === 'number' ? b.max : convertDateToTimestamp(b.max);
+      const found = (presented.get(b.attributeName) ?? []).some(
+        (p) => p.min >= min && p.max <= max && (b.paramId === undefined || b.paramId === p.paramId)
+      );
+      if (!found) {
+        mismatch(
+          PolicyMismatchType.Bound,
+          `Bound [${min}, ${max}) is not proved on attribute ${b.attributeName}`,
+          b.attributeName
+        );
+      }
+    }
+  }
+
+  if (policy.attributeInequalities !== undefined && policy.attributeInequalities.length > 0) {
+    const presented = presentedPredicates<IPresentedAttributeInequality>(cred.attributeInequalities);
+    for (const i of policy.attributeInequalities) {
+      // Values are compared by their encoding so that equivalent values, like a date and its ISO string, match
+      const inEqualTo = encodeValue(credSchema(), i.attributeName, i.inEqualTo);
+      const found = (presented.get(i.attributeName) ?? []).some((p) => {
+        const presentedValue = encodeValue(credSchema(), i.attributeName, p.inEqualTo);
+        return (
+          inEqualTo !== undefined &&
+          presentedValue !== undefined &&
+          areUint8ArraysEqual(inEqualTo, presentedValue) &&
+          (i.paramId === undefined || i.paramId === p.paramId)
+        );
+      });
+      if (!found) {
+        mismatch(
+          PolicyMismatchType.Inequality,
+          `Inequality to ${i.inEqualTo} is not proved on attribute ${i.attributeName}`,
+          i.attributeName
+        );
+      }
+    }
+  }
+
+  if (policy.verifiableEncryptions !== undefined && policy.verifiableEncryptions.length > 0) {
+    const presented = presentedPredicates<IPresentedAttributeVE>(cred.verifiableEncryptions);
+    for (const v of policy.verifiableEncryptions) {
+      const found = (presented.get(v.attributeName) ?? []).some(
+        (p) =>
+          (v.chunkBitSize === undefined || v.chunkBitSize === p.chunkBitSize) &&
+          (v.commitmentGensId === undefined || v.commitmentGensId === p.commitmentGensId) &&
+          (v.encryptionKeyId === undefined || v.encryptionKeyId === p.encryptionKeyId) &&
+          (v.snarkKeyId === undefined || v.snarkKeyId === p.snarkKeyId)
+      );
+      if (!found) {
+        mismatch(
+          PolicyMismatchType.VerifiableEncryption,
+          `Attribute ${v.attributeName} is not verifiably encrypted as required`,
+          v.attributeName
+        );
+      }
+    }
+  }
+
+  for (const c of policy.circomPredicates ?? []) {
+    const found = (cred.circomPredicates ?? []).some(
+      (p) =>
+        p.circuitId === c.circuitId &&
+        (c.snarkKeyId === undefined || c.snarkKeyId === p.snarkKeyId) &&
+        areCircuitVarsEqual(c, p)
+    );
+    if (!found) {
+      mismatch(
+        PolicyMismatchType.CircomPredicate,
+        `Predicate with circuit id ${c.circuitId} is not proved with the required variables`
+      );
+    }
+  }
+
+  if (policy.notExpired !== undefined) {
+    const { time = new Date(), tolerance = 0 } = policy.notExpired;
+    const t = typeof time === 'number' ? time : convertDateToTimestamp(time);
+    const presented = presentedPredicates<IPresentedAttributeBound>(cred.bounds).get(VALID_UNTIL_STR);
+    if (presented === undefined) {
+      mismatch(PolicyMismatchType.Expiry, 'Credential is not proved to be unexpired', VALID_UNTIL_STR);
+    } else if (!presented.some((p) => Math.abs(p.min - t) <= tolerance)) {
+      mismatch(
+        PolicyMismatchType.Expiry,
+        `Credential is not proved to be unexpired within ${tolerance} ms of ${new Date(t).toISOString()}`,
+        VALID_UNTIL_STR
+      );
+    }
+  }
+
+  if (policy.status !== undefined) {
+    const status = cred.status;
+    if (status === undefined) {
+      mismatch(PolicyMismatchType.Status, 'Credential status is not checked');
+    } else {
+      if (status[REV_CHECK_STR] !== policy.status[REV_CHECK_STR]) {
+        mismatch(
+          PolicyMismatchType.Status,
+          `Expected ${REV_CHECK_STR} ${policy.status[REV_CHECK_STR]} but found ${status[REV_CHECK_STR]}`
+        );
+      }
+      if (policy.status[ID_STR] !== undefined && status[ID_STR] !== policy.status[ID_STR]) {
+        mismatch(
+          PolicyMismatchType.Status,
+          `Expected registry id ${policy.status[ID_STR]} but found ${status[ID_STR]}`
+        );
+      }
+      if (
+        policy.status.accumulated !== undefined &&
+        !areAccumulatorValuesEqual(policy.status.accumulated, status.accumulated)
+      ) {
+        mismatch(PolicyMismatchType.Status, 'Status is not checked against the current accumulator value');
+      }
+    }
+  }
+
+  return mismatches;
+}
+
+/**
+ * Returns the encoding of the value of the attribute or undefined if the value can't be encoded as per the schema
+ * @param schema
+ * @param attributeName
+ * @param value
+ */
+function encodeValue(schema: CredentialSchema, attributeName: string, value: unknown): Uint8Array | undefined {
+  try {
+    return schema.encoder.encodeMessage(attributeName, value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether the presented predicate maps the circuit's private variables to the same attributes and has the same public
+ * variables as the policy
+ * @param policy
+ * @param presented
+ */
+function areCircuitVarsEqual(policy: IPolicyCircomPredicate, presented: ICircomPredicate<ICircuitPrivateVar>): boolean {
+  const attributeNamesOf = (a: string | string[] | object | object[]): string[] =>
+    (Array.isArray(a) ? a : [a]).map((n) => (typeof n === 'string' ? n : Object.keys(flatten(n))[0]));
+  const sameValues = (a: Uint8Array | Uint8Array[], b: Uint8Array | Uint8Array[]): boolean => {
+    const [x, y] = [Array.isArray(a) ? a : [a], Array.isArray(b) ? b : [b]];
+    return x.length === y.length && x.every((v, i) => areUint8ArraysEqual(v, y[i]));
+  };
+  return (
+    policy.privateVars.length === presented.privateVars.length &&
+    policy.privateVars.every((v) =>
+      presented.privateVars.some(
+        (pv) =>
+          pv.varName === v.varName && _.isEqual(attributeNamesOf(pv.attributeName), attributeNamesOf(v.attributeName))
+      )
+    ) &&
+    policy.publicVars.length === presented.publicVars.length &&
+    policy.publicVars.every((v) =>
+      presented.publicVars.some((pv) => pv.varName === v.varName && sameValues(pv.value, v.value))
+    )
+  );
+}
+
+function getSchemaId(cred: IPresentedCredential): string | undefined {
+  return CredentialSchema.fromSerialized(cred.schema).jsonSchema.$id;
+}
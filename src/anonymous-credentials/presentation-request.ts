@@ -0,0 +1,455 @@
+import b58 from 'bs58';
+import semver from 'semver/preload';
+import { AccumulatorPublicKey } from '../accumulator';
+import { Versioned } from './versioned';
+import { BBDT16Credential, BBSCredential, BBSPlusCredential, PSCredential } from './credential';
+import { PresentationBuilder } from './presentation-builder';
+import {
+  AccumulatorValueType,
+  AccumulatorWitnessType,
+  AttributeRef,
+  BoundType,
+  ID_STR,
+  ISSUER_STR,
+  PredicateParamType,
+  PublicKey,
+  REV_CHECK_STR
+} from './types-and-consts';
+
+type Credential = BBSCredential | BBSPlusCredential | PSCredential | BBDT16Credential;
+
+/**
+ * Bound that the verifier wants proven on an attribute. The attribute value should lie in `[min, max)`
+ */
+export interface IRequestedBound {
+  attributeName: string;
+  min: BoundType;
+  max: BoundType;
+  // Identifier of the setup param. If absent, transparent range proof (Bulletproofs++) is used
+  paramId?: string;
+}
+
+/**
+ * Public value that an attribute is required to be proven unequal to
+ */
+export interface IRequestedInequality {
+  attributeName: string;
+  inEqualTo: any;
+  // Identifier of the commitment key. If absent, the default commitment key is used
+  paramId?: string;
+}
+
+/**
+ * Status check that the verifier wants proven on a credential
+ */
+export interface IRequestedStatus {
+  // Id of the registry (accumulator). If absent, any registry is accepted
+  [ID_STR]?: string;
+  [REV_CHECK_STR]: string;
+}
+
+/**
+ * Requirements on one credential of the presentation. A holder's credential satisfies it when its schema id and issuer
+ * match (when specified).
+ */
+export interface IRequestedCredential {
+  schemaId?: string;
+  issuer?: string;
+  // Nested attribute names using the "dot" separator
+  revealedAttributes?: string[];
+  bounds?: IRequestedBound[];
+  attributeInequalities?: IRequestedInequality[];
+  status?: IRequestedStatus;
+}
+
+/**
+ * Returns the accumulator witness, accumulated value, accumulator public key (if needed) and any extra info (as expected
+ * by `PresentationBuilder.addAccumInfoForCredStatus`) for the given credential.
+ */
+export type AccumInfoGetter = (
+  credential: Credential
+) => [AccumulatorWitnessType, AccumulatorValueType, AccumulatorPublicKey?, object?] | undefined;
+
+/**
+ * Returns the public key needed to create a presentation from the given credential, if any.
+ */
+export type CredentialPublicKeyGetter = (credential: Credential) => PublicKey | undefined;
+
+/**
+ * A machine-readable request created by the verifier, specifying what the presentation should contain, like which
+ * credentials, revealed attributes, predicates and status checks. The holder resolves it against their credentials using
+ * `PresentationRequestResolver` to get a configured `PresentationBuilder`.
+ */
+export class PresentationRequest extends Versioned {
+  static VERSION = '0.1.0';
+
+  // Each requested credential is referenced by its index in this array
+  credentials: IRequestedCredential[];
+  // Attributes to be proved equal. Credential indices in the references are indices in `credentials` above
+  attributeEqualities: AttributeRef[][];
+  context?: string;
+  nonce?: Uint8Array;
+
+  constructor(context?: string, nonce?: Uint8Array) {
+    super(PresentationRequest.VERSION);
+    this.credentials = [];
+    this.attributeEqualities = [];
+    this.context = context;
+    this.nonce = nonce;
+  }
+
+  /**
+   * Request a credential in the presentation. Returns the index of the requested credential.
+   * @param credential
+   */
+  addRequestedCredential(credential: IRequestedCredential): number {
+    this.credentials.push(credential);
+    return this.credentials.length - 1;
+  }
+
+  /**
+   * Request the referenced attributes to be proven equal without revealing them.
+   * @param equality - Credential indices in the references are indices of the requested credentials
+   */
+  addAttributeEquality(...equality: AttributeRef[]) {
+    if (equality.length < 2) {
+      throw new Error(`Need atleast 2 attribute references but found ${equality.length}`);
+    }
+    for (const [credIdx] of equality) {
+      this.validateCredIndex(credIdx);
+    }
+    this.attributeEqualities.push(equality);
+  }
+
+  /**
+   * Check if the given credential satisfies the requirements of the requested credential at the given index. Only checks
+   * the credential's metadata and presence of the referenced attributes, not its signature.
+   * @param reqIdx
+   * @param credential
+   */
+  isSatisfiedBy(reqIdx: number, credential: Credential): boolean {
+    this.validateCredIndex(reqIdx);
+    const req = this.credentials[reqIdx];
+    if (req.schemaId !== undefined && credential.schema.jsonSchema.$id !== req.schemaId) {
+      return false;
+    }
+    if (req.issuer !== undefined && PresentationRequest.getIssuerId(credential) !== req.issuer) {
+      return false;
+    }
+    if (req.status !== undefined) {
+      const status = credential.credentialStatus;
+      if (status === undefined || status[REV_CHECK_STR] !== req.status[REV_CHECK_STR]) {
+        return false;
+      }
+      if (req.status[ID_STR] !== undefined && status[ID_STR] !== req.status[ID_STR]) {
+        return false;
+      }
+    }
+    const attributeNames = new Set(credential.schema.flatten()[0]);
+    for (const name of PresentationRequest.referencedAttributes(req)) {
+      if (!attributeNames.has(name)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  validateCredIndex(credIdx: number) {
+    if (!Number.isInteger(credIdx) || credIdx < 0 || credIdx >= this.credentials.length) {
+      throw new Error(`Invalid credential index ${credIdx}. Number of credentials is ${this.credentials.length}`);
+    }
+  }
+
+  toJSON(): object {
+    return {
+      version: this.version,
+      credentials: this.credentials,
+      attributeEqualities: this.attributeEqualities,
+      context: this.context,
+      nonce: this.nonce ? b58.encode(this.nonce) : null
+    };
+  }
+
+  static fromJSON(j: object): PresentationRequest {
+    const { version, credentials, attributeEqualities, context, nonce } = j as {
+      version?: string;
+      credentials?: IRequestedCredential[];
+      attributeEqualities?: AttributeRef[][];
+      context?: string | null;
+      nonce?: string | null;
+    };
+    if (!Array.isArray(credentials)) {
+      throw new Error(`Expected field credentials to be an array but found ${JSON.stringify(credentials)}`);
+    }
+    credentials.forEach((c, i) => PresentationRequest.validateRequestedCredential(c, `credentials[${i}]`));
+    if (attributeEqualities !== undefined) {
+      PresentationRequest.validateAttributeEqualities(attributeEqualities, credentials.length);
+    }
+    if (typeof version !== 'string' || semver.valid(version) === null) {
+      throw new Error(`Expected a valid version but found ${version}`);
+    }
+    if (semver.gt(version, PresentationRequest.VERSION)) {
+      throw new Error(`Unsupported version ${version}, latest supported is ${PresentationRequest.VERSION}`);
+    }
+    const req = new PresentationRequest(context ?? undefined, nonce ? b58.decode(nonce) : undefined);
+    req.version = version;
+    req.credentials = credentials;
+    req.attributeEqualities = attributeEqualities ?? [];
+    return req;
+  }
+
+  /**
+   * Returns the id of the credential's issuer. The issuer can either be a string or an object with an `id` field.
+   * @param credential
+   */
+  static getIssuerId(credential: Credential): string | undefined {
+    const issuer = credential.topLevelFields.get(ISSUER_STR);
+    if (typeof issuer === 'string') {
+      return issuer;
+    }
+    if (typeof issuer === 'object' && issuer !== null && typeof issuer[ID_STR] === 'string') {
+      return issuer[ID_STR];
+    }
+    return undefined;
+  }
+
+  private static validateRequestedCredential(c: IRequestedCredential, path: string) {
+    if (typeof c !== 'object' || c === null || Array.isArray(c)) {
+      throw new Error(`Expected ${path} to be an object but found ${JSON.stringify(c)}`);
+    }
+    PresentationRequest.validateOptionalString(c.schemaId, `${path}.schemaId`);
+    PresentationRequest.validateOptionalString(c.issuer, `${path}.issuer`);
+    if (c.revealedAttributes !== undefined) {
+      PresentationRequest.validateArray(c.revealedAttributes, `${path}.revealedAttributes`).forEach((n, i) =>
+        PresentationRequest.validateString(n, `${path}.revealedAttributes[${i}]`)
+      );
+    }
+    if (c.bounds !== undefined) {
+      PresentationRequest.validateArray(c.bounds, `${path}.bounds`).forEach((b, i) => {
+        const p = `${path}.bounds[${i}]`;
+        PresentationRequest.validateString(b?.attributeName, `${p}.attributeName`);
+        if (b.min === undefined || b.min === null || b.max === undefined || b.max === null) {
+          throw new Error(`Expected ${p} to have both min and max but found ${JSON.stringify(b)}`);
+        }
+        PresentationRequest.validateOptionalString(b.paramId, `${p}.paramId`);
+      });
+    }
+    if (c.attributeInequalities !== undefined) {
+      PresentationRequest.validateArray(c.attributeInequalities, `${path}.attributeInequalities`).forEach((ineq, i) => {
+        const p = `${path}.attributeInequalities[${i}]`;
+        PresentationRequest.validateString(ineq?.attributeName, `${p}.attributeName`);
+        if (ineq.inEqualTo === undefined) {
+          throw new Error(`Expected ${p} to have inEqualTo but found ${JSON.stringify(ineq)}`);
+        }
+        PresentationRequest.validateOptionalString(ineq.paramId, `${p}.paramId`);
+      });
+    }
+    if (c.status !== undefined) {
+      PresentationRequest.validateString(c.status?.[REV_CHECK_STR], `${path}.status.${REV_CHECK_STR}`);
+      PresentationRequest.validateOptionalString(c.status[ID_STR], `${path}.status.${ID_STR}`);
+    }
+  }
+
+  private static validateAttributeEqualities(equalities: AttributeRef[][], numCredentials: number) {
+    PresentationRequest.validateArray(equalities, 'attributeEqualities').forEach((eq, i) => {
+      const path = `attributeEqualities[${i}]`;
+      if (PresentationRequest.validateArray(eq, path).length < 2) {
+        throw new Error(`Expected ${path} to have atleast 2 attribute references but found ${eq.length}`);
+      }
+      eq.forEach((ref, k) => {
+        const p = `${path}[${k}]`;
+        if (!Array.isArray(ref) || ref.length !== 2) {
+          throw new Error(
+            `Expected ${p} to be a pair of credential index and attribute name but found ${JSON.stringify(ref)}`
+          );
+        }
+        const [credIdx, name] = ref;
+        if (!Number.isInteger(credIdx) || credIdx < 0 || credIdx >= numCredentials) {
+          throw new Error(`Invalid credential index ${credIdx} in ${p}. Number of credentials is ${numCredentials}`);
+        }
+        PresentationRequest.validateString(name, `${p}[1]`);
+      });
+    });
+  }
+
+  private static validateArray<T>(value: T[], path: string): T[] {
+    if (!Array.isArray(value)) {
+      throw new Error(`Expected ${path} to be an array but found ${JSON.stringify(value)}`);
+    }
+    return value;
+  }
+
+  private static validateString(value: unknown, path: string) {
+    if (typeof value !== 'string') {
+      throw new Error(`Expected ${path} to be a string but found ${JSON.stringify(value)}`);
+    }
+  }
+
+  private static validateOptionalString(value: unknown, path: string) {
+    if (value !== undefined) {
+      PresentationRequest.validateString(value, path);
+    }
+  }
+
+  private static referencedAttributes(req: IRequestedCredential): string[] {
+    const names: string[] = [];
+    if (req.revealedAttributes !== undefined) {
+      names.push(...req.revealedAttributes);
+    }
+    if (req.bounds !== undefined) {
+      names.push(...req.bounds.map((b) => b.attributeName));
+    }
+    if (req.attributeInequalities !== undefined) {
+      names.push(...req.attributeInequalities.map((i) => i.attributeName));
+    }
+    return names;
+  }
+}
+
+/**
+ * Used by the holder to select credentials satisfying a `PresentationRequest` and configure a `PresentationBuilder` accordingly.
+ */
+export class PresentationRequestResolver {
+  // Parameters for predicates like bound check, keyed by the param id used in the request
+  predicateParams: Map<string, PredicateParamType>;
+  accumInfoGetter?: AccumInfoGetter;
+  publicKeyGetter?: CredentialPublicKeyGetter;
+
+  constructor(
+    predicateParams: Map<string, PredicateParamType> = new Map(),
+    accumInfoGetter?: AccumInfoGetter,
+    publicKeyGetter?: CredentialPublicKeyGetter
+  ) {
+    this.predicateParams = predicateParams;
+    this.accumInfoGetter = accumInfoGetter;
+    this.publicKeyGetter = publicKeyGetter;
+  }
+
+  /**
+   * Select a distinct credential for each requested credential. Returns an array with the index of the selected credential
+   * (in `credentials`) for each requested credential. Throws an error if a requested credential can't be satisfied.
+   * A credential might satisfy several requested credentials so this finds a matching between requested and the holder's
+   * credentials (using augmenting paths) rather than picking the first credential satisfying each requested credential.
+   * @param request
+   * @param credentials - The holder's credentials
+   */
+  selectCredentials(request: PresentationRequest, credentials: Credential[]): number[] {
+    // Indices of the holder's credentials satisfying each requested credential
+    const candidates = request.credentials.map((_, i) =>
+      credentials.map((_, k) => k).filter((k) => request.isSatisfiedBy(i, credentials[k]))
+    );
+    // Requested credential for each selected credential of the holder
+    const selectedFor = new Map<number, number>();
+
+    // Try to select a credential for requested credential `i`, possibly moving the requested credentials selected earlier
+    // to other credentials
+    const select = (i: number, visited: Set<number>): boolean => {
+      for (const k of candidates[i]) {
+        if (visited.has(k)) {
+          continue;
+        }
+        visited.add(k);
+        const other = selectedFor.get(k);
+        if (other === undefined || select(other, visited)) {
+          selectedFor.set(k, i);
+          return true;
+        }
+      }
+      return false;
+    };
+
+    for (let i = 0; i < request.credentials.length; i++) {
+      if (!select(i, new Set())) {
+        throw new Error(`No credential found satisfying the requested credential at index ${i}`);
+      }
+    }
+    const selected: number[] = new Array(request.credentials.length);
+    for (const [k, i] of selectedFor) {
+      selected[i] = k;
+    }
+    return selected;
+  }
+
+  /**
+   * Configure the given builder as per the request. The credentials are added to the builder in the order of the requested
+   * credentials so the credential indices in the created presentation are same as in the request. The issuer is revealed
+   * for requested credentials that specify an issuer.
+   * @param request
+   * @param credentials - The holder's credentials
+   * @param builder - Should not have any credentials added
+   */
+  resolve(
+    request: PresentationRequest,
+    credentials: Credential[],
+    builder: PresentationBuilder = new PresentationBuilder()
+  ): PresentationBuilder {
+    if (builder.credentials.length > 0) {
+      throw new Error(`Builder should not have any credentials but has ${builder.credentials.length}`);
+    }
+    const selected = this.selectCredentials(request, credentials);
+    for (let i = 0; i < selected.length; i++) {
+      const cred = credentials[selected[i]];
+      const req = request.credentials[i];
+      const credIdx = builder.addCredential(cred, this.publicKeyGetter?.(cred));
+      const revealed = new Set(req.revealedAttributes ?? []);
+      if (req.issuer !== undefined) {
+        // Verifier needs to see the issuer to check it
+        revealed.add(typeof cred.topLevelFields.get(ISSUER_STR) === 'string' ? ISSUER_STR : `${ISSUER_STR}.${ID_STR}`);
+      }
+      if (revealed.size > 0) {
+        builder.markAttributesRevealed(credIdx, revealed);
+      }
+      if (req.status !== undefined) {
+        const info = this.accumInfoGetter?.(cred);
+        if (info === undefined) {
+          throw new Error(`Accumulator info not found for the requested credential at index ${i}`);
+        }
+        const [witness, accumulated, pk, extra] = info;
+        builder.addAccumInfoForCredStatus(credIdx, witness, accumulated, pk, extra);
+      }
+      for (const b of req.bounds ?? []) {
+        builder.enforceBounds(
+          credIdx,
+          b.attributeName,
+          b.min,
+          b.max,
+          b.paramId,
+          this.paramIfNotAdded(builder, b.paramId)
+        );
+      }
+      for (const ineq of req.attributeInequalities ?? []) {
+        builder.enforceAttributeInequality(
+          credIdx,
+          ineq.attributeName,
+          ineq.inEqualTo,
+          ineq.paramId,
+          this.paramIfNotAdded(builder, ineq.paramId)
+        );
+      }
+    }
+    for (const eq of request.attributeEqualities) {
+      builder.enforceAttributeEquality(...eq);
+    }
+    if (request.context !== undefined) {
+      builder.context = request.context;
+    }
+    if (request.nonce !== undefined) {
+      builder.nonce = request.nonce;
+    }
+    return builder;
+  }
+
+  /**
+   * The builder throws an error if a param is added more than once so pass it only the first time.
+   */
+  private paramIfNotAdded<T extends PredicateParamType>(builder: PresentationBuilder, paramId?: string): T | undefined {
+    if (paramId === undefined || builder.predicateParams.has(paramId)) {
+      return undefined;
+    }
+    const param = this.predicateParams.get(paramId);
+    if (param === undefined) {
+      throw new Error(`Predicate param for id ${paramId} not found`);
+    }
+    return param as T;
+  }
+}
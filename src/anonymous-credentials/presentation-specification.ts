@@ -1,12 +1,16 @@
 import { KBUniversalAccumulatorValue } from '../accumulator/kb-universal-accumulator';
 import {
   AttributeEquality,
+  AttributeInequality,
+  AttributeRef,
   BlindedAttributeEquality,
+  ComparisonOperator,
   ID_STR,
   BlindSignatureType,
   BoundCheckProtocol,
   CircomProtocol,
   RevocationStatusProtocol,
+  SetMembershipProtocol,
   SignatureType,
   VerifiableEncryptionProtocol,
   REV_CHECK_STR,
@@ -15,7 +19,16 @@ import {
   AccumulatorValueType, VERSION_STR, SCHEMA_DETAILS_STR
 } from './types-and-consts';
 import b58 from 'bs58';
+import { flatten } from 'flat';
 import { CredentialSchema } from './schema';
+import { PseudonymBases } from '../Pseudonym';
+import {
+  IBlindCredentialRequestDisclosureInput,
+  ICredentialDisclosureInput,
+  IDisclosureSummary,
+  IPseudonymDisclosureInput,
+  summarizeDisclosures
+} from './disclosure-summary';
 
 export interface IPresentedStatus {
   [ID_STR]: string;
@@ -89,6 +102,86 @@ export interface IPresentedAttributeInequality {
   protocol: InequalityProtocol;
 }
 
+/**
+ * Membership of an attribute in a public set of values. The prover commits to the products of differences of the attribute
+ * and the values, i.e. `(a - v_1)`, `(a - v_1)(a - v_2)`, ..., and proves that the last product is 0
+ */
+export interface IPresentedSetMembership {
+  values: unknown[];
+  // Commitments to the products, base58 encoded
+  commitments: string[];
+  protocol: SetMembershipProtocol;
+}
+
+export interface IArrayMembership {
+  credIdx: number;
+  arrayName: string;
+  // Name of the attribute in the array items, absent when the items aren't objects
+  itemAttributeName?: string;
+  value: unknown;
+}
+
+/**
+ * Some item of a variable length array, or some attribute of its items, is equal to a public value. Like
+ * `IPresentedSetMembership` but the products are of the differences of each item, including the padding, and the value, so
+ * neither the matching item nor the length of the array is revealed. The value can't be equal to the padding.
+ */
+export interface IPresentedArrayMembership extends IArrayMembership {
+  // Commitments to the products, base58 encoded
+  commitments: string[];
+  protocol: SetMembershipProtocol;
+}
+
+/**
+ * Inequality between 2 attributes proved without revealing either. The prover commits to the 1st attribute and proves that
+ * the commitment also opens to the 2nd attribute plus a non-zero difference
+ */
+export interface IPresentedPrivateInequality {
+  attributes: AttributeInequality;
+  // Commitment to the 1st attribute, base58 encoded
+  commitment: string;
+  protocol: InequalityProtocol;
+}
+
+/**
+ * Same as `IPresentedPrivateInequality` but the 1st attribute is a blinded attribute
+ */
+export interface IPresentedBlindedPrivateInequality {
+  blindedAttribute: string;
+  attribute: AttributeRef;
+  // Commitment to the blinded attribute, base58 encoded
+  commitment: string;
+  protocol: InequalityProtocol;
+}
+
+/**
+ * Comparison of 2 attributes without revealing either, i.e. `first <operator> second * multiplier + offset`. The prover
+ * proves that the (appropriately signed) difference of both sides is in a range using a bound check.
+ */
+export interface IPresentedAttributeComparison {
+  attributes: [AttributeRef, AttributeRef];
+  operator: ComparisonOperator;
+  multiplier: number;
+  offset: number;
+  // paramId will be absent when Bulletproofs++ with default setup is used
+  paramId?: string;
+  protocol: BoundCheckProtocol;
+}
+
+/**
+ * Bounds on a weighted sum of attributes proved without revealing the attributes, i.e. `min <= w_1 * a_1 + w_2 * a_2 + ... < max`.
+ * The prover proves that the sum minus `min` is in a range using a bound check.
+ */
+export interface IPresentedLinearCombination {
+  attributes: AttributeRef[];
+  weights: number[];
+  min: number;
+  max: number;
+  // paramId will be absent when Bulletproofs++ with default setup is used
+  paramId?: string;
+  protocol: BoundCheckProtocol;
+}
+
 export interface IPresentedCredential {
   sigType?: SignatureType;
   version: string;
@@ -104,6 +197,8 @@ export interface IPresentedCredential {
   // Predicates proved using Circom. Can be over any number of attributes
   circomPredicates?: ICircomPredicate<ICircuitPrivateVar>[];
   attributeInequalities?: { [key: string]: string | IPresentedAttributeInequality[] };
+  // Set memberships of any attributes
+  setMemberships?: { [key: string]: string | IPresentedSetMembership[] };
 }
 
 export interface IBoundedPseudonymCommitKey {
@@ -125,6 +220,19 @@ export interface IPresentedUnboundedPseudonym {
   commitKey: IUnboundedPseudonymCommitKey;
 }
 
+// Pseudonym bound to attributes and a hidden counter whose base is derived from the verifier's scope and the epoch
+export interface IPresentedEpochPseudonym {
+  // Base58 encoded scope of the verifier
+  scope: string;
+  epoch: number;
+  // The counter is proven to be in [0, maxCount) using the bound check protocol
+  maxCount: number;
+  paramId?: string;
+  protocol: BoundCheckProtocol;
+  // key is credIdx, values are attribute names in the credential corresponding to the credIdx
+  attributes: { [key: number]: string[] };
+}
+
 // Pseudonym bounded to credential as well as blinded attributes. Used when requesting blinded credential.
 export interface IPresentedBoundedPseudonymInBlindedCredReq {
   commitKey: IBoundedPseudonymCommitKey;
@@ -142,6 +250,8 @@ export interface IBlindCredentialRequest {
   blindedAttributes: object;
   // Commitment to the blinded attributes
   commitment: Uint8Array;
+  // Commitment to each blinded attribute, sorted by the attribute index. Only for PS where the signer signs these
+  attributeCommitments?: Uint8Array[];
   attributeInequalities?: { [key: string]: string | IPresentedAttributeInequality[] };
   // Bounds proved of any attribute(s)
   bounds?: { [key: string]: string | IPresentedAttributeBound[] };
@@ -151,6 +261,8 @@ export interface IBlindCredentialRequest {
   circomPredicates?: ICircomPredicate<ICircuitPrivateVar>[];
   // Equalities between the blinded attributes and credential attributes
   blindedAttributeEqualities?: BlindedAttributeEquality[];
+  // Inequalities between the blinded attributes and credential attributes
+  blindedAttributePrivateInequalities?: IPresentedBlindedPrivateInequality[];
   pseudonyms?: { [key: string]: IPresentedBoundedPseudonymInBlindedCredReq };
   // Attributes user is telling the signer to add to the credential (should be part of schema)
   unBlindedAttributes?: object;
@@ -165,10 +277,20 @@ export class PresentationSpecification {
   credentials: IPresentedCredential[];
   // The attributes being proved equal
   attributeEqualities?: AttributeEquality[];
+  // The attributes being proved unequal
+  privateInequalities?: IPresentedPrivateInequality[];
+  // The attributes being compared
+  attributeComparisons?: IPresentedAttributeComparison[];
+  // The weighted sums of attributes being bounded
+  linearCombinations?: IPresentedLinearCombination[];
+  // The variable length arrays proved to contain values
+  arrayMemberships?: IPresentedArrayMembership[];
   // key == pseudonym
   boundedPseudonyms?: { [key: string]: IPresentedBoundedPseudonym };
   // key == pseudonym
   unboundedPseudonyms?: { [key: string]: IPresentedUnboundedPseudonym };
+  // key == pseudonym
+  epochPseudonyms?: { [key: string]: IPresentedEpochPseudonym };
   blindCredentialRequest?: IBlindCredentialRequest;
   circomPredicatesMultiCred?: ICircomPredicate<ICircuitPrivateVarMultiCred>[];
 
@@ -188,7 +310,8 @@ export class PresentationSpecification {
     verifiableEncryptions?: { [key: string]: string | IPresentedAttributeVE[] },
     circomPredicates?: ICircomPredicate<ICircuitPrivateVar>[],
     sigType?: SignatureType,
-    attributeInequalities?: { [key: string]: string | IPresentedAttributeInequality[] }
+    attributeInequalities?: { [key: string]: string | IPresentedAttributeInequality[] },
+    setMemberships?: { [key: string]: string | IPresentedSetMembership[] }
   ) {
     const ps = {
       version,
@@ -213,6 +336,9 @@ export class PresentationSpecification {
     if (attributeInequalities !== undefined) {
       ps['attributeInequalities'] = attributeInequalities;
     }
+    if (setMemberships !== undefined) {
+      ps['setMemberships'] = setMemberships;
+    }
     this.credentials.push(ps);
   }
 
@@ -223,6 +349,34 @@ export class PresentationSpecification {
     this.attributeEqualities.push(eql);
   }
 
+  addPrivateInequality(ineq: IPresentedPrivateInequality) {
+    if (this.privateInequalities === undefined) {
+      this.privateInequalities = [];
+    }
+    this.privateInequalities.push(ineq);
+  }
+
+  addAttributeComparison(comparison: IPresentedAttributeComparison) {
+    if (this.attributeComparisons === undefined) {
+      this.attributeComparisons = [];
+    }
+    this.attributeComparisons.push(comparison);
+  }
+
+  addLinearCombination(linearCombination: IPresentedLinearCombination) {
+    if (this.linearCombinations === undefined) {
+      this.linearCombinations = [];
+    }
+    this.linearCombinations.push(linearCombination);
+  }
+
+  addArrayMembership(arrayMembership: IPresentedArrayMembership) {
+    if (this.arrayMemberships === undefined) {
+      this.arrayMemberships = [];
+    }
+    this.arrayMemberships.push(arrayMembership);
+  }
+
   getStatus(credIndex: number): IPresentedStatus | undefined {
     if (credIndex >= this.credentials.length) {
       throw new Error(`Invalid credential index ${credIndex}`);
@@ -230,12 +384,164 @@ export class PresentationSpecification {
     return this.credentials[credIndex].status;
   }
 
+  /**
+   * Returns true if an item of the variable length array, or the given attribute of an item, is revealed with the given
+   * value or proven to be equal to it. Meant for the verifier to check a presentation created with
+   * `PresentationBuilder.proveArrayContains` after verifying it.
+   * @param credIndex
+   * @param arrayName - Nested attribute names use the "dot" separator, like `credentialSubject.degrees`
+   * @param value
+   * @param itemAttributeName - Name of the attribute in the array items, like `field` for
+   * `credentialSubject.degrees[].field`
+   */
+  arrayContains(credIndex: number, arrayName: string, value: unknown, itemAttributeName?: string): boolean {
+    if (credIndex >= this.credentials.length) {
+      throw new Error(`Invalid credential index ${credIndex}`);
+    }
+    const proven = (this.arrayMemberships ?? []).some(
+      (m) =>
+        m.credIdx === credIndex &&
+        m.arrayName === arrayName &&
+        m.itemAttributeName === itemAttributeName &&
+        m.value === value
+    );
+    if (proven) {
+      return true;
+    }
+    const suffix = itemAttributeName !== undefined ? `.${itemAttributeName}` : '';
+    const revealed = flatten(this.credentials[credIndex].revealedAttributes) as object;
+    return Object.entries(revealed).some(([name, v]) => {
+      if (!name.startsWith(`${arrayName}.`) || !name.endsWith(suffix)) {
+        return false;
+      }
+      return /^\d+$/.test(name.slice(arrayName.length + 1, name.length - suffix.length)) && v === value;
+    });
+  }
+
+  /**
+   * Returns true if the optional attribute is revealed or proven to be present, false if it's revealed to be absent and
+   * undefined if neither. Meant for the verifier to check a presentation created with
+   * `PresentationBuilder.proveAttributePresent` or `PresentationBuilder.proveAttributeAbsent` after verifying it.
+   * @param credIndex
+   * @param attributeName - Nested attribute names use the "dot" separator
+   */
+  attributePresence(credIndex: number, attributeName: string): boolean | undefined {
+    if (credIndex >= this.credentials.length) {
+      throw new Error(`Invalid credential index ${credIndex}`);
+    }
+    const cred = this.credentials[credIndex];
+    const revealed = flatten(cred.revealedAttributes) as object;
+    if (attributeName in revealed) {
+      return revealed[attributeName] !== null;
+    }
+    const ineqs = attributeName
+      .split('.')
+      .reduce<unknown>((o, k) => (o instanceof Object ? o[k] : undefined), cred.attributeInequalities);
+    if (Array.isArray(ineqs) && ineqs.some((i: IPresentedAttributeInequality) => i.inEqualTo === null)) {
+      return true;
+    }
+    return undefined;
+  }
+
+  /**
+   * Summarize what the presentation discloses to the verifier, like the revealed attributes, predicates, pseudonyms, etc.
+   * Meant for showing to the holder before creating the presentation or to the verifier after verifying it.
+   * @param knownScopes - Scopes used to generate pseudonym bases. Used to find the scope of each pseudonym.
+   */
+  describe(knownScopes?: Uint8Array[]): IDisclosureSummary {
+    const credentials = this.credentials.map((pc) => {
+      const schema = CredentialSchema.fromSerialized(pc.schema);
+      const names = schema.flatten()[0];
+      const c: ICredentialDisclosureInput = {
+        schema,
+        revealedAttributes: pc.revealedAttributes,
+        status: pc.status !== undefined ? [pc.status[ID_STR], pc.status[REV_CHECK_STR]] : undefined,
+        bounds: predicatesByName(pc.bounds, names),
+        inequalities: predicatesByName(pc.attributeInequalities, names),
+        setMemberships: new Map(
+          [...predicatesByName<IPresentedSetMembership>(pc.setMemberships, names).entries()].map(([n, sets]) => [
+            n,
+            sets.map((set) => set.values)
+          ])
+        ),
+        verifiableEncryptions: predicatesByName(pc.verifiableEncryptions, names),
+        circomPredicates: (pc.circomPredicates ?? []).map(circomPredicateAttributes)
+      };
+      return c;
+    });
+
+    const pseudonyms: IPseudonymDisclosureInput[] = [];
+    for (const [pseudonym, p] of Object.entries(this.boundedPseudonyms ?? {})) {
+      const attributes: AttributeRef[] = [];
+      Object.entries(p.attributes).forEach(([c, names]) => names.forEach((n) => attributes.push([parseInt(c), n])));
+      pseudonyms.push({
+        pseudonym,
+        attributes,
+        basesForAttributes: PseudonymBases.encodeBasesForAttributes(p.commitKey.basesForAttributes),
+        baseForSecretKey:
+          p.commitKey.baseForSecretKey !== undefined
+            ? PseudonymBases.encodeBaseForSecretKey(p.commitKey.baseForSecretKey)
+            : undefined
+      });
+    }
+    for (const [pseudonym, p] of Object.entries(this.unboundedPseudonyms ?? {})) {
+      pseudonyms.push({
+        pseudonym,
+        attributes: [],
+        basesForAttributes: [],
+        baseForSecretKey: PseudonymBases.encodeBaseForSecretKey(p.commitKey.baseForSecretKey)
+      });
+    }
+    for (const [pseudonym, p] of Object.entries(this.epochPseudonyms ?? {})) {
+      const attributes: AttributeRef[] = [];
+      Object.entries(p.attributes).forEach(([c, names]) => names.forEach((n) => attributes.push([parseInt(c), n])));
+      const scope = b58.decode(p.scope);
+      pseudonyms.push({
+        pseudonym,
+        attributes,
+        basesForAttributes: [PseudonymBases.generateBaseForEpoch(scope, p.epoch)],
+        epoch: { scope, epoch: p.epoch, maxCount: p.maxCount }
+      });
+    }
+
+    const req = this.blindCredentialRequest;
+    return summarizeDisclosures(
+      {
+        credentials,
+        attributeEqualities: this.attributeEqualities ?? [],
+        privateInequalities: (this.privateInequalities ?? []).map((i) => i.attributes),
+        attributeComparisons: this.attributeComparisons ?? [],
+        linearCombinations: this.linearCombinations ?? [],
+        arrayMemberships: this.arrayMemberships ?? [],
+        pseudonyms,
+        circomPredicatesMultiCred: (this.circomPredicatesMultiCred ?? []).map((p) => {
+          const refs: AttributeRef[] = [];
+          p.privateVars.forEach((v) => {
+            const attrs = (Array.isArray(v.attributeRef[0]) ? v.attributeRef : [v.attributeRef]) as [
+              number,
+              object
+            ][];
+            attrs.forEach(([c, a]) => Object.keys(flatten(a)).forEach((n) => refs.push([c, n])));
+          });
+          return [p.circuitId, refs];
+        }),
+        blindCredentialRequest: req !== undefined ? blindCredentialRequestDisclosureInput(req) : undefined
+      },
+      knownScopes
+    );
+  }
+
   toJSON(): object {
     const j = {
       credentials: [],
       attributeEqualities: this.attributeEqualities,
+      privateInequalities: this.privateInequalities,
+      attributeComparisons: this.attributeComparisons,
+      linearCombinations: this.linearCombinations,
+      arrayMemberships: this.arrayMemberships,
       boundedPseudonyms: this.boundedPseudonyms,
       unboundedPseudonyms: this.unboundedPseudonyms,
+      epochPseudonyms: this.epochPseudonyms,
       blindCredentialRequest: this.blindCredentialRequest,
       circomPredicatesMultiCred: this.circomPredicatesMultiCred
     };
@@ -261,6 +567,9 @@ export class PresentationSpecification {
       if (pc.attributeInequalities !== undefined) {
         curJ['attributeInequalities'] = pc.attributeInequalities;
       }
+      if (pc.setMemberships !== undefined) {
+        curJ['setMemberships'] = pc.setMemberships;
+      }
       if (pc.bounds !== undefined) {
         curJ['bounds'] = pc.bounds;
       }
@@ -277,3 +586,75 @@ export class PresentationSpecification {
     return j;
   }
 }
+
+/**
+ * Returns the predicates of a presented credential keyed by the fully qualified attribute name. The attribute names are
+ * needed as the predicates of array items are nested in arrays which can't be told apart from the arrays of predicates.
+ * @param predicates
+ * @param names - Fully qualified names of the attributes as in the flattened schema
+ * @param single - Set when there is a single predicate per attribute instead of an array of them, as in older versions
+ */
+export function predicatesByName<T>(
+  predicates: { [key: string]: unknown } | undefined,
+  names: string[],
+  single = false
+): Map<string, T[]> {
+  const m = new Map<string, T[]>();
+  if (predicates !== undefined) {
+    names.forEach((n) => {
+      const p = n.split('.').reduce<unknown>((o, k) => (o instanceof Object ? o[k] : undefined), predicates);
+      if (single && p instanceof Object) {
+        m.set(n, [p as T]);
+      } else if (!single && Array.isArray(p)) {
+        m.set(n, p as T[]);
+      }
+    });
+  }
+  return m;
+}
+
+// Returns the circuit id and the names of the attributes used in the Circom predicate
+function circomPredicateAttributes(p: ICircomPredicate<ICircuitPrivateVar>): [string, string[]] {
+  const names: string[] = [];
+  p.privateVars.forEach((v) => {
+    const attrs = Array.isArray(v.attributeName) ? v.attributeName : [v.attributeName];
+    attrs.forEach((a) => names.push(...Object.keys(flatten(a))));
+  });
+  return [p.circuitId, names];
+}
+
+function blindCredentialRequestDisclosureInput(req: IBlindCredentialRequest): IBlindCredentialRequestDisclosureInput {
+  const names = req.schema.flatten()[0];
+  const pseudonyms: IPseudonymDisclosureInput[] = Object.entries(req.pseudonyms ?? {}).map(([pseudonym, p]) => {
+    const attributes: AttributeRef[] = [];
+    Object.entries(p.credentialAttributes).forEach(([c, names]) =>
+      names.forEach((n) => attributes.push([parseInt(c), n]))
+    );
+    return {
+      pseudonym,
+      attributes,
+      basesForAttributes: PseudonymBases.encodeBasesForAttributes(p.commitKey.basesForAttributes),
+      baseForSecretKey:
+        p.commitKey.baseForSecretKey !== undefined
+          ? PseudonymBases.encodeBaseForSecretKey(p.commitKey.baseForSecretKey)
+          : undefined,
+      blindedAttributes: p.blindedAttributes
+    };
+  });
+  return {
+    schema: req.schema,
+    sigType: req.sigType,
+    blindedAttributes: Object.keys(flatten(req.blindedAttributes)),
+    unBlindedAttributes: req.unBlindedAttributes,
+    blindedAttributeEqualities: req.blindedAttributeEqualities ?? [],
+    blindedAttributePrivateInequalities: (req.blindedAttributePrivateInequalities ?? []).map((i) => [
+      i.blindedAttribute,
+      i.attribute
+    ]),
+    bounds: predicatesByName(req.bounds, names),
+    inequalities: predicatesByName(req.attributeInequalities, names),
+    verifiableEncryptions: predicatesByName(req.verifiableEncryptions, names),
+    circomPredicates: (req.circomPredicates ?? []).map(circomPredicateAttributes),
+    pseudonyms
+  };
+}
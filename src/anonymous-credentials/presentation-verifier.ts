@@ -0,0 +1,116 @@
+import { VerifyResult } from 'crypto-wasm-new';
+import { IKeyResolver } from './key-resolver';
+import { decompressPredicateParam, ParamsCache } from './params-cache';
+import { Presentation } from './presentation';
+import { PseudonymRegistry } from './pseudonym-registry';
+import { AccumulatorVerificationParam, CredentialVerificationParam, PredicateParamType } from './types-and-consts';
+
+/**
+ * Verifies many presentations using the same keys and predicate params. The verifier is configured once and reuses the
+ * parameters derived while verifying a presentation, like signature params, default setup params of predicates and parsed
+ * schemas, in subsequent verifications. Predicate params are decompressed once when the verifier is created.
+ */
+export class PresentationVerifier {
+  readonly credentialVerifParams: Map<number, CredentialVerificationParam> | IKeyResolver;
+  readonly accumulatorVerifParams?: Map<number, AccumulatorVerificationParam>;
+  readonly predicateParams: Map<string, PredicateParamType>;
+  readonly paramsCache: ParamsCache;
+
+  /**
+   * @param credentialVerifParams - Verification params for credentials. For presentations with credentials from different
+   * issuers, this should be a key resolver.
+   * @param accumulatorVerifParams - Mapping credential index -> accumulator verification parameters
+   * @param predicateParams - Setup params for various predicates
+   * @param paramsCache - Cache to use, for sharing it with other verifiers or limiting its size. A new cache is created if
+   * not given.
+   */
+  constructor(
+    credentialVerifParams: Map<number, CredentialVerificationParam> | IKeyResolver,
+    accumulatorVerifParams?: Map<number, AccumulatorVerificationParam>,
+    predicateParams?: Map<string, PredicateParamType>,
+    paramsCache?: ParamsCache
+  ) {
+    this.credentialVerifParams = credentialVerifParams;
+    this.accumulatorVerifParams = accumulatorVerifParams;
+    this.predicateParams = new Map();
+    if (predicateParams !== undefined) {
+      for (const [id, param] of predicateParams) {
+        this.predicateParams.set(id, decompressPredicateParam(param));
+      }
+    }
+    this.paramsCache = paramsCache ?? new ParamsCache();
+  }
+
+  /**
+   * Verify a single presentation.
+   * @param presentation
+   * @param circomOutputs - Values for the outputs variables of the Circom programs used for predicates. They key of the map
+   * is the credential index
+   * @param blindedAttributesCircomOutputs - Outputs for Circom predicates on blinded attributes
+   * @param circomOutputsMultiCred - Values for the outputs variables of the Circom programs spanning over multiple credential attributes
+   */
+  verify(
+    presentation: Presentation,
+    circomOutputs?: Map<number, Uint8Array[][]>,
+    blindedAttributesCircomOutputs?: Uint8Array[][],
+    circomOutputsMultiCred?: Uint8Array[][]
+  ): VerifyResult {
+    return presentation.verify(
+      this.credentialVerifParams,
+      this.accumulatorVerifParams,
+      this.predicateParams,
+      circomOutputs,
+      blindedAttributesCircomOutputs,
+      circomOutputsMultiCred,
+      this.paramsCache
+    );
+  }
+
+  /**
+   * Verify a single presentation and check its pseudonyms against the registry. Fails if the presentation doesn't verify
+   * or any of its pseudonyms is blocked or, when `requireRegistered` is true, isn't registered.
+   * @param presentation
+   * @param registry
+   * @param requireRegistered
+   * @param circomOutputs
+   * @param blindedAttributesCircomOutputs
+   * @param circomOutputsMultiCred
+   */
+  async verifyWithPseudonymRegistry(
+    presentation: Presentation,
+    registry: PseudonymRegistry,
+    requireRegistered = false,
+    circomOutputs?: Map<number, Uint8Array[][]>,
+    blindedAttributesCircomOutputs?: Uint8Array[][],
+    circomOutputsMultiCred?: Uint8Array[][]
+  ): Promise<VerifyResult> {
+    const result = this.verify(presentation, circomOutputs, blindedAttributesCircomOutputs, circomOutputsMultiCred);
+    if (!result.verified) {
+      return result;
+    }
+    return registry.checkPresentation(presentation, requireRegistered);
+  }
+
+  /**
+   * Verify many presentations. Returns the result of each presentation in the same order as the given presentations. An
+   * error while verifying a presentation, like a missing key, is returned as its failed result and does not stop the
+   * verification of the remaining presentations.
+   * @param presentations
+   */
+  verifyMany(presentations: Presentation[]): VerifyResult[] {
+    return presentations.map((presentation) => {
+      try {
+        return this.verify(presentation);
+      } catch (e) {
+        return { verified: false, error: e instanceof Error ? e.message : `${e}` };
+      }
+    });
+  }
+
+  /**
+   * Remove the parameters cached from earlier verifications.
+   */
+  clearCache() {
+    this.paramsCache.clear();
+  }
+}
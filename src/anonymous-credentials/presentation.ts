@@ -1,5 +1,5 @@
 import b58 from 'bs58';
-import { VerifyResult } from 'crypto-wasm-new';
+import { pedersenCommitmentG1, VerifyResult } from 'crypto-wasm-new';
 import { flatten } from 'flat';
 import stringify from 'json-stringify-deterministic';
 import _ from 'lodash';
@@ -35,54 +35,73 @@ import {
 import { LegoVerifyingKey, LegoVerifyingKeyUncompressed } from '../legosnark';
 import { PederCommKey, PederCommKeyUncompressed } from '../ped-com';
 import { PSSignatureParams } from '../ps';
-import { Pseudonym, PseudonymBases } from '../Pseudonym';
+import { EpochBoundPseudonym, Pseudonym, PseudonymBases } from '../Pseudonym';
 import { SaverCiphertext } from '../saver';
-import { flattenObjectToKeyValuesList } from '../util';
+import { MessageEncoder } from '../encoder';
+import { areUint8ArraysEqual, bigIntToFieldElement, flattenObjectToKeyValuesList } from '../util';
 import { KeyedProof, IKeyedCredentialProof, IKeyedCredentialStatusProof } from './keyed-proof';
+import { IKeyResolver, isKeyResolver, resolveVerificationParams } from './key-resolver';
+import { checkAgainstPolicy, IPolicyCheckResult, IPresentationPolicy, policyFromRequest } from './presentation-policy';
+import { PresentationRequest } from './presentation-request';
 import {
+  IArrayMembership,
   IBoundedPseudonymCommitKey,
   ICircomPredicate,
   ICircuitPrivateVar,
   ICircuitPrivateVarMultiCred,
   IPresentedAttributeBound,
+  IPresentedAttributeComparison,
+  IPresentedLinearCombination,
   IPresentedAttributeInequality,
   IPresentedAttributeVE,
   IPresentedCredential,
   PresentationSpecification
 } from './presentation-specification';
-import { CredentialSchema, getTransformedMinMax, ValueType } from './schema';
+import { CredentialSchema, getNumericEncodingParams, getTransformedMinMax, scaleToInteger, ValueType } from './schema';
 import { SetupParamsTracker } from './setup-params-tracker';
+import { ParamsCache } from './params-cache';
+import { requiredArrayLengths } from './disclosure-summary';
+import { presentationJsonToW3C, w3cToPresentationJson } from './w3c';
+import { cborToJson, CborObjectTag, jsonToCbor } from './cbor-serialization';
 import {
   AccumulatorValueType,
   AccumulatorVerificationParam,
   AttributeCiphertexts,
+  AttributeRef,
   BBS_BLINDED_CRED_PROOF_TYPE,
   BBS_PLUS_BLINDED_CRED_PROOF_TYPE,
   BBDT16_BLINDED_CRED_PROOF_TYPE,
   BlindSignatureType,
   BoundCheckProtocol,
   CircomProtocol,
+  ComparisonOperator,
   CredentialVerificationParam,
   CRYPTO_VERSION_STR,
+  dockAttributeComparisonBase,
+  dockSetMembershipCommKey,
   FlattenedSchema,
   ID_STR,
   InequalityProtocol,
+  MAX_ATTRIBUTE_COMPARISON_DIFFERENCE,
   MEM_CHECK_KV_STR,
   MEM_CHECK_STR,
   NON_MEM_CHECK_KV_STR,
   NON_MEM_CHECK_STR,
   PredicateParamType,
+  PS_BLINDED_CRED_PROOF_TYPE,
   PublicKey,
   REV_CHECK_STR,
   REV_ID_STR,
   RevocationStatusProtocol,
-  SCHEMA_STR, SignatureParams,
+  SCHEMA_STR, SetMembershipProtocol, SignatureParams,
+  SignatureParamsClass,
   SignatureType,
   STATUS_STR,
   TYPE_STR,
   VerifiableEncryptionProtocol
 } from './types-and-consts';
 import {
+  addPSBlindedCredReqStatements,
   buildSignatureVerifierStatementFromParamsRef,
   createWitEq,
   createWitEqForBlindedCred,
@@ -157,22 +176,26 @@ export class Presentation extends Versioned {
    * @param credentialVerifParams - Map of verification parameters for credentials in the presentation. The key of the map
    * is the credential index. Can also take array of keys in the order of credentials in the presentation for supporting old API but this will
    * be removed in future. The verification param could be a public key or secret key. Certain kinds of credentials don't require
-   * either for (partial) verification but will require for full verification
-   * @param accumulatorVerifParams - Mapping credential index -> accumulator verification parameters.
+   * either for (partial) verification but will require for full verification. Can also be a key resolver which looks up the
+   * verification params of credentials using their revealed issuer and of their statuses using the accumulator id.
+   * @param accumulatorVerifParams - Mapping credential index -> accumulator verification parameters. When a key resolver is
+   * passed, these take precedence over the ones returned by the resolver.
    * @param predicateParams - Setup params for various predicates
    * @param circomOutputs - Values for the outputs variables of the Circom programs used for predicates. They key of the map
    * is the credential index
    * @param blindedAttributesCircomOutputs - Outputs for Circom predicates on blinded attributes
    * @param circomOutputsMultiCred - Values for the outputs variables of the Circom programs spanning over multiple credential attributes
+   * @param paramsCache - Cache of signature params, default setup params and schemas to reuse across verifications. Used by
+   * `PresentationVerifier`
    */
   verify(
-    // TODO: Accept reference to public keys in case of same key for many credentials
-    credentialVerifParams: Map<number, CredentialVerificationParam> | CredentialVerificationParam[],
+    credentialVerifParams: Map<number, CredentialVerificationParam> | CredentialVerificationParam[] | IKeyResolver,
     accumulatorVerifParams?: Map<number, AccumulatorVerificationParam>,
     predicateParams?: Map<string, PredicateParamType>,
     circomOutputs?: Map<number, Uint8Array[][]>,
     blindedAttributesCircomOutputs?: Uint8Array[][],
-    circomOutputsMultiCred?: Uint8Array[][]
+    circomOutputsMultiCred?: Uint8Array[][],
+    paramsCache?: ParamsCache
   ): VerifyResult {
     // NOTE: The order of processing predicates should match exactly to the order in presentation builder, eg. if circom predicates
     // are processed at the end in the builder than they should be processed at the end here as well, if verifiable encryption is
@@ -183,6 +206,10 @@ export class Presentation extends Versioned {
     let credVerifParams = new Map<number, CredentialVerificationParam | undefined>();
     if (credentialVerifParams instanceof Map) {
       credVerifParams = credentialVerifParams;
+    } else if (isKeyResolver(credentialVerifParams)) {
+      let resolvedAccumVerifParams: Map<number, AccumulatorVerificationParam>;
+      [credVerifParams, resolvedAccumVerifParams] = resolveVerificationParams(this.spec, credentialVerifParams);
+      accumulatorVerifParams = new Map([...resolvedAccumVerifParams, ...(accumulatorVerifParams ?? [])]);
     } else {
       credentialVerifParams.forEach((v, i) => {
         credVerifParams.set(i, v);
@@ -201,6 +228,8 @@ export class Presentation extends Versioned {
 
     // For inequality checks on credential attributes
     const ineqsAux: [number, { [key: string]: [IPresentedAttributeInequality, Uint8Array][] }][] = [];
+    // For each credential, the attribute names and the encoded values and commitments of each set the attribute is a member of
+    const setMemAux: [number, [string, Uint8Array[], Uint8Array[]][]][] = [];
 
     // For bound check on credential attributes
     const boundsAux: [number, { [key: string]: string | IPresentedAttributeBound | IPresentedAttributeBound[] }][] = [];
@@ -211,17 +240,32 @@ export class Presentation extends Versioned {
     // For circom predicates on credential attributes
     const circomAux: [number, ICircomPredicate<ICircuitPrivateVar>[]][] = [];
 
-    const setupParamsTrk = new SetupParamsTracker();
+    const setupParamsTrk = new SetupParamsTracker(paramsCache);
     const sigParamsByScheme = new Map();
+    const getSigParams = (paramsClass: SignatureParamsClass, msgCount: number): SignatureParams =>
+      paramsCache !== undefined
+        ? paramsCache.getSignatureParams(paramsClass, msgCount)
+        : getSignatureParamsForMsgCount(sigParamsByScheme, paramsClass, msgCount);
 
     const presVersionGt6 = semver.gt(this.version, '0.6.0');
 
+    // Variable length arrays of each credential
+    const arrays: Map<string, number>[] = [];
+    const credSchemas: CredentialSchema[] = [];
+
     for (let credIndex = 0; credIndex < this.spec.credentials.length; credIndex++) {
       const presentedCred = this.spec.credentials[credIndex];
       const credVersionGte6 = semver.gte(presentedCred.version, '0.6.0');
-      const presentedCredSchema = credVersionGte6 ? CredentialSchema.fromJSON(presentedCred.schema as object) : CredentialSchema.fromJSON(JSON.parse(presentedCred.schema as string));
-      const flattenedSchema = presentedCredSchema.flatten();
+      let presentedCredSchema: CredentialSchema, flattenedSchema: FlattenedSchema;
+      if (paramsCache !== undefined) {
+        [presentedCredSchema, flattenedSchema] = paramsCache.getSchema(presentedCred.schema as object | string);
+      } else {
+        presentedCredSchema = credVersionGte6 ? CredentialSchema.fromJSON(presentedCred.schema as object) : CredentialSchema.fromJSON(JSON.parse(presentedCred.schema as string));
+        flattenedSchema = presentedCredSchema.flatten();
+      }
       const numAttribs = flattenedSchema[0].length;
+      arrays.push(presentedCredSchema.variableLengthArrays(flattenedSchema));
+      credSchemas.push(presentedCredSchema);
 
       const useConstantTimeEncoding = semver.gte(presentedCred.version, '0.6.0');
       const revealedEncoded = Presentation.encodeRevealed(
@@ -262,7 +306,7 @@ export class Presentation extends Versioned {
             }
           }
       }
-      const sigParams = getSignatureParamsForMsgCount(sigParamsByScheme, sigParamsClass, numAttribs);
+      const sigParams = getSigParams(sigParamsClass, numAttribs);
 
       const statement = buildSignatureVerifierStatementFromParamsRef(
         setupParamsTrk,
@@ -298,6 +342,29 @@ export class Presentation extends Versioned {
         ineqsAux.push([credIndex, obj]);
       }
 
+      if (presentedCred.setMemberships !== undefined) {
+        // Flatten only till the arrays of sets as each set contains arrays of values and commitments
+        const sets = flatten(presentedCred.setMemberships, { safe: true }) as object;
+        const setsForCred: [string, Uint8Array[], Uint8Array[]][] = [];
+        const unknownName = Object.keys(sets).find((name) => flattenedSchema[0].indexOf(name) === -1);
+        if (unknownName !== undefined) {
+          return {
+            verified: false,
+            error: `Set membership of attribute ${unknownName} not in schema of credential index ${credIndex}`
+          };
+        }
+        Object.keys(sets).forEach((name) => {
+          (sets[name] as object[]).forEach((set) => {
+            setsForCred.push([
+              name,
+              (set['values'] as unknown[]).map((v) => presentedCredSchema.encoder.encodeMessageConstantTime(name, v)),
+              (set['commitments'] as string[]).map((c) => b58.decode(c))
+            ]);
+          });
+        });
+        setMemAux.push([credIndex, setsForCred]);
+      }
+
       if (presentedCred.bounds !== undefined) {
         boundsAux.push([credIndex, presentedCred.bounds]);
       }
@@ -309,6 +376,10 @@ export class Presentation extends Versioned {
       }
     }
 
+    if (arrays.some((a) => a.size > 0)) {
+      Presentation.checkArrayLengths(this.spec, arrays);
+    }
+
     credStatusAux.forEach(([i, protocol, checkType, acc]) => {
       let statement;
       const pk = accumulatorVerifParams?.get(i);
@@ -434,6 +505,85 @@ export class Presentation extends Versioned {
       }
     }
 
+    if (this.spec.privateInequalities !== undefined) {
+      for (const { attributes, commitment } of this.spec.privateInequalities) {
+        const error = Array.isArray(attributes)
+          ? attributes.map((a) => Presentation.attributeRefError(a, flattenedSchemas)).find((e) => e !== undefined)
+          : 'Expected attributes to be an array';
+        if (error !== undefined || attributes.length !== 2) {
+          return { verified: false, error: `Invalid private inequality: ${error ?? 'Expected 2 attributes'}` };
+        }
+        const [[c1, n1], [c2, n2]] = attributes;
+        Presentation.addPrivateInequalityStatements(
+          b58.decode(commitment),
+          [c1, flattenedSchemas[c1][0].indexOf(n1)],
+          [c2, flattenedSchemas[c2][0].indexOf(n2)],
+          statements,
+          metaStatements,
+          setupParamsTrk
+        );
+      }
+    }
+
+    if (this.spec.attributeComparisons !== undefined) {
+      for (const comparison of this.spec.attributeComparisons) {
+        const [[c1, n1], [c2, n2]] = comparison.attributes;
+        const sIdx = Presentation.addAttributeComparisonStatement(
+          Presentation.attributeComparisonCoefficients(comparison, flattenedSchemas),
+          [c1, flattenedSchemas[c1][0].indexOf(n1)],
+          [c2, flattenedSchemas[c2][0].indexOf(n2)],
+          statements,
+          metaStatements
+        );
+        const bIdx = statements.add(
+          this.boundCheckStatement(
+            Presentation.attributeComparisonMinDifference(comparison.operator),
+            MAX_ATTRIBUTE_COMPARISON_DIFFERENCE,
+            comparison.paramId,
+            comparison.protocol,
+            comparison.paramId !== undefined ? predicateParams?.get(comparison.paramId) : undefined,
+            setupParamsTrk,
+            sIdx
+          )
+        );
+        const witnessEq = new WitnessEqualityMetaStatement();
+        witnessEq.addWitnessRef(sIdx, 2);
+        witnessEq.addWitnessRef(bIdx, 0);
+        metaStatements.addWitnessEquality(witnessEq);
+      }
+    }
+
+    if (this.spec.linearCombinations !== undefined) {
+      for (const linearCombination of this.spec.linearCombinations) {
+        const [coefficients, constant, max] = Presentation.linearCombinationCoefficients(
+          linearCombination,
+          flattenedSchemas
+        );
+        const sIdx = Presentation.addLinearCombinationStatement(
+          coefficients,
+          constant,
+          linearCombination.attributes.map(([c, n]) => [c, flattenedSchemas[c][0].indexOf(n)] as [number, number]),
+          statements,
+          metaStatements
+        );
+        const bIdx = statements.add(
+          this.boundCheckStatement(
+            0,
+            max,
+            linearCombination.paramId,
+            linearCombination.protocol,
+            linearCombination.paramId !== undefined ? predicateParams?.get(linearCombination.paramId) : undefined,
+            setupParamsTrk,
+            sIdx
+          )
+        );
+        const witnessEq = new WitnessEqualityMetaStatement();
+        witnessEq.addWitnessRef(sIdx, coefficients.length);
+        witnessEq.addWitnessRef(bIdx, 0);
+        metaStatements.addWitnessEquality(witnessEq);
+      }
+    }
+
     ineqsAux.forEach(([i, ineq]) => {
       this.processAttributeInequalities(
         i,
@@ -448,6 +598,31 @@ export class Presentation extends Versioned {
       );
     });
 
+    setMemAux.forEach(([i, sets]) => {
+      const withIndices = sets.map(
+        (set) => [flattenedSchemas[i][0].indexOf(set[0]), set] as [number, [string, Uint8Array[], Uint8Array[]]]
+      );
+      // Sort by attribute index so that both prover and verifier create statements in the same order
+      withIndices.sort((a, b) => a[0] - b[0]);
+      for (const [nameIdx, [, values, commitments]] of withIndices) {
+        Presentation.addSetMembershipStatements([i, nameIdx], values, commitments, statements, metaStatements);
+      }
+    });
+
+    for (const m of this.spec.arrayMemberships ?? []) {
+      if (credSchemas[m.credIdx] === undefined) {
+        return { verified: false, error: `Invalid credential index ${m.credIdx} in membership of ${m.arrayName}` };
+      }
+      const [indices, values] = Presentation.arrayMembershipItems(m, credSchemas[m.credIdx], flattenedSchemas[m.credIdx]);
+      Presentation.addArrayMembershipStatements(
+        indices.map((idx) => [m.credIdx, idx]),
+        values,
+        m.commitments.map((c) => b58.decode(c)),
+        statements,
+        metaStatements
+      );
+    }
+
     boundsAux.forEach(([i, b]) => {
       this.processBoundChecks(
         i,
@@ -588,6 +763,47 @@ export class Presentation extends Versioned {
       }
     }
 
+    // verify epochPseudonyms. The base is derived from the scope and epoch and the weights from the scope rather than
+    // taken from the presentation. The last witness is the counter which is bound checked
+    if (this.spec.epochPseudonyms !== undefined) {
+      for (const [pseudonym, epochPseudonym] of Object.entries(this.spec.epochPseudonyms)) {
+        const attributeCount = Object.values(epochPseudonym.attributes).reduce((c, names) => c + names.length, 0);
+        const scope = b58.decode(epochPseudonym.scope);
+        const base = PseudonymBases.generateBaseForEpoch(scope, epochPseudonym.epoch);
+        const weights = PseudonymBases.generateWeightsForEpoch(scope, attributeCount);
+        const bases = EpochBoundPseudonym.commitmentBases(Pseudonym.encode(pseudonym), weights);
+        const sIdx = statements.add(Statement.pedersenCommitmentG1(bases, base));
+        const bIdx = statements.add(
+          this.boundCheckStatement(
+            0,
+            epochPseudonym.maxCount,
+            epochPseudonym.paramId,
+            epochPseudonym.protocol,
+            epochPseudonym.paramId !== undefined ? predicateParams?.get(epochPseudonym.paramId) : undefined,
+            setupParamsTrk,
+            sIdx
+          )
+        );
+        const counterEq = new WitnessEqualityMetaStatement();
+        counterEq.addWitnessRef(sIdx, attributeCount);
+        counterEq.addWitnessRef(bIdx, 0);
+        metaStatements.addWitnessEquality(counterEq);
+
+        let attrIdx = 0;
+        for (const [credIdx, attributeNames] of Object.entries(epochPseudonym.attributes)) {
+          attrIdx = addWitnessEqualitiesForPseudonym(
+            attributeNames,
+            (n: string) => {
+              return flattenedSchemas[credIdx][0].indexOf(n);
+            },
+            parseInt(credIdx),
+            sIdx,
+            attrIdx
+          );
+        }
+      }
+    }
+
     if (this.spec.blindCredentialRequest !== undefined) {
       const flattenedSchema = this.spec.blindCredentialRequest.schema.flatten();
       const flattenedBlindedAttrs = flatten(this.spec.blindCredentialRequest.blindedAttributes) as object;
@@ -606,21 +822,40 @@ export class Presentation extends Versioned {
       let pedCommWitnessOffset: number;
 
       if (sigType === BBS_BLINDED_CRED_PROOF_TYPE) {
-        sigParams = getSignatureParamsForMsgCount(sigParamsByScheme, BBSSignatureParams, numAttribs);
+        sigParams = getSigParams(BBSSignatureParams, numAttribs);
         pedCommWitnessOffset = 0;
       } else if (sigType === BBS_PLUS_BLINDED_CRED_PROOF_TYPE) {
-        sigParams = getSignatureParamsForMsgCount(sigParamsByScheme, BBSPlusSignatureParamsG1, numAttribs);
+        sigParams = getSigParams(BBSPlusSignatureParamsG1, numAttribs);
         pedCommWitnessOffset = 1;
       } else if (sigType === BBDT16_BLINDED_CRED_PROOF_TYPE) {
-        sigParams = getSignatureParamsForMsgCount(sigParamsByScheme, BBDT16MacParams, numAttribs);
+        sigParams = getSigParams(BBDT16MacParams, numAttribs);
+        pedCommWitnessOffset = 1;
+      } else if (sigType === PS_BLINDED_CRED_PROOF_TYPE) {
+        sigParams = getSigParams(PSSignatureParams, numAttribs);
         pedCommWitnessOffset = 1;
       } else {
-        throw new Error('Blind signing not yet implemented for PS');
+        throw new Error(`Blind signing not implemented for ${sigType}`);
+      }
+      let pedCommStId: number;
+      if (sigParams instanceof PSSignatureParams) {
+        const attributeCommitments = this.spec.blindCredentialRequest.attributeCommitments;
+        if (attributeCommitments === undefined) {
+          throw new Error('Commitments to each blinded attribute are needed for PS');
+        }
+        pedCommStId = addPSBlindedCredReqStatements(
+          statements,
+          metaStatements,
+          sigParams,
+          blindedSubjectIndices,
+          this.spec.blindCredentialRequest.commitment,
+          attributeCommitments
+        );
+      } else {
+        const commKey = sigParams.getParamsForIndices(blindedSubjectIndices);
+        pedCommStId = statements.add(
+          Statement.pedersenCommitmentG1(commKey, this.spec.blindCredentialRequest.commitment)
+        );
       }
-      const commKey = sigParams.getParamsForIndices(blindedSubjectIndices);
-      const pedCommStId = statements.add(
-        Statement.pedersenCommitmentG1(commKey, this.spec.blindCredentialRequest.commitment)
-      );
 
       const getAttrIndexInPedComm = (attr: number | string): number => {
         if (typeof attr === 'number') {
@@ -646,6 +881,27 @@ export class Presentation extends Versioned {
         }
       }
 
+      if (this.spec.blindCredentialRequest.blindedAttributePrivateInequalities !== undefined) {
+        for (const { blindedAttribute, attribute, commitment } of this.spec.blindCredentialRequest
+          .blindedAttributePrivateInequalities) {
+          const error = !blindedSubjectNameToIndex.has(blindedAttribute)
+            ? `${blindedAttribute} is not a blinded attribute`
+            : Presentation.attributeRefError(attribute, flattenedSchemas);
+          if (error !== undefined) {
+            return { verified: false, error: `Invalid private inequality with blinded attribute: ${error}` };
+          }
+          const [cId, name] = attribute;
+          Presentation.addPrivateInequalityStatements(
+            b58.decode(commitment),
+            [pedCommStId, getAttrIndexInPedComm(blindedAttribute)],
+            [cId, flattenedSchemas[cId][0].indexOf(name)],
+            statements,
+            metaStatements,
+            setupParamsTrk
+          );
+        }
+      }
+
       if (this.spec.blindCredentialRequest.attributeInequalities !== undefined) {
         let [names, ineqs] = flattenPredicatesInSpec(this.spec.blindCredentialRequest.attributeInequalities);
         const obj = {};
@@ -739,6 +995,25 @@ export class Presentation extends Versioned {
     return this.proof.verifyUsingQuasiProofSpec(proofSpec, this.nonce, presVersionGt9);
   }
 
+  /**
+   * Check that the presentation proves what the verifier requires, like revealing certain attributes, enforcing bounds or
+   * checking the status against the current accumulator. This does not verify the proof so `verify` must be called as well.
+   * @param policy
+   */
+  verifyAgainstPolicy(policy: IPresentationPolicy): IPolicyCheckResult {
+    return checkAgainstPolicy(this, policy);
+  }
+
+  /**
+   * Check that the presentation proves what was asked for in the given request. This does not verify the proof so `verify`
+   * must be called as well.
+   * @param request
+   * @param accumulated - The accumulator value the verifier considers current. The key of the map is the credential index.
+   */
+  verifyAgainstRequest(request: PresentationRequest, accumulated?: Map<number, AccumulatorValueType>): IPolicyCheckResult {
+    return checkAgainstPolicy(this, policyFromRequest(request, accumulated));
+  }
+
   /**
    * Get keyed proofs for credentials and there statuses where applicable.
    * @returns - The key in the returned map is the credential index
@@ -881,6 +1156,8 @@ export class Presentation extends Versioned {
           // Was an array item that was not revealed
           throw new Error(`Attribute name ${k} not found in schema`);
         }
+      } else if (k.match(re) !== null && (v === null || v === undefined) && !presentedCredSchema.isOptional(k)) {
+        // Array item that was not revealed
       } else {
         encoded.set(i, useConstantTimeEncoding ? presentedCredSchema.encoder.encodeMessageConstantTime(k, v) : presentedCredSchema.encoder.encodeMessage(k, v));
       }
@@ -888,6 +1165,26 @@ export class Presentation extends Versioned {
     return encoded;
   }
 
+  /**
+   * Throws if an item of a variable length array is used without proving that the array is long enough to have that
+   * item, as otherwise the holder could be using the padding.
+   * @param spec
+   * @param arrays - Variable length arrays of each credential
+   */
+  private static checkArrayLengths(spec: PresentationSpecification, arrays: Map<string, number>[]) {
+    requiredArrayLengths(spec.describe(), arrays).forEach((lengths, credIdx) => {
+      for (const [arrayName, minLength] of lengths) {
+        const b = _.get(spec.credentials[credIdx].bounds, CredentialSchema.arrayLengthName(arrayName));
+        if (!Array.isArray(b) || !b.some((bound: IPresentedAttributeBound) => bound.min >= minLength)) {
+          throw new Error(
+            `Credential index ${credIdx} uses item ${minLength - 1} of ${arrayName} but didn't prove its length ` +
+              `to be at least ${minLength}`
+          );
+        }
+      }
+    });
+  }
+
   private processAttributeInequalities(
     statementIdx: number,
     witnessIndexGetter: (string) => number,
@@ -918,6 +1215,52 @@ export class Presentation extends Versioned {
     });
   }
 
+  // Create the verifier's statement for proving that a value lies in `[min, max)` using the given protocol
+  private boundCheckStatement(
+    min: number,
+    max: number,
+    paramId: string | undefined,
+    protocol: BoundCheckProtocol,
+    param: PredicateParamType | undefined,
+    setupParamsTrk: SetupParamsTracker,
+    statementIdx: number
+  ): Uint8Array {
+    let statement: Uint8Array;
+    if (paramId === undefined) {
+      // paramId is undefined means no setup param was passed and thus the default setup of Bulletproofs++ can be used.
+      if (protocol !== BoundCheckProtocol.Bpp) {
+        throw new Error(`Hardcoded setup for bound check is only available for Bulletproofs++ but found protocol ${protocol}`);
+      } else {
+        if (!setupParamsTrk.hasBoundCheckBppSetup()) {
+          setupParamsTrk.addBoundCheckBppSetup();
+        }
+        statement = Statement.boundCheckBppFromSetupParamRefs(min, max, setupParamsTrk.boundCheckBppSetupIdx);
+      }
+    } else {
+      switch (protocol) {
+        case BoundCheckProtocol.Legogroth16:
+          Presentation.addLegoVerifyingKeyToTracker(paramId, param, setupParamsTrk, statementIdx);
+          statement = Statement.boundCheckLegoVerifierFromSetupParamRefs(min, max, setupParamsTrk.indexForParam(paramId));
+          break;
+        case BoundCheckProtocol.Bpp:
+          Presentation.addBppSetupParamsToTracker(paramId, param, setupParamsTrk, statementIdx);
+          statement = Statement.boundCheckBppFromSetupParamRefs(min, max, setupParamsTrk.indexForParam(paramId));
+          break;
+        case BoundCheckProtocol.Smc:
+          Presentation.addSmcSetupParamsToTracker(paramId, param, setupParamsTrk, statementIdx);
+          statement = Statement.boundCheckSmcFromSetupParamRefs(min, max, setupParamsTrk.indexForParam(paramId));
+          break;
+        case BoundCheckProtocol.SmcKV:
+          Presentation.addSmcKVVerifierParamsToTracker(paramId, param, setupParamsTrk, statementIdx);
+          statement = Statement.boundCheckSmcWithKVVerifierFromSetupParamRefs(min, max, setupParamsTrk.indexForParam(paramId));
+          break;
+        default:
+          throw new Error(`Unknown protocol ${protocol} for bound check`);
+      }
+    }
+    return statement;
+  }
+
   private processBoundChecks(
     statementIdx: number,
     witnessIndexGetter: (string) => number,
@@ -948,67 +1291,21 @@ export class Presentation extends Versioned {
         const paramId = bound['paramId'];
         let protocol = bound['protocol'];
         const param = predicateParams?.get(paramId);
-        let statement: Uint8Array;
 
         // Older versions of presentation did not have protocol name specified
         if (semver.lt(this.version, '0.2.0')) {
           protocol = BoundCheckProtocol.Legogroth16;
         }
 
-        if (paramId === undefined) {
-          // paramId is undefined means no setup param was passed and thus the default setup of Bulletproofs++ can be used.
-          if (protocol !== BoundCheckProtocol.Bpp) {
-            throw new Error(
-              `Hardcoded setup for bound check is only available for Bulletproofs++ but found protocol ${protocol}`
-            );
-          } else {
-            if (!setupParamsTrk.hasBoundCheckBppSetup()) {
-              setupParamsTrk.addBoundCheckBppSetup();
-            }
-            statement = Statement.boundCheckBppFromSetupParamRefs(
-              transformedMin,
-              transformedMax,
-              setupParamsTrk.boundCheckBppSetupIdx
-            );
-          }
-        } else {
-          switch (protocol) {
-            case BoundCheckProtocol.Legogroth16:
-              Presentation.addLegoVerifyingKeyToTracker(paramId, param, setupParamsTrk, statementIdx);
-              statement = Statement.boundCheckLegoVerifierFromSetupParamRefs(
-                transformedMin,
-                transformedMax,
-                setupParamsTrk.indexForParam(paramId)
-              );
-              break;
-            case BoundCheckProtocol.Bpp:
-              Presentation.addBppSetupParamsToTracker(paramId, param, setupParamsTrk, statementIdx);
-              statement = Statement.boundCheckBppFromSetupParamRefs(
-                transformedMin,
-                transformedMax,
-                setupParamsTrk.indexForParam(paramId)
-              );
-              break;
-            case BoundCheckProtocol.Smc:
-              Presentation.addSmcSetupParamsToTracker(paramId, param, setupParamsTrk, statementIdx);
-              statement = Statement.boundCheckSmcFromSetupParamRefs(
-                transformedMin,
-                transformedMax,
-                setupParamsTrk.indexForParam(paramId)
-              );
-              break;
-            case BoundCheckProtocol.SmcKV:
-              Presentation.addSmcKVVerifierParamsToTracker(paramId, param, setupParamsTrk, statementIdx);
-              statement = Statement.boundCheckSmcWithKVVerifierFromSetupParamRefs(
-                transformedMin,
-                transformedMax,
-                setupParamsTrk.indexForParam(paramId)
-              );
-              break;
-            default:
-              throw new Error(`Unknown protocol ${protocol} for bound check`);
-          }
-        }
+        const statement = this.boundCheckStatement(
+          transformedMin,
+          transformedMax,
+          paramId,
+          protocol,
+          param,
+          setupParamsTrk,
+          statementIdx
+        );
 
         const sIdx = statements.add(statement);
         const witnessEq = new WitnessEqualityMetaStatement();
@@ -1212,6 +1509,11 @@ export class Presentation extends Versioned {
       blindCredentialRequest = _.cloneDeep(this.spec.blindCredentialRequest) as object;
       blindCredentialRequest.schema = this.spec.blindCredentialRequest.schema.toJSON();
       blindCredentialRequest.commitment = b58.encode(this.spec.blindCredentialRequest.commitment);
+      if (this.spec.blindCredentialRequest.attributeCommitments !== undefined) {
+        blindCredentialRequest.attributeCommitments = this.spec.blindCredentialRequest.attributeCommitments.map((c) =>
+          b58.encode(c)
+        );
+      }
       if (this.blindedAttributeCiphertexts !== undefined) {
         blindedAttributeCiphertexts = {};
         Presentation.ciphertextToBs58(this.blindedAttributeCiphertexts, blindedAttributeCiphertexts, this.version);
@@ -1230,12 +1532,27 @@ export class Presentation extends Versioned {
     if (this.spec.attributeEqualities !== undefined) {
       spec['attributeEqualities'] = this.spec.attributeEqualities;
     }
+    if (this.spec.privateInequalities !== undefined) {
+      spec['privateInequalities'] = this.spec.privateInequalities;
+    }
+    if (this.spec.attributeComparisons !== undefined) {
+      spec['attributeComparisons'] = this.spec.attributeComparisons;
+    }
+    if (this.spec.linearCombinations !== undefined) {
+      spec['linearCombinations'] = this.spec.linearCombinations;
+    }
+    if (this.spec.arrayMemberships !== undefined) {
+      spec['arrayMemberships'] = this.spec.arrayMemberships;
+    }
     if (this.spec.boundedPseudonyms !== undefined) {
       spec['boundedPseudonyms'] = this.spec.boundedPseudonyms;
     }
     if (this.spec.unboundedPseudonyms !== undefined) {
       spec['unboundedPseudonyms'] = this.spec.unboundedPseudonyms;
     }
+    if (this.spec.epochPseudonyms !== undefined) {
+      spec['epochPseudonyms'] = this.spec.epochPseudonyms;
+    }
     if (blindCredentialRequest !== undefined) {
       spec['blindCredentialRequest'] = blindCredentialRequest;
     }
@@ -1399,6 +1716,324 @@ export class Presentation extends Versioned {
     return Statement.publicInequalityG1FromSetupParamRefs(ineq, commKeyIdx);
   }
 
+  /**
+   * Add statements and meta-statements for proving that 2 attributes `a` and `b` are unequal without revealing them. The
+   * 1st statement proves knowledge of the opening of commitment `C = g*a + h*r`, the 2nd proves knowledge of the opening of
+   * the same commitment as `C = g*b + g*d + h*r` thus `d = a - b` and the 3rd proves that `d != 0`.
+   * @param commitment
+   * @param first - Statement index and witness index of `a`
+   * @param second - Statement index and witness index of `b`
+   * @param statements
+   * @param metaStatements
+   * @param setupParamsTrk
+   */
+  static addPrivateInequalityStatements(
+    commitment: Uint8Array,
+    first: [number, number],
+    second: [number, number],
+    statements: Statements,
+    metaStatements: MetaStatements,
+    setupParamsTrk: SetupParamsTracker
+  ) {
+    if (!setupParamsTrk.hasPrivateInequalityCommKeys()) {
+      setupParamsTrk.addPrivateInequalityCommKeys();
+    }
+    if (!setupParamsTrk.hasInequalityCommKey()) {
+      setupParamsTrk.addInequalityCommKey();
+    }
+    const commSIdx = statements.add(
+      Statement.pedersenCommitmentG1FromSetupParamRef(setupParamsTrk.privIneqlCommKeyIdx, commitment)
+    );
+    const diffSIdx = statements.add(
+      Statement.pedersenCommitmentG1FromSetupParamRef(setupParamsTrk.privIneqlDiffCommKeyIdx, commitment)
+    );
+    const ineqSIdx = statements.add(
+      Statement.publicInequalityG1FromSetupParamRefs(MessageEncoder.encodePositiveNumberForSigning(0), setupParamsTrk.inqlCommKeyIdx)
+    );
+    for (const [x, y] of [
+      [first, [commSIdx, 0]],
+      [second, [diffSIdx, 0]],
+      [
+        [diffSIdx, 1],
+        [ineqSIdx, 0]
+      ]
+    ]) {
+      const witnessEq = new WitnessEqualityMetaStatement();
+      witnessEq.addWitnessRef(x[0], x[1]);
+      witnessEq.addWitnessRef(y[0], y[1]);
+      metaStatements.addWitnessEquality(witnessEq);
+    }
+  }
+
+  /**
+   * Returns an error message if the reference isn't to an attribute of a credential in the presentation
+   * @param ref
+   * @param flattenedSchemas - Flattened schemas of the presentation's credentials
+   */
+  private static attributeRefError(ref: AttributeRef, flattenedSchemas: FlattenedSchema[]): string | undefined {
+    if (!Array.isArray(ref)) {
+      return `Expected a credential index and attribute name but found ${ref}`;
+    }
+    const [credIdx, name] = ref;
+    if (!Number.isInteger(credIdx) || credIdx < 0 || credIdx >= flattenedSchemas.length) {
+      return `Invalid credential index ${credIdx}`;
+    }
+    if (flattenedSchemas[credIdx][0].indexOf(name) === -1) {
+      return `Attribute ${name} not found in schema of credential index ${credIdx}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Add statements and meta-statements for proving that attribute `a` is one of the values `v_1, v_2, ..., v_n`. Commitment
+   * `C_i` commits to the product `(a - v_1)(a - v_2)...(a - v_i)`. The 1st statement proves that `C_1 + g * v_1 = g * a + h * r_1`,
+   * the i-th proves that `C_i + C_{i-1} * v_i = C_{i-1} * a + h * r_i` and the last proves that `C_n = h * R`, i.e. the product
+   * of all differences is 0 and thus `a` is equal to one of the values.
+   * All statements are Pedersen commitment statements of the composite proof system so this doesn't need a new protocol.
+   * An accumulator isn't used as the set is public and chosen by the verifier. An accumulator whose secret key is known
+   * allows creating membership witnesses for any value so the verifier would need to trust a manager to create an
+   * accumulator for each set. Bound checks only prove that an attribute lies in a range and not in an arbitrary set.
+   * @param attribute - Statement index and witness index of `a`
+   * @param values - Encoded values of the set
+   * @param commitments
+   * @param statements
+   * @param metaStatements
+   */
+  static addSetMembershipStatements(
+    attribute: [number, number],
+    values: Uint8Array[],
+    commitments: Uint8Array[],
+    statements: Statements,
+    metaStatements: MetaStatements
+  ) {
+    Presentation.addProductOfDifferencesStatements(
+      values.map(() => attribute),
+      values,
+      commitments,
+      statements,
+      metaStatements
+    );
+  }
+
+  /**
+   * Add statements and meta-statements for proving that some item `a_i` of a variable length array, or an attribute of
+   * it, is equal to the value `v`. This is like `addSetMembershipStatements` but the differences are `a_i - v` so the
+   * product is `(a_1 - v)(a_2 - v)...(a_n - v)` where `n` is the maximum number of items. As the padding items are
+   * included, the value should be different from the padding.
+   * @param items - Statement index and witness index of each item `a_i`
+   * @param values - The value encoded for each item
+   * @param commitments
+   * @param statements
+   * @param metaStatements
+   */
+  static addArrayMembershipStatements(
+    items: [number, number][],
+    values: Uint8Array[],
+    commitments: Uint8Array[],
+    statements: Statements,
+    metaStatements: MetaStatements
+  ) {
+    Presentation.addProductOfDifferencesStatements(items, values, commitments, statements, metaStatements);
+  }
+
+  /**
+   * Returns the flattened schema indices of the items of a variable length array, or of the given attribute of the
+   * items, along with the value encoded for each item. Throws if the value is same as the padding as then the padding
+   * would match it.
+   * @param membership
+   * @param schema
+   * @param flattenedSchema
+   */
+  static arrayMembershipItems(
+    membership: IArrayMembership,
+    schema: CredentialSchema,
+    flattenedSchema: FlattenedSchema
+  ): [number[], Uint8Array[]] {
+    const { credIdx, arrayName, itemAttributeName, value } = membership;
+    const maxItems = schema.variableLengthArrays(flattenedSchema).get(arrayName);
+    if (maxItems === undefined) {
+      throw new Error(`${arrayName} isn't a variable length array in the schema of credential index ${credIdx}`);
+    }
+    const indices: number[] = [];
+    const values: Uint8Array[] = [];
+    for (let i = 0; i < maxItems; i++) {
+      const name = itemAttributeName !== undefined ? `${arrayName}.${i}.${itemAttributeName}` : `${arrayName}.${i}`;
+      const padding = schema.paddingOf(name, flattenedSchema);
+      const encoded = schema.encoder.encodeMessageConstantTime(name, value);
+      if (areUint8ArraysEqual(encoded, schema.encoder.encodeMessageConstantTime(name, padding))) {
+        throw new Error(`Value ${value} of ${name} is same as the padding so it can't be proven to be in the array`);
+      }
+      indices.push(flattenedSchema[0].indexOf(name));
+      values.push(encoded);
+    }
+    return [indices, values];
+  }
+
+  /**
+   * Add the statements proving that the product of differences `(a_1 - v_1)(a_2 - v_2)...(a_n - v_n)` is 0 as described in
+   * `addSetMembershipStatements`. The same attribute can appear several times, like in a set membership.
+   * @param attributes - Statement index and witness index of each `a_i`
+   * @param values - Encoded `v_i`
+   * @param commitments
+   * @param statements
+   * @param metaStatements
+   */
+  private static addProductOfDifferencesStatements(
+    attributes: [number, number][],
+    values: Uint8Array[],
+    commitments: Uint8Array[],
+    statements: Statements,
+    metaStatements: MetaStatements
+  ) {
+    if (values.length === 0 || values.length !== commitments.length || values.length !== attributes.length) {
+      throw new Error(`Expected a commitment for each of the ${values.length} values but found ${commitments.length}`);
+    }
+    const [g, h] = dockSetMembershipCommKey();
+    const one = bigIntToFieldElement(BigInt(1));
+    // Keyed by the statement and witness index of the attribute
+    const witnessEqs = new Map<string, WitnessEqualityMetaStatement>();
+    for (let i = 0; i < values.length; i++) {
+      const prev = i === 0 ? g : commitments[i - 1];
+      const sIdx = statements.add(
+        Statement.pedersenCommitmentG1([prev, h], pedersenCommitmentG1([commitments[i], prev], [one, values[i]]))
+      );
+      const key = attributes[i].join(',');
+      let witnessEq = witnessEqs.get(key);
+      if (witnessEq === undefined) {
+        witnessEq = new WitnessEqualityMetaStatement();
+        witnessEq.addWitnessRef(attributes[i][0], attributes[i][1]);
+        witnessEqs.set(key, witnessEq);
+      }
+      witnessEq.addWitnessRef(sIdx, 0);
+    }
+    witnessEqs.forEach((witnessEq) => metaStatements.addWitnessEquality(witnessEq));
+    statements.add(Statement.pedersenCommitmentG1([h], commitments[commitments.length - 1]));
+  }
+
+  /**
+   * Returns the coefficients `[c1, c2, c3]` such that the difference `d = c1 * a + c2 * b + c3`, where `a` and `b` are the
+   * encoded attributes being compared, is non-negative (or positive for strict comparison) iff the comparison holds. Both
+   * sides of the comparison are scaled to the larger number of decimal places of both attributes and the offsets used in
+   * encoding are removed.
+   * @param comparison
+   * @param flattenedSchemas
+   */
+  static attributeComparisonCoefficients(
+    comparison: IPresentedAttributeComparison,
+    flattenedSchemas: FlattenedSchema[]
+  ): [bigint, bigint, bigint] {
+    const [[c1, n1], [c2, n2]] = comparison.attributes;
+    const [decimals1, offset1] = getNumericEncodingParams(n1, CredentialSchema.typeOfName(n1, flattenedSchemas[c1]));
+    const [decimals2, offset2] = getNumericEncodingParams(n2, CredentialSchema.typeOfName(n2, flattenedSchemas[c2]));
+    const decimals = Math.max(decimals1, decimals2);
+    const scaleInt = (v: number): bigint => scaleToInteger(v, decimals, `compared with ${n1} and ${n2}`);
+    const multiplier = BigInt(comparison.multiplier);
+    const coeff1 = BigInt(Math.pow(10, decimals - decimals1));
+    const coeff2 = -multiplier * BigInt(Math.pow(10, decimals - decimals2));
+    const constant = multiplier * scaleInt(offset2) - scaleInt(offset1) - scaleInt(comparison.offset);
+    const sign = [ComparisonOperator.Gt, ComparisonOperator.Gte].includes(comparison.operator) ? BigInt(1) : BigInt(-1);
+    return [sign * coeff1, sign * coeff2, sign * constant];
+  }
+
+  /**
+   * Returns the minimum of the difference between both sides of the comparison
+   * @param operator
+   */
+  static attributeComparisonMinDifference(operator: ComparisonOperator): number {
+    return [ComparisonOperator.Gt, ComparisonOperator.Lt].includes(operator) ? 1 : 0;
+  }
+
+  /**
+   * Add the statement proving that `d = c1 * a + c2 * b + c3` where `a` and `b` are the attributes being compared, `d` is
+   * their difference and `c1, c2, c3` are the coefficients. Returns the index of the added statement where `d` is the 3rd witness.
+   * @param coefficients
+   * @param first - Statement index and witness index of `a`
+   * @param second - Statement index and witness index of `b`
+   * @param statements
+   * @param metaStatements
+   */
+  static addAttributeComparisonStatement(
+    coefficients: [bigint, bigint, bigint],
+    first: [number, number],
+    second: [number, number],
+    statements: Statements,
+    metaStatements: MetaStatements
+  ): number {
+    const [c1, c2, c3] = coefficients;
+    return Presentation.addLinearCombinationStatement([c1, c2], c3, [first, second], statements, metaStatements);
+  }
+
+  /**
+   * Returns the coefficients `c_1, c_2, ..., c_n`, the constant `c` and the bound `m` such that the value
+   * `d = c_1 * a_1 + c_2 * a_2 + ... + c_n * a_n + c`, where `a_i` are the encoded attributes, lies in `[0, m)` iff the
+   * weighted sum of the attributes lies in `[min, max)`. The sum and its bounds are scaled to the largest number of decimal
+   * places of the attributes and the offsets used in encoding are removed.
+   * @param linearCombination
+   * @param flattenedSchemas
+   */
+  static linearCombinationCoefficients(
+    linearCombination: IPresentedLinearCombination,
+    flattenedSchemas: FlattenedSchema[]
+  ): [bigint[], bigint, number] {
+    const { attributes, weights, min, max } = linearCombination;
+    if (attributes.length === 0 || attributes.length !== weights.length) {
+      throw new Error(
+        `Need a weight for each of the attributes but found ${weights.length} weights for ${attributes.length} attributes`
+      );
+    }
+    const encodingParams = attributes.map(([c, n]) =>
+      getNumericEncodingParams(n, CredentialSchema.typeOfName(n, flattenedSchemas[c]))
+    );
+    const decimals = Math.max(...encodingParams.map(([d]) => d));
+    const scaleInt = (v: number): bigint =>
+      scaleToInteger(v, decimals, `combined with ${attributes.map(([c, n]) => `(${c},${n})`).join(', ')}`);
+    const coefficients: bigint[] = [];
+    let constant = -scaleInt(min);
+    weights.forEach((w, i) => {
+      const [d, offset] = encodingParams[i];
+      coefficients.push(BigInt(w) * BigInt(Math.pow(10, decimals - d)));
+      constant -= BigInt(w) * scaleInt(offset);
+    });
+    const range = scaleInt(max) - scaleInt(min);
+    if (range <= BigInt(0) || range > BigInt(MAX_ATTRIBUTE_COMPARISON_DIFFERENCE)) {
+      throw new Error(`Invalid bounds [${min}, ${max}) for the linear combination of attributes`);
+    }
+    return [coefficients, constant, Number(range)];
+  }
+
+  /**
+   * Add the statement proving that `d = c_1 * a_1 + c_2 * a_2 + ... + c_n * a_n + c` where `a_i` are the attributes, `c_i`
+   * their coefficients and `c` the constant. As `c_1 * a_1 + ... + c_n * a_n - d = -c`, this is a linear relation over the
+   * attributes and `d`. Returns the index of the added statement where `d` is the last witness.
+   * @param coefficients
+   * @param constant
+   * @param attributes - Statement index and witness index of each attribute
+   * @param statements
+   * @param metaStatements
+   */
+  static addLinearCombinationStatement(
+    coefficients: bigint[],
+    constant: bigint,
+    attributes: [number, number][],
+    statements: Statements,
+    metaStatements: MetaStatements
+  ): number {
+    const sIdx = statements.add(
+      Statement.linearCombinationG1(
+        [...coefficients, BigInt(-1)].map((c) => bigIntToFieldElement(c)),
+        bigIntToFieldElement(-constant),
+        dockAttributeComparisonBase()
+      )
+    );
+    attributes.forEach(([s, w], i) => {
+      const witnessEq = new WitnessEqualityMetaStatement();
+      witnessEq.addWitnessRef(s, w);
+      witnessEq.addWitnessRef(sIdx, i);
+      metaStatements.addWitnessEquality(witnessEq);
+    });
+    return sIdx;
+  }
+
   static addSmcSetupParamsToTracker(
     paramId: string,
     param: PredicateParamType | undefined,
@@ -1441,6 +2076,36 @@ export class Presentation extends Versioned {
     }
   }
 
+  /**
+   * Convert to a W3C verifiable presentation (data model 2.0). Each credential in it contains only the revealed attributes.
+   */
+  toW3CVerifiablePresentation(): object {
+    return presentationJsonToW3C(this.toJSON());
+  }
+
+  /**
+   * Create a presentation from a W3C verifiable presentation created by `toW3CVerifiablePresentation`
+   * @param vp
+   */
+  static fromW3CVerifiablePresentation(vp: object): Presentation {
+    return Presentation.fromJSON(w3cToPresentationJson(vp));
+  }
+
+  /**
+   * Serialize to compact binary form using deterministic CBOR. Decoding gives back the same JSON as `toJSON`.
+   */
+  toCBOR(): Uint8Array {
+    return jsonToCbor(this.toJSON(), CborObjectTag.Presentation);
+  }
+
+  /**
+   * Create a presentation from the CBOR created by `toCBOR`
+   * @param bytes
+   */
+  static fromCBOR(bytes: Uint8Array): Presentation {
+    return Presentation.fromJSON(cborToJson(bytes, CborObjectTag.Presentation));
+  }
+
   static fromJSON(j: object): Presentation {
     // @ts-ignore
     const { version, context, nonce, spec, attributeCiphertexts, blindedAttributeCiphertexts, proof } = j;
@@ -1464,7 +2129,22 @@ export class Presentation extends Versioned {
     }
 
     const presSpec = new PresentationSpecification();
+    for (const m of spec['arrayMemberships'] ?? []) {
+      if (!Object.values(SetMembershipProtocol).includes(m['protocol'])) {
+        throw new Error(`Unrecognized protocol ${m['protocol']} for membership in array ${m['arrayName']}`);
+      }
+    }
     for (const cred of spec['credentials']) {
+      if (typeof cred['setMemberships'] === 'object') {
+        const sets = flattenPredicatesInSpec(cred['setMemberships']);
+        for (let i = 0; i < sets[0].length; i++) {
+          sets[1][i].forEach((set) => {
+            if (!Object.values(SetMembershipProtocol).includes(set['protocol'])) {
+              throw new Error(`Unrecognized protocol ${set['protocol']} for set membership for attribute ${sets[0][i]}`);
+            }
+          });
+        }
+      }
       if (typeof cred['attributeInequalities'] === 'object') {
         const ineqs = flattenPredicatesInSpec(cred['attributeInequalities']);
         for (let i = 0; i < ineqs[0].length; i++) {
@@ -1539,7 +2219,8 @@ export class Presentation extends Versioned {
         cred['verifiableEncryptions'],
         circomPredicates,
         sigType,
-        cred['attributeInequalities']
+        cred['attributeInequalities'],
+        cred['setMemberships']
       );
     }
 
@@ -1550,8 +2231,13 @@ export class Presentation extends Versioned {
     }
 
     presSpec.attributeEqualities = spec['attributeEqualities'];
+    presSpec.privateInequalities = spec['privateInequalities'];
+    presSpec.attributeComparisons = spec['attributeComparisons'];
+    presSpec.linearCombinations = spec['linearCombinations'];
+    presSpec.arrayMemberships = spec['arrayMemberships'];
     presSpec.boundedPseudonyms = spec['boundedPseudonyms'];
     presSpec.unboundedPseudonyms = spec['unboundedPseudonyms'];
+    presSpec.epochPseudonyms = spec['epochPseudonyms'];
 
     let atc;
     if (attributeCiphertexts !== undefined) {
@@ -1572,6 +2258,9 @@ export class Presentation extends Versioned {
       }
       req['schema'] = CredentialSchema.fromJSON(req['schema']);
       req['commitment'] = b58.decode(req['commitment']);
+      if (req['attributeCommitments'] !== undefined) {
+        req['attributeCommitments'] = req['attributeCommitments'].map((c: string) => b58.decode(c));
+      }
       if (blindedAttributeCiphertexts !== undefined) {
         bac = {};
         Presentation.ciphertextFromBs58(blindedAttributeCiphertexts, bac, version);
@@ -0,0 +1,172 @@
+import { PresentationBuilder } from './presentation-builder';
+import { CredentialSchema, getTransformedMinMax, ValueType } from './schema';
+import { AttributeRef, FlattenedSchema, REV_ID_STR, STATUS_STR, VALID_UNTIL_STR } from './types-and-consts';
+
+export enum PrivacyWarningType {
+  // Attribute bound pseudonym without a secret key over attributes whose values can be brute forced
+  LowEntropyPseudonym = 'low-entropy-pseudonym',
+  // Bound on an attribute that leaves only a few possible values of it
+  NarrowBound = 'narrow-bound',
+  // Revealing many low entropy attributes that together can identify the holder
+  QuasiIdentifiers = 'quasi-identifiers',
+  // Revealing an attribute of reversible string type, which are commonly identifiers
+  RevealedIdentifier = 'revealed-identifier',
+  // Revealing the revocation id which links all presentations of the credential
+  RevealedRevocationId = 'revealed-revocation-id'
+}
+
+export enum PrivacyWarningSeverity {
+  Medium = 'medium',
+  High = 'high'
+}
+
+export interface IPrivacyWarning {
+  type: PrivacyWarningType;
+  severity: PrivacyWarningSeverity;
+  // Attributes causing the warning
+  attributes: AttributeRef[];
+  message: string;
+}
+
+export interface IPrivacyAnalyzerOpts {
+  // Minimum number of possible values of an attribute within a bound. Defaults to `DEFAULT_MIN_BOUND_VALUES`
+  minBoundValues?: number;
+  // Minimum width in milliseconds of bounds of date and date-time attributes. Defaults to `DEFAULT_MIN_DATE_TIME_BOUND_WIDTH`
+  minDateTimeBoundWidth?: number;
+  // Minimum width of bounds of specific attributes, in the attribute's unit, like milliseconds for date-time. Takes
+  // precedence over `minBoundValues`
+  minBoundWidths?: { [attributeName: string]: number };
+  // Number of revealed low entropy attributes at which a warning is emitted. Defaults to `DEFAULT_QUASI_IDENTIFIER_THRESHOLD`
+  quasiIdentifierThreshold?: number;
+  // Attributes considered low entropy in addition to the numeric, boolean and date-time ones, like `credentialSubject.gender`
+  lowEntropyAttributes?: string[];
+  // Attributes never considered low entropy, like a numeric random identifier
+  highEntropyAttributes?: string[];
+}
+
+export const DEFAULT_MIN_BOUND_VALUES = 10;
+// A year as date-times are encoded in milliseconds so counting their possible values would never flag a bound
+export const DEFAULT_MIN_DATE_TIME_BOUND_WIDTH = 365 * 24 * 3600 * 1000;
+export const DEFAULT_QUASI_IDENTIFIER_THRESHOLD = 3;
+
+/**
+ * Inspects what a presentation being built will disclose and returns warnings about what could identify the holder or
+ * link its presentations. This should be called before `finalize` so that a wallet can prompt the holder or refuse
+ * to create the presentation depending on the warnings' severity. No warnings doesn't mean that the presentation can't
+ * identify the holder, like when revealing a name.
+ * @param builder
+ * @param opts
+ */
+export function analyzePrivacy(builder: PresentationBuilder, opts: IPrivacyAnalyzerOpts = {}): IPrivacyWarning[] {
+  const warnings: IPrivacyWarning[] = [];
+  const flattenedSchemas = builder.credentials.map(([cred]) => cred.schema.flatten());
+  const isLowEntropy = ([credIdx, name]: AttributeRef): boolean =>
+    isLowEntropyAttribute(builder.credentials[credIdx][0].schema, flattenedSchemas[credIdx], name, opts);
+
+  const revealedLowEntropy: AttributeRef[] = [];
+  builder.credentials.forEach(([cred], credIdx) => {
+    const schema = cred.schema;
+    for (const name of builder.revealedAttributes.get(credIdx) ?? []) {
+      if (name === `${STATUS_STR}.${REV_ID_STR}`) {
+        warnings.push({
+          type: PrivacyWarningType.RevealedRevocationId,
+          severity: PrivacyWarningSeverity.High,
+          attributes: [[credIdx, name]],
+          message: `Revealing ${name} of credential ${credIdx} links all presentations of it`
+        });
+      } else if (flattenedSchemas[credIdx][0].indexOf(name) !== -1) {
+        if (schema.typeOfName(name, flattenedSchemas[credIdx]).type === ValueType.RevStr) {
+          warnings.push({
+            type: PrivacyWarningType.RevealedIdentifier,
+            severity: PrivacyWarningSeverity.Medium,
+            attributes: [[credIdx, name]],
+            message: `Attribute ${name} of credential ${credIdx} is likely an identifier and revealing it can identify the holder`
+          });
+        }
+        if (isLowEntropy([credIdx, name])) {
+          revealedLowEntropy.push([credIdx, name]);
+        }
+      }
+    }
+
+    for (const [name, bounds] of (builder.bounds.get(credIdx) ?? new Map()).entries()) {
+      // The bound for proving non-expiry is always wide
+      if (name === VALID_UNTIL_STR) {
+        continue;
+      }
+      for (const { min, max } of bounds) {
+        const minWidth = opts.minBoundWidths?.[name];
+        let narrow: boolean;
+        if (minWidth !== undefined) {
+          narrow = max - min < minWidth;
+        } else if (schema.isDateTime(name, flattenedSchemas[credIdx])) {
+          narrow = max - min < (opts.minDateTimeBoundWidth ?? DEFAULT_MIN_DATE_TIME_BOUND_WIDTH);
+        } else {
+          const [tMin, tMax] = getTransformedMinMax(name, schema.typeOfName(name, flattenedSchemas[credIdx]), min, max);
+          narrow = tMax - tMin < (opts.minBoundValues ?? DEFAULT_MIN_BOUND_VALUES);
+        }
+        if (narrow) {
+          warnings.push({
+            type: PrivacyWarningType.NarrowBound,
+            severity: PrivacyWarningSeverity.Medium,
+            attributes: [[credIdx, name]],
+            message: `Bound [${min}, ${max}) on attribute ${name} of credential ${credIdx} almost reveals it`
+          });
+        }
+      }
+    }
+  });
+
+  const threshold = opts.quasiIdentifierThreshold ?? DEFAULT_QUASI_IDENTIFIER_THRESHOLD;
+  if (revealedLowEntropy.length >= threshold) {
+    warnings.push({
+      type: PrivacyWarningType.QuasiIdentifiers,
+      severity: PrivacyWarningSeverity.Medium,
+      attributes: revealedLowEntropy,
+      message: `Revealing ${revealedLowEntropy.length} attributes ${revealedLowEntropy
+        .map(([c, n]) => `(${c},${n})`)
+        .join(', ')} together can identify the holder`
+    });
+  }
+
+  const checkPseudonym = (attributeNames: Map<number, string[]>, desc: string) => {
+    const attributes: AttributeRef[] = [];
+    for (const [credIdx, names] of attributeNames.entries()) {
+      names.forEach((n) => attributes.push([credIdx, n]));
+    }
+    if (attributes.every(isLowEntropy)) {
+      warnings.push({
+        type: PrivacyWarningType.LowEntropyPseudonym,
+        severity: PrivacyWarningSeverity.High,
+        attributes,
+        message: `${desc} has no secret key and its attributes can be brute forced to de-anonymize the holder`
+      });
+    }
+  };
+  builder.boundedPseudonyms.forEach((p, i) => {
+    if (p.baseForSecretKey === undefined) {
+      checkPseudonym(p.attributeNames, `Attribute bound pseudonym ${i}`);
+    }
+  });
+  // Epoch scoped pseudonyms never have a secret key
+  builder.epochPseudonyms.forEach((p, i) => checkPseudonym(p.attributeNames, `Epoch pseudonym ${i}`));
+
+  return warnings;
+}
+
+function isLowEntropyAttribute(
+  schema: CredentialSchema,
+  flattenedSchema: FlattenedSchema,
+  name: string,
+  opts: IPrivacyAnalyzerOpts
+): boolean {
+  if (opts.highEntropyAttributes?.includes(name)) {
+    return false;
+  }
+  if (opts.lowEntropyAttributes?.includes(name)) {
+    return true;
+  }
+  // Numbers, booleans and dates have far fewer likely values than strings
+  const typ = schema.typeOfName(name, flattenedSchema).type;
+  return typ !== ValueType.Str && typ !== ValueType.RevStr;
+}
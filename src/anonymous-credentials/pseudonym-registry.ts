@@ -0,0 +1,247 @@
+import { VerifyResult } from 'crypto-wasm-new';
+import b58 from 'bs58';
+import { Pseudonym, PseudonymBases } from '../Pseudonym';
+import { Presentation } from './presentation';
+import { IBoundedPseudonymCommitKey } from './presentation-specification';
+
+/**
+ * Commit key of a pseudonym. `basesForAttributes` is empty for pseudonyms not bound to attributes
+ */
+export interface IPseudonymCommitKey {
+  basesForAttributes: Uint8Array[];
+  baseForSecretKey?: Uint8Array;
+}
+
+export interface IPseudonymRecord {
+  // Base58 encoded pseudonym
+  pseudonym: string;
+  // Base58 encoded bases
+  commitKey: IBoundedPseudonymCommitKey;
+  registered: boolean;
+  blocked: boolean;
+  // Why the pseudonym was blocked
+  reason?: string;
+}
+
+/**
+ * Interface for the storage of a pseudonym registry. This should be implemented by the persistence layer of the verifier.
+ * Records are keyed by `PseudonymRegistry.key`.
+ */
+export interface IPseudonymRegistryState {
+  get(key: string): Promise<IPseudonymRecord | undefined>;
+  set(key: string, record: IPseudonymRecord): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * In memory implementation of the state. For testing only
+ */
+export class InMemoryPseudonymRegistryState implements IPseudonymRegistryState {
+  records: Map<string, IPseudonymRecord>;
+
+  constructor() {
+    this.records = new Map();
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+
+  async get(key: string): Promise<IPseudonymRecord | undefined> {
+    return Promise.resolve(this.records.get(key));
+  }
+
+  async set(key: string, record: IPseudonymRecord): Promise<void> {
+    this.records.set(key, record);
+    return Promise.resolve();
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Used by a verifier to remember the pseudonyms registered with it and to block abusive ones. A pseudonym is identified by
+ * its value and its commit key so the same value with a different commit key is a different pseudonym. A registered
+ * pseudonym can be revoked, like when the holder closes its account, and registered again later. A blocked pseudonym
+ * can't be registered or used in a presentation till it's unblocked.
+ */
+export class PseudonymRegistry {
+  readonly state: IPseudonymRegistryState;
+
+  constructor(state: IPseudonymRegistryState) {
+    this.state = state;
+  }
+
+  /**
+   * Register a pseudonym, like when the holder presents it for the first time. Throws if the pseudonym is already registered
+   * or is blocked.
+   * @param pseudonym
+   * @param commitKey
+   */
+  async register(pseudonym: Uint8Array, commitKey: IPseudonymCommitKey): Promise<void> {
+    const key = PseudonymRegistry.key(pseudonym, commitKey);
+    const record = await this.state.get(key);
+    if (record?.blocked) {
+      throw new Error(`Pseudonym ${Pseudonym.decode(pseudonym)} is blocked`);
+    }
+    if (record?.registered) {
+      throw new Error(`Pseudonym ${Pseudonym.decode(pseudonym)} is already registered`);
+    }
+    await this.state.set(key, PseudonymRegistry.newRecord(pseudonym, commitKey, true));
+  }
+
+  /**
+   * Returns the record of the pseudonym if it's registered or blocked.
+   * @param pseudonym
+   * @param commitKey
+   */
+  async lookup(pseudonym: Uint8Array, commitKey: IPseudonymCommitKey): Promise<IPseudonymRecord | undefined> {
+    return this.state.get(PseudonymRegistry.key(pseudonym, commitKey));
+  }
+
+  /**
+   * Remove the registration of a pseudonym. Throws if the pseudonym isn't registered. A blocked pseudonym stays blocked.
+   * @param pseudonym
+   * @param commitKey
+   */
+  async revoke(pseudonym: Uint8Array, commitKey: IPseudonymCommitKey): Promise<void> {
+    const key = PseudonymRegistry.key(pseudonym, commitKey);
+    const record = await this.state.get(key);
+    if (!record?.registered) {
+      throw new Error(`Pseudonym ${Pseudonym.decode(pseudonym)} is not registered`);
+    }
+    if (record.blocked) {
+      await this.state.set(key, { ...record, registered: false });
+    } else {
+      await this.state.delete(key);
+    }
+  }
+
+  /**
+   * Block a pseudonym, registered or not.
+   * @param pseudonym
+   * @param commitKey
+   * @param reason
+   */
+  async block(pseudonym: Uint8Array, commitKey: IPseudonymCommitKey, reason?: string): Promise<void> {
+    const key = PseudonymRegistry.key(pseudonym, commitKey);
+    const record = (await this.state.get(key)) ?? PseudonymRegistry.newRecord(pseudonym, commitKey, false);
+    await this.state.set(key, { ...record, blocked: true, reason });
+  }
+
+  /**
+   * Unblock a pseudonym. Throws if the pseudonym isn't blocked. Its registration, if any, is kept.
+   * @param pseudonym
+   * @param commitKey
+   */
+  async unblock(pseudonym: Uint8Array, commitKey: IPseudonymCommitKey): Promise<void> {
+    const key = PseudonymRegistry.key(pseudonym, commitKey);
+    const record = await this.state.get(key);
+    if (!record?.blocked) {
+      throw new Error(`Pseudonym ${Pseudonym.decode(pseudonym)} is not blocked`);
+    }
+    if (record.registered) {
+      const { reason, ...rest } = record;
+      await this.state.set(key, { ...rest, blocked: false });
+    } else {
+      await this.state.delete(key);
+    }
+  }
+
+  async isBlocked(pseudonym: Uint8Array, commitKey: IPseudonymCommitKey): Promise<boolean> {
+    return (await this.lookup(pseudonym, commitKey))?.blocked ?? false;
+  }
+
+  async isRegistered(pseudonym: Uint8Array, commitKey: IPseudonymCommitKey): Promise<boolean> {
+    return (await this.lookup(pseudonym, commitKey))?.registered ?? false;
+  }
+
+  /**
+   * Check the pseudonyms of a presentation. Fails if any pseudonym is blocked or, when `requireRegistered` is true, isn't
+   * registered. This doesn't verify the presentation which must be done separately using `Presentation.verify` or
+   * `PresentationVerifier.verifyWithPseudonymRegistry`.
+   * @param presentation
+   * @param requireRegistered
+   */
+  async checkPresentation(presentation: Presentation, requireRegistered = false): Promise<VerifyResult> {
+    for (const [pseudonym, commitKey] of PseudonymRegistry.pseudonymsOf(presentation)) {
+      const record = await this.lookup(pseudonym, commitKey);
+      if (record?.blocked) {
+        return { verified: false, error: `Pseudonym ${record.pseudonym} is blocked` };
+      }
+      if (requireRegistered && !record?.registered) {
+        return { verified: false, error: `Pseudonym ${Pseudonym.decode(pseudonym)} is not registered` };
+      }
+    }
+    return { verified: true, error: '' };
+  }
+
+  /**
+   * Returns the pseudonyms in a presentation along with their commit keys. Includes the pseudonyms of a blinded credential
+   * request.
+   * @param presentation
+   */
+  static pseudonymsOf(presentation: Presentation): [Uint8Array, IPseudonymCommitKey][] {
+    const spec = presentation.spec;
+    const encodeKey = (k: IBoundedPseudonymCommitKey): IPseudonymCommitKey => ({
+      basesForAttributes: PseudonymBases.encodeBasesForAttributes(k.basesForAttributes),
+      baseForSecretKey:
+        k.baseForSecretKey !== undefined ? PseudonymBases.encodeBaseForSecretKey(k.baseForSecretKey) : undefined
+    });
+    const pseudonyms: [Uint8Array, IPseudonymCommitKey][] = [];
+    for (const [p, { commitKey }] of Object.entries(spec.boundedPseudonyms ?? {})) {
+      pseudonyms.push([Pseudonym.encode(p), encodeKey(commitKey)]);
+    }
+    for (const [p, { commitKey }] of Object.entries(spec.unboundedPseudonyms ?? {})) {
+      pseudonyms.push([Pseudonym.encode(p), encodeKey({ basesForAttributes: [], ...commitKey })]);
+    }
+    for (const [p, { scope, epoch }] of Object.entries(spec.epochPseudonyms ?? {})) {
+      pseudonyms.push([
+        Pseudonym.encode(p),
+        { basesForAttributes: [PseudonymBases.generateBaseForEpoch(b58.decode(scope), epoch)] }
+      ]);
+    }
+    for (const [p, { commitKey }] of Object.entries(spec.blindCredentialRequest?.pseudonyms ?? {})) {
+      pseudonyms.push([Pseudonym.encode(p), encodeKey(commitKey)]);
+    }
+    return pseudonyms;
+  }
+
+  /**
+   * Key of the pseudonym's record in the state
+   * @param pseudonym
+   * @param commitKey
+   */
+  static key(pseudonym: Uint8Array, commitKey: IPseudonymCommitKey): string {
+    const decoded = PseudonymRegistry.decodeCommitKey(commitKey);
+    return [Pseudonym.decode(pseudonym), decoded.basesForAttributes.join(','), decoded.baseForSecretKey ?? ''].join(
+      '|'
+    );
+  }
+
+  private static decodeCommitKey(commitKey: IPseudonymCommitKey): IBoundedPseudonymCommitKey {
+    return {
+      basesForAttributes: PseudonymBases.decodeBasesForAttributes(commitKey.basesForAttributes),
+      baseForSecretKey:
+        commitKey.baseForSecretKey !== undefined
+          ? PseudonymBases.decodeBaseForSecretKey(commitKey.baseForSecretKey)
+          : undefined
+    };
+  }
+
+  private static newRecord(
+    pseudonym: Uint8Array,
+    commitKey: IPseudonymCommitKey,
+    registered: boolean
+  ): IPseudonymRecord {
+    return {
+      pseudonym: Pseudonym.decode(pseudonym),
+      commitKey: PseudonymRegistry.decodeCommitKey(commitKey),
+      registered,
+      blocked: false
+    };
+  }
+}
@@ -0,0 +1,252 @@
+import _ from 'lodash';
+import semver from 'semver/preload';
+import { CredentialSchema } from './schema';
+
+export enum SchemaChangeType {
+  // Attribute is only in the new schema
+  AttributeAdded = 'attribute-added',
+  // Attribute is only in the old schema
+  AttributeRemoved = 'attribute-removed',
+  // Attribute is signed at a different message index, like when an attribute that sorts before it is added
+  IndexChanged = 'index-changed',
+  // Attribute is of a different type, like a string that became an integer
+  TypeChanged = 'type-changed',
+  // Minimum of an integer, number or date-time attribute changed
+  MinimumChanged = 'minimum-changed',
+  // Decimal places of a number attribute changed
+  DecimalPlacesChanged = 'decimal-places-changed',
+  // Attribute has the same type but is encoded differently, like when the values of an enum or compression of a
+  // reversible string changed
+  EncodingChanged = 'encoding-changed',
+  // Values were appended to an enum so the existing values keep their codes
+  EnumValuesAdded = 'enum-values-added',
+  // Attribute became optional or required
+  OptionalityChanged = 'optionality-changed'
+}
+
+export interface ISchemaChange {
+  type: SchemaChangeType;
+  // Name of the attribute with the "dot" separator
+  attribute: string;
+  // What changed in the old and the new schema, like the indices for `IndexChanged`
+  old?: unknown;
+  new?: unknown;
+  // Whether the change breaks the corresponding use, see `ISchemaCompatibility`
+  breaksSigning: boolean;
+  breaksPresentation: boolean;
+  breaksEquality: boolean;
+  message: string;
+}
+
+export interface ISchemaCompatibility {
+  changes: ISchemaChange[];
+  // Attributes keep their message indices and encodings so the issuer's keys and code working on message indices, like
+  // blind issuance or keys supporting a fixed number of messages as in PS, keep working with the new schema
+  signing: boolean;
+  // Presentation requests and policies written for credentials of the old schema work with credentials of the new
+  // schema, i.e. the attributes they refer to still exist with the same meaning
+  presentation: boolean;
+  // Equality of attributes can be proven between a credential of the old schema and one of the new schema as the
+  // common attributes are encoded the same
+  crossCredentialEquality: boolean;
+}
+
+/**
+ * Compares 2 versions of a schema and classifies each change as compatible or breaking for signing, presentations and
+ * equality of attributes across credentials. This should be run by an issuer before publishing a new version of a
+ * schema. Note that the schema is itself signed in the credential so credentials issued with the old schema always
+ * verify with the old schema, this is about what changes when switching to the new schema.
+ * @param oldSchema
+ * @param newSchema
+ */
+export function compareSchemas(oldSchema: CredentialSchema, newSchema: CredentialSchema): ISchemaCompatibility {
+  const [oldNames, oldValues] = oldSchema.flatten();
+  const [newNames, newValues] = newSchema.flatten();
+  const changes: ISchemaChange[] = [];
+
+  oldNames.forEach((name, oldIdx) => {
+    const newIdx = newNames.indexOf(name);
+    if (newIdx === -1) {
+      changes.push({
+        type: SchemaChangeType.AttributeRemoved,
+        attribute: name,
+        old: oldValues[oldIdx],
+        breaksSigning: true,
+        breaksPresentation: true,
+        breaksEquality: false,
+        message: `Attribute ${name} was removed`
+      });
+      return;
+    }
+    if (oldIdx !== newIdx) {
+      changes.push({
+        type: SchemaChangeType.IndexChanged,
+        attribute: name,
+        old: oldIdx,
+        new: newIdx,
+        breaksSigning: true,
+        breaksPresentation: false,
+        breaksEquality: false,
+        message: `Attribute ${name} moved from index ${oldIdx} to ${newIdx}`
+      });
+    }
+    changes.push(...compareAttribute(name, oldValues[oldIdx], newValues[newIdx]));
+  });
+
+  newNames.forEach((name, newIdx) => {
+    if (!oldNames.includes(name)) {
+      changes.push({
+        type: SchemaChangeType.AttributeAdded,
+        attribute: name,
+        new: newValues[newIdx],
+        breaksSigning: true,
+        breaksPresentation: false,
+        breaksEquality: false,
+        message: `Attribute ${name} was added at index ${newIdx}`
+      });
+    }
+  });
+
+  // Schemas older than 0.5.0 encode strings with a variable time encoder which gives a different encoding
+  const oldConstantTime = semver.gte(oldSchema.version, '0.5.0');
+  if (oldConstantTime !== semver.gte(newSchema.version, '0.5.0')) {
+    oldNames.forEach((name, oldIdx) => {
+      const newIdx = newNames.indexOf(name);
+      if (newIdx !== -1 && oldValues[oldIdx]['type'] === 'string' && newValues[newIdx]['type'] === 'string') {
+        changes.push({
+          type: SchemaChangeType.EncodingChanged,
+          attribute: name,
+          old: oldSchema.version,
+          new: newSchema.version,
+          breaksSigning: true,
+          breaksPresentation: false,
+          breaksEquality: true,
+          message: `Attribute ${name} is encoded with a ${oldConstantTime ? 'variable' : 'constant'} time encoder now`
+        });
+      }
+    });
+  }
+
+  return {
+    changes,
+    signing: !changes.some((c) => c.breaksSigning),
+    presentation: !changes.some((c) => c.breaksPresentation),
+    crossCredentialEquality: !changes.some((c) => c.breaksEquality)
+  };
+}
+
+/**
+ * Compares the internal schema of an attribute present in both schemas
+ * @param name
+ * @param oldValue
+ * @param newValue
+ */
+function compareAttribute(name: string, oldValue: object, newValue: object): ISchemaChange[] {
+  const changes: ISchemaChange[] = [];
+  if (oldValue['type'] !== newValue['type']) {
+    changes.push({
+      type: SchemaChangeType.TypeChanged,
+      attribute: name,
+      old: oldValue['type'],
+      new: newValue['type'],
+      breaksSigning: true,
+      breaksPresentation: true,
+      breaksEquality: true,
+      message: `Attribute ${name} changed type from ${oldValue['type']} to ${newValue['type']}`
+    });
+  } else {
+    // Bounds and revealed values are transformed as per the credential's own schema so these don't break presentations
+    if (oldValue['minimum'] !== newValue['minimum']) {
+      changes.push({
+        type: SchemaChangeType.MinimumChanged,
+        attribute: name,
+        old: oldValue['minimum'],
+        new: newValue['minimum'],
+        breaksSigning: true,
+        breaksPresentation: false,
+        breaksEquality: true,
+        message: `Minimum of attribute ${name} changed from ${oldValue['minimum']} to ${newValue['minimum']}`
+      });
+    }
+    if (oldValue['decimalPlaces'] !== newValue['decimalPlaces']) {
+      changes.push({
+        type: SchemaChangeType.DecimalPlacesChanged,
+        attribute: name,
+        old: oldValue['decimalPlaces'],
+        new: newValue['decimalPlaces'],
+        breaksSigning: true,
+        breaksPresentation: false,
+        breaksEquality: true,
+        message: `Decimal places of attribute ${name} changed from ${oldValue['decimalPlaces']} to ${newValue['decimalPlaces']}`
+      });
+    }
+    // `maxItems` of an array's length doesn't change the length's encoding but the padded items, which are compared
+    // as attributes
+    const ignored = ['minimum', 'decimalPlaces', 'optional', 'maxItems'];
+    const appended = appendedEnumValues(oldValue, newValue);
+    if (appended !== undefined && appended.length > 0) {
+      changes.push({
+        type: SchemaChangeType.EnumValuesAdded,
+        attribute: name,
+        old: CredentialSchema.enumValuesOf(oldValue),
+        new: CredentialSchema.enumValuesOf(newValue),
+        breaksSigning: false,
+        breaksPresentation: false,
+        breaksEquality: false,
+        message: `Values ${JSON.stringify(appended)} were appended to enum attribute ${name}`
+      });
+    } else if (appended === undefined && !_.isEqual(_.omit(oldValue, ignored), _.omit(newValue, ignored))) {
+      changes.push({
+        type: SchemaChangeType.EncodingChanged,
+        attribute: name,
+        old: oldValue,
+        new: newValue,
+        breaksSigning: true,
+        breaksPresentation: true,
+        breaksEquality: true,
+        message: `Encoding of attribute ${name} changed`
+      });
+    }
+  }
+
+  // Present values are encoded the same whether the attribute is optional or not
+  const wasOptional = oldValue['optional'] === true;
+  if (wasOptional !== (newValue['optional'] === true)) {
+    changes.push({
+      type: SchemaChangeType.OptionalityChanged,
+      attribute: name,
+      old: wasOptional,
+      new: !wasOptional,
+      // Credentials of the old schema might be missing an attribute that is now required
+      breaksSigning: wasOptional,
+      // Requests for an attribute that is now optional might fail for credentials missing it
+      breaksPresentation: !wasOptional,
+      breaksEquality: false,
+      message: `Attribute ${name} became ${wasOptional ? 'required' : 'optional'}`
+    });
+  }
+  return changes;
+}
+
+/**
+ * Returns the values appended to an enum if the old values are a prefix of the new ones, as then the old values are
+ * encoded the same. Returns undefined if either attribute isn't an enum or the old values aren't a prefix.
+ * @param oldValue
+ * @param newValue
+ */
+function appendedEnumValues(oldValue: object, newValue: object): unknown[] | undefined {
+  const ignored = ['values', 'optional'];
+  if (
+    oldValue['type'] !== 'enum' ||
+    newValue['type'] !== 'enum' ||
+    !_.isEqual(_.omit(oldValue, ignored), _.omit(newValue, ignored))
+  ) {
+    return undefined;
+  }
+  const oldValues = CredentialSchema.enumValuesOf(oldValue);
+  const newValues = CredentialSchema.enumValuesOf(newValue);
+  if (!_.isEqual(oldValues, newValues.slice(0, oldValues.length))) {
+    return undefined;
+  }
+  return newValues.slice(oldValues.length);
+}
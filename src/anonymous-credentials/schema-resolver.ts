@@ -0,0 +1,148 @@
+import {
+  CredentialSchema,
+  DefaultSchemaParsingOpts,
+  IEmbeddedJsonSchema,
+  IJsonSchema,
+  ISchemaOverrides,
+  ISchemaParsingOpts
+} from './schema';
+import { FULL_SCHEMA_HASH_STR, SCHEMA_DETAILS_STR } from './types-and-consts';
+
+/**
+ * Fetches a JSON schema given its `$id`, like from a schema host
+ */
+export type SchemaFetcher = (id: string) => Promise<IEmbeddedJsonSchema>;
+
+/**
+ * Resolves external JSON schemas by their `$id`. Schemas are looked up in a bundle of schemas available offline and
+ * then fetched using the fetcher, if given. Fetched schemas are cached so that a schema is fetched only once. When a
+ * hash is expected, like the one recorded in a serialized schema, the resolved schema must have that hash as otherwise
+ * the schema host could change the properties and thus the encoding of the attributes of existing credentials.
+ */
+export class SchemaResolver {
+  readonly fetcher?: SchemaFetcher;
+
+  // Schemas added to the bundle or fetched so far, keyed by `$id`
+  private readonly schemas: Map<string, IEmbeddedJsonSchema>;
+
+  /**
+   * @param fetcher - Used for schemas not in the bundle. If not given, only the bundled schemas can be resolved.
+   * @param bundle - Schemas available offline, keyed by `$id`
+   */
+  constructor(
+    fetcher?: SchemaFetcher,
+    bundle: Map<string, IEmbeddedJsonSchema> | Record<string, IEmbeddedJsonSchema> = {}
+  ) {
+    this.fetcher = fetcher;
+    this.schemas = new Map(bundle instanceof Map ? bundle : Object.entries(bundle));
+  }
+
+  /**
+   * Create a resolver with a bundle of the JSON schemas in the given directory. Each file with extension `.json` must
+   * contain a JSON schema with an `$id`.
+   * @param dir
+   * @param fetcher
+   */
+  static async fromDirectory(dir: string, fetcher?: SchemaFetcher): Promise<SchemaResolver> {
+    // Imported here as this is only usable in Node.js
+    const fs = await import('fs/promises');
+    const path = await import('path');
+    const resolver = new SchemaResolver(fetcher);
+    for (const file of (await fs.readdir(dir)).sort()) {
+      if (path.extname(file) === '.json') {
+        resolver.addSchema(JSON.parse(await fs.readFile(path.join(dir, file), 'utf8')));
+      }
+    }
+    return resolver;
+  }
+
+  /**
+   * Add a schema to the bundle. Throws if a different schema with the same `$id` is already present.
+   * @param jsonSchema
+   * @param id - Defaults to the `$id` of the schema
+   */
+  addSchema(jsonSchema: IEmbeddedJsonSchema, id?: string) {
+    id = id ?? jsonSchema.$id;
+    if (typeof id !== 'string') {
+      throw new Error(`Schema to add needs an id but has ${id}`);
+    }
+    const existing = this.schemas.get(id);
+    if (
+      existing !== undefined &&
+      CredentialSchema.hashJsonSchema(existing) !== CredentialSchema.hashJsonSchema(jsonSchema)
+    ) {
+      throw new Error(`A different schema with id ${id} was already added`);
+    }
+    this.schemas.set(id, jsonSchema);
+  }
+
+  has(id: string): boolean {
+    return this.schemas.has(id);
+  }
+
+  /**
+   * Returns the JSON schema with the given `$id`. Throws if it can't be resolved or if its hash isn't the expected one.
+   * A fetched schema is cached only when its hash is the expected one.
+   * @param id
+   * @param expectedHash - As returned by `CredentialSchema.hashJsonSchema`
+   */
+  async resolve(id: string, expectedHash?: string): Promise<IEmbeddedJsonSchema> {
+    let jsonSchema = this.schemas.get(id);
+    const cached = jsonSchema !== undefined;
+    if (jsonSchema === undefined) {
+      if (this.fetcher === undefined) {
+        throw new Error(`Schema with id ${id} is not in the bundle and there is no fetcher`);
+      }
+      jsonSchema = await this.fetcher(id);
+    }
+    CredentialSchema.checkJsonSchemaHash(jsonSchema, expectedHash);
+    if (!cached) {
+      this.schemas.set(id, jsonSchema);
+    }
+    return jsonSchema;
+  }
+
+  /**
+   * Returns a function to pass as the schema getter to `CredentialSchema.newSchemaFromExternal` or
+   * `CredentialSchema.fromJSONWithPotentiallyExternalSchema`
+   * @param expectedHash
+   */
+  getter(expectedHash?: string): SchemaFetcher {
+    return (id: string) => this.resolve(id, expectedHash);
+  }
+
+  /**
+   * Create a new schema whose full JSON schema is resolved by this resolver. The full JSON schema's hash is recorded when
+   * the schema is serialized.
+   * @param jsonSchema
+   * @param expectedHash - If given, the full JSON schema must have this hash, like when it was published along with it
+   * @param parsingOpts
+   * @param addMissingParsingOpts
+   * @param overrides
+   */
+  async newSchema(
+    jsonSchema: IJsonSchema,
+    expectedHash?: string,
+    parsingOpts: Partial<ISchemaParsingOpts> = DefaultSchemaParsingOpts,
+    addMissingParsingOpts = true,
+    overrides?: Partial<ISchemaOverrides>
+  ): Promise<CredentialSchema> {
+    return CredentialSchema.newSchemaFromExternal(
+      jsonSchema,
+      this.getter(expectedHash),
+      parsingOpts,
+      addMissingParsingOpts,
+      overrides
+    );
+  }
+
+  /**
+   * Deserialize a schema resolving its full JSON schema with this resolver and checking it against the hash recorded in
+   * the serialized schema
+   * @param j
+   */
+  async schemaFromJSON(j: object): Promise<CredentialSchema> {
+    const details = j[SCHEMA_DETAILS_STR] !== undefined ? JSON.parse(j[SCHEMA_DETAILS_STR]) : {};
+    return CredentialSchema.fromJSONWithPotentiallyExternalSchema(j, this.getter(details[FULL_SCHEMA_HASH_STR]));
+  }
+}
@@ -1,12 +1,15 @@
+import b58 from 'bs58';
+import { generateFieldElementFromBytes } from 'crypto-wasm-new';
 import pointer from 'json-pointer';
 import stringify from 'json-stringify-deterministic';
 import _ from 'lodash';
 import { Versioned } from './versioned';
-import { EncodeFunc, Encoder } from '../encoder';
+import { EncodeFunc, Encoder, MessageEncoder } from '../encoder';
 import { isPositiveInteger } from '../util';
 import {
-  CRYPTO_VERSION_STR, EMPTY_SCHEMA_ID,
+  CRYPTO_VERSION_STR, CUSTOM_TYPES_STR, EMPTY_SCHEMA_ID,
   FlattenedSchema,
+  FULL_SCHEMA_HASH_STR,
   FULL_SCHEMA_STR,
   ID_STR, JSON_SCHEMA_STR,
   REV_CHECK_STR,
@@ -16,9 +19,10 @@ import {
   SCHEMA_TYPE_STR,
   STATUS_STR,
   SUBJECT_STR,
-  TYPE_STR, VERSION_STR
+  TYPE_STR, VALID_FROM_STR, VALID_UNTIL_STR, VERSION_STR
 } from './types-and-consts';
 import { flattenTill2ndLastKey, isValueDate, isValueDateTime } from './util';
+import { CustomAttributeTypes } from './custom-attribute-types';
 import semver from 'semver/preload';
 
 /**
@@ -26,6 +30,19 @@ import semver from 'semver/preload';
  * 1. Schema must define a top level `credentialSubject` field for the subject, and it can be an object or array of object
  * 2. Credential status if defined must be present as `credentialStatus` field.
  * 3. Any top level keys in the schema JSON can be created
+ * 4. Arrays are either tuples where each item is declared, like `items: [{...}, {...}]`, or homogeneous arrays with a
+ * single items schema and `maxItems`, like `items: {...}, maxItems: 5`. The latter is padded to `maxItems` items before
+ * signing and its length is signed as a hidden attribute named with the suffix `CredentialSchema.ARRAY_LENGTH_SUFFIX`,
+ * like `degrees__length`.
+ * 5. A string or number with an `enum` list, like `{type: 'string', enum: ['A', 'B', 'C']}`, is encoded as the index of
+ * its value in the list so the list should only be appended to. Supported since schema version 0.6.0.
+ * 6. When an object lists its `required` properties, its other properties are optional and can be missing from the
+ * credential. A missing optional attribute is signed as `null` which is encoded to a reserved value, see
+ * `Encoder.optionalEncoder`. Only literal properties can be optional, objects and arrays are always required. Supported
+ * since schema version 0.6.0.
+ * 7. A node matched by a type registered in `CustomAttributeTypes`, like `{type: 'string', format: 'postal-code'}`, is
+ * encoded as per that type and the type's name is recorded in the serialized schema. Supported since schema version
+ * 0.6.0.
  Some example schemas
 
  {
@@ -331,7 +348,8 @@ export enum ValueType {
   PositiveInteger,
   Integer,
   PositiveNumber,
-  Number
+  Number,
+  Custom
 }
 
 export interface StringType {
@@ -363,13 +381,19 @@ export interface NumberType {
   decimalPlaces: number;
 }
 
+export interface CustomType {
+  type: ValueType.Custom;
+  name: string;
+}
+
 export type ValueTypes =
   | StringType
   | ReversibleStringType
   | PositiveIntegerType
   | IntegerType
   | PositiveNumberType
-  | NumberType;
+  | NumberType
+  | CustomType;
 
 export interface IJsonSchemaProperties {
   [SUBJECT_STR]: object | object[];
@@ -425,7 +449,7 @@ export type CredVal = string | number | object | CredVal[];
 export class CredentialSchema extends Versioned {
   // NOTE: Follows semver and must be updated accordingly when the logic of this class changes or the
   // underlying crypto changes.
-  static VERSION = '0.5.0';
+  static VERSION = '0.6.0';
 
   private static readonly STR_TYPE = 'string';
   private static readonly STR_REV_TYPE = 'stringReversible';
@@ -435,6 +459,11 @@ export class CredentialSchema extends Versioned {
   private static readonly POSITIVE_NUM_TYPE = 'positiveDecimalNumber';
   private static readonly NUM_TYPE = 'decimalNumber';
   private static readonly DATETIME_TYPE = 'date-time';
+  private static readonly ENUM_TYPE = 'enum';
+  private static readonly CUSTOM_TYPE = 'custom';
+
+  // Suffix of the name of the attribute holding the length of a variable length array
+  static readonly ARRAY_LENGTH_SUFFIX = '__length';
 
   // CredentialBuilder subject/claims cannot have any of these names
   static RESERVED_NAMES = new Set([CRYPTO_VERSION_STR, SCHEMA_STR, SUBJECT_STR, STATUS_STR]);
@@ -494,7 +523,9 @@ export class CredentialSchema extends Versioned {
     this.INT_TYPE,
     this.POSITIVE_NUM_TYPE,
     this.NUM_TYPE,
-    this.DATETIME_TYPE
+    this.DATETIME_TYPE,
+    this.ENUM_TYPE,
+    this.CUSTOM_TYPE
   ]);
 
   readonly schema: ISchema;
@@ -535,11 +566,13 @@ export class CredentialSchema extends Versioned {
     if (!isEmbeddedSchema && fullJsonSchema === undefined) {
       throw new Error('Either pass an embedded schema or the actual schema');
     }
+    const version = overrides?.version ?? CredentialSchema.VERSION;
     const schema = CredentialSchema.convertToInternalSchemaObj(
       isEmbeddedSchema ? jsonSchema : fullJsonSchema,
       pOpts,
       '',
-      undefined
+      undefined,
+      version
     ) as ISchema;
     CredentialSchema.validate(schema);
 
@@ -594,11 +627,17 @@ export class CredentialSchema extends Versioned {
         case CredentialSchema.NUM_TYPE:
           f = Encoder.decimalNumberEncoder(value['minimum'], value['decimalPlaces']);
           break;
+        case CredentialSchema.ENUM_TYPE:
+          f = Encoder.enumEncoder(CredentialSchema.enumValuesOf(value));
+          break;
+        case CredentialSchema.CUSTOM_TYPE:
+          f = CustomAttributeTypes.encoderFor(value['name']);
+          break;
         default:
           // For other types including string type, use default encoder
           f = defaultEncoder;
       }
-      encoders.set(names[i], f);
+      encoders.set(names[i], value['optional'] === true ? Encoder.optionalEncoder(f) : f);
     }
 
     // Implicitly present fields
@@ -686,12 +725,101 @@ export class CredentialSchema extends Versioned {
             );
           }
           break;
+        case this.ENUM_TYPE:
+          let enumValues;
+          try {
+            enumValues = CredentialSchema.enumValuesOf(value);
+          } catch (e) {
+            throw new Error(`Schema value for ${names[i]} expected values as a JSON array but found ${value['values']}`);
+          }
+          if (!Array.isArray(enumValues) || enumValues.length === 0) {
+            throw new Error(`Schema value for ${names[i]} expected a non-empty array of values but found ${value['values']}`);
+          }
+          if (new Set(enumValues).size !== enumValues.length) {
+            throw new Error(`Schema value for ${names[i]} has duplicate values ${value['values']}`);
+          }
+          break;
+        case this.CUSTOM_TYPE:
+          if (!CustomAttributeTypes.has(value['name'])) {
+            throw new Error(`Schema value for ${names[i]} has custom type ${value['name']} which is not registered`);
+          }
+          break;
         default:
           break;
       }
     }
   }
 
+  /**
+   * Returns the values of an enum attribute in the order of their codes. Throws if the attribute isn't an enum
+   * @param name - Nested attribute names use the "dot" separator
+   * @param flattenedSchema
+   */
+  enumValues(name: string, flattenedSchema: FlattenedSchema = this.flatten()): unknown[] {
+    const [names, values] = flattenedSchema;
+    const nameIdx = names.indexOf(name);
+    if (nameIdx === -1 || values[nameIdx]['type'] !== CredentialSchema.ENUM_TYPE) {
+      throw new Error(`Attribute ${name} is not an enum as per the schema`);
+    }
+    return CredentialSchema.enumValuesOf(values[nameIdx]);
+  }
+
+  /**
+   * Returns the code of a value of an enum attribute, i.e. the integer it's encoded as. Bounds on an enum attribute are
+   * over these codes.
+   * @param name
+   * @param value
+   */
+  enumCode(name: string, value: unknown): number {
+    return Encoder.enumToPositiveInt(this.enumValues(name))(value);
+  }
+
+  /**
+   * Decode the value of an enum attribute from its code or its encoding, like when a verifiable encryption of it is
+   * decrypted.
+   * @param name
+   * @param encoded
+   */
+  decodeEnumValue(name: string, encoded: Uint8Array | number): unknown {
+    return Encoder.decodeEnum(encoded, this.enumValues(name));
+  }
+
+  /**
+   * Returns the sorted names of the custom attribute types used by this schema
+   * @param flattenedSchema
+   */
+  customTypes(flattenedSchema: FlattenedSchema = this.flatten()): string[] {
+    const names = new Set<string>();
+    for (const value of flattenedSchema[1]) {
+      if (value['type'] === CredentialSchema.CUSTOM_TYPE) {
+        names.add(value['name']);
+      }
+    }
+    return Array.from(names).sort();
+  }
+
+  /**
+   * Decode the value of an attribute from its encoding, like when a verifiable encryption of it is decrypted. Only
+   * reversibly encoded strings, enums and custom types with a decoder can be decoded.
+   * @param name
+   * @param encoded
+   */
+  decodeValue(name: string, encoded: Uint8Array): unknown {
+    const flattened = this.flatten();
+    const valTyp = this.typeOfName(name, flattened);
+    switch (valTyp.type) {
+      case ValueType.RevStr:
+        return MessageEncoder.reversibleDecodeStringForSigning(encoded, valTyp.compress);
+      case ValueType.Custom:
+        return CustomAttributeTypes.decode(valTyp.name, encoded);
+      default:
+        if (flattened[1][flattened[0].indexOf(name)]['type'] !== CredentialSchema.ENUM_TYPE) {
+          throw new Error(`Attribute ${name} can't be decoded as it isn't reversibly encoded`);
+        }
+        return Encoder.decodeEnum(encoded, this.enumValues(name, flattened));
+    }
+  }
+
   typeOfName(name: string, flattenedSchema: FlattenedSchema = this.flatten()): ValueTypes {
     return CredentialSchema.typeOfName(name, flattenedSchema);
   }
@@ -718,6 +846,11 @@ export class CredentialSchema extends Versioned {
         return { type: ValueType.PositiveInteger };
       case CredentialSchema.BOOLEAN_TYPE:
         return { type: ValueType.PositiveInteger };
+      case CredentialSchema.ENUM_TYPE:
+        // Predicates are over the index of the value
+        return { type: ValueType.PositiveInteger };
+      case CredentialSchema.CUSTOM_TYPE:
+        return { type: ValueType.Custom, name: value['name'] };
       case CredentialSchema.DATETIME_TYPE:
         return { type: ValueType.Integer, minimum: value['minimum'] };
       case CredentialSchema.INT_TYPE:
@@ -778,14 +911,109 @@ export class CredentialSchema extends Versioned {
     };
   }
 
+  /**
+   * Schema of the top level fields `validFrom` and `validUntil`. These are date-times so they can be used in bound checks
+   */
+  static validityPeriodAsJsonSchema(): object {
+    return {
+      [VALID_FROM_STR]: { type: 'string', format: 'date-time' },
+      [VALID_UNTIL_STR]: { type: 'string', format: 'date-time' }
+    };
+  }
+
   flatten(): FlattenedSchema {
     return CredentialSchema.flattenSchemaObj(this.schema, semver.gte(this.version, '0.4.0'));
   }
 
+  /**
+   * Returns the variable length arrays of this schema, i.e. the ones declared with `maxItems`, as a map with the key as
+   * the array name and value as its maximum number of items
+   * @param flattenedSchema
+   */
+  variableLengthArrays(flattenedSchema: FlattenedSchema = this.flatten()): Map<string, number> {
+    const [names, values] = flattenedSchema;
+    const arrays = new Map<string, number>();
+    names.forEach((name, i) => {
+      if (name.endsWith(CredentialSchema.ARRAY_LENGTH_SUFFIX) && values[i]['maxItems'] !== undefined) {
+        arrays.set(name.slice(0, -CredentialSchema.ARRAY_LENGTH_SUFFIX.length), values[i]['maxItems']);
+      }
+    });
+    return arrays;
+  }
+
+  /**
+   * Value of an attribute of an item of a variable length array when the item is padding
+   * @param name - Name of the attribute of the item, like `credentialSubject.degrees.3.field`
+   * @param flattenedSchema
+   */
+  paddingOf(name: string, flattenedSchema: FlattenedSchema = this.flatten()): unknown {
+    const idx = flattenedSchema[0].indexOf(name);
+    if (idx === -1) {
+      throw new Error(`Attribute ${name} not found in schema`);
+    }
+    return CredentialSchema.paddingFor(flattenedSchema[1][idx]);
+  }
+
+  /**
+   * Name of the hidden attribute holding the length of a variable length array
+   * @param arrayName - Nested attribute names use the "dot" separator
+   */
+  static arrayLengthName(arrayName: string): string {
+    return `${arrayName}${CredentialSchema.ARRAY_LENGTH_SUFFIX}`;
+  }
+
+  /**
+   * Returns the variable length arrays and the indices of their elements that the given attribute is part of, like
+   * `[['credentialSubject.degrees', 1]]` for `credentialSubject.degrees.1.field`
+   * @param name - Nested attribute names use the "dot" separator
+   * @param arrays - As returned by `variableLengthArrays`
+   */
+  static arrayElementsOf(name: string, arrays: Map<string, number>): [string, number][] {
+    const elements: [string, number][] = [];
+    for (const arrayName of arrays.keys()) {
+      if (name.startsWith(`${arrayName}.`)) {
+        elements.push([arrayName, parseInt(name.slice(arrayName.length + 1).split('.')[0])]);
+      }
+    }
+    return elements;
+  }
+
+  /**
+   * Returns a copy of the given credential object where each variable length array is padded to its `maxItems` and its
+   * length is added and each missing optional attribute is set to `null`. This is the object that's signed while the
+   * credential keeps the arrays without padding and the optional attributes missing.
+   * @param cred
+   */
+  padForSigning(cred: object): object {
+    return CredentialSchema.pad(cred, this.schema) as object;
+  }
+
   hasStatus(): boolean {
     return this.schema[STATUS_STR] !== undefined;
   }
 
+  /**
+   * Returns true if the attribute is optional as per the schema, i.e. it can be absent from the credential
+   * @param name - Nested attribute names use the "dot" separator
+   * @param flattenedSchema
+   */
+  isOptional(name: string, flattenedSchema: FlattenedSchema = this.flatten()): boolean {
+    const [names, values] = flattenedSchema;
+    const nameIdx = names.indexOf(name);
+    return nameIdx !== -1 && values[nameIdx]['optional'] === true;
+  }
+
+  /**
+   * Returns true if the attribute is a date or date-time as per the schema
+   * @param name - Nested attribute names use the "dot" separator
+   * @param flattenedSchema
+   */
+  isDateTime(name: string, flattenedSchema: FlattenedSchema = this.flatten()): boolean {
+    const [names, values] = flattenedSchema;
+    const nameIdx = names.indexOf(name);
+    return nameIdx !== -1 && values[nameIdx]['type'] === CredentialSchema.DATETIME_TYPE;
+  }
+
   /**
    * Older version of toJSON, i.e. versions < 0.4.0
    */
@@ -816,6 +1044,14 @@ export class CredentialSchema extends Versioned {
     };
     if (!this.hasEmbeddedJsonSchema()) {
       details[FULL_SCHEMA_STR] = this.fullJsonSchema;
+      // Older versions didn't record the hash and adding it would change the serialization of already signed schemas
+      if (CredentialSchema.hasExtensions(this._version)) {
+        details[FULL_SCHEMA_HASH_STR] = CredentialSchema.hashJsonSchema(this.fullJsonSchema as IEmbeddedJsonSchema);
+      }
+    }
+    const customTypes = this.customTypes();
+    if (customTypes.length > 0) {
+      details[CUSTOM_TYPES_STR] = customTypes;
     }
     j[SCHEMA_DETAILS_STR] = stringify(details);
     return j;
@@ -827,7 +1063,7 @@ export class CredentialSchema extends Versioned {
     if (type !== SCHEMA_TYPE_STR) {
       throw new Error(`Schema type was "${type}", expected: "${SCHEMA_TYPE_STR}"`);
     }
-    let parsingOptions, jsonSchema, full: IEmbeddedJsonSchema | undefined;
+    let parsingOptions, jsonSchema, full: IEmbeddedJsonSchema | undefined, customTypes: string[] | undefined;
     if (semver.lt(version, '0.4.0')) {
       // @ts-ignore
       parsingOptions = j.parsingOptions;
@@ -854,7 +1090,9 @@ export class CredentialSchema extends Versioned {
       parsingOptions = details.parsingOptions;
       jsonSchema = details[JSON_SCHEMA_STR];
       full = details[FULL_SCHEMA_STR];
+      customTypes = details[CUSTOM_TYPES_STR];
       if (full !== undefined) {
+        CredentialSchema.checkJsonSchemaHash(full, details[FULL_SCHEMA_HASH_STR]);
         if (CredentialSchema.isEmbeddedJsonSchema(jsonSchema)) {
           throw new Error(`Actual schema was provided even when the given jsonSchema was an embedded one`);
         }
@@ -872,8 +1110,20 @@ export class CredentialSchema extends Versioned {
     // Note: `parsingOptions` might still be in an incorrect format which can fail the next call
     // Note: Passing `addMissingParsingOpts` as false to recreate the exact same object that was serialized. This is important
     // when verifying signatures.
+    CredentialSchema.checkCustomTypesRegistered(customTypes);
     // @ts-ignore
-    return new CredentialSchema(jsonSchema, parsingOptions, false, { version }, full, useConstantTimeEncoder);
+    const schema = new CredentialSchema(jsonSchema, parsingOptions, false, { version }, full, useConstantTimeEncoder);
+    schema.checkCustomTypes(customTypes);
+    return schema;
+  }
+
+  /**
+   * Deserialize the schema of a credential or of a credential in a presentation. Credentials of version 0.6.0 and above
+   * serialize the schema as an object and older ones as a JSON string.
+   * @param schema
+   */
+  static fromSerialized(schema: object | string): CredentialSchema {
+    return CredentialSchema.fromJSON(typeof schema === 'string' ? JSON.parse(schema) : schema);
   }
 
   /**
@@ -890,7 +1140,7 @@ export class CredentialSchema extends Versioned {
     if (type !== SCHEMA_TYPE_STR) {
       throw new Error(`Schema type was "${type}", expected: "${SCHEMA_TYPE_STR}"`);
     }
-    let parsingOptions, jsonSchema, fullJsonSchema: IEmbeddedJsonSchema | undefined;
+    let parsingOptions, jsonSchema, fullJsonSchema: IEmbeddedJsonSchema | undefined, customTypes: string[] | undefined;
     if (version !== undefined && semver.lt(version, '0.4.0')) {
       // @ts-ignore
       parsingOptions = j.parsingOptions;
@@ -912,6 +1162,7 @@ export class CredentialSchema extends Versioned {
       const details = JSON.parse(j[SCHEMA_DETAILS_STR]);
       parsingOptions = details.parsingOptions;
       jsonSchema = details[JSON_SCHEMA_STR];
+      customTypes = details[CUSTOM_TYPES_STR];
       if (!CredentialSchema.isEmbeddedJsonSchema(jsonSchema)) {
         // @ts-ignore
         fullJsonSchema = await schemaGetter(jsonSchema.$id);
@@ -920,9 +1171,61 @@ export class CredentialSchema extends Versioned {
             `Expected the fetched schema to have key ${SCHEMA_PROPS_STR} set and as an Object but was ${fullJsonSchema[SCHEMA_PROPS_STR]}`
           );
         }
+        // The fetched schema must be the one the schema was serialized with, if its hash was recorded
+        CredentialSchema.checkJsonSchemaHash(fullJsonSchema, details[FULL_SCHEMA_HASH_STR]);
+      }
+    }
+    CredentialSchema.checkCustomTypesRegistered(customTypes);
+    const schema = new CredentialSchema(jsonSchema, parsingOptions, false, { version: version }, fullJsonSchema);
+    schema.checkCustomTypes(customTypes);
+    return schema;
+  }
+
+  /**
+   * Returns the hash of a JSON schema, recorded in the serialized schema when the full JSON schema is external so that
+   * a schema fetched later can be checked to be the same. The hash is over the deterministic JSON string of the schema.
+   * @param jsonSchema
+   */
+  static hashJsonSchema(jsonSchema: IEmbeddedJsonSchema): string {
+    const bytes = new TextEncoder().encode(stringify(jsonSchema));
+    return b58.encode(generateFieldElementFromBytes(bytes));
+  }
+
+  /**
+   * Throws if the hash of the JSON schema isn't the expected one. Does nothing if there is no expected hash, like for
+   * schemas serialized by older versions.
+   * @param jsonSchema
+   * @param expectedHash
+   */
+  static checkJsonSchemaHash(jsonSchema: IEmbeddedJsonSchema, expectedHash?: string) {
+    if (expectedHash !== undefined && CredentialSchema.hashJsonSchema(jsonSchema) !== expectedHash) {
+      throw new Error(`Hash of JSON schema with id ${jsonSchema['$id']} was expected to be ${expectedHash}`);
+    }
+  }
+
+  /**
+   * Throws if any of the custom attribute types recorded in a serialized schema isn't registered
+   * @param customTypes
+   */
+  private static checkCustomTypesRegistered(customTypes: string[] = []) {
+    for (const name of customTypes) {
+      if (!CustomAttributeTypes.has(name)) {
+        throw new Error(`Custom attribute type ${name} used by the schema is not registered`);
       }
     }
-    return new CredentialSchema(jsonSchema, parsingOptions, false, { version: version }, fullJsonSchema);
+  }
+
+  /**
+   * Throws if the custom attribute types used by this schema aren't the ones recorded in its serialized form as then
+   * the attributes would be encoded differently than when the credential was signed. This happens when a registered
+   * type matches a node it didn't match when the schema was serialized.
+   * @param customTypes
+   */
+  private checkCustomTypes(customTypes: string[] = []) {
+    const used = this.customTypes();
+    if (used.length !== customTypes.length || used.some((n, i) => n !== customTypes[i])) {
+      throw new Error(`Schema uses custom attribute types ${used} but was serialized with ${customTypes}`);
+    }
   }
 
   /**
@@ -1047,6 +1350,9 @@ export class CredentialSchema extends Versioned {
         case ValueType.Number:
           current[innerMostName] = num;
           break;
+        case ValueType.Custom:
+          current[innerMostName] = txt;
+          break;
       }
       innerMostNames.set(innerMostName, current[innerMostName]);
     }
@@ -1144,6 +1450,15 @@ export class CredentialSchema extends Versioned {
     return `dk:${term}`;
   }
 
+  /**
+   * Whether the schema of the given version supports enums, optional attributes and custom types and records the hash of
+   * an external JSON schema. Older schemas are parsed and serialized as before so that their encoding doesn't change.
+   * @param version
+   */
+  private static hasExtensions(version: string): boolean {
+    return semver.gte(version, '0.6.0');
+  }
+
   /**
    * Convert a schema object as per JSON-schema syntax (`IJsonSchema`) to the internal representation (`ISchema`).
    * Currently, does not check if the needed JSON-schema definitions are actually present but assumes that they will be
@@ -1152,12 +1467,14 @@ export class CredentialSchema extends Versioned {
    * @param parsingOpts
    * @param nodeKeyName - Name of the node, used for throwing more informative error message
    * @param rootObject
+   * @param schemaVersion - Version of the schema as the parsing rules depend on it
    */
   static convertToInternalSchemaObj(
     inputNode: any,
     parsingOpts: ISchemaParsingOpts,
     nodeKeyName = '',
-    rootObject?: object
+    rootObject?: object,
+    schemaVersion = CredentialSchema.VERSION
   ): object {
     // util function needed only in this func
     const createFullName = (old: string, neww: string): string => {
@@ -1186,6 +1503,18 @@ export class CredentialSchema extends Versioned {
 
     const typ = node.type;
 
+    // Older versions didn't support custom types, enums or optional attributes
+    const extended = CredentialSchema.hasExtensions(schemaVersion);
+    const custom = extended ? CustomAttributeTypes.match(node, nodeKeyName) : undefined;
+    if (custom !== undefined) {
+      return { type: this.CUSTOM_TYPE, name: custom.name };
+    }
+
+    // Older versions encoded values with `enum` as per their type
+    if (extended && node.enum !== undefined) {
+      return this.parseEnumType(node, nodeKeyName);
+    }
+
     if (typ !== undefined) {
       switch (typ) {
         case 'string':
@@ -1202,13 +1531,31 @@ export class CredentialSchema extends Versioned {
         case 'object':
           if (node.properties !== undefined) {
             const result = {};
+            // Older versions ignored `required`
+            const required = extended && Array.isArray(node.required) ? new Set(node.required) : undefined;
             Object.entries(node.properties).forEach(([k, v]) => {
               result[k] = CredentialSchema.convertToInternalSchemaObj(
                 v,
                 parsingOpts,
                 createFullName(nodeKeyName, k),
-                rootNode
+                rootNode,
+                schemaVersion
               );
+              // Only literal attributes can be optional, objects and arrays are always required
+              if (required !== undefined && !required.has(k) && typeof result[k]['type'] === 'string') {
+                // Copying as the node might be the one in the JSON schema
+                result[k] = { ...result[k], optional: true };
+              }
+              const prop = node.properties[k];
+              if (prop['type'] === 'array' && prop['items'] !== undefined && !Array.isArray(prop['items'])) {
+                const lengthName = CredentialSchema.arrayLengthName(k);
+                if (node.properties[lengthName] !== undefined) {
+                  throw new Error(
+                    `Schema key ${createFullName(nodeKeyName, lengthName)} is reserved for length of ${k}`
+                  );
+                }
+                result[lengthName] = { type: this.POSITIVE_INT_TYPE, maxItems: prop['maxItems'] };
+              }
             });
             return result;
           } else {
@@ -1217,11 +1564,33 @@ export class CredentialSchema extends Versioned {
         case 'array':
           if (Array.isArray(node.items)) {
             return node.items.map((i) =>
-              CredentialSchema.convertToInternalSchemaObj(i, parsingOpts, createFullName(nodeKeyName, i), rootNode)
+              CredentialSchema.convertToInternalSchemaObj(
+                i,
+                parsingOpts,
+                createFullName(nodeKeyName, i),
+                rootNode,
+                schemaVersion
+              )
+            );
+          } else if (node.items instanceof Object) {
+            // A variable length array is padded to `maxItems` items so the schema doesn't reveal the actual length
+            if (!isPositiveInteger(node.maxItems) || node.maxItems === 0) {
+              throw new Error(
+                `"maxItems" field of array ${nodeKeyName} must be a positive integer but was ${node.maxItems}. This is required because the array is padded to "maxItems" items.`
+              );
+            }
+            return Array.from({ length: node.maxItems }, (v, i) =>
+              CredentialSchema.convertToInternalSchemaObj(
+                node.items,
+                parsingOpts,
+                createFullName(nodeKeyName, `${i}`),
+                rootNode,
+                schemaVersion
+              )
             );
           } else {
             throw new Error(
-              `"items" field must be an array but was ${typeof node.items}. This is required because the schema should specify exactly how many items are present in the array.`
+              `"items" field must be an array or an object but was ${typeof node.items}. This is required because the schema should specify either exactly how many items are present in the array or the schema of each item.`
             );
           }
         default:
@@ -1257,6 +1626,31 @@ export class CredentialSchema extends Versioned {
     return { type: this.BOOLEAN_TYPE };
   }
 
+  static parseEnumType(node: { type?: string; enum: unknown }, nodeName: string): object {
+    if (!Array.isArray(node.enum) || node.enum.length === 0) {
+      throw new Error(`"enum" field of key ${nodeName} must be a non-empty array but was ${node.enum}`);
+    }
+    const expectedType = node.type === 'string' ? 'string' : 'number';
+    if (!(node.type === 'string' || node.type === 'integer' || node.type === 'number')) {
+      throw new Error(`Key ${nodeName} with "enum" must have type string, integer or number but was ${node.type}`);
+    }
+    for (const v of node.enum) {
+      if (typeof v !== expectedType || (node.type === 'integer' && !Number.isInteger(v))) {
+        throw new Error(`Value ${v} in "enum" of key ${nodeName} is not of type ${node.type}`);
+      }
+    }
+    // Values are kept as a JSON string as the internal representation is flattened till the 2nd last key
+    return { type: this.ENUM_TYPE, values: JSON.stringify(node.enum) };
+  }
+
+  /**
+   * Values of an enum as per its node in the internal representation. The index of a value is its encoding.
+   * @param node
+   */
+  static enumValuesOf(node: object): unknown[] {
+    return JSON.parse(node['values']);
+  }
+
   static parseNumberType(
     node: { minimum?: number; multipleOf: number },
     parsingOpts: ISchemaParsingOpts,
@@ -1282,6 +1676,82 @@ export class CredentialSchema extends Versioned {
     return m[1].length;
   }
 
+  /**
+   * Pad the variable length arrays in the value as per the schema node and add their lengths. Missing optional
+   * attributes are set to `null`.
+   * @param value
+   * @param node - Internal representation of the schema of the value
+   * @private
+   */
+  private static pad(value: unknown, node: object): unknown {
+    if (!(value instanceof Object) || typeof node['type'] === 'string') {
+      return value;
+    }
+    const padded = Array.isArray(value) ? [...value] : { ...value };
+    for (const k of Object.keys(node)) {
+      const v = value[k];
+      if (v === undefined || v === null) {
+        if (node[k]['optional'] === true) {
+          padded[k] = null;
+        } else if (v === null) {
+          throw new Error(`Attribute ${k} isn't optional so it can't be null`);
+        }
+        continue;
+      }
+      const lengthNode = node[CredentialSchema.arrayLengthName(k)];
+      if (lengthNode !== undefined && lengthNode['maxItems'] !== undefined) {
+        if (!Array.isArray(v)) {
+          throw new Error(`Expected an array for key ${k} but found ${typeof v}`);
+        }
+        if (v.length > lengthNode['maxItems']) {
+          throw new Error(`Array ${k} has ${v.length} items but can have at most ${lengthNode['maxItems']}`);
+        }
+        padded[k] = node[k].map((n: object, i: number) =>
+          i < v.length ? CredentialSchema.pad(v[i], n) : CredentialSchema.paddingFor(n)
+        );
+        padded[CredentialSchema.arrayLengthName(k)] = v.length;
+      } else {
+        padded[k] = CredentialSchema.pad(v, node[k]);
+      }
+    }
+    return padded;
+  }
+
+  /**
+   * Value used to pad a variable length array as per the schema node of its items. Its chosen such that it can be
+   * encoded for the item's type.
+   * @param node
+   * @private
+   */
+  private static paddingFor(node: object): unknown {
+    switch (node['type']) {
+      case this.STR_TYPE:
+      case this.STR_REV_TYPE:
+        return '';
+      case this.BOOLEAN_TYPE:
+        return false;
+      case this.POSITIVE_INT_TYPE:
+      case this.POSITIVE_NUM_TYPE:
+        return 0;
+      case this.INT_TYPE:
+      case this.NUM_TYPE:
+        return node['minimum'];
+      case this.DATETIME_TYPE:
+        return new Date(node['minimum']).toISOString();
+      case this.ENUM_TYPE:
+        return CredentialSchema.enumValuesOf(node)[0];
+      case this.CUSTOM_TYPE:
+        throw new Error(`Custom attribute type ${node['name']} can't be used in a variable length array`);
+      default:
+        if (Array.isArray(node)) {
+          return node.map((n) => CredentialSchema.paddingFor(n));
+        }
+        const padding = {};
+        Object.entries(node).forEach(([k, n]) => (padding[k] = CredentialSchema.paddingFor(n)));
+        return padding;
+    }
+  }
+
   static flattenSchemaObj(schema: object, versionGte040 = true): FlattenedSchema {
     return versionGte040 ? flattenTill2ndLastKey({ ...this.IMPLICIT_FIELDS, ...schema }) : flattenTill2ndLastKey({ ...this.OLD_IMPLICIT_FIELDS, ...schema });
   }
@@ -1406,9 +1876,24 @@ export class CredentialSchema extends Versioned {
    * @private
    */
   private static generateFromCredential(cred: object, schemaProps: object, schemaVersion?: string) {
+    const isVariableLengthArray = (prop: object) =>
+      prop !== undefined && prop['type'] === 'array' && prop['items'] !== undefined && !Array.isArray(prop['items']);
     for (const [key, value] of Object.entries(cred)) {
       const [typ] = CredentialSchema.getTypeAndFormat(value, schemaVersion);
 
+      if (
+        key.endsWith(CredentialSchema.ARRAY_LENGTH_SUFFIX) &&
+        isVariableLengthArray(schemaProps[key.slice(0, -CredentialSchema.ARRAY_LENGTH_SUFFIX.length)])
+      ) {
+        // Length of a variable length array is not part of the JSON schema
+        continue;
+      }
+
+      if (value === null && schemaProps[key] !== undefined) {
+        // Absent optional attribute
+        continue;
+      }
+
       if (schemaProps[key] === undefined) {
         // key not in schema
         schemaProps[key] = CredentialSchema.getSubschema(value, schemaVersion);
@@ -1429,6 +1914,10 @@ export class CredentialSchema extends Versioned {
             }
           }
         } else if (schemaProps[key]['type'] === 'array' && typ === 'array') {
+          if (isVariableLengthArray(schemaProps[key])) {
+            // Already padded as per the schema
+            continue;
+          }
           if (schemaProps[key]['items'].length < value.length) {
             // If cred has more items than schema, add the missing ones
             value.slice(schemaProps[key]['items'].length).forEach((v) => {
@@ -1474,6 +1963,47 @@ export class CredentialSchema extends Versioned {
   }
 }
 
+/**
+ * Returns the decimal places and the offset used when encoding the value of a numeric attribute, i.e. the value `v` is
+ * encoded as `(v + offset) * 10^decimalPlaces`
+ * @param name
+ * @param valTyp
+ */
+export function getNumericEncodingParams(name: string, valTyp: ValueTypes): [number, number] {
+  switch (valTyp.type) {
+    case ValueType.PositiveInteger:
+      return [0, 0];
+    case ValueType.Integer:
+      return [0, Math.abs(valTyp.minimum)];
+    case ValueType.PositiveNumber:
+      return [valTyp.decimalPlaces, 0];
+    case ValueType.Number:
+      return [valTyp.decimalPlaces, Math.abs(valTyp.minimum)];
+    case ValueType.Custom:
+      // The value is encoded as the positive integer returned by the type's `toPositiveInt`
+      if (CustomAttributeTypes.get(valTyp.name).toPositiveInt === undefined) {
+        throw new Error(`${name} has custom type ${valTyp.name} which can't be converted to an integer`);
+      }
+      return [0, 0];
+    default:
+      throw new Error(`${name} should be of numeric type as per schema but was ${JSON.stringify(valTyp, null, 2)}`);
+  }
+}
+
+/**
+ * Returns `v * 10^decimalPlaces` as an integer. Throws if `v` has more decimal places than `decimalPlaces`
+ * @param v
+ * @param decimalPlaces
+ * @param usage - Describes where the value is used, for the error message
+ */
+export function scaleToInteger(v: number, decimalPlaces: number, usage: string): bigint {
+  const scaled = v * Math.pow(10, decimalPlaces);
+  if (Math.abs(scaled - Math.round(scaled)) > 1e-6) {
+    throw new Error(`${v} should have at most ${decimalPlaces} decimal places to be ${usage}`);
+  }
+  return BigInt(Math.round(scaled));
+}
+
 export function getTransformedMinMax(name: string, valTyp: ValueTypes, min: number, max: number): [number, number] {
   let transformedMin, transformedMax;
   switch (valTyp.type) {
@@ -1493,6 +2023,9 @@ export function getTransformedMinMax(name: string, valTyp: ValueTypes, min: numb
       transformedMin = Encoder.decimalNumberToPositiveInt(valTyp.minimum, valTyp.decimalPlaces)(min);
       transformedMax = Encoder.decimalNumberToPositiveInt(valTyp.minimum, valTyp.decimalPlaces)(max);
       break;
+    case ValueType.Custom:
+      [transformedMin, transformedMax] = CustomAttributeTypes.transformedMinMax(valTyp.name, min, max);
+      break;
     default:
       throw new Error(`${name} should be of numeric type as per schema but was ${JSON.stringify(valTyp, null, 2)}`);
   }
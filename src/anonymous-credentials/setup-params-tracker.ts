@@ -1,10 +1,12 @@
 import { SetupParam } from '../composite-proof';
+import { ParamsCache } from './params-cache';
 import {
   dockAccumulatorMemProvingKey,
   dockAccumulatorNonMemProvingKey,
   dockAccumulatorParams,
   dockBoundCheckBppSetup,
   dockInequalityCommKey,
+  dockPrivateInequalityCommKey,
   dockSaverEncryptionGens,
   dockSaverEncryptionGensUncompressed
 } from './types-and-consts';
@@ -26,10 +28,16 @@ export class SetupParamsTracker {
   _encGensCompIdx?: number;
   _boundCheckBppSetupIdx?: number;
   _ineqlCommKeyIdx?: number;
+  _privIneqlCommKeyIdx?: number;
+  _privIneqlDiffCommKeyIdx?: number;
 
-  constructor() {
+  // Optional cache to reuse the static parameters from
+  cache?: ParamsCache;
+
+  constructor(cache?: ParamsCache) {
     this.setupParams = [];
     this.paramIdToSetupParamIdx = new Map();
+    this.cache = cache;
   }
 
   add(sp: SetupParam): number {
@@ -93,6 +101,10 @@ export class SetupParamsTracker {
     return this._ineqlCommKeyIdx !== undefined;
   }
 
+  hasPrivateInequalityCommKeys(): boolean {
+    return this._privIneqlCommKeyIdx !== undefined;
+  }
+
   isTrackingParam(paramId: string): boolean {
     return this.paramIdToSetupParamIdx.get(paramId) !== undefined;
   }
@@ -101,7 +113,9 @@ export class SetupParamsTracker {
     if (this.hasAccumulatorParams()) {
       throw new Error('Already present');
     }
-    this.setupParams.push(SetupParam.vbAccumulatorParams(dockAccumulatorParams()));
+    this.setupParams.push(
+      this.staticParam('accumulatorParams', () => SetupParam.vbAccumulatorParams(dockAccumulatorParams()))
+    );
     this._accumParamsIdx = this.lastIndex();
     return this._accumParamsIdx;
   }
@@ -110,7 +124,11 @@ export class SetupParamsTracker {
     if (this.hasAccumulatorMemProvingKey()) {
       throw new Error('Already present');
     }
-    this.setupParams.push(SetupParam.vbAccumulatorMemProvingKey(dockAccumulatorMemProvingKey()));
+    this.setupParams.push(
+      this.staticParam('accumulatorMemProvingKey', () =>
+        SetupParam.vbAccumulatorMemProvingKey(dockAccumulatorMemProvingKey())
+      )
+    );
     this._memPrkIdx = this.lastIndex();
     return this._memPrkIdx;
   }
@@ -119,7 +137,11 @@ export class SetupParamsTracker {
     if (this.hasAccumulatorNonMemProvingKey()) {
       throw new Error('Already present');
     }
-    this.setupParams.push(SetupParam.vbAccumulatorNonMemProvingKey(dockAccumulatorNonMemProvingKey()));
+    this.setupParams.push(
+      this.staticParam('accumulatorNonMemProvingKey', () =>
+        SetupParam.vbAccumulatorNonMemProvingKey(dockAccumulatorNonMemProvingKey())
+      )
+    );
     this._nonMemPrkIdx = this.lastIndex();
     return this._nonMemPrkIdx;
   }
@@ -128,7 +150,9 @@ export class SetupParamsTracker {
     if (this.hasEncryptionGensCompressed()) {
       throw new Error('Already present');
     }
-    this.setupParams.push(SetupParam.saverEncryptionGens(dockSaverEncryptionGens()));
+    this.setupParams.push(
+      this.staticParam('encryptionGensCompressed', () => SetupParam.saverEncryptionGens(dockSaverEncryptionGens()))
+    );
     this._encGensCompIdx = this.lastIndex();
     return this._encGensCompIdx;
   }
@@ -137,7 +161,11 @@ export class SetupParamsTracker {
     if (this.hasEncryptionGensUncompressed()) {
       throw new Error('Already present');
     }
-    this.setupParams.push(SetupParam.saverEncryptionGensUncompressed(dockSaverEncryptionGensUncompressed()));
+    this.setupParams.push(
+      this.staticParam('encryptionGensUncompressed', () =>
+        SetupParam.saverEncryptionGensUncompressed(dockSaverEncryptionGensUncompressed())
+      )
+    );
     this._encGensIdx = this.lastIndex();
     return this._encGensIdx;
   }
@@ -146,7 +174,9 @@ export class SetupParamsTracker {
     if (this.hasBoundCheckBppSetup()) {
       throw new Error('Already present');
     }
-    this.setupParams.push(SetupParam.bppSetupParams(dockBoundCheckBppSetup()));
+    this.setupParams.push(
+      this.staticParam('boundCheckBppSetup', () => SetupParam.bppSetupParams(dockBoundCheckBppSetup()))
+    );
     this._boundCheckBppSetupIdx = this.lastIndex();
     return this._boundCheckBppSetupIdx;
   }
@@ -155,11 +185,42 @@ export class SetupParamsTracker {
     if (this.hasInequalityCommKey()) {
       throw new Error('Already present');
     }
-    this.setupParams.push(SetupParam.pedCommKeyG1(dockInequalityCommKey()));
+    this.setupParams.push(
+      this.staticParam('inequalityCommKey', () => SetupParam.pedCommKeyG1(dockInequalityCommKey()))
+    );
     this._ineqlCommKeyIdx = this.lastIndex();
     return this._ineqlCommKeyIdx;
   }
 
+  /**
+   * Adds the commitment key `[g, h]` for committing to an attribute and `[g, g, h]` for committing to the other attribute
+   * and the difference of both
+   */
+  addPrivateInequalityCommKeys(): [number, number] {
+    if (this.hasPrivateInequalityCommKeys()) {
+      throw new Error('Already present');
+    }
+    this.setupParams.push(
+      this.staticParam('privateInequalityCommKey', () =>
+        SetupParam.pedersenCommitmentKeyG1(dockPrivateInequalityCommKey())
+      )
+    );
+    this._privIneqlCommKeyIdx = this.lastIndex();
+    this.setupParams.push(
+      this.staticParam('privateInequalityDiffCommKey', () => {
+        const [g, h] = dockPrivateInequalityCommKey();
+        return SetupParam.pedersenCommitmentKeyG1([g, g, h]);
+      })
+    );
+    this._privIneqlDiffCommKeyIdx = this.lastIndex();
+    return [this._privIneqlCommKeyIdx, this._privIneqlDiffCommKeyIdx];
+  }
+
+  // Create the static param or get it from the cache
+  private staticParam(name: string, create: () => SetupParam): SetupParam {
+    return this.cache !== undefined ? this.cache.getStaticParam(name, create) : create();
+  }
+
   get accumParamsIdx(): number {
     if (this._accumParamsIdx === undefined) {
       throw new Error('Not set yet');
@@ -202,6 +263,20 @@ export class SetupParamsTracker {
     return this._ineqlCommKeyIdx;
   }
 
+  get privIneqlCommKeyIdx(): number {
+    if (this._privIneqlCommKeyIdx === undefined) {
+      throw new Error('Not set yet');
+    }
+    return this._privIneqlCommKeyIdx;
+  }
+
+  get privIneqlDiffCommKeyIdx(): number {
+    if (this._privIneqlDiffCommKeyIdx === undefined) {
+      throw new Error('Not set yet');
+    }
+    return this._privIneqlDiffCommKeyIdx;
+  }
+
   get boundCheckBppSetupIdx(): number {
     if (this._boundCheckBppSetupIdx === undefined) {
       throw new Error('Not set yet');
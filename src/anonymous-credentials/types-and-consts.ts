@@ -11,7 +11,7 @@ import {
   SaverProvingKey,
   SaverProvingKeyUncompressed
 } from '../saver';
-import { R1CS } from 'crypto-wasm-new';
+import { generateRandomG1Element, R1CS } from 'crypto-wasm-new';
 import { BBSPlusPublicKeyG2, BBSPlusSecretKey, BBSPlusSignatureG1, BBSPlusSignatureParamsG1 } from '../bbs-plus';
 import { PSPublicKey, PSSecretKey, PSSignature, PSSignatureParams } from '../ps';
 import {
@@ -75,6 +75,10 @@ export type BoundCheckParamType =
 
 // The first item is the fully qualified attribute name
 export type BlindedAttributeEquality = [string, AttributeRef[]];
+// Pair of references to attributes that are unequal
+export type AttributeInequality = [AttributeRef, AttributeRef];
+// Blinded attribute name and reference to the credential attribute that it's unequal to
+export type BlindedAttributeInequality = [string, AttributeRef];
 
 export type DateType = Date | string;
 export type BoundType = number | DateType;
@@ -116,13 +120,24 @@ export const SCHEMA_STR = 'credentialSchema';
 
 export const JSON_SCHEMA_STR = 'jsonSchema';
 export const FULL_SCHEMA_STR = 'fullJsonSchema';
+export const FULL_SCHEMA_HASH_STR = 'fullJsonSchemaHash';
 export const SCHEMA_TYPE_STR = 'JsonSchemaValidator2018';
 
 export const SCHEMA_PROPS_STR = 'properties';
 export const SCHEMA_DETAILS_STR = 'details';
+export const CUSTOM_TYPES_STR = 'customTypes';
 
 export const SUBJECT_STR = 'credentialSubject';
 export const STATUS_STR = 'credentialStatus';
+export const ISSUER_STR = 'issuer';
+// Top level fields for the period in which the credential is valid. Their values are date-times
+export const VALID_FROM_STR = 'validFrom';
+export const VALID_UNTIL_STR = 'validUntil';
+export const CONTEXT_STR = '@context';
+export const W3C_CREDENTIALS_V2_CONTEXT = 'https://www.w3.org/ns/credentials/v2';
+export const VERIFIABLE_CREDENTIAL_TYPE = 'VerifiableCredential';
+export const VERIFIABLE_PRESENTATION_TYPE = 'VerifiablePresentation';
+export const DATA_INTEGRITY_PROOF_TYPE = 'DataIntegrityProof';
 export const TYPE_STR = 'type';
 export const VB_ACCUMULATOR_22 = 'DockVBAccumulator2022';
 export const KB_UNI_ACCUMULATOR_24 = 'DockKBUniversalAccumulator2024';
@@ -134,13 +149,20 @@ export const NON_MEM_CHECK_STR = 'non-membership';
 export const MEM_CHECK_KV_STR = 'membership-kv';
 export const NON_MEM_CHECK_KV_STR = 'non-membership-kv';
 export const PROOF_STR = 'proof';
+export const VERIFICATION_METHOD_STR = 'verificationMethod';
 export const BBS_CRED_PROOF_TYPE = 'Bls12381BBSSignatureDock2023';
 export const BBS_BLINDED_CRED_PROOF_TYPE = 'Bls12381BlindedBBSSignatureDock2023';
 export const BBS_PLUS_CRED_PROOF_TYPE = 'Bls12381BBS+SignatureDock2022';
 export const BBS_PLUS_BLINDED_CRED_PROOF_TYPE = 'Bls12381BlindedBBS+SignatureDock2023';
 export const PS_CRED_PROOF_TYPE = 'Bls12381PSSignatureDock2023';
+export const PS_BLINDED_CRED_PROOF_TYPE = 'Bls12381BlindedPSSignatureDock2023';
 export const BBDT16_CRED_PROOF_TYPE = 'Bls12381BBDT16MACDock2024';
 export const BBDT16_BLINDED_CRED_PROOF_TYPE = 'Bls12381BlindedBBDT16MACDock2024';
+export const BBS_CRYPTOSUITE = 'dock-bbs-2023';
+export const BBS_PLUS_CRYPTOSUITE = 'dock-bbs-plus-2022';
+export const PS_CRYPTOSUITE = 'dock-ps-2023';
+export const BBDT16_CRYPTOSUITE = 'dock-bbdt16-2024';
+export const PRESENTATION_CRYPTOSUITE = 'dock-anoncreds-presentation-2024';
 export const LEGOGROTH16 = 'LegoGroth16';
 export const SAVER = 'SAVER';
 
@@ -149,6 +171,7 @@ export const SMC = 'Set-membership-check';
 export const SMC_KV = 'Set-membership-check-with-keyed-verification';
 
 export const UPROVE = 'UProve';
+export const PRODUCT_OF_DIFFERENCES = 'ProductOfDifferences';
 
 const te = new TextEncoder();
 // Label used for generating BBS+ signature parameters
@@ -187,6 +210,25 @@ export const BPP_GENS_LABEL_BYTES = te.encode(BPP_GENS_LABEL);
 export const INEQUALITY_COMM_KEY_LABEL = 'DockInequalityDiscreteLog2023';
 export const INEQUALITY_COMM_KEY_LABEL_BYTES = te.encode(INEQUALITY_COMM_KEY_LABEL);
 
+// Label used for generating commitment key for proving inequality between attributes
+export const PRIVATE_INEQUALITY_COMM_KEY_LABEL = 'DockPrivateInequality2024';
+export const PRIVATE_INEQUALITY_COMM_KEY_LABEL_BYTES = te.encode(PRIVATE_INEQUALITY_COMM_KEY_LABEL);
+
+// Label used for generating commitment key for proving membership of an attribute in a set
+export const SET_MEMBERSHIP_COMM_KEY_LABEL = 'DockSetMembership2024';
+export const SET_MEMBERSHIP_COMM_KEY_LABEL_BYTES = te.encode(SET_MEMBERSHIP_COMM_KEY_LABEL);
+
+// Label used for generating the base of the commitment used for comparing attributes
+export const ATTRIBUTE_COMPARISON_BASE_LABEL = 'DockAttributeComparison2024';
+export const ATTRIBUTE_COMPARISON_BASE_LABEL_BYTES = te.encode(ATTRIBUTE_COMPARISON_BASE_LABEL);
+
+// Label used for generating the base of the commitments to each blinded attribute in a PS blinded credential request
+export const PS_BLINDED_ATTRIBUTE_BASE_LABEL = 'DockPSBlindedAttribute2024';
+export const PS_BLINDED_ATTRIBUTE_BASE_LABEL_BYTES = te.encode(PS_BLINDED_ATTRIBUTE_BASE_LABEL);
+
+// Exclusive upper bound on the difference between both sides of an attribute comparison
+export const MAX_ATTRIBUTE_COMPARISON_DIFFERENCE = Number.MAX_SAFE_INTEGER;
+
 export const EMPTY_SCHEMA_ID = 'data:application/json;charset=utf-8,';
 
 export const SCHEMA_FIELDS = [`${SCHEMA_STR}.${SCHEMA_DETAILS_STR}`, `${SCHEMA_STR}.${ID_STR}`, `${SCHEMA_STR}.${TYPE_STR}`, `${SCHEMA_STR}.${VERSION_STR}`];
@@ -227,6 +269,42 @@ export function dockInequalityCommKeyUncompressed(): PederCommKeyUncompressed {
   return new PederCommKey(INEQUALITY_COMM_KEY_LABEL_BYTES).decompress();
 }
 
+/**
+ * Returns the bases `g` and `h` of the commitment used for proving inequality between attributes
+ */
+export function dockPrivateInequalityCommKey(): [Uint8Array, Uint8Array] {
+  return [
+    generateRandomG1Element(new Uint8Array([...PRIVATE_INEQUALITY_COMM_KEY_LABEL_BYTES, 1])),
+    generateRandomG1Element(new Uint8Array([...PRIVATE_INEQUALITY_COMM_KEY_LABEL_BYTES, 2]))
+  ];
+}
+
+/**
+ * Returns the bases `g` and `h` of the commitments used for proving membership of an attribute in a set
+ */
+export function dockSetMembershipCommKey(): [Uint8Array, Uint8Array] {
+  return [
+    generateRandomG1Element(new Uint8Array([...SET_MEMBERSHIP_COMM_KEY_LABEL_BYTES, 1])),
+    generateRandomG1Element(new Uint8Array([...SET_MEMBERSHIP_COMM_KEY_LABEL_BYTES, 2]))
+  ];
+}
+
+/**
+ * Returns the base used for proving a linear relation between attributes being compared or combined
+ */
+export function dockAttributeComparisonBase(): Uint8Array {
+  return generateRandomG1Element(ATTRIBUTE_COMPARISON_BASE_LABEL_BYTES);
+}
+
+/**
+ * Returns the base `h` of the commitments to each blinded attribute in a PS blinded credential request and of the blind
+ * signature. It's derived from the commitment to all blinded attributes so that the requester can't choose it.
+ * @param commitment - Commitment to all blinded attributes
+ */
+export function psBlindedAttributeBase(commitment: Uint8Array): Uint8Array {
+  return generateRandomG1Element(new Uint8Array([...PS_BLINDED_ATTRIBUTE_BASE_LABEL_BYTES, ...commitment]));
+}
+
 export enum SignatureType {
   Bbs = BBS_CRED_PROOF_TYPE,
   BbsPlus = BBS_PLUS_CRED_PROOF_TYPE,
@@ -234,9 +312,18 @@ export enum SignatureType {
   Bbdt16 = BBDT16_CRED_PROOF_TYPE
 }
 
+// Cryptosuite identifiers used in the proof of a W3C verifiable credential
+export enum Cryptosuite {
+  Bbs = BBS_CRYPTOSUITE,
+  BbsPlus = BBS_PLUS_CRYPTOSUITE,
+  Ps = PS_CRYPTOSUITE,
+  Bbdt16 = BBDT16_CRYPTOSUITE
+}
+
 export enum BlindSignatureType {
   Bbs = BBS_BLINDED_CRED_PROOF_TYPE,
   BbsPlus = BBS_PLUS_BLINDED_CRED_PROOF_TYPE,
+  Ps = PS_BLINDED_CRED_PROOF_TYPE,
   Bbdt16 = BBDT16_BLINDED_CRED_PROOF_TYPE
 }
 
@@ -263,3 +350,14 @@ export enum CircomProtocol {
 export enum InequalityProtocol {
   Uprove = UPROVE
 }
+
+export enum SetMembershipProtocol {
+  ProductOfDifferences = PRODUCT_OF_DIFFERENCES
+}
+
+export enum ComparisonOperator {
+  Lt = '<',
+  Lte = '<=',
+  Gt = '>',
+  Gte = '>='
+}
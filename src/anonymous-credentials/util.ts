@@ -2,7 +2,14 @@ import { flatten } from 'flat';
 import { BBSPublicKey, BBSSignature, BBSSignatureParams } from '../bbs';
 import { BBSPlusPublicKeyG2, BBSPlusSignatureG1, BBSPlusSignatureParamsG1 } from '../bbs-plus';
 import { BBDT16Mac, BBDT16MacParams, BBDT16MacSecretKey } from '../bbdt16-mac';
-import { SetupParam, Statement, Witness, WitnessEqualityMetaStatement } from '../composite-proof';
+import {
+  MetaStatements,
+  SetupParam,
+  Statement,
+  Statements,
+  Witness,
+  WitnessEqualityMetaStatement
+} from '../composite-proof';
 import { PSPublicKey, PSSignature, PSSignatureParams } from '../ps';
 import {
   SaverChunkedCommitmentKey,
@@ -14,8 +21,12 @@ import {
   SaverVerifyingKey,
   SaverVerifyingKeyUncompressed
 } from '../saver';
+import { getPSStatementsForBlindSigRequest } from '../sign-verify-js-objs';
 import { SetupParamsTracker } from './setup-params-tracker';
+import { KBUniversalAccumulatorValue } from '../accumulator/kb-universal-accumulator';
+import { areUint8ArraysEqual } from '../util';
 import {
+  AccumulatorValueType,
   AttributeEquality,
   AttributeRef,
   BBS_PLUS_SIGNATURE_PARAMS_LABEL_BYTES,
@@ -25,6 +36,7 @@ import {
   FlattenedSchema,
   PredicateParamType,
   PS_SIGNATURE_PARAMS_LABEL_BYTES,
+  psBlindedAttributeBase,
   PublicKey,
   Signature,
   SignatureParams,
@@ -157,6 +169,51 @@ export function createWitEqForBlindedCred(
   return witnessEq;
 }
 
+/**
+ * Add the statements for the commitments of a PS blinded credential request, i.e. the commitment to all blinded
+ * attributes and then the commitment to each blinded attribute, and enforce that each attribute is the same in both.
+ * Returns the index of the statement for the commitment to all blinded attributes.
+ * @param statements
+ * @param metaStatements
+ * @param sigParams
+ * @param blindedAttributeIndices - Sorted indices of the blinded attributes
+ * @param commitment
+ * @param attributeCommitments - Commitment to each blinded attribute in the order of `blindedAttributeIndices`
+ */
+export function addPSBlindedCredReqStatements(
+  statements: Statements,
+  metaStatements: MetaStatements,
+  sigParams: PSSignatureParams,
+  blindedAttributeIndices: number[],
+  commitment: Uint8Array,
+  attributeCommitments: Uint8Array[]
+): number {
+  if (attributeCommitments.length !== blindedAttributeIndices.length) {
+    throw new Error(
+      `Expected ${blindedAttributeIndices.length} attribute commitments but found ${attributeCommitments.length}`
+    );
+  }
+  const request = {
+    commitment,
+    commitments: new Map(blindedAttributeIndices.map((idx, j) => [idx, attributeCommitments[j]])),
+    revealedMessages: new Map()
+  };
+  const [allStatement, ...eachStatements] = getPSStatementsForBlindSigRequest(
+    request,
+    sigParams,
+    psBlindedAttributeBase(commitment)
+  );
+  const sIdx = statements.add(allStatement);
+  eachStatements.forEach((st, j) => {
+    // Witness of each commitment is [blinding, attribute] and of the commitment to all is [blinding, ...attributes]
+    const witnessEq = new WitnessEqualityMetaStatement();
+    witnessEq.addWitnessRef(sIdx, j + 1);
+    witnessEq.addWitnessRef(statements.add(st), 1);
+    metaStatements.addWitnessEquality(witnessEq);
+  });
+  return sIdx;
+}
+
 export function paramsClassBySignature(signature: Signature): SignatureParamsClass | null {
   if (signature instanceof BBSSignature) {
     return BBSSignatureParams;
@@ -470,3 +527,19 @@ export function saverStatement(
         chunkBitSize
       );
 }
+
+/**
+ * Check if 2 accumulator values are the same. Values of different kinds of accumulators are never the same.
+ * @param a
+ * @param b
+ */
+export function areAccumulatorValuesEqual(a: AccumulatorValueType, b: AccumulatorValueType): boolean {
+  if (a instanceof KBUniversalAccumulatorValue || b instanceof KBUniversalAccumulatorValue) {
+    return (
+      a instanceof KBUniversalAccumulatorValue &&
+      b instanceof KBUniversalAccumulatorValue &&
+      areUint8ArraysEqual(a.toBytes(), b.toBytes())
+    );
+  }
+  return areUint8ArraysEqual(a, b);
+}
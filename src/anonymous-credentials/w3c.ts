@@ -0,0 +1,307 @@
+import { isEmptyObject } from '../util';
+import {
+  CONTEXT_STR,
+  CRYPTO_VERSION_STR,
+  Cryptosuite,
+  DATA_INTEGRITY_PROOF_TYPE,
+  ISSUER_STR,
+  PRESENTATION_CRYPTOSUITE,
+  PROOF_STR,
+  SCHEMA_STR,
+  SignatureType,
+  TYPE_STR,
+  VALID_FROM_STR,
+  VERIFIABLE_CREDENTIAL_TYPE,
+  VERIFIABLE_PRESENTATION_TYPE,
+  W3C_CREDENTIALS_V2_CONTEXT
+} from './types-and-consts';
+
+// Functions to convert the JSON representation of credentials and presentations to and from the W3C Verifiable Credentials
+// Data Model 2.0. The conversion is lossless so that the signature or the proof can still be verified after converting back.
+
+const CRYPTOSUITE_STR = 'cryptosuite';
+// Lists the properties like `@context` and `type` that were not part of the credential but were added during conversion
+const ADDED_PROPS_STR = 'addedProperties';
+// Entries of `addedProperties` when the credential has a context but not the W3C context as the first one. The W3C context
+// is then prepended to the credential's array of contexts or, if the credential has a single context, the W3C context and
+// the credential's context become an array of 2 where the credential's context is the 2nd item.
+const PREPENDED_CONTEXT_STR = `${CONTEXT_STR}[0]`;
+const WRAPPED_CONTEXT_STR = `${CONTEXT_STR}[1]`;
+// Name of the field in the proof of a presented credential holding the credential's presentation specification
+const PRESENTED_CRED_STR = 'presentedCredential';
+
+const CRYPTOSUITE_BY_SIG_TYPE = new Map<string, Cryptosuite>([
+  [SignatureType.Bbs, Cryptosuite.Bbs],
+  [SignatureType.BbsPlus, Cryptosuite.BbsPlus],
+  [SignatureType.Ps, Cryptosuite.Ps],
+  [SignatureType.Bbdt16, Cryptosuite.Bbdt16]
+]);
+
+type JsonObject = Record<string, any>;
+
+/**
+ * Values used for the fields required in a W3C verifiable credential when the credential doesn't have them
+ */
+export interface IW3CCredentialDefaults {
+  issuer?: string | object;
+  validFrom?: string;
+}
+
+/**
+ * Convert JSON of a credential (as created by `Credential.toJSON`) to a W3C verifiable credential. The `@context` and
+ * `type` are added if the credential doesn't have them and the W3C context is prepended if the credential has other
+ * contexts. The `issuer` and `validFrom` are taken from `defaults` if the credential doesn't have them and an error is
+ * thrown if neither has them. The proof becomes a `DataIntegrityProof` with the cryptosuite corresponding to the signature type.
+ * @param j
+ * @param defaults
+ */
+export function credentialJsonToW3C(j: object, defaults: IW3CCredentialDefaults = {}): object {
+  const { [CRYPTO_VERSION_STR]: cryptoVersion, [PROOF_STR]: proof, ...rest } = j as JsonObject;
+  const { type, proofValue, ...proofRest } = proof;
+  const cryptosuite = CRYPTOSUITE_BY_SIG_TYPE.get(type);
+  if (cryptosuite === undefined) {
+    throw new Error(`No cryptosuite known for proof type ${type}`);
+  }
+  ensureAbsent(proofRest, [CRYPTOSUITE_STR, CRYPTO_VERSION_STR, ADDED_PROPS_STR]);
+
+  const [vc, added] = withContextAndType(rest, VERIFIABLE_CREDENTIAL_TYPE);
+  fillIfMissing(vc, ISSUER_STR, defaults.issuer, added);
+  fillIfMissing(vc, VALID_FROM_STR, defaults.validFrom, added);
+  vc[PROOF_STR] = {
+    ...proofRest,
+    type: DATA_INTEGRITY_PROOF_TYPE,
+    [CRYPTOSUITE_STR]: cryptosuite,
+    [CRYPTO_VERSION_STR]: cryptoVersion,
+    proofValue
+  };
+  if (added.length > 0) {
+    vc[PROOF_STR][ADDED_PROPS_STR] = added;
+  }
+  return vc;
+}
+
+/**
+ * Convert a W3C verifiable credential created by `credentialJsonToW3C` back to the JSON expected by `Credential.fromJSON`.
+ * @param vc
+ */
+export function w3cToCredentialJson(vc: object): object {
+  checkContext(vc);
+  const { [PROOF_STR]: proof, ...rest } = vc as JsonObject;
+  if (!proof) {
+    throw new Error(`Expects proof to be defined in object`);
+  }
+  const {
+    type,
+    [CRYPTOSUITE_STR]: cryptosuite,
+    [CRYPTO_VERSION_STR]: cryptoVersion,
+    [ADDED_PROPS_STR]: added,
+    ...proofRest
+  } = proof;
+  checkDataIntegrityProof(type);
+  return {
+    [CRYPTO_VERSION_STR]: cryptoVersion,
+    ...withoutAddedProps(rest, added),
+    [PROOF_STR]: { type: sigTypeByCryptosuite(cryptosuite), ...proofRest }
+  };
+}
+
+/**
+ * Convert JSON of a presentation (as created by `Presentation.toJSON`) to a W3C verifiable presentation. Each presented
+ * credential becomes a verifiable credential with only the revealed attributes and a proof containing its presentation
+ * specification. The presentation's proof contains the composite proof, the context as `domain` and the nonce as `challenge`.
+ * @param j
+ */
+export function presentationJsonToW3C(j: object): object {
+  const { version, context, nonce, spec, proof, ...rest } = j as JsonObject;
+  const { credentials, ...specRest } = spec;
+
+  const verifiableCredential = credentials.map((c: JsonObject) => {
+    const { version: credVersion, schema, revealedAttributes, sigType, ...predicates } = c;
+    const { [PROOF_STR]: revealedProof, ...revealed } = revealedAttributes;
+    const [vc, added] = withContextAndType({ ...revealed, [SCHEMA_STR]: schema }, VERIFIABLE_CREDENTIAL_TYPE);
+    // Revealed proof fields, like `verificationMethod`, are kept in the proof
+    const credProof = { ...revealedProof };
+    ensureAbsent(credProof, [TYPE_STR, CRYPTOSUITE_STR, ADDED_PROPS_STR, PRESENTED_CRED_STR]);
+    credProof[TYPE_STR] = DATA_INTEGRITY_PROOF_TYPE;
+    // Presentations created by older versions don't have the signature type
+    if (sigType !== undefined) {
+      credProof[CRYPTOSUITE_STR] = CRYPTOSUITE_BY_SIG_TYPE.get(sigType);
+    }
+    credProof[PRESENTED_CRED_STR] = { version: credVersion, ...predicates };
+    if (added.length > 0) {
+      credProof[ADDED_PROPS_STR] = added;
+    }
+    vc[PROOF_STR] = credProof;
+    return vc;
+  });
+
+  const presProof: JsonObject = {
+    type: DATA_INTEGRITY_PROOF_TYPE,
+    [CRYPTOSUITE_STR]: PRESENTATION_CRYPTOSUITE,
+    version,
+    proofValue: proof,
+    // Rest has the ciphertexts
+    ...rest
+  };
+  if (context !== undefined) {
+    presProof['domain'] = context;
+  }
+  if (nonce !== undefined && nonce !== null) {
+    presProof['challenge'] = nonce;
+  }
+  if (!isEmptyObject(specRest)) {
+    presProof['spec'] = specRest;
+  }
+
+  return {
+    [CONTEXT_STR]: [W3C_CREDENTIALS_V2_CONTEXT],
+    [TYPE_STR]: [VERIFIABLE_PRESENTATION_TYPE],
+    verifiableCredential,
+    [PROOF_STR]: presProof
+  };
+}
+
+/**
+ * Convert a W3C verifiable presentation created by `presentationJsonToW3C` back to the JSON expected by `Presentation.fromJSON`.
+ * @param vp
+ */
+export function w3cToPresentationJson(vp: object): object {
+  checkContext(vp);
+  if (!Array.isArray(vp[TYPE_STR]) || !vp[TYPE_STR].includes(VERIFIABLE_PRESENTATION_TYPE)) {
+    throw new Error(`Expected type to include ${VERIFIABLE_PRESENTATION_TYPE} but found ${vp[TYPE_STR]}`);
+  }
+  const presProof = vp[PROOF_STR];
+  if (!presProof) {
+    throw new Error(`Expects proof to be defined in object`);
+  }
+  const { type, [CRYPTOSUITE_STR]: cryptosuite, version, proofValue, domain, challenge, spec, ...rest } = presProof;
+  checkDataIntegrityProof(type);
+  if (cryptosuite !== PRESENTATION_CRYPTOSUITE) {
+    throw new Error(`Expected cryptosuite ${PRESENTATION_CRYPTOSUITE} but found ${cryptosuite}`);
+  }
+
+  const credentials = (vp['verifiableCredential'] ?? []).map((vc: JsonObject, i: number) => {
+    checkContext(vc);
+    const { [PROOF_STR]: credProof, ...vcRest } = vc;
+    if (!credProof || credProof[PRESENTED_CRED_STR] === undefined) {
+      throw new Error(`Expects proof with ${PRESENTED_CRED_STR} for credential index ${i}`);
+    }
+    const {
+      type: credProofType,
+      [CRYPTOSUITE_STR]: credCryptosuite,
+      [PRESENTED_CRED_STR]: presented,
+      [ADDED_PROPS_STR]: added,
+      ...revealedProof
+    } = credProof;
+    checkDataIntegrityProof(credProofType);
+    const { [SCHEMA_STR]: schema, ...revealedAttributes } = withoutAddedProps(vcRest, added);
+    if (!isEmptyObject(revealedProof)) {
+      revealedAttributes[PROOF_STR] = revealedProof;
+    }
+    const { version: credVersion, ...predicates } = presented;
+    const c: JsonObject = { version: credVersion, schema, revealedAttributes, ...predicates };
+    if (credCryptosuite !== undefined) {
+      c['sigType'] = sigTypeByCryptosuite(credCryptosuite);
+    }
+    return c;
+  });
+
+  return {
+    version,
+    context: domain,
+    nonce: challenge ?? null,
+    spec: { credentials, ...spec },
+    proof: proofValue,
+    ...rest
+  };
+}
+
+function sigTypeByCryptosuite(cryptosuite: string): SignatureType {
+  for (const [sigType, c] of CRYPTOSUITE_BY_SIG_TYPE.entries()) {
+    if (c === cryptosuite) {
+      return sigType as SignatureType;
+    }
+  }
+  throw new Error(`Unrecognized cryptosuite ${cryptosuite}`);
+}
+
+/**
+ * Returns a copy of the object with the W3C context and the given type added unless already present. Also returns the
+ * names of the added properties.
+ */
+function withContextAndType(obj: JsonObject, typ: string): [JsonObject, string[]] {
+  const added: string[] = [];
+  const { [CONTEXT_STR]: ctx, [TYPE_STR]: existingType, ...rest } = obj;
+  let context = ctx;
+  if (ctx === undefined) {
+    context = [W3C_CREDENTIALS_V2_CONTEXT];
+    added.push(CONTEXT_STR);
+  } else if (firstContext(ctx) !== W3C_CREDENTIALS_V2_CONTEXT) {
+    if (Array.isArray(ctx)) {
+      context = [W3C_CREDENTIALS_V2_CONTEXT, ...ctx];
+      added.push(PREPENDED_CONTEXT_STR);
+    } else {
+      context = [W3C_CREDENTIALS_V2_CONTEXT, ctx];
+      added.push(WRAPPED_CONTEXT_STR);
+    }
+  }
+  let type = existingType;
+  if (existingType === undefined) {
+    type = [typ];
+    added.push(TYPE_STR);
+  }
+  return [{ [CONTEXT_STR]: context, [TYPE_STR]: type, ...rest }, added];
+}
+
+/**
+ * Reverses `withContextAndType` and the addition of any other properties listed in `added`
+ */
+function withoutAddedProps(obj: JsonObject, added?: string[]): JsonObject {
+  const r = { ...obj };
+  for (const p of added ?? []) {
+    if (p === PREPENDED_CONTEXT_STR) {
+      r[CONTEXT_STR] = r[CONTEXT_STR].slice(1);
+    } else if (p === WRAPPED_CONTEXT_STR) {
+      r[CONTEXT_STR] = r[CONTEXT_STR][1];
+    } else {
+      delete r[p];
+    }
+  }
+  return r;
+}
+
+function fillIfMissing(vc: JsonObject, name: string, value: unknown, added: string[]) {
+  if (vc[name] === undefined) {
+    if (value === undefined) {
+      throw new Error(`Credential does not have ${name} and no default value for it was given`);
+    }
+    vc[name] = value;
+    added.push(name);
+  }
+}
+
+function firstContext(ctx: unknown): unknown {
+  return Array.isArray(ctx) ? ctx[0] : ctx;
+}
+
+function checkContext(obj: JsonObject) {
+  const ctx = obj[CONTEXT_STR];
+  const first = firstContext(ctx);
+  if (first !== W3C_CREDENTIALS_V2_CONTEXT) {
+    throw new Error(`Expected first context to be ${W3C_CREDENTIALS_V2_CONTEXT} but found ${first}`);
+  }
+}
+
+function checkDataIntegrityProof(typ: string) {
+  if (typ !== DATA_INTEGRITY_PROOF_TYPE) {
+    throw new Error(`Expected proof type to be ${DATA_INTEGRITY_PROOF_TYPE} but found ${typ}`);
+  }
+}
+
+function ensureAbsent(obj: JsonObject, names: string[]) {
+  for (const n of names) {
+    if (obj[n] !== undefined) {
+      throw new Error(`Proof should not have the field ${n} as it's needed for the W3C representation`);
+    }
+  }
+}
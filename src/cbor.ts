@@ -0,0 +1,315 @@
+/**
+ * A minimal CBOR (RFC 8949) encoder and decoder supporting the types needed to encode JSON-like objects and byte arrays.
+ * Encoding is deterministic as per section 4.2 of the RFC: definite lengths, shortest form for integers and arguments and map
+ * keys sorted by their encoded bytes. Non-integer numbers are encoded as 32-bit floats when there is no loss in precision
+ * else as 64-bit floats.
+ * CBOR maps are decoded as `Map` so that integer and string keys can be distinguished.
+ */
+
+/**
+ * A tagged value (major type 6)
+ */
+export class CborTagged {
+  readonly tag: number;
+  readonly value: unknown;
+
+  constructor(tag: number, value: unknown) {
+    this.tag = tag;
+    this.value = value;
+  }
+}
+
+const MAJOR_UINT = 0;
+const MAJOR_NEG_INT = 1;
+const MAJOR_BYTES = 2;
+const MAJOR_TEXT = 3;
+const MAJOR_ARRAY = 4;
+const MAJOR_MAP = 5;
+const MAJOR_TAG = 6;
+const MAJOR_SIMPLE = 7;
+
+const SIMPLE_FALSE = 20;
+const SIMPLE_TRUE = 21;
+const SIMPLE_NULL = 22;
+const SIMPLE_UNDEFINED = 23;
+const FLOAT_16 = 25;
+const FLOAT_32 = 26;
+const FLOAT_64 = 27;
+
+const te = new TextEncoder();
+const td = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Encode the given value as CBOR. Supports `null`, `undefined`, booleans, numbers, strings, `Uint8Array`, arrays, `Map`
+ * (with number or string keys), plain objects and `CborTagged`. Like JSON, properties of objects with value `undefined`
+ * are skipped.
+ * @param value
+ */
+export function encodeCbor(value: unknown): Uint8Array {
+  const out: number[] = [];
+  encodeItem(value, out);
+  return new Uint8Array(out);
+}
+
+/**
+ * Decode a CBOR encoded value. Throws an error if there are trailing bytes.
+ * @param bytes
+ */
+export function decodeCbor(bytes: Uint8Array): unknown {
+  const decoder = new Decoder(bytes);
+  const value = decoder.decodeItem();
+  if (decoder.offset !== bytes.length) {
+    throw new Error(`Found ${bytes.length - decoder.offset} trailing bytes after the CBOR item`);
+  }
+  return value;
+}
+
+function encodeHead(major: number, arg: number, out: number[]) {
+  const m = major << 5;
+  if (arg < 24) {
+    out.push(m | arg);
+  } else if (arg < 0x100) {
+    out.push(m | 24, arg);
+  } else if (arg < 0x10000) {
+    out.push(m | 25, arg >> 8, arg & 0xff);
+  } else if (arg < 0x100000000) {
+    out.push(m | 26, (arg >>> 24) & 0xff, (arg >> 16) & 0xff, (arg >> 8) & 0xff, arg & 0xff);
+  } else {
+    const hi = Math.floor(arg / 0x100000000);
+    const lo = arg % 0x100000000;
+    out.push(m | 27, (hi >>> 24) & 0xff, (hi >> 16) & 0xff, (hi >> 8) & 0xff, hi & 0xff);
+    out.push((lo >>> 24) & 0xff, (lo >> 16) & 0xff, (lo >> 8) & 0xff, lo & 0xff);
+  }
+}
+
+function encodeNumber(n: number, out: number[]) {
+  if (Number.isSafeInteger(n)) {
+    if (n >= 0) {
+      encodeHead(MAJOR_UINT, n, out);
+    } else {
+      encodeHead(MAJOR_NEG_INT, -1 - n, out);
+    }
+    return;
+  }
+  const isF32 = Number.isNaN(n) || Math.fround(n) === n;
+  const buf = new DataView(new ArrayBuffer(isF32 ? 4 : 8));
+  if (isF32) {
+    buf.setFloat32(0, n);
+    out.push((MAJOR_SIMPLE << 5) | FLOAT_32);
+  } else {
+    buf.setFloat64(0, n);
+    out.push((MAJOR_SIMPLE << 5) | FLOAT_64);
+  }
+  for (let i = 0; i < buf.byteLength; i++) {
+    out.push(buf.getUint8(i));
+  }
+}
+
+function encodeMap(entries: [number | string, unknown][], out: number[]) {
+  const encoded = entries
+    .filter(([_, v]) => v !== undefined)
+    .map(([k, v]) => {
+      const key: number[] = [];
+      encodeItem(k, key);
+      return [key, v] as [number[], unknown];
+    });
+  // Deterministic encoding requires keys to be sorted in the bytewise lexicographic order of their encoding
+  encoded.sort(([a], [b]) => compareBytes(a, b));
+  encodeHead(MAJOR_MAP, encoded.length, out);
+  for (const [k, v] of encoded) {
+    out.push(...k);
+    encodeItem(v, out);
+  }
+}
+
+function encodeItem(value: unknown, out: number[]) {
+  if (value === null) {
+    out.push((MAJOR_SIMPLE << 5) | SIMPLE_NULL);
+  } else if (value === undefined) {
+    out.push((MAJOR_SIMPLE << 5) | SIMPLE_UNDEFINED);
+  } else if (typeof value === 'boolean') {
+    out.push((MAJOR_SIMPLE << 5) | (value ? SIMPLE_TRUE : SIMPLE_FALSE));
+  } else if (typeof value === 'number') {
+    encodeNumber(value, out);
+  } else if (typeof value === 'string') {
+    const b = te.encode(value);
+    encodeHead(MAJOR_TEXT, b.length, out);
+    pushBytes(b, out);
+  } else if (value instanceof Uint8Array) {
+    encodeHead(MAJOR_BYTES, value.length, out);
+    pushBytes(value, out);
+  } else if (Array.isArray(value)) {
+    encodeHead(MAJOR_ARRAY, value.length, out);
+    // Like JSON, undefined array items are encoded as null
+    value.forEach((v) => encodeItem(v === undefined ? null : v, out));
+  } else if (value instanceof CborTagged) {
+    encodeHead(MAJOR_TAG, value.tag, out);
+    encodeItem(value.value, out);
+  } else if (value instanceof Map) {
+    encodeMap(Array.from(value.entries()), out);
+  } else if (typeof value === 'object') {
+    encodeMap(Object.entries(value as object), out);
+  } else {
+    throw new Error(`Cannot encode value of type ${typeof value} as CBOR`);
+  }
+}
+
+function pushBytes(b: Uint8Array, out: number[]) {
+  for (let i = 0; i < b.length; i++) {
+    out.push(b[i]);
+  }
+}
+
+function compareBytes(a: number[], b: number[]): number {
+  const len = Math.min(a.length, b.length);
+  for (let i = 0; i < len; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return a.length - b.length;
+}
+
+class Decoder {
+  readonly bytes: Uint8Array;
+  readonly view: DataView;
+  offset: number;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.offset = 0;
+  }
+
+  decodeItem(): unknown {
+    const initial = this.readUint8();
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+    if (major === MAJOR_SIMPLE) {
+      return this.decodeSimple(info);
+    }
+    const arg = this.readArgument(info);
+    switch (major) {
+      case MAJOR_UINT:
+        return arg;
+      case MAJOR_NEG_INT:
+        return -1 - arg;
+      case MAJOR_BYTES:
+        return this.readBytes(arg).slice();
+      case MAJOR_TEXT:
+        return td.decode(this.readBytes(arg));
+      case MAJOR_ARRAY: {
+        const arr: unknown[] = [];
+        for (let i = 0; i < arg; i++) {
+          arr.push(this.decodeItem());
+        }
+        return arr;
+      }
+      case MAJOR_MAP: {
+        const m = new Map<number | string, unknown>();
+        for (let i = 0; i < arg; i++) {
+          const k = this.decodeItem();
+          if (typeof k !== 'number' && typeof k !== 'string') {
+            throw new Error(`Map keys should be integers or strings but found ${typeof k}`);
+          }
+          if (m.has(k)) {
+            throw new Error(`Duplicate map key ${k}`);
+          }
+          m.set(k, this.decodeItem());
+        }
+        return m;
+      }
+      case MAJOR_TAG:
+        return new CborTagged(arg, this.decodeItem());
+      default:
+        throw new Error(`Unexpected major type ${major}`);
+    }
+  }
+
+  private decodeSimple(info: number): unknown {
+    switch (info) {
+      case SIMPLE_FALSE:
+        return false;
+      case SIMPLE_TRUE:
+        return true;
+      case SIMPLE_NULL:
+        return null;
+      case SIMPLE_UNDEFINED:
+        return undefined;
+      case FLOAT_16:
+        return decodeFloat16(this.readUint(2));
+      case FLOAT_32:
+        return this.view.getFloat32(this.advance(4));
+      case FLOAT_64:
+        return this.view.getFloat64(this.advance(8));
+      default:
+        throw new Error(`Unsupported simple value or float with additional info ${info}`);
+    }
+  }
+
+  private readArgument(info: number): number {
+    if (info < 24) {
+      return info;
+    }
+    switch (info) {
+      case 24:
+        return this.readUint(1);
+      case 25:
+        return this.readUint(2);
+      case 26:
+        return this.readUint(4);
+      case 27: {
+        const hi = this.readUint(4);
+        const lo = this.readUint(4);
+        const v = hi * 0x100000000 + lo;
+        if (!Number.isSafeInteger(v)) {
+          throw new Error(`Integer ${v} is too large`);
+        }
+        return v;
+      }
+      default:
+        // Indefinite lengths are not used by deterministic encoding
+        throw new Error(`Unsupported additional info ${info}`);
+    }
+  }
+
+  private readUint(size: number): number {
+    let v = 0;
+    for (let i = 0; i < size; i++) {
+      v = v * 256 + this.readUint8();
+    }
+    return v;
+  }
+
+  private readUint8(): number {
+    return this.bytes[this.advance(1)];
+  }
+
+  private readBytes(len: number): Uint8Array {
+    const start = this.advance(len);
+    return this.bytes.subarray(start, start + len);
+  }
+
+  // Move the offset ahead by `len` bytes and return the old offset
+  private advance(len: number): number {
+    if (this.offset + len > this.bytes.length) {
+      throw new Error(`Unexpected end of CBOR input at offset ${this.offset}`);
+    }
+    const o = this.offset;
+    this.offset += len;
+    return o;
+  }
+}
+
+function decodeFloat16(half: number): number {
+  const exp = (half >> 10) & 0x1f;
+  const mant = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exp === 0) {
+    return sign * Math.pow(2, -14) * (mant / 1024);
+  }
+  if (exp === 0x1f) {
+    return mant === 0 ? sign * Infinity : NaN;
+  }
+  return sign * Math.pow(2, exp - 15) * (1 + mant / 1024);
+}
@@ -68,7 +68,8 @@ import {
   generatePoKBDDT16MacFullVerifierStatementConstantTime,
   generatePoKBDDT16MacStatementFromParamRefsConstantTime,
   generatePoKBDDT16MacFullVerifierStatementFromParamRefsConstantTime,
-  generatePoKPSSignatureStatementFromParamRefsConstantTime
+  generatePoKPSSignatureStatementFromParamRefsConstantTime,
+  pedersenCommitmentG1
 } from 'crypto-wasm-new';
 import { BBSPlusPublicKeyG2, BBSPlusSignatureParamsG1 } from '../bbs-plus';
 import {
@@ -992,6 +993,19 @@ export class Statement {
     return Statement.pedersenCommitmentG1(b, pseudonym);
   }
 
+  /**
+   * Statement for proving that the witnesses satisfy the linear relation `c_1 * w_1 + c_2 * w_2 + ... + c_n * w_n = c` where
+   * the coefficients `c_i` and the constant `c` are public. This is a proof of knowledge of the opening of the commitment
+   * `base * c` with the commitment key `base * c_1, base * c_2, ..., base * c_n` so the witness is created using `Witness.pedersenCommitment`
+   * @param coefficients - Field elements. Negative coefficients should be reduced modulo the field order
+   * @param constant - Field element
+   * @param base - Group element in G1 whose discrete log isn't known to anyone
+   */
+  static linearCombinationG1(coefficients: Uint8Array[], constant: Uint8Array, base: Uint8Array): Uint8Array {
+    const multiple = (c: Uint8Array) => pedersenCommitmentG1([base], [c]);
+    return Statement.pedersenCommitmentG1(coefficients.map(multiple), multiple(constant));
+  }
+
   static r1csCircomProver(
     r1cs: R1CS | ParsedR1CSFile,
     wasmBytes: Uint8Array,
@@ -4,7 +4,7 @@ import {
   fieldElementAsBytes,
   generateFieldElementFromNumber
 } from 'crypto-wasm-new';
-import { convertDateToTimestamp, flattenObjectToKeyValuesList, isPositiveInteger } from './util';
+import { convertDateToTimestamp, flattenObjectToKeyValuesList, fromLeToBigInt, isPositiveInteger } from './util';
 import LZUTF8 from 'lzutf8';
 import { BytearrayWrapper } from './bytearray-wrapper';
 
@@ -120,6 +120,9 @@ export abstract class MessageEncoder extends BytearrayWrapper {
  * TODO: Support identity encoder for values that are already field elements.
  */
 export class Encoder {
+  // Hashed to get the encoding of an absent optional message so this can't be the value of an optional message
+  static readonly ABSENT_LABEL = '__absent__';
+
   // Mapping from the message name to the encoding function
   encoders?: Map<string, EncodeFunc>;
   // Encoding function to use when message name not found in mapping `encoders`
@@ -346,6 +349,70 @@ export class Encoder {
     };
   }
 
+  /**
+   * Returns a function that converts a value of an enum to its code, i.e. its index in `values`
+   * @param values - All values of the enum
+   */
+  static enumToPositiveInt(values: unknown[]): ToPositiveIntFunc {
+    return (v: unknown) => {
+      const code = values.indexOf(v);
+      if (code === -1) {
+        throw new Error(`Expected one of ${values} but was ${v}`);
+      }
+      return code;
+    };
+  }
+
+  /**
+   * Returns an encoding function to be used on a message that is a value of an enum, encoded as positive int, i.e. its
+   * index in `values`
+   * @param values - All values of the enum
+   */
+  static enumEncoder(values: unknown[]): EncodeFunc {
+    const f = Encoder.enumToPositiveInt(values);
+    return (v: unknown) => {
+      return MessageEncoder.encodePositiveNumberForSigning(f(v));
+    };
+  }
+
+  /**
+   * Reverse of `enumEncoder`. Returns the value of the enum that was encoded
+   * @param encoded - Output of the encoding function returned by `enumEncoder` or the code of the value
+   * @param values - All values of the enum
+   */
+  static decodeEnum(encoded: Uint8Array | number, values: unknown[]): unknown {
+    const code = typeof encoded === 'number' ? encoded : Number(fromLeToBigInt(encoded));
+    if (!isPositiveInteger(code) || code >= values.length) {
+      throw new Error(`Code ${code} isn't valid for an enum with ${values.length} values`);
+    }
+    return values[code];
+  }
+
+  /**
+   * Returns an encoding function for an optional message. The message is `null` when absent and is then encoded to the
+   * value returned by `absentEncoding`, else it's encoded using `f`.
+   * @param f - Encoding function for the message when present
+   */
+  static optionalEncoder(f: EncodeFunc): EncodeFunc {
+    return (v: unknown) => {
+      if (v === null) {
+        return Encoder.absentEncoding();
+      }
+      if (v === Encoder.ABSENT_LABEL) {
+        throw new Error(`${v} is reserved for encoding absent messages`);
+      }
+      return f(v);
+    };
+  }
+
+  /**
+   * Encoding of an absent optional message. As this is the hash of a reserved label, it differs from the encoding of
+   * any present message except with negligible probability.
+   */
+  static absentEncoding(): Uint8Array {
+    return MessageEncoder.encodeMessageForSigningConstantTime(MessageEncoder.textEncoder.encode(Encoder.ABSENT_LABEL));
+  }
+
   /**
    * Returns an encoding function to be used on a message that is a date
    */
@@ -1,5 +1,6 @@
 export { initializeWasm, isWasmInitialized, requireWasmInitialized } from './init';
 export * from './util';
+export * from './cbor';
 export * from './bbs-plus';
 export * from './bbs';
 export * from './bbdt16-mac';
@@ -23,7 +23,7 @@ export class ThresholdBbsPlusSigner extends ThresholdSigner {
   /**
    * Create a share of the BBS+ signature to be given to the user
    * @param messages - the messages to be signed for this signature
-   * @param indexInBatch - the index (0-based) of this signature in the batch
+   * @param indexInBatch - the index (0-based) of this signature in the batch. A share can be created only once for an index
    * @param params
    * @param encodeMessages
    */
@@ -34,6 +34,7 @@ export class ThresholdBbsPlusSigner extends ThresholdSigner {
     encodeMessages: boolean
   ): ThresholdBbsPlusSignatureShare {
     this.ensureRound2Finished();
+    this.ensureIndexInBatchUnused(indexInBatch);
     const sigShare = thresholdBbsPlusCreateSignatureShare(
       messages,
       indexInBatch,
@@ -42,6 +43,7 @@ export class ThresholdBbsPlusSigner extends ThresholdSigner {
       params.value,
       encodeMessages
     );
+    this.usedIndicesInBatch.add(indexInBatch);
     return new ThresholdBbsPlusSignatureShare(sigShare);
   }
 
@@ -64,6 +64,11 @@ export abstract class ThresholdSigner {
   msg1s?: Map<number, Message1>;
   msg2s?: Map<number, Message2>;
 
+  // Indices in the batch for which this signer has created a signature share. A signer must not create 2 shares for the
+  // same index as they would use the same randomness from this execution of the protocol so if the signer's state is
+  // persisted to create shares later, this should be persisted with it.
+  readonly usedIndicesInBatch: Set<number>;
+
   private round1State?: Uint8Array;
   protected round1Output?: Uint8Array;
   private round2State?: Uint8Array;
@@ -86,6 +91,7 @@ export abstract class ThresholdSigner {
     this.threshold = threshold;
     this.sigBatchSize = sigBatchSize;
     this.protocolId = protocolId;
+    this.usedIndicesInBatch = new Set();
   }
 
   /**
@@ -230,6 +236,22 @@ export abstract class ThresholdSigner {
     }
   }
 
+  /**
+   * Throws if a signature share can't be created for the given index, i.e. the index is not less than the batch size or
+   * this signer has already created a share for it.
+   * @param indexInBatch
+   */
+  ensureIndexInBatchUnused(indexInBatch: number) {
+    if (!Number.isInteger(indexInBatch) || indexInBatch < 0 || indexInBatch >= this.sigBatchSize) {
+      throw new Error(
+        `Index in batch should be an integer less than the batch size ${this.sigBatchSize} but was ${indexInBatch}`
+      );
+    }
+    if (this.usedIndicesInBatch.has(indexInBatch)) {
+      throw new Error(`Signer ${this.id} has already created a signature share for index ${indexInBatch} in batch`);
+    }
+  }
+
   hasReceivedCommitmentsFromAll(): boolean {
     return this.recvCommFrom?.size == this.threshold - 1;
   }
@@ -179,6 +179,61 @@ export function fromLeToBigInt(arr: Uint8Array, readTill = arr.length): bigint {
   return r;
 }
 
+// Order of the scalar field of curve BLS12-381
+const BLS12_381_FR_ORDER = BigInt('0x73eda753299d7d483339d80809a1d80553bda402fffe5bfeffffffff00000001');
+
+/**
+ * Convert an integer to a field element as a little-endian bytearray of 32 bytes. Negative integers are reduced modulo the
+ * field order
+ * @param n
+ */
+export function bigIntToFieldElement(n: bigint): Uint8Array {
+  let r = n % BLS12_381_FR_ORDER;
+  if (r < BigInt(0)) {
+    r += BLS12_381_FR_ORDER;
+  }
+  const bytes = new Uint8Array(32);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Number(r & BigInt(0xff));
+    r >>= BigInt(8);
+  }
+  return bytes;
+}
+
+/**
+ * Inverse of an integer modulo the field order as a field element. Throws if the integer is 0 modulo the field order
+ * @param n
+ */
+export function bigIntToInverseFieldElement(n: bigint): Uint8Array {
+  let base = n % BLS12_381_FR_ORDER;
+  if (base < BigInt(0)) {
+    base += BLS12_381_FR_ORDER;
+  }
+  if (base === BigInt(0)) {
+    throw new Error('0 has no inverse');
+  }
+  // Using Fermat's little theorem, the inverse is n^(order - 2)
+  let exp = BLS12_381_FR_ORDER - BigInt(2);
+  let r = BigInt(1);
+  while (exp > BigInt(0)) {
+    if (exp & BigInt(1)) {
+      r = (r * base) % BLS12_381_FR_ORDER;
+    }
+    base = (base * base) % BLS12_381_FR_ORDER;
+    exp >>= BigInt(1);
+  }
+  return bigIntToFieldElement(r);
+}
+
+/**
+ * Subtract field elements given as little-endian bytearrays, i.e. returns `a - b` modulo the field order
+ * @param a
+ * @param b
+ */
+export function subtractFieldElements(a: Uint8Array, b: Uint8Array): Uint8Array {
+  return bigIntToFieldElement(fromLeToBigInt(a) - fromLeToBigInt(b));
+}
+
 export function areUint8ArraysEqual(arr1: Uint8Array, arr2: Uint8Array): boolean {
   if (arr1.length !== arr2.length) {
     return false;
@@ -10,6 +10,8 @@ import {
   BlindedCredentialRequestBuilder,
   CredentialSchema,
   dockAccumulatorParams,
+  PSBlindedCredential,
+  PSBlindedCredentialRequestBuilder,
   dockSaverEncryptionGens,
   getR1CS,
   LegoProvingKeyUncompressed,
@@ -78,7 +80,13 @@ import {
 } from '../utils';
 import { flatten, unflatten } from 'flat';
 import { InMemoryState } from '../../src/accumulator/in-memory-persistence';
-import { BBDT16BlindedCredentialRequest, BBSBlindedCredentialRequest, BBSPlusBlindedCredentialRequest, BlindedCredentialRequest } from '../../src';
+import {
+  BBDT16BlindedCredentialRequest,
+  BBSBlindedCredentialRequest,
+  BBSPlusBlindedCredentialRequest,
+  BlindedCredentialRequest,
+  PSBlindedCredentialRequest
+} from '../../src';
 
 const loadSnarkSetupFromFiles = true;
 
@@ -98,7 +106,13 @@ function newReqBuilder(
   schema: CredentialSchema,
   subjectToBlind: object
 ): BlindedCredentialRequestBuilder<SignatureParams> {
-  const reqBuilder = isKvac() ? new BBDT16BlindedCredentialRequestBuilder() : isBBS() ? new BBSBlindedCredentialRequestBuilder() : new BBSPlusBlindedCredentialRequestBuilder();
+  const reqBuilder = isKvac()
+    ? new BBDT16BlindedCredentialRequestBuilder()
+    : isBBS()
+      ? new BBSBlindedCredentialRequestBuilder()
+      : isPS()
+        ? new PSBlindedCredentialRequestBuilder()
+        : new BBSPlusBlindedCredentialRequestBuilder();
   reqBuilder.schema = schema;
   reqBuilder.subjectToBlind = subjectToBlind;
   return reqBuilder;
@@ -126,30 +140,46 @@ function checkReqJson(
   const reqJson = req.toJSON();
   const recreatedReq = isKvac() ? BBDT16BlindedCredentialRequest.fromJSON(reqJson) : isBBS()
     ? BBSBlindedCredentialRequest.fromJSON(reqJson)
-    : BBSPlusBlindedCredentialRequest.fromJSON(reqJson);
+    : isPS()
+      ? PSBlindedCredentialRequest.fromJSON(reqJson)
+      : BBSPlusBlindedCredentialRequest.fromJSON(reqJson);
   checkResult(
     recreatedReq.verify(pks, accumulatorPublicKeys, predicateParams, circomOutputs, blindedAttributesCircomOutputs)
   );
   expect(recreatedReq.toJSON()).toEqual(reqJson);
+  const reqCbor = req.toCBOR();
+  const recreatedFromCbor = isKvac() ? BBDT16BlindedCredentialRequest.fromCBOR(reqCbor) : isBBS()
+    ? BBSBlindedCredentialRequest.fromCBOR(reqCbor)
+    : isPS()
+      ? PSBlindedCredentialRequest.fromCBOR(reqCbor)
+      : BBSPlusBlindedCredentialRequest.fromCBOR(reqCbor);
+  expect(recreatedFromCbor.toJSON()).toEqual(reqJson);
+}
+
+// PS needs the signer's public key to unblind
+function unblind(blindedCred, blindedSubject: object, blinding, pk: PublicKey, blindedStatus?: object, blindedTopLevelFields?: Map<string, unknown>) {
+  return isBBS()
+    ? blindedCred.toCredential(blindedSubject, blindedStatus, blindedTopLevelFields)
+    : isPS()
+      ? blindedCred.toCredential(blindedSubject, blinding, pk, blindedStatus, blindedTopLevelFields)
+      : blindedCred.toCredential(blindedSubject, blinding, blindedStatus, blindedTopLevelFields);
 }
 
 function checkBlindedCredJson(blindedCred: BlindedCredential<any>, sk: SecretKey, pk: PublicKey, blindedSubject: object, blinding?: Uint8Array, blindedStatus?: object, blindedTopLevelFields?: Map<string, unknown>) {
   const credJson = blindedCred.toJSON();
-  const recreatedCred = isKvac() ? BBDT16BlindedCredential.fromJSON(credJson) : isBBS() ? BBSBlindedCredential.fromJSON(credJson) : BBSPlusBlindedCredential.fromJSON(credJson);
-  // @ts-ignore
-  const cred = isBBS()
-    ? // @ts-ignore
-      recreatedCred.toCredential(blindedSubject, blindedStatus, blindedTopLevelFields)
-    // @ts-ignore
-    : recreatedCred.toCredential(blindedSubject, blinding, blindedStatus, blindedTopLevelFields);
+  const recreatedCred = isKvac()
+    ? BBDT16BlindedCredential.fromJSON(credJson)
+    : isBBS()
+      ? BBSBlindedCredential.fromJSON(credJson)
+      : isPS()
+        ? PSBlindedCredential.fromJSON(credJson)
+        : BBSPlusBlindedCredential.fromJSON(credJson);
+  const cred = unblind(recreatedCred, blindedSubject, blinding, pk, blindedStatus, blindedTopLevelFields);
   verifyCred(cred, pk, sk);
   expect(recreatedCred.toJSON()).toEqual(credJson);
 }
 
-// Skip the tests if PS signatures are used as blind sigs are not integrated yet
-const skipIfPS = isPS() ? describe.skip : describe;
-
-skipIfPS.each([true, false])(`${Scheme} Blind issuance of credentials with withSchemaRef=%s`, (withSchemaRef) => {
+describe.each([true, false])(`${Scheme} Blind issuance of credentials with withSchemaRef=%s`, (withSchemaRef) => {
   let sk1: SecretKey, pk1: PublicKey;
   let sk2: SecretKey, pk2: PublicKey;
   let sk3: SecretKey, pk3: PublicKey;
@@ -374,9 +404,7 @@ skipIfPS.each([true, false])(`${Scheme} Blind issuance of credentials with withS
       accumulator1State
     );
 
-    credential1 = isBBS()
-      ? blindedCred.toCredential(blindedSubject)
-      : blindedCred.toCredential(blindedSubject, blinding);
+    credential1 = unblind(blindedCred, blindedSubject, blinding, pk1);
     verifyCred(credential1, pk1, sk1);
     const verifAccumulator = PositiveAccumulator.fromAccumulated(accumulator1.accumulated);
     expect(
@@ -453,9 +481,7 @@ skipIfPS.each([true, false])(`${Scheme} Blind issuance of credentials with withS
     };
 
     const blindedCred = blindedCredBuilder.sign(sk1);
-    const credential = isBBS()
-      ? blindedCred.toCredential(blindedSubject, {[REV_ID_STR]: revId})
-      : blindedCred.toCredential(blindedSubject, blinding, {[REV_ID_STR]: revId});
+    const credential = unblind(blindedCred, blindedSubject, blinding, pk1, {[REV_ID_STR]: revId});
     verifyCred(credential, pk1, sk1);
     expect(credential.credentialStatus).toEqual(credential1.credentialStatus);
 
@@ -464,11 +490,12 @@ skipIfPS.each([true, false])(`${Scheme} Blind issuance of credentials with withS
     // Using a different rev id fails
     const wrongRevId = 'tran:2022-YZ4-150';
     expect(revId).not.toEqual(wrongRevId);
-    const credentialInvalid = isBBS()
-      ? blindedCred.toCredential(blindedSubject, {[REV_ID_STR]: wrongRevId})
-      : blindedCred.toCredential(blindedSubject, blinding, {[REV_ID_STR]: wrongRevId});
+    const credentialInvalid = unblind(blindedCred, blindedSubject, blinding, pk1, {[REV_ID_STR]: wrongRevId});
     if (isKvac()) {
       expect(credentialInvalid.verifyUsingSecretKey(sk1).verified).toEqual(false);
+    } else if (isPS()) {
+      // Verification of an invalid PS signature throws
+      expect(() => credentialInvalid.verify(pk1)).toThrow();
     } else {
       expect(credentialInvalid.verify(pk1).verified).toEqual(false);
     }
@@ -550,9 +577,7 @@ skipIfPS.each([true, false])(`${Scheme} Blind issuance of credentials with withS
     const blindedTopLevelFields = new Map<string, unknown>();
     blindedTopLevelFields.set('validFrom', 1662010840000);
     blindedTopLevelFields.set('validUntil', 1662010849999);
-    const credential5 = isBBS()
-      ? blindedCred.toCredential(blindedSubject, {[REV_ID_STR]: revId}, blindedTopLevelFields)
-      : blindedCred.toCredential(blindedSubject, blinding, {[REV_ID_STR]: revId}, blindedTopLevelFields);
+    const credential5 = unblind(blindedCred, blindedSubject, blinding, pk1, {[REV_ID_STR]: revId}, blindedTopLevelFields);
     verifyCred(credential5, pk1, sk1);
 
     checkBlindedCredJson(blindedCred, sk1, pk1, blindedSubject, blinding, {[REV_ID_STR]: revId}, blindedTopLevelFields);
@@ -561,11 +586,12 @@ skipIfPS.each([true, false])(`${Scheme} Blind issuance of credentials with withS
     const wrongTopLevelFields = new Map<string, unknown>();
     wrongTopLevelFields.set('validFrom', 1662010840001);
     wrongTopLevelFields.set('validUntil', 1662010849990);
-    const credentialInvalid = isBBS()
-      ? blindedCred.toCredential(blindedSubject, {[REV_ID_STR]: revId}, wrongTopLevelFields)
-      : blindedCred.toCredential(blindedSubject, blinding, {[REV_ID_STR]: revId}, wrongTopLevelFields);
+    const credentialInvalid = unblind(blindedCred, blindedSubject, blinding, pk1, {[REV_ID_STR]: revId}, wrongTopLevelFields);
     if (isKvac()) {
       expect(credentialInvalid.verifyUsingSecretKey(sk1).verified).toEqual(false);
+    } else if (isPS()) {
+      // Verification of an invalid PS signature throws
+      expect(() => credentialInvalid.verify(pk1)).toThrow();
     } else {
       expect(credentialInvalid.verify(pk1).verified).toEqual(false);
     }
@@ -629,9 +655,7 @@ skipIfPS.each([true, false])(`${Scheme} Blind issuance of credentials with withS
     };
     const blindedCred = blindedCredBuilder.sign(sk2);
 
-    credential2 = isBBS()
-      ? blindedCred.toCredential(blindedSubject)
-      : blindedCred.toCredential(blindedSubject, blinding);
+    credential2 = unblind(blindedCred, blindedSubject, blinding, pk2);
     verifyCred(credential2, pk2, sk2);
 
     checkBlindedCredJson(blindedCred, sk2, pk2, blindedSubject, blinding);
@@ -940,9 +964,7 @@ skipIfPS.each([true, false])(`${Scheme} Blind issuance of credentials with withS
     blindedCredBuilder.setTopLevelField('expirationDate', 1662011950934);
     const blindedCred = blindedCredBuilder.sign(sk3);
 
-    credential3 = isBBS()
-      ? blindedCred.toCredential(blindedSubject)
-      : blindedCred.toCredential(blindedSubject, blinding);
+    credential3 = unblind(blindedCred, blindedSubject, blinding, pk3);
     verifyCred(credential3, pk3, sk3);
 
     checkBlindedCredJson(blindedCred, sk3, pk3, blindedSubject, blinding);
@@ -1111,9 +1133,7 @@ skipIfPS.each([true, false])(`${Scheme} Blind issuance of credentials with withS
     };
     const blindedCred = blindedCredBuilder.sign(sk3);
 
-    const credential = isBBS()
-      ? blindedCred.toCredential(blindedSubject)
-      : blindedCred.toCredential(blindedSubject, blinding);
+    const credential = unblind(blindedCred, blindedSubject, blinding, pk3);
     verifyCred(credential, pk3, sk3);
 
     checkBlindedCredJson(blindedCred, sk3, pk3, blindedSubject, blinding);
@@ -1250,9 +1270,7 @@ skipIfPS.each([true, false])(`${Scheme} Blind issuance of credentials with withS
     };
     const blindedCred = blindedCredBuilder.sign(sk3);
 
-    const credential = isBBS()
-      ? blindedCred.toCredential(blindedSubject)
-      : blindedCred.toCredential(blindedSubject, blinding);
+    const credential = unblind(blindedCred, blindedSubject, blinding, pk3);
     verifyCred(credential, pk3, sk3);
   });
 
@@ -1422,9 +1440,7 @@ skipIfPS.each([true, false])(`${Scheme} Blind issuance of credentials with withS
     blindedCredBuilder.setTopLevelField('expirationDate', 1662011950934);
     const blindedCred = blindedCredBuilder.sign(sk3);
 
-    credential3 = isBBS()
-      ? blindedCred.toCredential(blindedSubject)
-      : blindedCred.toCredential(blindedSubject, blinding);
+    credential3 = unblind(blindedCred, blindedSubject, blinding, pk3);
     verifyCred(credential3, pk3, sk3);
 
     checkBlindedCredJson(blindedCred, sk3, pk3, blindedSubject, blinding);
@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import { CborObjectTag, CborTagged, decodeCbor, initializeWasm } from '../../src';
+import { Credential, isKvac, Presentation, PublicKey, Scheme, SecretKey } from '../scheme';
+import { checkResult } from '../utils';
+
+describe(`${Scheme} CBOR serialization of credentials and presentations`, () => {
+  const dir = `${__dirname}/serialized-objects`;
+  const fileNamePrefix = Scheme.toLowerCase();
+  const files = fs.readdirSync(dir);
+
+  beforeAll(async () => {
+    await initializeWasm();
+  });
+
+  it('serializes credentials of all versions', () => {
+    // Older KVAC credentials had a different proof type
+    const credFiles = files.filter(
+      (f) => f.startsWith(`${fileNamePrefix}_credential`) && f.endsWith('.json') && !(isKvac() && f.endsWith('0.4.0.json'))
+    );
+    expect(credFiles.length).toBeGreaterThan(0);
+    for (const f of credFiles) {
+      const jsonStr = fs.readFileSync(`${dir}/${f}`, 'utf8');
+      const cred = Credential.fromJSON(JSON.parse(jsonStr));
+      const cbor = cred.toCBOR();
+      expect(cbor.length).toBeLessThan(jsonStr.length);
+      // Deterministic
+      expect(cbor).toEqual(Credential.fromJSON(JSON.parse(jsonStr)).toCBOR());
+
+      const recreated = Credential.fromCBOR(cbor);
+      expect(recreated.toJSON()).toEqual(cred.toJSON());
+      expect(recreated.toCBOR()).toEqual(cbor);
+
+      const decoded = decodeCbor(cbor) as CborTagged;
+      expect(decoded.tag).toEqual(CborObjectTag.Credential);
+    }
+
+    // The signature is still valid
+    const credentialJson = JSON.parse(fs.readFileSync(`${dir}/${fileNamePrefix}_credential1-0.7.0.json`, 'utf8'));
+    const recreated = Credential.fromCBOR(Credential.fromJSON(credentialJson).toCBOR());
+    if (isKvac()) {
+      checkResult(recreated.verifyUsingSecretKey(SecretKey.fromBytes(fs.readFileSync(`${dir}/${fileNamePrefix}_sk1.bin`))));
+    } else {
+      checkResult(recreated.verify(PublicKey.fromBytes(fs.readFileSync(`${dir}/${fileNamePrefix}_pk1.bin`))));
+    }
+  });
+
+  it('serializes presentations of all versions', () => {
+    const presFiles = files.filter(
+      (f) => (f.startsWith(`${fileNamePrefix}-presentation`) || f.startsWith(`${fileNamePrefix}-circom-presentation`)) && f.endsWith('.json')
+    );
+    expect(presFiles.length).toBeGreaterThan(0);
+    for (const f of presFiles) {
+      const jsonStr = fs.readFileSync(`${dir}/${f}`, 'utf8');
+      const pres = Presentation.fromJSON(JSON.parse(jsonStr));
+      const cbor = pres.toCBOR();
+      expect(cbor.length).toBeLessThan(jsonStr.length);
+
+      const recreated = Presentation.fromCBOR(cbor);
+      expect(recreated.toJSON()).toEqual(pres.toJSON());
+      expect(recreated.toCBOR()).toEqual(cbor);
+    }
+  });
+
+  it('rejects CBOR of another kind of object', () => {
+    const credentialJson = JSON.parse(fs.readFileSync(`${dir}/${fileNamePrefix}_credential1-0.7.0.json`, 'utf8'));
+    const cbor = Credential.fromJSON(credentialJson).toCBOR();
+    expect(() => Presentation.fromCBOR(cbor)).toThrow(
+      `Expected CBOR tag ${CborObjectTag.Presentation} but found ${CborObjectTag.Credential}`
+    );
+  });
+});
@@ -0,0 +1,209 @@
+import {
+  AccumulatorPublicKey,
+  AccumulatorSecretKey,
+  BBDT16BlindedCredentialRequestBuilder,
+  BBSBlindedCredentialRequestBuilder,
+  BBSPlusBlindedCredentialRequestBuilder,
+  BlindedCredentialRequestBuilder,
+  CredentialSchema,
+  dockAccumulatorParams,
+  initializeWasm,
+  ICredentialRefreshRequest,
+  InMemoryKeyResolver,
+  MEM_CHECK_STR,
+  PositiveAccumulator,
+  prepareCredentialRefresh,
+  PSBlindedCredentialRequestBuilder,
+  REV_ID_STR,
+  revokeRefreshedCredential,
+  STATUS_STR,
+  SUBJECT_STR,
+  verifyCredentialRefreshRequest
+} from '../../src';
+import { InMemoryState } from '../../src/accumulator/in-memory-persistence';
+import {
+  Credential,
+  CredentialBuilder,
+  isBBS,
+  isKvac,
+  isPS,
+  PublicKey,
+  Scheme,
+  SecretKey,
+  SignatureParams
+} from '../scheme';
+import { checkResult, stringToBytes } from '../utils';
+import { getKeys, verifyCred } from './utils';
+
+describe(`${Scheme} Refreshing credentials`, () => {
+  let sk: SecretKey, pk: PublicKey;
+  let accumSk: AccumulatorSecretKey, accumPk: AccumulatorPublicKey;
+  let accumulator: PositiveAccumulator;
+  let accumState: InMemoryState;
+  let schema: CredentialSchema;
+  let credential: Credential;
+
+  const registryId = 'dock:accumulator:accumId1';
+  const oldRevId = 'user:1';
+  const linkSecretName = `${SUBJECT_STR}.linkSecret`;
+
+  function newReqBuilder(): BlindedCredentialRequestBuilder<SignatureParams> {
+    return isKvac()
+      ? new BBDT16BlindedCredentialRequestBuilder()
+      : isPS()
+      ? new PSBlindedCredentialRequestBuilder()
+      : isBBS()
+      ? new BBSBlindedCredentialRequestBuilder()
+      : new BBSPlusBlindedCredentialRequestBuilder();
+  }
+
+  function pkIfPS(): PublicKey | undefined {
+    return isPS() ? pk : undefined;
+  }
+
+  async function addAccumInfo(reqBuilder: BlindedCredentialRequestBuilder<SignatureParams>, credIdx: number) {
+    const member = schema.encoder.encodeMessage(`${STATUS_STR}.${REV_ID_STR}`, oldRevId);
+    const witness = await accumulator.membershipWitness(member, accumSk, accumState);
+    reqBuilder.addAccumInfoForCredStatus(credIdx, witness, accumulator.accumulated, accumPk);
+  }
+
+  function finalize(reqBuilder): [any, any] {
+    if (isBBS()) {
+      return [reqBuilder.finalize(), undefined];
+    }
+    return reqBuilder.finalize();
+  }
+
+  beforeAll(async () => {
+    await initializeWasm();
+    [sk, pk] = getKeys('seed1');
+    const accumKeypair = PositiveAccumulator.generateKeypair(dockAccumulatorParams(), stringToBytes('accum-seed'));
+    accumSk = accumKeypair.secretKey;
+    accumPk = accumKeypair.publicKey;
+    accumulator = PositiveAccumulator.initialize(dockAccumulatorParams());
+    accumState = new InMemoryState();
+
+    const jsonSchema = CredentialSchema.essential();
+    jsonSchema.properties[SUBJECT_STR] = {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        linkSecret: { type: 'string' },
+        address: { type: 'object', properties: { city: { type: 'string' } } }
+      }
+    };
+    jsonSchema.properties[STATUS_STR] = CredentialSchema.statusAsJsonSchema();
+    schema = new CredentialSchema(jsonSchema);
+
+    await accumulator.addBatch(
+      [
+        schema.encoder.encodeMessage(`${STATUS_STR}.${REV_ID_STR}`, oldRevId),
+        schema.encoder.encodeMessage(`${STATUS_STR}.${REV_ID_STR}`, 'user:2')
+      ],
+      accumSk,
+      accumState
+    );
+
+    const builder = new CredentialBuilder();
+    builder.schema = schema;
+    builder.subject = { name: 'John', linkSecret: 'secret-of-john', address: { city: 'London' } };
+    builder.setCredentialStatus(registryId, MEM_CHECK_STR, oldRevId);
+    credential = builder.sign(sk);
+    verifyCred(credential, pk, sk);
+  });
+
+  it('rejects requests not keeping the blinded attributes of the old credential', async () => {
+    const reqBuilder1 = newReqBuilder();
+    reqBuilder1.subjectToBlind = { linkSecret: 'secret-of-john' };
+    expect(() => prepareCredentialRefresh(reqBuilder1, credential, [linkSecretName], pkIfPS())).toThrow(
+      'Subject to blind should not be set'
+    );
+    expect(() => prepareCredentialRefresh(newReqBuilder(), credential, [])).toThrow();
+    expect(() => prepareCredentialRefresh(newReqBuilder(), credential, [`${STATUS_STR}.${REV_ID_STR}`])).toThrow(
+      'can be kept blinded'
+    );
+    expect(() => prepareCredentialRefresh(newReqBuilder(), credential, [`${SUBJECT_STR}.email`])).toThrow(
+      "isn't present"
+    );
+
+    // Blinded attribute isn't proven equal to the old credential's
+    const reqBuilder = newReqBuilder();
+    reqBuilder.schema = schema;
+    reqBuilder.subjectToBlind = { linkSecret: 'another-secret' };
+    const credIdx = reqBuilder.addCredentialToPresentation(credential, pkIfPS());
+    await addAccumInfo(reqBuilder, credIdx);
+    const [request] = finalize(reqBuilder);
+    const accumPks = new Map([[0, accumPk]]);
+    const issuerKeys = [isKvac() ? sk : pk];
+    const current = accumulator.accumulated;
+    let result = verifyCredentialRefreshRequest({ request, credentialIndex: credIdx }, issuerKeys, accumPks, current);
+    expect(result.verified).toEqual(false);
+    expect(result.error).toContain(`Blinded attribute ${linkSecretName} isn't proven equal`);
+    result = verifyCredentialRefreshRequest({ request, credentialIndex: 1 }, issuerKeys, accumPks, current);
+    expect(result.error).toContain('No credential at index 1');
+
+    // Revocation id must be the one proven in the request
+    const reqBuilder2 = newReqBuilder();
+    const prepared = prepareCredentialRefresh(reqBuilder2, credential, [linkSecretName], pkIfPS());
+    await addAccumInfo(reqBuilder2, prepared.credentialIndex);
+    const [request2] = finalize(reqBuilder2);
+    checkResult(verifyCredentialRefreshRequest({ request: request2, ...prepared }, issuerKeys, accumPks, current));
+    result = verifyCredentialRefreshRequest(
+      { request: request2, ...prepared, revocationId: 'user:2' },
+      issuerKeys,
+      accumPks,
+      current
+    );
+    expect(result.error).toContain("Revocation id user:2 isn't proven");
+    await expect(
+      revokeRefreshedCredential({ request: request2, ...prepared }, accumulator, accumSk, accumState)
+    ).rejects.toThrow('does not reveal the revocation id');
+  });
+
+  it('issues a new credential with updated attributes and the same blinded attributes', async () => {
+    const reqBuilder = newReqBuilder();
+    const prepared = prepareCredentialRefresh(reqBuilder, credential, [linkSecretName], pkIfPS(), true);
+    expect(prepared).toEqual({ credentialIndex: 0, revocationId: oldRevId });
+    expect(reqBuilder.subjectToBlind).toEqual({ linkSecret: 'secret-of-john' });
+    await addAccumInfo(reqBuilder, prepared.credentialIndex);
+    const [request, blinding] = finalize(reqBuilder);
+    const refreshRequest: ICredentialRefreshRequest = { request, ...prepared };
+
+    // Issuer verifies the request and signs with the updated attributes and a new revocation id
+    const accumPks = new Map([[0, accumPk]]);
+    const issuerKeys = [isKvac() ? sk : pk];
+    // Issuer needs the current accumulated value as the old credential has a status
+    expect(verifyCredentialRefreshRequest(refreshRequest, issuerKeys, accumPks).error).toContain(
+      'Current accumulated value is needed'
+    );
+    checkResult(verifyCredentialRefreshRequest(refreshRequest, issuerKeys, accumPks, accumulator.accumulated));
+    const blindedCredBuilder = request.generateBlindedCredentialBuilder();
+    blindedCredBuilder.subject = { name: 'John', address: { city: 'Paris' } };
+    blindedCredBuilder.setCredentialStatus(registryId, MEM_CHECK_STR, 'user:3');
+    const blindedCred = blindedCredBuilder.sign(sk);
+    await accumulator.add(schema.encoder.encodeMessage(`${STATUS_STR}.${REV_ID_STR}`, 'user:3'), accumSk, accumState);
+    await revokeRefreshedCredential(refreshRequest, accumulator, accumSk, accumState);
+
+    const newCredential = isBBS()
+      ? blindedCred.toCredential(reqBuilder.subjectToBlind)
+      : isPS()
+      ? blindedCred.toCredential(reqBuilder.subjectToBlind, blinding, pk)
+      : blindedCred.toCredential(reqBuilder.subjectToBlind, blinding);
+    verifyCred(newCredential, pk, sk);
+    expect(newCredential.subject).toEqual({ name: 'John', linkSecret: 'secret-of-john', address: { city: 'Paris' } });
+    expect(await accumState.has(schema.encoder.encodeMessage(`${STATUS_STR}.${REV_ID_STR}`, oldRevId))).toEqual(false);
+
+    // Request can't be verified again as its accumulated value is stale now
+    expect(
+      verifyCredentialRefreshRequest(refreshRequest, issuerKeys, accumPks, accumulator.accumulated).error
+    ).toContain('not the current one');
+    const resolver = new InMemoryKeyResolver();
+    resolver.addAccumulator(registryId, accumPk, accumulator.accumulated);
+    expect(verifyCredentialRefreshRequest(refreshRequest, resolver).error).toContain('not the current one');
+
+    // Old credential can't be refreshed again as it's revoked
+    const reqBuilder1 = newReqBuilder();
+    prepareCredentialRefresh(reqBuilder1, credential, [linkSecretName], pkIfPS());
+    await expect(addAccumInfo(reqBuilder1, 0)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,208 @@
+import {
+  ComparisonOperator,
+  CredentialSchema,
+  CustomAttributeTypes,
+  initializeWasm,
+  MessageEncoder,
+  SCHEMA_DETAILS_STR,
+  SUBJECT_STR
+} from '../../src';
+import {
+  Credential,
+  CredentialBuilder,
+  isKvac,
+  isPS,
+  Presentation,
+  PresentationBuilder,
+  PublicKey,
+  Scheme,
+  SecretKey
+} from '../scheme';
+import { checkResult } from '../utils';
+import { getKeys, verifyCred } from './utils';
+
+describe(`${Scheme} Credentials with custom attribute types`, () => {
+  let sk: SecretKey, pk: PublicKey;
+  let schema: CredentialSchema;
+  let credential: Credential;
+
+  const durationName = `${SUBJECT_STR}.shiftDuration`;
+  const postalCodeName = `${SUBJECT_STR}.postalCode`;
+
+  // Converts a duration like "PT8H30M" to minutes. Numbers are taken to be minutes already
+  function durationToMinutes(v: unknown): number {
+    if (typeof v === 'number') {
+      return v;
+    }
+    const m = /^PT(?:(\d+)H)?(?:(\d+)M)?$/.exec(v as string);
+    if (m === null) {
+      throw new Error(`Invalid duration ${v}`);
+    }
+    return parseInt(m[1] ?? '0') * 60 + parseInt(m[2] ?? '0');
+  }
+
+  function jsonSchema(): any {
+    const s = CredentialSchema.essential();
+    s.properties[SUBJECT_STR] = {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        shiftDuration: { type: 'string', format: 'duration' },
+        postalCode: { type: 'string', format: 'postal-code' }
+      }
+    };
+    return s;
+  }
+
+  function sign(subject: object): Credential {
+    const builder = new CredentialBuilder();
+    builder.schema = schema;
+    builder.subject = subject;
+    const cred = builder.sign(sk);
+    verifyCred(cred, pk, sk);
+    return cred;
+  }
+
+  beforeAll(async () => {
+    await initializeWasm();
+    [sk, pk] = getKeys('seed1');
+    CustomAttributeTypes.register({
+      name: 'duration',
+      matches: (node) => node['format'] === 'duration',
+      toPositiveInt: durationToMinutes
+    });
+    CustomAttributeTypes.register({
+      name: 'postal-code',
+      matches: (node) => node['format'] === 'postal-code',
+      encoder: (v) => MessageEncoder.reversibleEncodeStringForSigning((v as string).toUpperCase()),
+      decoder: (encoded) => MessageEncoder.reversibleDecodeStringForSigning(encoded)
+    });
+    schema = new CredentialSchema(jsonSchema());
+    credential = sign({ name: 'John', shiftDuration: 'PT8H30M', postalCode: 'sw1a 1aa' });
+  });
+
+  afterAll(() => {
+    CustomAttributeTypes.unregister('duration');
+    CustomAttributeTypes.unregister('postal-code');
+  });
+
+  it('encodes attributes as per the registered types', () => {
+    expect(schema.customTypes()).toEqual(['duration', 'postal-code']);
+    expect(schema.encoder.encodeMessage(durationName, 'PT8H30M')).toEqual(
+      MessageEncoder.encodePositiveNumberForSigning(510)
+    );
+    expect(() => sign({ name: 'John', shiftDuration: '8 hours', postalCode: 'SW1A 1AA' })).toThrow('Invalid duration');
+
+    const encoded = schema.encoder.encodeMessage(postalCodeName, 'sw1a 1aa');
+    expect(schema.decodeValue(postalCodeName, encoded)).toEqual('SW1A 1AA');
+    expect(() => schema.decodeValue(durationName, encoded)).toThrow('no decoder');
+    expect(() => schema.decodeValue(`${SUBJECT_STR}.name`, encoded)).toThrow("can't be decoded");
+
+    expect(() =>
+      CustomAttributeTypes.register({ name: 'duration', matches: () => false, toPositiveInt: (v) => 0 })
+    ).toThrow('already registered');
+    expect(() => CustomAttributeTypes.register({ name: 'nothing', matches: () => false })).toThrow();
+    CustomAttributeTypes.register({
+      name: 'any-string',
+      matches: (node) => node['type'] === 'string',
+      toPositiveInt: (v) => 0
+    });
+    try {
+      expect(() => new CredentialSchema(jsonSchema())).toThrow('multiple custom attribute types');
+    } finally {
+      CustomAttributeTypes.unregister('any-string');
+    }
+
+    // Older schemas ignore the custom types
+    const old = new CredentialSchema(jsonSchema(), undefined, true, { version: '0.5.0' });
+    expect(old.customTypes()).toEqual([]);
+    expect(old.encoder.encodeMessage(durationName, 'PT8H30M')).not.toEqual(
+      schema.encoder.encodeMessage(durationName, 'PT8H30M')
+    );
+  });
+
+  it('records the custom types in the serialized schema', () => {
+    const j = schema.toJSON();
+    expect(JSON.parse(j[SCHEMA_DETAILS_STR])['customTypes']).toEqual(['duration', 'postal-code']);
+    expect(CredentialSchema.fromJSON(j).customTypes()).toEqual(['duration', 'postal-code']);
+    verifyCred(Credential.fromJSON(credential.toJSON()), pk, sk);
+
+    // Schemas without custom types don't record them
+    const s = CredentialSchema.essential();
+    s.properties[SUBJECT_STR] = { type: 'object', properties: { name: { type: 'string' } } };
+    expect(JSON.parse(new CredentialSchema(s).toJSON()[SCHEMA_DETAILS_STR])['customTypes']).toBeUndefined();
+
+    // A verifier without the type registered can't deserialize the schema
+    CustomAttributeTypes.unregister('postal-code');
+    try {
+      expect(() => CredentialSchema.fromJSON(j)).toThrow('postal-code used by the schema is not registered');
+      expect(() => Credential.fromJSON(credential.toJSON())).toThrow('not registered');
+    } finally {
+      CustomAttributeTypes.register({
+        name: 'postal-code',
+        matches: (node) => node['format'] === 'postal-code',
+        encoder: (v) => MessageEncoder.reversibleEncodeStringForSigning((v as string).toUpperCase()),
+        decoder: (encoded) => MessageEncoder.reversibleDecodeStringForSigning(encoded)
+      });
+    }
+  });
+
+  it('proves bounds on custom attributes', () => {
+    let builder = new PresentationBuilder();
+    builder.addCredential(credential, isPS() ? pk : undefined);
+    builder.markAttributesRevealed(0, new Set([postalCodeName]));
+    // Shift is between 8 and 9 hours
+    builder.enforceBounds(0, durationName, 480, 540);
+    const pres = builder.finalize();
+    checkResult(pres.verify([isKvac() ? sk : pk]));
+    checkResult(Presentation.fromJSON(pres.toJSON()).verify([isKvac() ? sk : pk]));
+    expect(pres.spec.credentials[0].revealedAttributes[SUBJECT_STR]['postalCode']).toEqual('sw1a 1aa');
+
+    builder = new PresentationBuilder();
+    builder.addCredential(credential, isPS() ? pk : undefined);
+    builder.enforceBounds(0, durationName, 540, 600);
+    expect(() => builder.finalize()).toThrow();
+
+    builder = new PresentationBuilder();
+    builder.addCredential(credential, isPS() ? pk : undefined);
+    builder.enforceBounds(0, postalCodeName, 0, 100);
+    expect(() => builder.finalize()).toThrow("can't be used in bound checks");
+  });
+
+  it('compares custom attributes and bounds their linear combinations', () => {
+    const other = sign({ name: 'Jane', shiftDuration: 'PT7H', postalCode: 'EC1A 1BB' });
+    const durations = (builder: PresentationBuilder) => {
+      builder.addCredential(credential, isPS() ? pk : undefined);
+      builder.addCredential(other, isPS() ? pk : undefined);
+    };
+    const verifyingKeys = isKvac() ? [sk, sk] : [pk, pk];
+
+    // 1st shift is more than an hour longer than the 2nd one and both shifts together are between 15 and 16 hours
+    let builder = new PresentationBuilder();
+    durations(builder);
+    builder.enforceAttributeComparison([0, durationName], ComparisonOperator.Gt, [1, durationName], 1, 60);
+    builder.enforceBoundsOnLinearCombination(
+      [
+        [0, durationName],
+        [1, durationName]
+      ],
+      [1, 1],
+      900,
+      960
+    );
+    const pres = builder.finalize();
+    checkResult(pres.verify(verifyingKeys));
+    checkResult(Presentation.fromJSON(pres.toJSON()).verify(verifyingKeys));
+
+    builder = new PresentationBuilder();
+    durations(builder);
+    builder.enforceAttributeComparison([0, durationName], ComparisonOperator.Gt, [1, durationName], 1, 120);
+    expect(() => builder.finalize()).toThrow();
+
+    // Types without a conversion to integer can't be compared
+    builder = new PresentationBuilder();
+    durations(builder);
+    builder.enforceAttributeComparison([0, postalCodeName], ComparisonOperator.Lt, [1, postalCodeName]);
+    expect(() => builder.finalize()).toThrow("can't be converted to an integer");
+  });
+});
@@ -0,0 +1,288 @@
+import { generateRandomFieldElement } from 'crypto-wasm-new';
+import {
+  BBDT16BlindedCredentialRequestBuilder,
+  BBSBlindedCredentialRequestBuilder,
+  BBSPlusBlindedCredentialRequestBuilder,
+  CircomProtocol,
+  ComparisonOperator,
+  CredentialSchema,
+  DisclosureType,
+  IDisclosure,
+  initializeWasm,
+  PseudonymBases,
+  VALID_UNTIL_STR,
+  VerifiableEncryptionProtocol
+} from '../../src';
+import {
+  Credential,
+  CredentialBuilder,
+  isBBS,
+  isKvac,
+  isPS,
+  Presentation,
+  PresentationBuilder,
+  PublicKey,
+  Scheme,
+  SecretKey
+} from '../scheme';
+import { stringToBytes } from '../utils';
+import { getExampleSchema, getKeys } from './utils';
+
+describe(`${Scheme} Summary of what a presentation discloses`, () => {
+  let sk: SecretKey, pk: PublicKey;
+  let credSchema: CredentialSchema;
+  let credential1: Credential;
+  let credential2: Credential;
+
+  const scope = stringToBytes('verifier.example.com');
+
+  beforeAll(async () => {
+    await initializeWasm();
+    [sk, pk] = getKeys('seed1');
+
+    const schema = getExampleSchema(9);
+    schema.$id = 'https://example.com/schemas/person';
+    Object.assign(schema.properties, CredentialSchema.validityPeriodAsJsonSchema());
+    credSchema = new CredentialSchema(schema);
+    const subject = {
+      fname: 'John',
+      lname: 'Smith',
+      email: 'john.smith@example.com',
+      SSN: '123-456789-0',
+      userId: 'user:123-xyz-#',
+      country: 'USA',
+      city: 'New York',
+      timeOfBirth: 1662010849619,
+      height: 181.5,
+      weight: 210.4,
+      BMI: 23.25,
+      score: -13.5,
+      secret: 'my-secret-that-wont-tell-anyone'
+    };
+    const builder1 = new CredentialBuilder();
+    builder1.schema = credSchema;
+    builder1.subject = subject;
+    builder1.setValidityPeriod(new Date('2024-01-01T00:00:00Z'), new Date('2030-01-01T00:00:00Z'));
+    credential1 = builder1.sign(sk);
+
+    const builder2 = new CredentialBuilder();
+    builder2.schema = credSchema;
+    builder2.subject = { ...subject, email: 'john@example.org', score: 20.5 };
+    builder2.setValidityPeriod(new Date('2024-01-01T00:00:00Z'), new Date('2031-01-01T00:00:00Z'));
+    credential2 = builder2.sign(sk);
+  });
+
+  function newBuilder(): PresentationBuilder {
+    const builder = new PresentationBuilder();
+    builder.addCredential(credential1, isPS() ? pk : undefined);
+    builder.addCredential(credential2, isPS() ? pk : undefined);
+    builder.markAttributesRevealed(0, new Set(['credentialSubject.fname', 'credentialSubject.country']));
+    builder.enforceBounds(0, 'credentialSubject.height', 150, 200.5);
+    builder.enforceNotExpired(1, new Date('2026-10-18T00:00:00Z'));
+    builder.enforceAttributeInequality(0, 'credentialSubject.email', 'alice@example.com');
+    builder.enforceSetMembership(1, 'credentialSubject.city', ['New York', 'Boston']);
+    builder.enforceAttributeEquality([0, 'credentialSubject.SSN'], [1, 'credentialSubject.SSN']);
+    builder.enforceAttributeComparison([1, 'credentialSubject.score'], ComparisonOperator.Gt, [
+      0,
+      'credentialSubject.score'
+    ]);
+    builder.addUnboundedPseudonym(PseudonymBases.generateBaseForSecretKey(scope), generateRandomFieldElement());
+    builder.addBoundedPseudonym(
+      PseudonymBases.generateBasesForAttributes(1, stringToBytes('another scope')),
+      new Map([[1, ['credentialSubject.userId']]])
+    );
+    return builder;
+  }
+
+  it('describes the presentation before and after creating it', () => {
+    const builder = newBuilder();
+    const summary = builder.describe([scope]);
+
+    expect(summary.credentials.length).toEqual(2);
+    expect(summary.credentials[0].schemaId).toEqual('https://example.com/schemas/person');
+
+    const byType = (disclosures: IDisclosure[], type: DisclosureType) => disclosures.filter((d) => d.type === type);
+    const cred1 = summary.credentials[0].disclosures;
+    const cred2 = summary.credentials[1].disclosures;
+    expect(byType(cred1, DisclosureType.RevealedAttribute).map((d) => [d.attributes, d.params.value])).toEqual([
+      [[[0, 'credentialSubject.country']], 'USA'],
+      [[[0, 'credentialSubject.fname']], 'John']
+    ]);
+    expect(byType(cred2, DisclosureType.RevealedAttribute).length).toEqual(0);
+    expect(byType(cred1, DisclosureType.Bound)).toEqual([
+      {
+        type: DisclosureType.Bound,
+        attributes: [[0, 'credentialSubject.height']],
+        params: { min: 150, max: 200.5, paramId: undefined },
+        message: 'Attribute credentialSubject.height is proven to be in [150, 200.5) without revealing it'
+      }
+    ]);
+    expect(byType(cred2, DisclosureType.Expiry)).toEqual([
+      {
+        type: DisclosureType.Expiry,
+        attributes: [[1, VALID_UNTIL_STR]],
+        params: { time: new Date('2026-10-18T00:00:00Z').getTime() },
+        message: 'Credential is proven to be unexpired at 2026-10-18T00:00:00.000Z'
+      }
+    ]);
+    expect(byType(cred1, DisclosureType.Inequality)[0].params).toEqual({ inEqualTo: 'alice@example.com' });
+    expect(byType(cred2, DisclosureType.SetMembership)[0].params).toEqual({ values: ['New York', 'Boston'] });
+
+    expect(summary.disclosures.map((d) => d.type)).toEqual([
+      DisclosureType.AttributeEquality,
+      DisclosureType.AttributeComparison,
+      DisclosureType.Pseudonym,
+      DisclosureType.Pseudonym
+    ]);
+    expect(summary.disclosures[0].attributes).toEqual([
+      [0, 'credentialSubject.SSN'],
+      [1, 'credentialSubject.SSN']
+    ]);
+    // Bounded pseudonym's scope isn't known
+    expect(summary.disclosures[2].attributes).toEqual([[1, 'credentialSubject.userId']]);
+    expect(summary.disclosures[2].params.scope).not.toBeDefined();
+    expect(summary.disclosures[3].params.scope).toEqual(scope);
+    expect(summary.disclosures[3].message).toContain('for scope verifier.example.com');
+
+    // Same summary from the presentation's specification
+    const pres = builder.finalize();
+    expect(pres.spec.describe([scope])).toEqual(summary);
+    expect(Presentation.fromJSON(pres.toJSON()).spec.describe([scope])).toEqual(summary);
+    // Pseudonyms are the presented ones
+    const pseudonyms = summary.disclosures.slice(2).map((d) => d.params.pseudonym);
+    expect(pseudonyms).toEqual([
+      ...Object.keys(pres.spec.boundedPseudonyms ?? {}),
+      ...Object.keys(pres.spec.unboundedPseudonyms ?? {})
+    ]);
+    // Describing after finalize doesn't include the attributes that finalize always reveals
+    expect(builder.describe([scope])).toEqual(summary);
+  });
+
+  it('describes the blinded attributes of a blind credential request', () => {
+    if (isPS()) {
+      // Blind issuance isn't implemented for PS
+      return;
+    }
+    const reqBuilder = isKvac()
+      ? new BBDT16BlindedCredentialRequestBuilder()
+      : isBBS()
+      ? new BBSBlindedCredentialRequestBuilder()
+      : new BBSPlusBlindedCredentialRequestBuilder();
+    reqBuilder.schema = credSchema;
+    reqBuilder.subjectToBlind = { email: 'john@example.net', SSN: '123-456789-0', height: 181.5 };
+    reqBuilder.addCredentialToPresentation(credential1);
+    reqBuilder.enforceEqualityOnBlindedAttribute(['credentialSubject.SSN', [[0, 'credentialSubject.SSN']]]);
+    reqBuilder.enforcePrivateInequalityOnBlindedAttribute('credentialSubject.email', [0, 'credentialSubject.email']);
+    reqBuilder.enforceBoundsOnBlindedAttribute('credentialSubject.height', 150, 200.5);
+    reqBuilder.enforceInequalityOnBlindedAttribute('credentialSubject.email', 'alice@example.com');
+    reqBuilder.addPseudonymToCredentialAndBlindedAttributes(
+      PseudonymBases.generateBasesForAttributes(2, scope),
+      new Map([[0, ['credentialSubject.userId']]]),
+      ['credentialSubject.SSN']
+    );
+    const r = reqBuilder.finalize();
+    const req = Array.isArray(r) ? r[0] : r;
+
+    const summary = req.presentation.spec.describe([scope]);
+    expect(summary.disclosures.map((d) => d.type)).toEqual([
+      DisclosureType.BlindCredentialRequest,
+      DisclosureType.PrivateInequality,
+      DisclosureType.Bound,
+      DisclosureType.Inequality,
+      DisclosureType.Pseudonym
+    ]);
+    const [, privIneq, bound, ineq, pseudonym] = summary.disclosures;
+    expect(privIneq).toEqual({
+      type: DisclosureType.PrivateInequality,
+      attributes: [[0, 'credentialSubject.email']],
+      params: { blindedAttribute: 'credentialSubject.email' },
+      message:
+        'Blinded attribute credentialSubject.email and attribute (0,credentialSubject.email) are proven unequal without revealing them'
+    });
+    expect(bound).toEqual({
+      type: DisclosureType.Bound,
+      attributes: [],
+      params: { blindedAttribute: 'credentialSubject.height', min: 150, max: 200.5, paramId: undefined },
+      message: 'Blinded attribute credentialSubject.height is proven to be in [150, 200.5) without revealing it'
+    });
+    expect(ineq.params).toEqual({ blindedAttribute: 'credentialSubject.email', inEqualTo: 'alice@example.com' });
+    expect(pseudonym.attributes).toEqual([[0, 'credentialSubject.userId']]);
+    expect(pseudonym.params.pseudonym).toEqual(
+      Object.keys(req.presentation.spec.blindCredentialRequest?.pseudonyms ?? {})[0]
+    );
+    expect(pseudonym.params.blindedAttributes).toEqual(['credentialSubject.SSN']);
+    expect(pseudonym.params.scope).toEqual(scope);
+    expect(pseudonym.message).toContain(
+      'derived from attributes (0,credentialSubject.userId) and blinded attributes credentialSubject.SSN'
+    );
+
+    // Same summary from the builder
+    expect(reqBuilder.presentationBuilder.describe([scope])).toEqual(summary);
+
+    // Predicates needing setup keys are added to the specification directly as only describing them is tested here
+    const spec = req.presentation.spec;
+    if (spec.blindCredentialRequest === undefined) {
+      throw new Error('Expected a blind credential request');
+    }
+    const verifiableEncryptions = {
+      credentialSubject: {
+        SSN: [
+          {
+            chunkBitSize: 16,
+            commitmentGensId: 'comm-gens',
+            encryptionKeyId: 'enc-key',
+            snarkKeyId: 'snark-key',
+            protocol: VerifiableEncryptionProtocol.Saver
+          }
+        ]
+      }
+    };
+    // Predicates of nested attributes are nested objects
+    // @ts-ignore
+    spec.blindCredentialRequest.verifiableEncryptions = verifiableEncryptions;
+    spec.blindCredentialRequest.circomPredicates = [
+      {
+        privateVars: [{ varName: 'x', attributeName: { credentialSubject: { height: null } } }],
+        publicVars: [],
+        circuitId: 'height-check',
+        snarkKeyId: 'circuit-key',
+        protocol: CircomProtocol.Legogroth16
+      }
+    ];
+    const summary1 = spec.describe([scope]);
+    const byType = (type: DisclosureType) => summary1.disclosures.filter((d) => d.type === type);
+    expect(byType(DisclosureType.VerifiableEncryption)).toEqual([
+      {
+        type: DisclosureType.VerifiableEncryption,
+        attributes: [],
+        params: {
+          blindedAttribute: 'credentialSubject.SSN',
+          encryptionKeyId: 'enc-key',
+          commitmentGensId: 'comm-gens',
+          snarkKeyId: 'snark-key',
+          chunkBitSize: 16
+        },
+        message: 'Blinded attribute credentialSubject.SSN is encrypted for the holder of the decryption key of enc-key'
+      }
+    ]);
+    expect(byType(DisclosureType.CircomPredicate)).toEqual([
+      {
+        type: DisclosureType.CircomPredicate,
+        attributes: [],
+        params: { circuitId: 'height-check', blindedAttributes: ['credentialSubject.height'] },
+        message: 'Blinded attributes credentialSubject.height are proven to satisfy the predicate height-check'
+      }
+    ]);
+  });
+
+  it('describes a presentation revealing nothing', () => {
+    const builder = new PresentationBuilder();
+    builder.addCredential(credential1, isPS() ? pk : undefined);
+    const summary = builder.describe();
+    expect(summary).toEqual({
+      credentials: [{ credIdx: 0, schemaId: 'https://example.com/schemas/person', disclosures: [] }],
+      disclosures: []
+    });
+    expect(builder.finalize().spec.describe()).toEqual(summary);
+  });
+});
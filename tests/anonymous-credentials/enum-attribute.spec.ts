@@ -0,0 +1,137 @@
+import { CredentialSchema, Encoder, initializeWasm, SUBJECT_STR } from '../../src';
+import {
+  Credential,
+  CredentialBuilder,
+  isKvac,
+  isPS,
+  Presentation,
+  PresentationBuilder,
+  PublicKey,
+  Scheme,
+  SecretKey
+} from '../scheme';
+import { checkResult } from '../utils';
+import { getKeys, verifyCred } from './utils';
+
+describe(`${Scheme} Credentials with enum attributes`, () => {
+  let sk1: SecretKey, pk1: PublicKey, sk2: SecretKey, pk2: PublicKey;
+  let schema1: CredentialSchema, schema2: CredentialSchema;
+  let credential1: Credential;
+  let credential2: Credential;
+
+  const licenseClassName = `${SUBJECT_STR}.licenseClass`;
+  const levelName = `${SUBJECT_STR}.level`;
+
+  function jsonSchema(licenseClasses: string[]): any {
+    const s = CredentialSchema.essential();
+    s.properties[SUBJECT_STR] = {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        licenseClass: { type: 'string', enum: licenseClasses },
+        level: { type: 'integer', minimum: 0, enum: [10, 20, 30] }
+      }
+    };
+    return s;
+  }
+
+  function sign(schema: CredentialSchema, sk: SecretKey, pk: PublicKey, subject: object): Credential {
+    const builder = new CredentialBuilder();
+    builder.schema = schema;
+    builder.subject = subject;
+    const cred = builder.sign(sk);
+    verifyCred(cred, pk, sk);
+    return cred;
+  }
+
+  function verify(pres: Presentation, keys: (PublicKey | SecretKey)[]) {
+    checkResult(pres.verify(keys));
+    checkResult(Presentation.fromJSON(pres.toJSON()).verify(keys));
+  }
+
+  beforeAll(async () => {
+    await initializeWasm();
+    [sk1, pk1] = getKeys('seed1');
+    [sk2, pk2] = getKeys('seed2');
+    schema1 = new CredentialSchema(jsonSchema(['A', 'B', 'C', 'D']));
+    // Another issuer spells the same classes differently
+    schema2 = new CredentialSchema(jsonSchema(['class-a', 'class-b', 'class-c', 'class-d']));
+    credential1 = sign(schema1, sk1, pk1, { name: 'John', licenseClass: 'C', level: 20 });
+    credential2 = sign(schema2, sk2, pk2, { name: 'John', licenseClass: 'class-c', level: 30 });
+  });
+
+  it('encodes values as their index in the enum', () => {
+    expect(schema1.enumValues(licenseClassName)).toEqual(['A', 'B', 'C', 'D']);
+    expect(schema1.enumValues(levelName)).toEqual([10, 20, 30]);
+    expect(schema1.enumCode(licenseClassName, 'C')).toEqual(2);
+    expect(schema1.enumCode(levelName, 30)).toEqual(2);
+    expect(() => schema1.enumCode(licenseClassName, 'E')).toThrow();
+    expect(() => schema1.enumValues(`${SUBJECT_STR}.name`)).toThrow('not an enum');
+
+    const encoded = schema1.encoder.encodeMessage(licenseClassName, 'C');
+    expect(encoded).toEqual(Encoder.enumEncoder(['A', 'B', 'C', 'D'])('C'));
+    expect(encoded).toEqual(schema2.encoder.encodeMessage(licenseClassName, 'class-c'));
+    expect(schema1.decodeEnumValue(licenseClassName, encoded)).toEqual('C');
+    expect(schema2.decodeEnumValue(licenseClassName, encoded)).toEqual('class-c');
+    expect(schema1.decodeEnumValue(levelName, 1)).toEqual(20);
+    expect(() => schema1.decodeEnumValue(levelName, 3)).toThrow();
+
+    const recreated = Credential.fromJSON(credential1.toJSON());
+    verifyCred(recreated, pk1, sk1);
+    expect(recreated.subject['licenseClass']).toEqual('C');
+
+    expect(() => sign(schema1, sk1, pk1, { name: 'John', licenseClass: 'E', level: 20 })).toThrow();
+    expect(() => new CredentialSchema(jsonSchema([]))).toThrow();
+    expect(() => new CredentialSchema(jsonSchema(['A', 'B', 'A']))).toThrow('duplicate');
+    const s = jsonSchema(['A']);
+    s.properties[SUBJECT_STR].properties.level.enum = [10, 'twenty'];
+    expect(() => new CredentialSchema(s)).toThrow('not of type integer');
+
+    // Schemas older than 0.6.0 encode the value as per its type
+    const oldJsonSchema = jsonSchema([]);
+    delete oldJsonSchema.properties[SUBJECT_STR].properties.licenseClass;
+    const old = new CredentialSchema(oldJsonSchema, undefined, true, { version: '0.5.0' });
+    expect(old.encoder.encodeMessage(levelName, 20)).toEqual(Encoder.positiveIntegerEncoder()(20));
+    expect(() => old.enumValues(levelName)).toThrow();
+  });
+
+  it('reveals and proves membership in a subset of the enum', () => {
+    let builder = new PresentationBuilder();
+    builder.addCredential(credential1, isPS() ? pk1 : undefined);
+    builder.markAttributesRevealed(0, new Set([licenseClassName]));
+    builder.enforceEnumMembership(0, levelName, [20, 30]);
+    let pres = builder.finalize();
+    verify(pres, [isKvac() ? sk1 : pk1]);
+    expect(pres.spec.credentials[0].revealedAttributes[SUBJECT_STR]['licenseClass']).toEqual('C');
+
+    builder = new PresentationBuilder();
+    builder.addCredential(credential1, isPS() ? pk1 : undefined);
+    builder.enforceEnumMembership(0, licenseClassName, ['B', 'C']);
+    // Bounds are over the codes, i.e. the class is one of "B", "C" or "D"
+    builder.enforceBounds(0, licenseClassName, schema1.enumCode(licenseClassName, 'B'), 4);
+    pres = builder.finalize();
+    verify(pres, [isKvac() ? sk1 : pk1]);
+
+    builder = new PresentationBuilder();
+    builder.addCredential(credential1, isPS() ? pk1 : undefined);
+    expect(() => builder.enforceEnumMembership(0, licenseClassName, ['B', 'E'])).toThrow('not a value');
+    expect(() => builder.enforceEnumMembership(0, `${SUBJECT_STR}.name`, ['John'])).toThrow('not an enum');
+    builder.enforceEnumMembership(0, licenseClassName, ['A', 'B']);
+    expect(() => builder.finalize()).toThrow();
+  });
+
+  it('proves equality of enum attributes with different spellings', () => {
+    const builder = new PresentationBuilder();
+    builder.addCredential(credential1, isPS() ? pk1 : undefined);
+    builder.addCredential(credential2, isPS() ? pk2 : undefined);
+    builder.enforceAttributeEquality([0, licenseClassName], [1, licenseClassName]);
+    const pres = builder.finalize();
+    verify(pres, isKvac() ? [sk1, sk2] : [pk1, pk2]);
+
+    const builder1 = new PresentationBuilder();
+    builder1.addCredential(credential1, isPS() ? pk1 : undefined);
+    builder1.addCredential(credential2, isPS() ? pk2 : undefined);
+    builder1.enforceAttributeEquality([0, levelName], [1, levelName]);
+    expect(() => builder1.finalize()).toThrow();
+  });
+});
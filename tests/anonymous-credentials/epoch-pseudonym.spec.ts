@@ -0,0 +1,218 @@
+import { generateFieldElementFromNumber } from 'crypto-wasm-new';
+import {
+  BoundCheckProtocol,
+  CredentialSchema,
+  EpochBoundPseudonym,
+  EpochPseudonymRegistry,
+  InMemoryEpochPseudonymRegistryState,
+  initializeWasm,
+  PseudonymBases,
+  SUBJECT_STR
+} from '../../src';
+import {
+  Credential,
+  CredentialBuilder,
+  isKvac,
+  isPS,
+  Presentation,
+  PresentationBuilder,
+  PublicKey,
+  Scheme,
+  SecretKey
+} from '../scheme';
+import { checkResult, stringToBytes } from '../utils';
+import { getKeys, verifyCred } from './utils';
+
+describe(`${Scheme} Presentation with epoch scoped pseudonyms`, () => {
+  let sk: SecretKey, pk: PublicKey;
+  let credential1: Credential;
+  let credential2: Credential;
+
+  const scope = stringToBytes('api.example.com');
+  const otherScope = stringToBytes('other.example.com');
+  // An hour
+  const epochDuration = 3600 * 1000;
+  const now = new Date('2026-10-18T09:30:00Z');
+  const epoch = PseudonymBases.epochOf(now, epochDuration);
+  const secretAttr = new Map([[0, ['credentialSubject.secret']]]);
+
+  beforeAll(async () => {
+    await initializeWasm();
+    [sk, pk] = getKeys('seed1');
+
+    const schema = CredentialSchema.essential();
+    schema.properties[SUBJECT_STR] = {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        secret: { type: 'string' }
+      }
+    };
+    const credSchema = new CredentialSchema(schema);
+    const creds: Credential[] = [];
+    for (const subject of [
+      { name: 'John', secret: 'a-long-random-secret-of-john' },
+      { name: 'Jane', secret: 'a-long-random-secret-of-jane' }
+    ]) {
+      const builder = new CredentialBuilder();
+      builder.schema = credSchema;
+      builder.subject = subject;
+      const cred = builder.sign(sk);
+      verifyCred(cred, pk, sk);
+      creds.push(cred);
+    }
+    [credential1, credential2] = creds;
+  });
+
+  function present(cred: Credential, s: Uint8Array, e: number, counter = 0, maxCount = 1): Presentation {
+    const builder = new PresentationBuilder();
+    builder.addCredential(cred, isPS() ? pk : undefined);
+    builder.markAttributesRevealed(0, new Set(['credentialSubject.name']));
+    expect(builder.addEpochPseudonym(s, e, secretAttr, counter, maxCount)).toEqual(0);
+    const pres = builder.finalize();
+    checkResult(pres.verify([isKvac() ? sk : pk]));
+    return pres;
+  }
+
+  function pseudonymOf(pres: Presentation): string {
+    const pseudonyms = Object.keys(pres.spec.epochPseudonyms ?? {});
+    expect(pseudonyms.length).toEqual(1);
+    return pseudonyms[0];
+  }
+
+  it('derives epoch bases and epochs', () => {
+    expect(epoch).toEqual(Math.floor(now.getTime() / epochDuration));
+    expect(PseudonymBases.epochOf(now.getTime(), epochDuration)).toEqual(epoch);
+    const base = PseudonymBases.generateBaseForEpoch(scope, epoch);
+    expect(PseudonymBases.generateBaseForEpoch(scope, epoch)).toEqual(base);
+    expect(PseudonymBases.generateBaseForEpoch(scope, epoch + 1)).not.toEqual(base);
+    expect(PseudonymBases.generateBaseForEpoch(otherScope, epoch)).not.toEqual(base);
+    expect(() => PseudonymBases.generateBaseForEpoch(scope, -1)).toThrow();
+    expect(() => PseudonymBases.generateBaseForEpoch(scope, 0.5)).toThrow();
+    expect(() => PseudonymBases.epochOf(now, 0)).toThrow();
+  });
+
+  it('gives different pseudonyms to holders with close or swapped attributes', () => {
+    const base = PseudonymBases.generateBaseForEpoch(scope, epoch);
+    const weights = PseudonymBases.generateWeightsForEpoch(scope, 2);
+    expect(weights.length).toEqual(3);
+    expect(PseudonymBases.generateWeightsForEpoch(otherScope, 2)).not.toEqual(weights);
+    const fe = (n: number) => generateFieldElementFromNumber(n);
+    const pseudonym = (a: number, b: number, counter: number) =>
+      EpochBoundPseudonym.new(base, weights, [fe(a), fe(b)], fe(counter)).value;
+
+    // Using up the counters doesn't take the pseudonyms of a holder with the next id
+    expect(pseudonym(100, 7, 1)).not.toEqual(pseudonym(101, 7, 0));
+    expect(pseudonym(100, 7, 0)).not.toEqual(pseudonym(100, 8, 1));
+    // Swapped attributes
+    expect(pseudonym(100, 7, 0)).not.toEqual(pseudonym(7, 100, 0));
+    expect(pseudonym(100, 7, 0)).toEqual(pseudonym(100, 7, 0));
+    expect(() => EpochBoundPseudonym.new(base, weights.slice(1), [fe(1), fe(2)], fe(0))).toThrow('Need 3 weights');
+  });
+
+  it('allows only one presentation per epoch', async () => {
+    const state = new InMemoryEpochPseudonymRegistryState();
+    const registry = new EpochPseudonymRegistry(state, scope, epochDuration);
+    const pres1 = present(credential1, scope, epoch);
+    expect(pres1.spec.epochPseudonyms?.[pseudonymOf(pres1)]).toEqual({
+      scope: PseudonymBases.decode(scope),
+      epoch,
+      maxCount: 1,
+      paramId: undefined,
+      protocol: BoundCheckProtocol.Bpp,
+      attributes: { 0: ['credentialSubject.secret'] }
+    });
+    checkResult(await registry.register(pres1, now));
+
+    // Same holder gets the same pseudonym in the epoch
+    const pres2 = present(credential1, scope, epoch);
+    expect(pseudonymOf(pres2)).toEqual(pseudonymOf(pres1));
+    expect((await registry.register(pres2, now)).verified).toEqual(false);
+    expect((await registry.register(Presentation.fromJSON(pres2.toJSON()), now)).verified).toEqual(false);
+
+    // Another holder
+    const pres3 = present(credential2, scope, epoch);
+    expect(pseudonymOf(pres3)).not.toEqual(pseudonymOf(pres1));
+    checkResult(await registry.register(pres3, now));
+
+    // Another verifier can't link the pseudonyms
+    const pres4 = present(credential1, otherScope, epoch);
+    expect(pseudonymOf(pres4)).not.toEqual(pseudonymOf(pres1));
+    expect((await registry.register(pres4, now)).verified).toEqual(false);
+
+    // Pseudonym for an old epoch isn't accepted
+    const nextEpochTime = now.getTime() + epochDuration;
+    expect((await registry.register(pres2, nextEpochTime)).verified).toEqual(false);
+    // The holder gets a new pseudonym in the next epoch
+    const pres5 = present(credential1, scope, epoch + 1);
+    expect(pseudonymOf(pres5)).not.toEqual(pseudonymOf(pres1));
+    checkResult(await registry.register(pres5, nextEpochTime));
+    expect((await registry.register(pres5, nextEpochTime)).verified).toEqual(false);
+    // Pseudonyms of the past epoch are forgotten
+    expect(Array.from(state.seen.keys())).toEqual([epoch + 1]);
+
+    // Another instance of the verifier, like after a restart, using the same state detects the repeat
+    const restarted = new EpochPseudonymRegistry(state, scope, epochDuration);
+    const result = await restarted.register(pres5, nextEpochTime);
+    expect(result.error).toContain('was already used');
+  });
+
+  it('allows k presentations per epoch using counters', async () => {
+    const registry = new EpochPseudonymRegistry(new InMemoryEpochPseudonymRegistryState(), scope, epochDuration, 3);
+    const pseudonyms = new Set<string>();
+    for (let counter = 0; counter < 3; counter++) {
+      const pres = present(credential1, scope, epoch, counter, 3);
+      pseudonyms.add(pseudonymOf(pres));
+      checkResult(await registry.register(Presentation.fromCBOR(pres.toCBOR()), now));
+      expect((await registry.register(pres, now)).verified).toEqual(false);
+    }
+    // All pseudonyms are different and the counter isn't revealed
+    expect(pseudonyms.size).toEqual(3);
+    const pres = present(credential1, scope, epoch, 1, 3);
+    expect(JSON.stringify(pres.toJSON())).not.toContain('counter');
+
+    const builder = new PresentationBuilder();
+    builder.addCredential(credential1, isPS() ? pk : undefined);
+    expect(() => builder.addEpochPseudonym(scope, epoch, secretAttr, 3, 3)).toThrow();
+    expect(() => builder.addEpochPseudonym(scope, epoch, secretAttr, -1, 3)).toThrow();
+    expect(() => builder.addEpochPseudonym(scope, epoch, secretAttr, 0, 0)).toThrow();
+    expect(() => builder.addEpochPseudonym(scope, epoch, new Map(), 0, 3)).toThrow();
+    expect(() => builder.addEpochPseudonym(scope, epoch, new Map([[1, ['credentialSubject.secret']]]))).toThrow();
+
+    // A bound on the counter beyond what the verifier allows is rejected
+    const pres2 = present(credential1, scope, epoch, 3, 4);
+    const result = await registry.register(pres2, now);
+    expect(result.verified).toEqual(false);
+    expect(result.error).toContain('allows 4 presentations per epoch');
+  });
+
+  it('fails verification when the presented scope, epoch or bound on the counter is changed', () => {
+    const pres = present(credential1, scope, epoch, 1, 2);
+    const pseudonym = pseudonymOf(pres);
+    for (const [key, value] of [
+      ['scope', PseudonymBases.decode(otherScope)],
+      ['epoch', epoch + 1],
+      ['maxCount', 1]
+    ]) {
+      const j = JSON.parse(JSON.stringify(pres.toJSON()));
+      j['spec']['epochPseudonyms'][pseudonym][key as string] = value;
+      expect(Presentation.fromJSON(j).verify([isKvac() ? sk : pk]).verified).toEqual(false);
+    }
+  });
+
+  it('is included in the disclosure summary', () => {
+    const pres = present(credential1, scope, epoch, 1, 2);
+    const disclosure = pres.spec.describe().disclosures[0];
+    expect(disclosure.params).toEqual({
+      pseudonym: pseudonymOf(pres),
+      scope,
+      usesSecretKey: false,
+      epoch,
+      maxCount: 2
+    });
+    expect(disclosure.attributes).toEqual([[0, 'credentialSubject.secret']]);
+    expect(disclosure.message).toContain(
+      `for scope api.example.com, for epoch ${epoch} with at most 2 presentations in the epoch`
+    );
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  AccumulatorPublicKey,
+  CredentialSchema,
+  InMemoryKeyResolver,
+  initializeWasm,
+  MEM_CHECK_STR,
+  PositiveAccumulator,
+  VBMembershipWitness
+} from '../../src';
+import { Credential, CredentialBuilder, isKvac, isPS, PresentationBuilder, PublicKey, Scheme, SecretKey } from '../scheme';
+import { checkResult, stringToBytes } from '../utils';
+import { getExampleSchema, getKeys, setupPrefilledAccum, verifyCred } from './utils';
+
+describe(`${Scheme} Presentation verification using key resolver`, () => {
+  let sk1: SecretKey, pk1: PublicKey;
+  let sk2: SecretKey, pk2: PublicKey;
+
+  let credential1: Credential;
+  let credential2: Credential;
+  let credential3: Credential;
+
+  let accumulatorPk: AccumulatorPublicKey;
+  let accumulator: PositiveAccumulator;
+  let accumulatorWitness: VBMembershipWitness;
+
+  function verifParam(sk: SecretKey, pk: PublicKey) {
+    return isKvac() ? sk : pk;
+  }
+
+  beforeAll(async () => {
+    await initializeWasm();
+    [sk1, pk1] = getKeys('seed1');
+    [sk2, pk2] = getKeys('seed2');
+
+    const schema = getExampleSchema(4);
+    schema.properties['issuer'] = { type: 'string' };
+    schema.properties['proof'] = {
+      type: 'object',
+      properties: { type: { type: 'string' }, verificationMethod: { type: 'string' } }
+    };
+    const credSchema = new CredentialSchema(schema);
+
+    // Proof type is same as the default but the key id is added to the proof
+    const defaultProof = {};
+    Credential.applyDefaultProofMetadataIfNeeded(defaultProof);
+
+    const issue = (issuer: string, keyId: string, userId: string) => {
+      const builder = new CredentialBuilder();
+      builder.schema = credSchema;
+      builder.subject = { fname: 'John', score: 10 };
+      builder.setTopLevelField('issuer', issuer);
+      builder.setTopLevelField('proof', { ...defaultProof['proof'], verificationMethod: keyId });
+      builder.setCredentialStatus('dock:accumulator:accumId123', MEM_CHECK_STR, userId);
+      return builder;
+    };
+
+    // Two credentials by the same issuer but signed with different keys and a credential by another issuer
+    credential1 = issue('did:example:issuer1', 'did:example:issuer1#key1', 'user:A-123').sign(sk1);
+    verifyCred(credential1, pk1, sk1);
+    credential2 = issue('did:example:issuer1', 'did:example:issuer1#key2', 'user:A-123').sign(sk2);
+    verifyCred(credential2, pk2, sk2);
+    credential3 = issue('did:example:issuer2', 'did:example:issuer2#key1', 'user:A-123').sign(sk2);
+    verifyCred(credential3, pk2, sk2);
+
+    // @ts-ignore
+    [, accumulatorPk, accumulator, accumulatorWitness] = await setupPrefilledAccum(
+      200,
+      122,
+      'user:A-',
+      credSchema,
+      stringToBytes('secret-seed-for-accum')
+    );
+  });
+
+  function createPresentation(revealKeyId = true) {
+    const builder = new PresentationBuilder();
+    const revealed = new Set(['issuer']);
+    if (revealKeyId) {
+      revealed.add('proof.verificationMethod');
+    }
+    for (const [cred, pk] of [
+      [credential1, pk1],
+      [credential2, pk2],
+      [credential3, pk2]
+    ]) {
+      const i = builder.addCredential(cred as Credential, isPS() ? (pk as PublicKey) : undefined);
+      builder.markAttributesRevealed(i, revealed);
+      builder.addAccumInfoForCredStatus(i, accumulatorWitness, accumulator.accumulated, accumulatorPk);
+    }
+    return builder.finalize();
+  }
+
+  it('resolves credential and accumulator keys from the presentation', () => {
+    const pres = createPresentation();
+
+    const resolver = new InMemoryKeyResolver();
+    resolver.addCredentialKey('did:example:issuer1', verifParam(sk1, pk1), 'did:example:issuer1#key1');
+    resolver.addCredentialKey('did:example:issuer1', verifParam(sk2, pk2), 'did:example:issuer1#key2');
+    resolver.addCredentialKey('did:example:issuer2', verifParam(sk2, pk2), 'did:example:issuer2#key1');
+    resolver.addAccumulator('dock:accumulator:accumId123', accumulatorPk, accumulator.accumulated);
+    checkResult(pres.verify(resolver));
+
+    // Wrong key for a key id fails verification
+    const wrongResolver = new InMemoryKeyResolver();
+    wrongResolver.addCredentialKey('did:example:issuer1', verifParam(sk1, pk1), 'did:example:issuer1#key1');
+    wrongResolver.addCredentialKey('did:example:issuer1', verifParam(sk1, pk1), 'did:example:issuer1#key2');
+    wrongResolver.addCredentialKey('did:example:issuer2', verifParam(sk2, pk2), 'did:example:issuer2#key1');
+    wrongResolver.addAccumulator('dock:accumulator:accumId123', accumulatorPk);
+    expect(pres.verify(wrongResolver).verified).toEqual(false);
+  });
+
+  it('resolves keys without key id', () => {
+    const pres = createPresentation(false);
+    const resolver = new InMemoryKeyResolver();
+    resolver.addCredentialKey('did:example:issuer1', verifParam(sk1, pk1));
+    resolver.addCredentialKey('did:example:issuer2', verifParam(sk2, pk2));
+    resolver.addAccumulator('dock:accumulator:accumId123', accumulatorPk);
+    // 2nd credential is signed with a different key than what is resolved
+    expect(pres.verify(resolver).verified).toEqual(false);
+  });
+
+  it('rejects credentials whose issuer key is not resolved', () => {
+    const resolver = new InMemoryKeyResolver();
+    resolver.addCredentialKey('did:example:issuer1', verifParam(sk1, pk1), 'did:example:issuer1#key1');
+    resolver.addCredentialKey('did:example:issuer1', verifParam(sk2, pk2), 'did:example:issuer1#key2');
+    resolver.addAccumulator('dock:accumulator:accumId123', accumulatorPk);
+    // Key of the 3rd credential's issuer is unknown. For KVAC, the credential must not be verified without the secret key
+    expect(() => createPresentation().verify(resolver)).toThrow(
+      "Key of issuer did:example:issuer2 with key id did:example:issuer2#key1 couldn't be resolved for credential index 2"
+    );
+
+    // Issuer is not revealed
+    const builder = new PresentationBuilder();
+    builder.addCredential(credential1, isPS() ? pk1 : undefined);
+    builder.addAccumInfoForCredStatus(0, accumulatorWitness, accumulator.accumulated, accumulatorPk);
+    expect(() => builder.finalize().verify(resolver)).toThrow('Issuer of credential index 0 is not revealed');
+  });
+
+  it('rejects stale or unknown accumulators', () => {
+    const pres = createPresentation();
+    const resolver = new InMemoryKeyResolver();
+    resolver.addCredentialKey('did:example:issuer1', verifParam(sk1, pk1), 'did:example:issuer1#key1');
+    resolver.addCredentialKey('did:example:issuer1', verifParam(sk2, pk2), 'did:example:issuer1#key2');
+    resolver.addCredentialKey('did:example:issuer2', verifParam(sk2, pk2), 'did:example:issuer2#key1');
+    expect(() => pres.verify(resolver)).toThrow('Accumulator with id dock:accumulator:accumId123 couldn\'t be resolved');
+
+    resolver.addAccumulator('dock:accumulator:accumId123', accumulatorPk, new Uint8Array(accumulator.accumulated.length));
+    expect(() => pres.verify(resolver)).toThrow('is not the current value of accumulator');
+
+    // Current value of the accumulator isn't checked when the resolver doesn't know it
+    resolver.addAccumulator('dock:accumulator:accumId123', accumulatorPk);
+    checkResult(pres.verify(resolver));
+  });
+});
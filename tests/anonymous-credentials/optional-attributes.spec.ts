@@ -0,0 +1,164 @@
+import { CredentialSchema, Encoder, initializeWasm, SUBJECT_STR } from '../../src';
+import {
+  Credential,
+  CredentialBuilder,
+  isKvac,
+  isPS,
+  Presentation,
+  PresentationBuilder,
+  PublicKey,
+  Scheme,
+  SecretKey
+} from '../scheme';
+import { checkResult } from '../utils';
+import { getKeys, verifyCred } from './utils';
+
+describe(`${Scheme} Credentials with optional attributes`, () => {
+  let sk: SecretKey, pk: PublicKey;
+  let schema: CredentialSchema;
+  let credential1: Credential;
+  let credential2: Credential;
+
+  const middleName = `${SUBJECT_STR}.middleName`;
+  const weightName = `${SUBJECT_STR}.weight`;
+
+  function jsonSchema(): any {
+    const s = CredentialSchema.essential();
+    s.properties[SUBJECT_STR] = {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        middleName: { type: 'string' },
+        weight: { type: 'integer', minimum: 0 },
+        address: {
+          type: 'object',
+          properties: {
+            city: { type: 'string' },
+            street: { type: 'string' }
+          },
+          required: ['city']
+        }
+      },
+      required: ['name', 'address']
+    };
+    return s;
+  }
+
+  function sign(subject: object): Credential {
+    const builder = new CredentialBuilder();
+    builder.schema = schema;
+    builder.subject = subject;
+    const cred = builder.sign(sk);
+    verifyCred(cred, pk, sk);
+    return cred;
+  }
+
+  function newBuilder(cred: Credential): PresentationBuilder {
+    const builder = new PresentationBuilder();
+    builder.addCredential(cred, isPS() ? pk : undefined);
+    return builder;
+  }
+
+  function verify(pres: Presentation) {
+    checkResult(pres.verify([isKvac() ? sk : pk]));
+    checkResult(Presentation.fromJSON(pres.toJSON()).verify([isKvac() ? sk : pk]));
+    checkResult(Presentation.fromCBOR(pres.toCBOR()).verify([isKvac() ? sk : pk]));
+  }
+
+  beforeAll(async () => {
+    await initializeWasm();
+    [sk, pk] = getKeys('seed1');
+    schema = new CredentialSchema(jsonSchema());
+    credential1 = sign({
+      name: 'John',
+      middleName: 'Jacob',
+      weight: 80,
+      address: { city: 'London', street: 'Baker Street' }
+    });
+    credential2 = sign({ name: 'Jane', address: { city: 'Paris' } });
+  });
+
+  it('signs credentials with missing optional attributes', () => {
+    expect(schema.isOptional(middleName)).toEqual(true);
+    expect(schema.isOptional(weightName)).toEqual(true);
+    expect(schema.isOptional(`${SUBJECT_STR}.address.street`)).toEqual(true);
+    expect(schema.isOptional(`${SUBJECT_STR}.name`)).toEqual(false);
+    expect(schema.isOptional(`${SUBJECT_STR}.address.city`)).toEqual(false);
+
+    // The credential keeps the attributes missing but they are signed as null
+    expect(credential2.subject['middleName']).toBeUndefined();
+    expect(credential2.serializeForSigning()[SUBJECT_STR]['middleName']).toBeNull();
+    expect(schema.encoder.encodeMessage(middleName, null)).toEqual(Encoder.absentEncoding());
+    expect(schema.encoder.encodeMessage(middleName, 'Jacob')).not.toEqual(Encoder.absentEncoding());
+    verifyCred(Credential.fromJSON(credential2.toJSON()), pk, sk);
+    verifyCred(Credential.fromJSON(credential1.toJSON()), pk, sk);
+    // Explicit null is same as missing
+    sign({ name: 'Jane', middleName: null, address: { city: 'Paris', street: null } });
+
+    expect(() => sign({ middleName: 'Jacob', address: { city: 'Paris' } })).toThrow();
+    expect(() => sign({ name: null, address: { city: 'Paris' } })).toThrow("can't be null");
+    expect(() => sign({ name: 'Jane', middleName: Encoder.ABSENT_LABEL, address: { city: 'Paris' } })).toThrow(
+      'reserved'
+    );
+
+    // Only literal attributes can be optional
+    const s = jsonSchema();
+    s.properties[SUBJECT_STR].required = ['name'];
+    const schema1 = new CredentialSchema(s);
+    expect(schema1.isOptional(`${SUBJECT_STR}.address.city`)).toEqual(false);
+    const builder = new CredentialBuilder();
+    builder.schema = schema1;
+    builder.subject = { name: 'Jane' };
+    expect(() => builder.sign(sk)).toThrow();
+
+    // Older schemas ignore `required`
+    const old = new CredentialSchema(jsonSchema(), undefined, true, { version: '0.5.0' });
+    expect(old.isOptional(middleName)).toEqual(false);
+  });
+
+  it('proves presence or absence of optional attributes without revealing them', () => {
+    let builder = newBuilder(credential1);
+    builder.proveAttributePresent(0, middleName);
+    expect(() => builder.proveAttributeAbsent(0, weightName)).toThrow('is present');
+    expect(() => builder.proveAttributePresent(0, `${SUBJECT_STR}.name`)).toThrow("isn't optional");
+    let pres = builder.finalize();
+    verify(pres);
+    expect(pres.spec.attributePresence(0, middleName)).toEqual(true);
+    expect(pres.spec.attributePresence(0, weightName)).toBeUndefined();
+    expect(pres.spec.describe().credentials[0].disclosures[0].message).toEqual(
+      `Attribute ${middleName} is proven to be present without revealing it`
+    );
+
+    builder = newBuilder(credential2);
+    builder.proveAttributeAbsent(0, middleName);
+    builder.proveAttributeAbsent(0, `${SUBJECT_STR}.address.street`);
+    builder.markAttributesRevealed(0, new Set([`${SUBJECT_STR}.name`]));
+    expect(() => builder.proveAttributePresent(0, weightName)).toThrow('is absent');
+    pres = builder.finalize();
+    verify(pres);
+    expect(pres.spec.credentials[0].revealedAttributes[SUBJECT_STR]['middleName']).toBeNull();
+    expect(pres.spec.attributePresence(0, middleName)).toEqual(false);
+    expect(pres.spec.attributePresence(0, `${SUBJECT_STR}.address.street`)).toEqual(false);
+    expect(pres.spec.attributePresence(0, `${SUBJECT_STR}.name`)).toEqual(true);
+    expect(pres.spec.describe().credentials[0].disclosures.map((d) => d.message)).toContain(
+      `Attribute ${middleName} is revealed to be absent`
+    );
+
+    // Holder can't claim that a present attribute is absent
+    builder = newBuilder(credential1);
+    builder.markAttributesRevealed(0, new Set([middleName]));
+    const j = JSON.parse(JSON.stringify(builder.finalize().toJSON()));
+    j['spec']['credentials'][0]['revealedAttributes'][SUBJECT_STR]['middleName'] = null;
+    expect(Presentation.fromJSON(j).verify([isKvac() ? sk : pk]).verified).toEqual(false);
+  });
+
+  it('proves predicates on present optional attributes', () => {
+    const builder = newBuilder(credential1);
+    builder.enforceBounds(0, weightName, 50, 100);
+    verify(builder.finalize());
+
+    const builder1 = newBuilder(credential2);
+    builder1.enforceBounds(0, weightName, 50, 100);
+    expect(() => builder1.finalize()).toThrow();
+  });
+});
@@ -0,0 +1,221 @@
+import {
+  BBDT16BlindedCredentialRequestBuilder,
+  BBSBlindedCredentialRequestBuilder,
+  BBSPlusBlindedCredentialRequestBuilder,
+  BoundCheckBppParams,
+  BoundCheckBppParamsUncompressed,
+  CredentialSchema,
+  initializeWasm,
+  ParamsCache,
+  SetupParam,
+  STATUS_STR
+} from '../../src';
+import {
+  Credential,
+  CredentialBuilder,
+  isBBS,
+  isKvac,
+  isPS,
+  PresentationBuilder,
+  PublicKey,
+  Scheme,
+  SecretKey,
+  SignatureParams
+} from '../scheme';
+import { PederCommKey } from '../../src/ped-com';
+import { checkResult, stringToBytes } from '../utils';
+import { getExampleSchema, getKeys, verifyCred } from './utils';
+
+describe(`${Scheme} Caching of params across presentations`, () => {
+  let sk: SecretKey, pk: PublicKey;
+  let credSchema: CredentialSchema;
+  let credential: Credential;
+
+  const bppParamsId = 'bpp-params';
+  let bppParams: BoundCheckBppParams;
+
+  beforeAll(async () => {
+    await initializeWasm();
+    [sk, pk] = getKeys('seed1');
+
+    // Credential without status
+    const schema = getExampleSchema(5);
+    delete schema.properties[STATUS_STR];
+    credSchema = new CredentialSchema(schema);
+    const builder = new CredentialBuilder();
+    builder.schema = credSchema;
+    builder.subject = {
+      fname: 'John',
+      lname: 'Smith',
+      sensitive: {
+        very: {
+          secret: 'my-secret-that-wont-tell-anyone'
+        },
+        email: 'john.smith@acme.com',
+        phone: '801009801',
+        SSN: '123-456789-0'
+      },
+      lessSensitive: {
+        location: {
+          country: 'USA',
+          city: 'New York'
+        },
+        department: {
+          name: 'Random',
+          location: {
+            name: 'Somewhere',
+            geo: {
+              lat: -23.658,
+              long: 2.556
+            }
+          }
+        }
+      },
+      rank: 6
+    };
+    credential = builder.sign(sk);
+    verifyCred(credential, pk, sk);
+
+    bppParams = new BoundCheckBppParams(stringToBytes('Bulletproofs++ testing'));
+  });
+
+  function param(size: number): SetupParam {
+    return new SetupParam(new Uint8Array(size));
+  }
+
+  it('evicts least recently used entries', () => {
+    expect(() => new ParamsCache({ maxEntries: 0 })).toThrow();
+    expect(() => new ParamsCache({ maxSize: -1 })).toThrow();
+
+    const cache = new ParamsCache({ maxEntries: 2 });
+    const a = cache.getStaticParam('a', () => param(10));
+    cache.getStaticParam('b', () => param(20));
+    expect(cache.numEntries).toEqual(2);
+    expect(cache.size).toEqual(30);
+
+    // Use "a" so that "b" is least recently used
+    expect(cache.getStaticParam('a', () => param(10))).toBe(a);
+    cache.getStaticParam('c', () => param(30));
+    expect(cache.numEntries).toEqual(2);
+    expect(cache.size).toEqual(40);
+    expect(cache.has(ParamsCache.staticParamKey('a'))).toEqual(true);
+    expect(cache.has(ParamsCache.staticParamKey('b'))).toEqual(false);
+    expect(cache.has(ParamsCache.staticParamKey('c'))).toEqual(true);
+
+    // Evicts by size
+    const cache1 = new ParamsCache({ maxSize: 50 });
+    cache1.getStaticParam('a', () => param(20));
+    cache1.getStaticParam('b', () => param(20));
+    cache1.getStaticParam('c', () => param(20));
+    expect(cache1.numEntries).toEqual(2);
+    expect(cache1.size).toEqual(40);
+    expect(cache1.has(ParamsCache.staticParamKey('a'))).toEqual(false);
+
+    // An entry bigger than the maximum size is kept till the next one is added
+    cache1.getStaticParam('d', () => param(60));
+    expect(cache1.numEntries).toEqual(1);
+    expect(cache1.has(ParamsCache.staticParamKey('d'))).toEqual(true);
+
+    expect(cache1.invalidate(ParamsCache.staticParamKey('d'))).toEqual(true);
+    expect(cache1.invalidate(ParamsCache.staticParamKey('d'))).toEqual(false);
+    expect(cache1.numEntries).toEqual(0);
+    expect(cache1.size).toEqual(0);
+  });
+
+  it('decompresses predicate params once', () => {
+    const cache = new ParamsCache();
+    const decompressed = cache.getDecompressedPredicateParam(bppParamsId, bppParams);
+    expect(decompressed).toBeInstanceOf(BoundCheckBppParamsUncompressed);
+    expect(cache.getDecompressedPredicateParam(bppParamsId, bppParams)).toBe(decompressed);
+
+    // Uncompressed params are returned as it is and not cached
+    const uncompressed = bppParams.decompress();
+    expect(cache.getDecompressedPredicateParam('other', uncompressed)).toBe(uncompressed);
+    expect(cache.has(ParamsCache.predicateParamKey('other'))).toEqual(false);
+
+    // A different param with the same id is decompressed again
+    const commKey = new PederCommKey(stringToBytes('a label'));
+    const decompressedCommKey = cache.getDecompressedPredicateParam(bppParamsId, commKey);
+    expect(decompressedCommKey).not.toBe(decompressed);
+    expect(decompressedCommKey).toEqual(commKey.decompress());
+    expect(cache.numEntries).toEqual(1);
+
+    expect(cache.invalidatePredicateParam(bppParamsId)).toEqual(true);
+    expect(cache.has(ParamsCache.predicateParamKey(bppParamsId))).toEqual(false);
+  });
+
+  it('reuses params when creating presentations', () => {
+    const cache = new ParamsCache();
+    const create = (nonce: string) => {
+      const builder = new PresentationBuilder();
+      builder.paramsCache = cache;
+      builder.addCredential(credential, isPS() ? pk : undefined);
+      builder.markAttributesRevealed(0, new Set(['credentialSubject.fname']));
+      builder.enforceBounds(0, 'credentialSubject.rank', 2, 10);
+      builder.enforceBounds(
+        0,
+        'credentialSubject.lessSensitive.department.location.geo.lat',
+        -30,
+        50,
+        bppParamsId,
+        bppParams
+      );
+      builder.enforceAttributeInequality(0, 'credentialSubject.sensitive.email', 'alice@example.com');
+      builder.nonce = stringToBytes(nonce);
+      return builder.finalize();
+    };
+
+    const pres1 = create('nonce-1');
+    expect(cache.has(ParamsCache.staticParamKey('boundCheckBppSetup'))).toEqual(true);
+    expect(cache.has(ParamsCache.staticParamKey('inequalityCommKey'))).toEqual(true);
+    expect(cache.has(ParamsCache.predicateParamKey(bppParamsId))).toEqual(true);
+    const numEntries = cache.numEntries;
+
+    const pres2 = create('nonce-2');
+    expect(cache.numEntries).toEqual(numEntries);
+
+    const predicateParams = new Map();
+    predicateParams.set(bppParamsId, bppParams);
+    for (const pres of [pres1, pres2]) {
+      checkResult(pres.verify([isKvac() ? sk : pk], undefined, predicateParams));
+    }
+
+    // After invalidation, the presentation is created as before
+    cache.clear();
+    checkResult(create('nonce-3').verify([isKvac() ? sk : pk], undefined, predicateParams));
+  });
+
+  it('reuses params when creating blinded credential requests', () => {
+    if (isPS()) {
+      return;
+    }
+    const cache = new ParamsCache();
+    const create = () => {
+      const reqBuilder = isKvac()
+        ? new BBDT16BlindedCredentialRequestBuilder()
+        : isBBS()
+        ? new BBSBlindedCredentialRequestBuilder()
+        : new BBSPlusBlindedCredentialRequestBuilder();
+      reqBuilder.paramsCache = cache;
+      expect(reqBuilder.presentationBuilder.paramsCache).toBe(cache);
+      reqBuilder.schema = credSchema;
+      reqBuilder.subjectToBlind = {
+        sensitive: {
+          email: 'john.smith@acme.com',
+          SSN: '123-456789-0'
+        }
+      };
+      reqBuilder.enforceInequalityOnBlindedAttribute('credentialSubject.sensitive.email', 'alice@example.com');
+      const r = reqBuilder.finalize();
+      return Array.isArray(r) ? r[0] : r;
+    };
+
+    const req1 = create();
+    const numEntries = cache.numEntries;
+    expect(cache.has(ParamsCache.sigParamsKey(SignatureParams, credSchema.flatten()[0].length))).toEqual(true);
+    const req2 = create();
+    expect(cache.numEntries).toEqual(numEntries);
+    checkResult(req1.verify([]));
+    checkResult(req2.verify([]));
+  });
+});
@@ -0,0 +1,248 @@
+import {
+  BoundCheckBppParams,
+  BoundCheckProtocol,
+  ComparisonOperator,
+  CredentialSchema,
+  initializeWasm,
+  SUBJECT_STR
+} from '../../src';
+import {
+  Credential,
+  CredentialBuilder,
+  isKvac,
+  isPS,
+  Presentation,
+  PresentationBuilder,
+  PublicKey,
+  Scheme,
+  SecretKey
+} from '../scheme';
+import { checkResult, stringToBytes } from '../utils';
+import { getKeys, verifyCred } from './utils';
+
+describe(`${Scheme} Presentation comparing hidden attributes`, () => {
+  let sk1: SecretKey, pk1: PublicKey;
+  let sk2: SecretKey, pk2: PublicKey;
+  let employment: Credential;
+  let lease: Credential;
+
+  const YEAR = 365 * 24 * 3600 * 1000;
+
+  beforeAll(async () => {
+    await initializeWasm();
+    [sk1, pk1] = getKeys('seed1');
+    [sk2, pk2] = getKeys('seed2');
+
+    const schema1 = CredentialSchema.essential();
+    schema1.properties[SUBJECT_STR] = {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        salary: { type: 'number', minimum: 0, multipleOf: 0.01 },
+        birthDate: { type: 'string', format: 'date-time' },
+        score: { type: 'number', minimum: -100, multipleOf: 0.1 },
+        joined: { type: 'string', format: 'date-time' }
+      }
+    };
+    const builder1 = new CredentialBuilder();
+    builder1.schema = new CredentialSchema(schema1);
+    builder1.subject = {
+      name: 'John',
+      salary: 3000.55,
+      birthDate: '1990-04-01T00:00:00Z',
+      score: -12.5,
+      joined: '2015-03-01T00:00:00Z'
+    };
+    employment = builder1.sign(sk1);
+    verifyCred(employment, pk1, sk1);
+
+    const schema2 = CredentialSchema.essential();
+    schema2.properties[SUBJECT_STR] = {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        rent: { type: 'integer', minimum: 0 },
+        points: { type: 'integer', minimum: -50 },
+        since: { type: 'string', format: 'date-time' }
+      }
+    };
+    const builder2 = new CredentialBuilder();
+    builder2.schema = new CredentialSchema(schema2);
+    builder2.subject = {
+      name: 'John',
+      rent: 1000,
+      points: -13,
+      since: '2012-01-01T00:00:00Z'
+    };
+    lease = builder2.sign(sk2);
+    verifyCred(lease, pk2, sk2);
+  });
+
+  function newBuilder(): PresentationBuilder {
+    const builder = new PresentationBuilder();
+    builder.addCredential(employment, isPS() ? pk1 : undefined);
+    builder.addCredential(lease, isPS() ? pk2 : undefined);
+    return builder;
+  }
+
+  function verifParams(): Map<number, PublicKey | SecretKey> {
+    const m = new Map();
+    m.set(0, isKvac() ? sk1 : pk1);
+    m.set(1, isKvac() ? sk2 : pk2);
+    return m;
+  }
+
+  it('compares attributes of different types across credentials', () => {
+    const builder = newBuilder();
+    // Salary is at least 3 times the rent
+    builder.enforceAttributeComparison(
+      [0, 'credentialSubject.salary'],
+      ComparisonOperator.Gte,
+      [1, 'credentialSubject.rent'],
+      3
+    );
+    // Lease started after turning 18
+    builder.enforceAttributeComparison(
+      [1, 'credentialSubject.since'],
+      ComparisonOperator.Gt,
+      [0, 'credentialSubject.birthDate'],
+      1,
+      18 * YEAR
+    );
+    // Negative values with different decimal places
+    builder.enforceAttributeComparison(
+      [0, 'credentialSubject.score'],
+      ComparisonOperator.Lt,
+      [1, 'credentialSubject.points'],
+      1,
+      0.6
+    );
+    // Attributes of the same credential
+    builder.enforceAttributeComparison(
+      [0, 'credentialSubject.joined'],
+      ComparisonOperator.Lte,
+      [0, 'credentialSubject.birthDate'],
+      1,
+      25 * YEAR
+    );
+    builder.nonce = stringToBytes('nonce-1');
+    const pres = builder.finalize();
+
+    expect(pres.spec.attributeComparisons?.length).toEqual(4);
+    expect(pres.spec.attributeComparisons?.[0]).toEqual({
+      attributes: [
+        [0, 'credentialSubject.salary'],
+        [1, 'credentialSubject.rent']
+      ],
+      operator: ComparisonOperator.Gte,
+      multiplier: 3,
+      offset: 0,
+      paramId: undefined,
+      protocol: BoundCheckProtocol.Bpp
+    });
+    checkResult(pres.verify(verifParams()));
+    checkResult(Presentation.fromJSON(pres.toJSON()).verify(verifParams()));
+  });
+
+  it('does not prove a comparison that does not hold', () => {
+    const check = (
+      first: [number, string],
+      operator: ComparisonOperator,
+      second: [number, string],
+      multiplier?: number,
+      offset?: number
+    ) => {
+      const builder = newBuilder();
+      builder.enforceAttributeComparison(first, operator, second, multiplier, offset);
+      expect(() => builder.finalize()).toThrow(`Attribute comparison not satisfied`);
+    };
+    check([0, 'credentialSubject.salary'], ComparisonOperator.Gte, [1, 'credentialSubject.rent'], 4);
+    check([0, 'credentialSubject.salary'], ComparisonOperator.Gt, [1, 'credentialSubject.rent'], 3, 0.55);
+    check([0, 'credentialSubject.score'], ComparisonOperator.Lt, [1, 'credentialSubject.points'], 1, 0.5);
+    check([1, 'credentialSubject.since'], ComparisonOperator.Lt, [0, 'credentialSubject.birthDate']);
+
+    // Equal sides
+    const builder = newBuilder();
+    builder.enforceAttributeComparison(
+      [0, 'credentialSubject.salary'],
+      ComparisonOperator.Lte,
+      [1, 'credentialSubject.rent'],
+      3,
+      0.55
+    );
+    checkResult(builder.finalize().verify(verifParams()));
+
+    const builder1 = newBuilder();
+    expect(() =>
+      builder1.enforceAttributeComparison(
+        [0, 'credentialSubject.salary'],
+        ComparisonOperator.Gt,
+        [1, 'credentialSubject.rent'],
+        1.5
+      )
+    ).toThrow();
+    expect(() =>
+      builder1.enforceAttributeComparison([0, 'credentialSubject.salary'], ComparisonOperator.Gt, [
+        2,
+        'credentialSubject.rent'
+      ])
+    ).toThrow();
+    // Offset has more decimal places than the attributes
+    builder1.enforceAttributeComparison(
+      [0, 'credentialSubject.salary'],
+      ComparisonOperator.Gt,
+      [1, 'credentialSubject.rent'],
+      1,
+      0.001
+    );
+    expect(() => builder1.finalize()).toThrow();
+    // Non-numeric attribute
+    const builder2 = newBuilder();
+    builder2.enforceAttributeComparison([0, 'credentialSubject.name'], ComparisonOperator.Gt, [
+      1,
+      'credentialSubject.rent'
+    ]);
+    expect(() => builder2.finalize()).toThrow();
+  });
+
+  it('fails verification when the presented comparison is changed', () => {
+    const builder = newBuilder();
+    builder.enforceAttributeComparison(
+      [0, 'credentialSubject.salary'],
+      ComparisonOperator.Gte,
+      [1, 'credentialSubject.rent'],
+      3
+    );
+    const pres = builder.finalize();
+    checkResult(pres.verify(verifParams()));
+
+    for (const [key, value] of [
+      ['multiplier', 4],
+      ['offset', 1],
+      ['operator', ComparisonOperator.Lte]
+    ]) {
+      const j = pres.toJSON();
+      j['spec']['attributeComparisons'][0][key] = value;
+      expect(Presentation.fromJSON(j).verify(verifParams()).verified).toEqual(false);
+    }
+  });
+
+  it('uses the given setup params for the bound check', () => {
+    const bppParams = new BoundCheckBppParams(stringToBytes('Bulletproofs++ testing'));
+    const builder = newBuilder();
+    builder.enforceAttributeComparison(
+      [0, 'credentialSubject.salary'],
+      ComparisonOperator.Gte,
+      [1, 'credentialSubject.rent'],
+      3,
+      0,
+      'bpp-params',
+      bppParams
+    );
+    const pres = builder.finalize();
+    expect(pres.spec.attributeComparisons?.[0].paramId).toEqual('bpp-params');
+    const predicateParams = new Map();
+    predicateParams.set('bpp-params', bppParams);
+    checkResult(pres.verify(verifParams(), undefined, predicateParams));
+  });
+});
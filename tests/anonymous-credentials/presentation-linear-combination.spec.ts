@@ -0,0 +1,188 @@
+import { BoundCheckBppParams, BoundCheckProtocol, CredentialSchema, initializeWasm, SUBJECT_STR } from '../../src';
+import {
+  Credential,
+  CredentialBuilder,
+  isKvac,
+  isPS,
+  Presentation,
+  PresentationBuilder,
+  PublicKey,
+  Scheme,
+  SecretKey
+} from '../scheme';
+import { checkResult, stringToBytes } from '../utils';
+import { getKeys, verifyCred } from './utils';
+
+describe(`${Scheme} Presentation proving bounds on linear combination of hidden attributes`, () => {
+  let sk: SecretKey, pk: PublicKey;
+  const payslips: Credential[] = [];
+  let account: Credential;
+
+  beforeAll(async () => {
+    await initializeWasm();
+    [sk, pk] = getKeys('seed1');
+
+    const payslipSchema = CredentialSchema.essential();
+    payslipSchema.properties[SUBJECT_STR] = {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        income: { type: 'number', minimum: 0, multipleOf: 0.01 },
+        month: { type: 'integer', minimum: 1 }
+      }
+    };
+    for (const [income, month] of [
+      [15000.25, 1],
+      [17500.5, 2],
+      [18000, 3]
+    ]) {
+      const builder = new CredentialBuilder();
+      builder.schema = new CredentialSchema(payslipSchema);
+      builder.subject = { name: 'John', income, month };
+      const cred = builder.sign(sk);
+      verifyCred(cred, pk, sk);
+      payslips.push(cred);
+    }
+
+    const accountSchema = CredentialSchema.essential();
+    accountSchema.properties[SUBJECT_STR] = {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        balance: { type: 'number', minimum: -10000, multipleOf: 0.1 },
+        debt: { type: 'integer', minimum: -500 }
+      }
+    };
+    const builder = new CredentialBuilder();
+    builder.schema = new CredentialSchema(accountSchema);
+    builder.subject = { name: 'John', balance: -120.5, debt: 300 };
+    account = builder.sign(sk);
+    verifyCred(account, pk, sk);
+  });
+
+  function newBuilder(): PresentationBuilder {
+    const builder = new PresentationBuilder();
+    for (const cred of [...payslips, account]) {
+      builder.addCredential(cred, isPS() ? pk : undefined);
+    }
+    return builder;
+  }
+
+  function verifParams(): PublicKey[] | SecretKey[] {
+    return isKvac() ? [sk, sk, sk, sk] : [pk, pk, pk, pk];
+  }
+
+  const incomes: [number, string][] = [
+    [0, 'credentialSubject.income'],
+    [1, 'credentialSubject.income'],
+    [2, 'credentialSubject.income']
+  ];
+
+  it('proves bounds on weighted sums of attributes across credentials', () => {
+    const builder = newBuilder();
+    // Sum of incomes is at least 50000
+    builder.enforceBoundsOnLinearCombination(incomes, [1, 1, 1], 50000, 1000000);
+    // Attributes with negative values, different decimal places and negative weights. balance + 2 * debt - month = 476.5
+    builder.enforceBoundsOnLinearCombination(
+      [
+        [3, 'credentialSubject.balance'],
+        [3, 'credentialSubject.debt'],
+        [2, 'credentialSubject.month']
+      ],
+      [1, 2, -1],
+      476.5,
+      476.6
+    );
+    // Negative bounds. balance - debt = -420.5
+    builder.enforceBoundsOnLinearCombination(
+      [
+        [3, 'credentialSubject.balance'],
+        [3, 'credentialSubject.debt']
+      ],
+      [1, -1],
+      -1000,
+      -420
+    );
+    builder.nonce = stringToBytes('nonce-1');
+    const pres = builder.finalize();
+
+    expect(pres.spec.linearCombinations?.length).toEqual(3);
+    expect(pres.spec.linearCombinations?.[0]).toEqual({
+      attributes: incomes,
+      weights: [1, 1, 1],
+      min: 50000,
+      max: 1000000,
+      paramId: undefined,
+      protocol: BoundCheckProtocol.Bpp
+    });
+    checkResult(pres.verify(verifParams()));
+    checkResult(Presentation.fromJSON(pres.toJSON()).verify(verifParams()));
+  });
+
+  it('does not prove a linear combination out of bounds', () => {
+    const check = (attributes: [number, string][], weights: number[], min: number, max: number) => {
+      const builder = newBuilder();
+      builder.enforceBoundsOnLinearCombination(attributes, weights, min, max);
+      expect(() => builder.finalize()).toThrow('Linear combination not in bounds');
+    };
+    check(incomes, [1, 1, 1], 50501, 1000000);
+    // Max is exclusive
+    check(incomes, [1, 1, 1], 0, 50500.75);
+    check(incomes, [1, 1, -1], 15000, 20000);
+
+    // Lower bound is inclusive
+    const builder = newBuilder();
+    builder.enforceBoundsOnLinearCombination(incomes, [1, 1, 1], 50500.75, 50500.76);
+    checkResult(builder.finalize().verify(verifParams()));
+
+    const builder1 = newBuilder();
+    expect(() => builder1.enforceBoundsOnLinearCombination(incomes, [1, 1], 0, 100)).toThrow();
+    expect(() => builder1.enforceBoundsOnLinearCombination(incomes, [1, 0, 1], 0, 100)).toThrow();
+    expect(() => builder1.enforceBoundsOnLinearCombination(incomes, [1, 1.5, 1], 0, 100)).toThrow();
+    expect(() => builder1.enforceBoundsOnLinearCombination(incomes, [1, 1, 1], 100, 100)).toThrow();
+    expect(() => builder1.enforceBoundsOnLinearCombination([[4, 'credentialSubject.income']], [1], 0, 100)).toThrow();
+    // Bound has more decimal places than the attributes
+    builder1.enforceBoundsOnLinearCombination(incomes, [1, 1, 1], 0.001, 100000);
+    expect(() => builder1.finalize()).toThrow();
+    // Non-numeric attribute
+    const builder2 = newBuilder();
+    builder2.enforceBoundsOnLinearCombination([[0, 'credentialSubject.name']], [1], 0, 100);
+    expect(() => builder2.finalize()).toThrow();
+  });
+
+  it('fails verification when the presented linear combination is changed', () => {
+    const builder = newBuilder();
+    builder.enforceBoundsOnLinearCombination(incomes, [1, 1, 1], 50000, 1000000);
+    const pres = builder.finalize();
+    checkResult(pres.verify(verifParams()));
+
+    for (const [key, value] of [
+      ['weights', [1, 2, 1]],
+      ['min', 60000],
+      ['max', 50001],
+      [
+        'attributes',
+        [
+          [0, 'credentialSubject.income'],
+          [1, 'credentialSubject.income'],
+          [1, 'credentialSubject.income']
+        ]
+      ]
+    ]) {
+      const j = JSON.parse(JSON.stringify(pres.toJSON()));
+      j['spec']['linearCombinations'][0][key as string] = value;
+      expect(Presentation.fromJSON(j).verify(verifParams()).verified).toEqual(false);
+    }
+  });
+
+  it('uses the given setup params for the bound check', () => {
+    const bppParams = new BoundCheckBppParams(stringToBytes('Bulletproofs++ testing'));
+    const builder = newBuilder();
+    builder.enforceBoundsOnLinearCombination(incomes, [1, 1, 1], 50000, 1000000, 'bpp-params', bppParams);
+    const pres = builder.finalize();
+    expect(pres.spec.linearCombinations?.[0].paramId).toEqual('bpp-params');
+    const predicateParams = new Map();
+    predicateParams.set('bpp-params', bppParams);
+    checkResult(pres.verify(verifParams(), undefined, predicateParams));
+  });
+});
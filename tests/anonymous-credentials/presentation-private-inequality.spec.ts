@@ -0,0 +1,252 @@
+import {
+  BBDT16BlindedCredentialRequest,
+  BBDT16BlindedCredentialRequestBuilder,
+  BBSBlindedCredentialRequest,
+  BBSBlindedCredentialRequestBuilder,
+  BBSPlusBlindedCredentialRequest,
+  BBSPlusBlindedCredentialRequestBuilder,
+  CredentialSchema,
+  initializeWasm,
+  STATUS_STR
+} from '../../src';
+import {
+  Credential,
+  CredentialBuilder,
+  isBBS,
+  isKvac,
+  isPS,
+  Presentation,
+  PresentationBuilder,
+  PublicKey,
+  Scheme,
+  SecretKey
+} from '../scheme';
+import { checkResult, stringToBytes } from '../utils';
+import { getExampleSchema, getKeys, verifyCred } from './utils';
+
+describe(`${Scheme} Presentation proving inequality between hidden attributes`, () => {
+  let sk1: SecretKey, pk1: PublicKey;
+  let sk2: SecretKey, pk2: PublicKey;
+  let credSchema: CredentialSchema;
+  let credential1: Credential;
+  let credential2: Credential;
+
+  function issue(sk: SecretKey, email: string): Credential {
+    const builder = new CredentialBuilder();
+    builder.schema = credSchema;
+    builder.subject = {
+      fname: 'John',
+      lname: 'Smith',
+      sensitive: {
+        very: {
+          secret: 'my-secret-that-wont-tell-anyone'
+        },
+        email,
+        phone: '801009801',
+        SSN: '123-456789-0'
+      },
+      lessSensitive: {
+        location: {
+          country: 'USA',
+          city: 'New York'
+        },
+        department: {
+          name: 'Random',
+          location: {
+            name: 'Somewhere',
+            geo: {
+              lat: -23.658,
+              long: 2.556
+            }
+          }
+        }
+      },
+      rank: 6
+    };
+    return builder.sign(sk);
+  }
+
+  function verifParams(): Map<number, PublicKey | SecretKey> {
+    const m = new Map();
+    m.set(0, isKvac() ? sk1 : pk1);
+    m.set(1, isKvac() ? sk2 : pk2);
+    return m;
+  }
+
+  beforeAll(async () => {
+    await initializeWasm();
+    [sk1, pk1] = getKeys('seed1');
+    [sk2, pk2] = getKeys('seed2');
+
+    const schema = getExampleSchema(5);
+    delete schema.properties[STATUS_STR];
+    credSchema = new CredentialSchema(schema);
+    credential1 = issue(sk1, 'john.smith@acme.com');
+    credential2 = issue(sk2, 'john.smith@example.com');
+    verifyCred(credential1, pk1, sk1);
+    verifyCred(credential2, pk2, sk2);
+  });
+
+  function newBuilder(): PresentationBuilder {
+    const builder = new PresentationBuilder();
+    builder.addCredential(credential1, isPS() ? pk1 : undefined);
+    builder.addCredential(credential2, isPS() ? pk2 : undefined);
+    builder.markAttributesRevealed(0, new Set(['credentialSubject.fname']));
+    return builder;
+  }
+
+  it('proves attributes of different credentials unequal', () => {
+    const builder = newBuilder();
+    builder.enforcePrivateAttributeInequality(
+      [0, 'credentialSubject.sensitive.email'],
+      [1, 'credentialSubject.sensitive.email']
+    );
+    // Can be combined with equality and inequality with a public value
+    builder.enforceAttributeEquality([0, 'credentialSubject.sensitive.SSN'], [1, 'credentialSubject.sensitive.SSN']);
+    builder.enforceAttributeInequality(1, 'credentialSubject.sensitive.email', 'alice@example.com');
+    builder.nonce = stringToBytes('nonce-1');
+    const pres = builder.finalize();
+
+    expect(pres.spec.privateInequalities?.length).toEqual(1);
+    expect(pres.spec.privateInequalities?.[0].attributes).toEqual([
+      [0, 'credentialSubject.sensitive.email'],
+      [1, 'credentialSubject.sensitive.email']
+    ]);
+    checkResult(pres.verify(verifParams()));
+
+    const recreated = Presentation.fromJSON(pres.toJSON());
+    expect(recreated.spec.privateInequalities).toEqual(pres.spec.privateInequalities);
+    checkResult(recreated.verify(verifParams()));
+
+    // Attributes of the same credential
+    const builder1 = newBuilder();
+    builder1.enforcePrivateAttributeInequality(
+      [0, 'credentialSubject.sensitive.email'],
+      [0, 'credentialSubject.sensitive.phone']
+    );
+    checkResult(builder1.finalize().verify(verifParams()));
+  });
+
+  it('does not prove equal attributes unequal', () => {
+    const builder = newBuilder();
+    expect(() =>
+      builder.enforcePrivateAttributeInequality(
+        [0, 'credentialSubject.sensitive.SSN'],
+        [0, 'credentialSubject.sensitive.SSN']
+      )
+    ).toThrow();
+    expect(() =>
+      builder.enforcePrivateAttributeInequality(
+        [0, 'credentialSubject.sensitive.SSN'],
+        [2, 'credentialSubject.sensitive.SSN']
+      )
+    ).toThrow();
+    builder.enforcePrivateAttributeInequality(
+      [0, 'credentialSubject.sensitive.SSN'],
+      [1, 'credentialSubject.sensitive.SSN']
+    );
+    expect(() => builder.finalize()).toThrow(
+      'Attribute inequality not satisfied: (0,credentialSubject.sensitive.SSN), (1,credentialSubject.sensitive.SSN)'
+    );
+  });
+
+  it('fails verification when the presented inequality is changed', () => {
+    const builder = newBuilder();
+    builder.enforcePrivateAttributeInequality(
+      [0, 'credentialSubject.sensitive.email'],
+      [1, 'credentialSubject.sensitive.email']
+    );
+    const pres = builder.finalize();
+    checkResult(pres.verify(verifParams()));
+
+    // Claim inequality of different attributes
+    const j = pres.toJSON();
+    j['spec']['privateInequalities'][0]['attributes'][1] = [1, 'credentialSubject.sensitive.phone'];
+    expect(Presentation.fromJSON(j).verify(verifParams()).verified).toEqual(false);
+
+    // Use a different commitment
+    const j1 = pres.toJSON();
+    const other = newBuilder();
+    other.enforcePrivateAttributeInequality(
+      [0, 'credentialSubject.sensitive.email'],
+      [1, 'credentialSubject.sensitive.phone']
+    );
+    j1['spec']['privateInequalities'][0]['commitment'] = other.finalize().spec.privateInequalities?.[0].commitment;
+    expect(Presentation.fromJSON(j1).verify(verifParams()).verified).toEqual(false);
+
+    // Refer to a credential or attribute that doesn't exist
+    for (const [attribute, error] of [
+      [[2, 'credentialSubject.sensitive.email'], 'Invalid credential index 2'],
+      [[-1, 'credentialSubject.sensitive.email'], 'Invalid credential index -1'],
+      [
+        [1, 'credentialSubject.unknown'],
+        'Attribute credentialSubject.unknown not found in schema of credential index 1'
+      ]
+    ]) {
+      const j2 = pres.toJSON();
+      j2['spec']['privateInequalities'][0]['attributes'][1] = attribute;
+      expect(Presentation.fromJSON(j2).verify(verifParams())).toEqual({
+        verified: false,
+        error: `Invalid private inequality: ${error}`
+      });
+    }
+  });
+
+  it('proves a blinded attribute unequal to a credential attribute', () => {
+    if (isPS()) {
+      // Blind issuance isn't implemented for PS
+      return;
+    }
+    const newReqBuilder = () => {
+      const reqBuilder = isKvac()
+        ? new BBDT16BlindedCredentialRequestBuilder()
+        : isBBS()
+        ? new BBSBlindedCredentialRequestBuilder()
+        : new BBSPlusBlindedCredentialRequestBuilder();
+      reqBuilder.schema = credSchema;
+      reqBuilder.subjectToBlind = {
+        sensitive: {
+          email: 'john.smith@example.org',
+          SSN: '123-456789-0'
+        }
+      };
+      expect(reqBuilder.addCredentialToPresentation(credential1)).toEqual(0);
+      return reqBuilder;
+    };
+    const reqClass = isKvac()
+      ? BBDT16BlindedCredentialRequest
+      : isBBS()
+      ? BBSBlindedCredentialRequest
+      : BBSPlusBlindedCredentialRequest;
+
+    const reqBuilder = newReqBuilder();
+    reqBuilder.enforcePrivateInequalityOnBlindedAttribute('credentialSubject.sensitive.email', [
+      0,
+      'credentialSubject.sensitive.email'
+    ]);
+    const r = reqBuilder.finalize();
+    const req = Array.isArray(r) ? r[0] : r;
+    expect(req.presentation.spec.blindCredentialRequest?.blindedAttributePrivateInequalities?.length).toEqual(1);
+    checkResult(req.verify([isKvac() ? sk1 : pk1]));
+    checkResult(reqClass.fromJSON(req.toJSON()).verify([isKvac() ? sk1 : pk1]));
+
+    // Blinded attribute or credential attribute that doesn't exist
+    const reqJson = req.toJSON();
+    const ineq = reqJson['presentation']['spec']['blindCredentialRequest']['blindedAttributePrivateInequalities'][0];
+    ineq['attribute'] = [0, 'credentialSubject.unknown'];
+    expect(reqClass.fromJSON(reqJson).verify([isKvac() ? sk1 : pk1]).verified).toEqual(false);
+    ineq['attribute'] = [0, 'credentialSubject.sensitive.email'];
+    ineq['blindedAttribute'] = 'credentialSubject.sensitive.phone';
+    expect(reqClass.fromJSON(reqJson).verify([isKvac() ? sk1 : pk1]).verified).toEqual(false);
+
+    // Blinded attribute equal to the credential attribute
+    const reqBuilder1 = newReqBuilder();
+    reqBuilder1.enforcePrivateInequalityOnBlindedAttribute('credentialSubject.sensitive.SSN', [
+      0,
+      'credentialSubject.sensitive.SSN'
+    ]);
+    expect(() => reqBuilder1.finalize()).toThrow(
+      'Inequality of blinded attribute credentialSubject.sensitive.SSN with (0,credentialSubject.sensitive.SSN) not satisfied'
+    );
+  });
+});
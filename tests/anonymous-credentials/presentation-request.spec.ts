@@ -0,0 +1,426 @@
+import {
+  AccumulatorPublicKey,
+  CircomProtocol,
+  CredentialSchema,
+  initializeWasm,
+  IPresentationPolicy,
+  MEM_CHECK_STR,
+  PolicyMismatchType,
+  PositiveAccumulator,
+  PresentationRequest,
+  PresentationRequestResolver,
+  VBMembershipWitness
+} from '../../src';
+import {
+  Credential,
+  CredentialBuilder,
+  isKvac,
+  isPS,
+  Presentation,
+  PresentationBuilder,
+  PublicKey,
+  Scheme,
+  SecretKey
+} from '../scheme';
+import { checkResult, stringToBytes } from '../utils';
+import { getExampleSchema, getKeys, setupPrefilledAccum, verifyCred } from './utils';
+
+describe(`${Scheme} Presentation request`, () => {
+  let sk1: SecretKey, pk1: PublicKey;
+  let sk2: SecretKey, pk2: PublicKey;
+
+  let credential1: Credential;
+  let credential2: Credential;
+
+  let accumulatorPk: AccumulatorPublicKey;
+  let accumulator: PositiveAccumulator;
+  let accumulatorWitness: VBMembershipWitness;
+
+  const schemaId1 = 'https://example.com/schemas/person';
+  const schemaId2 = 'https://example.com/schemas/employee';
+
+  beforeAll(async () => {
+    await initializeWasm();
+    [sk1, pk1] = getKeys('seed1');
+    [sk2, pk2] = getKeys('seed2');
+
+    const schema1 = getExampleSchema(9);
+    schema1.$id = schemaId1;
+    schema1.properties['issuer'] = { type: 'string' };
+    const builder1 = new CredentialBuilder();
+    builder1.schema = new CredentialSchema(schema1);
+    builder1.subject = {
+      fname: 'John',
+      lname: 'Smith',
+      email: 'john.smith@example.com',
+      SSN: '123-456789-0',
+      userId: 'user:123-xyz-#',
+      country: 'USA',
+      city: 'New York',
+      timeOfBirth: 1662010849619,
+      height: 181.5,
+      weight: 210.4,
+      BMI: 23.25,
+      score: -13.5,
+      secret: 'my-secret-that-wont-tell-anyone'
+    };
+    builder1.setTopLevelField('issuer', 'did:example:issuer1');
+    credential1 = builder1.sign(sk1);
+    verifyCred(credential1, pk1, sk1);
+
+    const schema2 = getExampleSchema(5);
+    schema2.$id = schemaId2;
+    schema2.properties['issuer'] = { type: 'object', properties: { id: { type: 'string' }, name: { type: 'string' } } };
+    const credSchema2 = new CredentialSchema(schema2);
+    const builder2 = new CredentialBuilder();
+    builder2.schema = credSchema2;
+    builder2.subject = {
+      fname: 'John',
+      lname: 'Smith',
+      sensitive: {
+        very: {
+          secret: 'my-secret-that-wont-tell-anyone'
+        },
+        email: 'john.smith@acme.com',
+        phone: '801009801',
+        SSN: '123-456789-0'
+      },
+      lessSensitive: {
+        location: {
+          country: 'USA',
+          city: 'New York'
+        },
+        department: {
+          name: 'Random',
+          location: {
+            name: 'Somewhere',
+            geo: {
+              lat: -23.658,
+              long: 2.556
+            }
+          }
+        }
+      },
+      rank: 6
+    };
+    builder2.setTopLevelField('issuer', { id: 'did:example:issuer2', name: 'Acme' });
+    builder2.setCredentialStatus('dock:accumulator:accumId123', MEM_CHECK_STR, 'user:A-123');
+    credential2 = builder2.sign(sk2);
+    verifyCred(credential2, pk2, sk2);
+
+    // @ts-ignore
+    [, accumulatorPk, accumulator, accumulatorWitness] = await setupPrefilledAccum(
+      200,
+      122,
+      'user:A-',
+      credSchema2,
+      stringToBytes('secret-seed-for-accum')
+    );
+  });
+
+  function createRequest(): PresentationRequest {
+    const request = new PresentationRequest('Proof for age and employment', stringToBytes('a nonce'));
+    request.addRequestedCredential({
+      schemaId: schemaId1,
+      issuer: 'did:example:issuer1',
+      revealedAttributes: ['credentialSubject.fname', 'credentialSubject.country'],
+      bounds: [{ attributeName: 'credentialSubject.timeOfBirth', min: 1662010849610, max: 1662010849620 }]
+    });
+    request.addRequestedCredential({
+      schemaId: schemaId2,
+      issuer: 'did:example:issuer2',
+      revealedAttributes: ['credentialSubject.lessSensitive.department.name'],
+      status: { id: 'dock:accumulator:accumId123', revocationCheck: MEM_CHECK_STR }
+    });
+    request.addAttributeEquality([0, 'credentialSubject.SSN'], [1, 'credentialSubject.sensitive.SSN']);
+    return request;
+  }
+
+  it('is serialized and deserialized', () => {
+    const request = createRequest();
+    const recreated = PresentationRequest.fromJSON(JSON.parse(JSON.stringify(request.toJSON())));
+    expect(recreated.version).toEqual(PresentationRequest.VERSION);
+    expect(recreated.toJSON()).toEqual(request.toJSON());
+    expect(recreated.nonce).toEqual(request.nonce);
+    expect(recreated.context).toEqual(request.context);
+
+    expect(() => PresentationRequest.fromJSON({ ...request.toJSON(), version: '100.0.0' })).toThrow(
+      'Unsupported version'
+    );
+    expect(() => PresentationRequest.fromJSON({ ...request.toJSON(), version: undefined })).toThrow('valid version');
+    expect(() =>
+      request.addAttributeEquality([-1, 'credentialSubject.SSN'], [1, 'credentialSubject.sensitive.SSN'])
+    ).toThrow('Invalid credential index -1');
+  });
+
+  it('rejects malformed serialized requests', () => {
+    const j = JSON.parse(JSON.stringify(createRequest().toJSON()));
+    const withCred = (c: object) => ({ ...j, credentials: [{ ...j.credentials[0], ...c }, j.credentials[1]] });
+    expect(() => PresentationRequest.fromJSON({ ...j, credentials: undefined })).toThrow(
+      'Expected field credentials to be an array'
+    );
+    expect(() => PresentationRequest.fromJSON({ ...j, credentials: {} })).toThrow(
+      'Expected field credentials to be an array'
+    );
+    expect(() => PresentationRequest.fromJSON({ ...j, credentials: [null] })).toThrow(
+      'Expected credentials[0] to be an object'
+    );
+    expect(() => PresentationRequest.fromJSON(withCred({ schemaId: 1 }))).toThrow(
+      'Expected credentials[0].schemaId to be a string'
+    );
+    expect(() => PresentationRequest.fromJSON(withCred({ revealedAttributes: 'credentialSubject.fname' }))).toThrow(
+      'Expected credentials[0].revealedAttributes to be an array'
+    );
+    expect(() => PresentationRequest.fromJSON(withCred({ bounds: [{ min: 0, max: 10 }] }))).toThrow(
+      'Expected credentials[0].bounds[0].attributeName to be a string'
+    );
+    expect(() =>
+      PresentationRequest.fromJSON(withCred({ bounds: [{ attributeName: 'credentialSubject.age', min: 0 }] }))
+    ).toThrow('Expected credentials[0].bounds[0] to have both min and max');
+    expect(() => PresentationRequest.fromJSON(withCred({ attributeInequalities: [{ inEqualTo: 'x' }] }))).toThrow(
+      'Expected credentials[0].attributeInequalities[0].attributeName to be a string'
+    );
+    expect(() => PresentationRequest.fromJSON(withCred({ status: {} }))).toThrow(
+      'Expected credentials[0].status.revocationCheck to be a string'
+    );
+
+    expect(() => PresentationRequest.fromJSON({ ...j, attributeEqualities: {} })).toThrow(
+      'Expected attributeEqualities to be an array'
+    );
+    expect(() => PresentationRequest.fromJSON({ ...j, attributeEqualities: [[[0, 'credentialSubject.SSN']]] })).toThrow(
+      'Expected attributeEqualities[0] to have atleast 2 attribute references'
+    );
+    expect(() =>
+      PresentationRequest.fromJSON({
+        ...j,
+        attributeEqualities: [
+          [
+            [0, 'credentialSubject.SSN'],
+            [2, 'credentialSubject.sensitive.SSN']
+          ]
+        ]
+      })
+    ).toThrow('Invalid credential index 2 in attributeEqualities[0][1]');
+    expect(() =>
+      PresentationRequest.fromJSON({ ...j, attributeEqualities: [[[0, 'credentialSubject.SSN'], [1]]] })
+    ).toThrow('Expected attributeEqualities[0][1] to be a pair of credential index and attribute name');
+  });
+
+  it('selects credentials when a credential satisfies several requested credentials', () => {
+    // credential2 satisfies only the 1st requested credential but credential1 satisfies both
+    const request = new PresentationRequest();
+    request.addRequestedCredential({ revealedAttributes: ['credentialSubject.fname'] });
+    request.addRequestedCredential({ schemaId: schemaId1 });
+    const resolver = new PresentationRequestResolver();
+    expect(resolver.selectCredentials(request, [credential2, credential1])).toEqual([0, 1]);
+    expect(resolver.selectCredentials(request, [credential1, credential2])).toEqual([1, 0]);
+    expect(() => resolver.selectCredentials(request, [credential2, credential2])).toThrow('at index 1');
+  });
+
+  it('checks whether a credential satisfies the requested credential', () => {
+    const request = createRequest();
+    expect(request.isSatisfiedBy(0, credential1)).toEqual(true);
+    expect(request.isSatisfiedBy(0, credential2)).toEqual(false);
+    expect(request.isSatisfiedBy(1, credential1)).toEqual(false);
+    expect(request.isSatisfiedBy(1, credential2)).toEqual(true);
+
+    // Attribute not in the schema
+    const request1 = new PresentationRequest();
+    request1.addRequestedCredential({ schemaId: schemaId1, revealedAttributes: ['credentialSubject.rank'] });
+    expect(request1.isSatisfiedBy(0, credential1)).toEqual(false);
+
+    // No credential status
+    const request2 = new PresentationRequest();
+    request2.addRequestedCredential({ schemaId: schemaId1, status: { revocationCheck: MEM_CHECK_STR } });
+    expect(request2.isSatisfiedBy(0, credential1)).toEqual(false);
+  });
+
+  it('is resolved into a presentation builder', () => {
+    const request = createRequest();
+    const resolver = new PresentationRequestResolver(
+      new Map(),
+      (cred) => (cred === credential2 ? [accumulatorWitness, accumulator.accumulated, accumulatorPk] : undefined),
+      (cred) => (isPS() ? (cred === credential1 ? pk1 : pk2) : undefined)
+    );
+
+    // The holder's credentials are in a different order than in the request
+    expect(resolver.selectCredentials(request, [credential2, credential1])).toEqual([1, 0]);
+    const builder = resolver.resolve(request, [credential2, credential1]);
+    expect(builder.credentials.length).toEqual(2);
+    expect(builder.context).toEqual(request.context);
+    expect(builder.nonce).toEqual(request.nonce);
+
+    const pres = builder.finalize();
+    // Issuer is revealed as the request specified it
+    expect(pres.spec.credentials[0].revealedAttributes).toEqual({
+      credentialSubject: { fname: 'John', country: 'USA' },
+      issuer: 'did:example:issuer1'
+    });
+    expect(pres.spec.credentials[1].revealedAttributes).toEqual({
+      credentialSubject: { lessSensitive: { department: { name: 'Random' } } },
+      issuer: { id: 'did:example:issuer2' }
+    });
+    expect(pres.spec.credentials[0].bounds).toBeDefined();
+    expect(pres.spec.getStatus(1)).toBeDefined();
+    expect(pres.spec.attributeEqualities).toEqual([
+      [
+        [0, 'credentialSubject.SSN'],
+        [1, 'credentialSubject.sensitive.SSN']
+      ]
+    ]);
+
+    const acc = new Map();
+    acc.set(1, accumulatorPk);
+    checkResult(pres.verify(isKvac() ? [sk1, sk2] : [pk1, pk2], acc));
+
+    const result = pres.verifyAgainstRequest(request, new Map([[1, accumulator.accumulated]]));
+    expect(result.mismatches).toEqual([]);
+    expect(result.satisfied).toEqual(true);
+
+    // Serialized presentation is checked as well
+    const recreated = Presentation.fromJSON(pres.toJSON());
+    expect(recreated.verifyAgainstRequest(request, new Map([[1, accumulator.accumulated]])).satisfied).toEqual(true);
+  });
+
+  it('reports what the presentation is missing as per the policy', () => {
+    const builder = new PresentationBuilder();
+    builder.addCredential(credential1, isPS() ? pk1 : undefined);
+    builder.addCredential(credential2, isPS() ? pk2 : undefined);
+    builder.markAttributesRevealed(0, new Set(['credentialSubject.fname', 'issuer']));
+    // Bound is wider than the policy requires
+    builder.enforceBounds(0, 'credentialSubject.timeOfBirth', 1662010849600, 1662010849620);
+    builder.enforceAttributeInequality(0, 'credentialSubject.country', 'Canada');
+    builder.addAccumInfoForCredStatus(1, accumulatorWitness, accumulator.accumulated, accumulatorPk);
+    builder.nonce = stringToBytes('another nonce');
+    const pres = builder.finalize();
+
+    const policy: IPresentationPolicy = {
+      credentials: [
+        {
+          schemaId: schemaId1,
+          issuer: 'did:example:issuer1',
+          revealedAttributes: ['credentialSubject.fname', 'credentialSubject.country'],
+          bounds: [
+            { attributeName: 'credentialSubject.timeOfBirth', min: 1662010849610, max: 1662010849620 },
+            { attributeName: 'credentialSubject.timeOfBirth', min: 1662010849600, max: 1662010849620 }
+          ],
+          attributeInequalities: [{ attributeName: 'credentialSubject.country', inEqualTo: 'Canada' }]
+        },
+        {
+          schemaId: schemaId1,
+          issuer: 'did:example:issuer2',
+          status: {
+            id: 'dock:accumulator:accumId123',
+            revocationCheck: MEM_CHECK_STR,
+            accumulated: new Uint8Array(48)
+          },
+          verifiableEncryptions: [{ attributeName: 'credentialSubject.sensitive.SSN' }]
+        },
+        {}
+      ],
+      attributeEqualities: [
+        [
+          [0, 'credentialSubject.SSN'],
+          [1, 'credentialSubject.sensitive.SSN']
+        ]
+      ],
+      nonce: stringToBytes('a nonce')
+    };
+
+    const result = pres.verifyAgainstPolicy(policy);
+    expect(result.satisfied).toEqual(false);
+    expect(result.mismatches.map((m) => [m.type, m.credIdx, m.attributeName])).toEqual([
+      [PolicyMismatchType.RevealedAttribute, 0, 'credentialSubject.country'],
+      [PolicyMismatchType.Bound, 0, 'credentialSubject.timeOfBirth'],
+      [PolicyMismatchType.SchemaId, 1, undefined],
+      [PolicyMismatchType.Issuer, 1, undefined],
+      [PolicyMismatchType.VerifiableEncryption, 1, 'credentialSubject.sensitive.SSN'],
+      [PolicyMismatchType.Status, 1, undefined],
+      [PolicyMismatchType.MissingCredential, 2, undefined],
+      [PolicyMismatchType.AttributeEquality, undefined, undefined],
+      [PolicyMismatchType.Nonce, undefined, undefined]
+    ]);
+  });
+
+  it('matches inequalities and Circom predicates of the policy by their values', () => {
+    const jsonSchema = CredentialSchema.essential();
+    jsonSchema.properties['credentialSubject'] = {
+      type: 'object',
+      properties: { name: { type: 'string' }, dateOfBirth: { type: 'string', format: 'date-time' } }
+    };
+    const credBuilder = new CredentialBuilder();
+    credBuilder.schema = new CredentialSchema(jsonSchema);
+    credBuilder.subject = { name: 'John', dateOfBirth: '1990-05-17T00:00:00Z' };
+    const credential = credBuilder.sign(sk1);
+
+    const builder = new PresentationBuilder();
+    builder.addCredential(credential, isPS() ? pk1 : undefined);
+    builder.enforceAttributeInequality(0, 'credentialSubject.dateOfBirth', new Date('2000-01-01T00:00:00Z'));
+    const pres = builder.finalize();
+    const mismatchTypes = (p: Presentation, policy: IPresentationPolicy) =>
+      p.verifyAgainstPolicy(policy).mismatches.map((m) => m.type);
+
+    // Equivalent values of the date match, before and after serialization
+    for (const inEqualTo of [new Date('2000-01-01T00:00:00Z'), '2000-01-01T00:00:00.000Z']) {
+      const policy = {
+        credentials: [{ attributeInequalities: [{ attributeName: 'credentialSubject.dateOfBirth', inEqualTo }] }]
+      };
+      expect(mismatchTypes(pres, policy)).toEqual([]);
+      expect(mismatchTypes(Presentation.fromJSON(pres.toJSON()), policy)).toEqual([]);
+    }
+    const otherDate = {
+      credentials: [
+        {
+          attributeInequalities: [{ attributeName: 'credentialSubject.dateOfBirth', inEqualTo: new Date('2001-01-01') }]
+        }
+      ]
+    };
+    expect(mismatchTypes(pres, otherDate)).toEqual([PolicyMismatchType.Inequality]);
+
+    // The policy's Circom predicate must be proven on the same attribute with the same public inputs
+    const minSalary = new Uint8Array(32).fill(1);
+    pres.spec.credentials[0].circomPredicates = [
+      {
+        circuitId: 'greater-than',
+        snarkKeyId: 'snark-key',
+        protocol: CircomProtocol.Legogroth16,
+        privateVars: [{ varName: 'a', attributeName: { credentialSubject: { salary: null } } }],
+        publicVars: [{ varName: 'b', value: minSalary }]
+      }
+    ];
+    const circomPolicy = (attributeName: string, value: Uint8Array): IPresentationPolicy => ({
+      credentials: [
+        {
+          circomPredicates: [
+            {
+              circuitId: 'greater-than',
+              privateVars: [{ varName: 'a', attributeName }],
+              publicVars: [{ varName: 'b', value }]
+            }
+          ]
+        }
+      ]
+    });
+    expect(mismatchTypes(pres, circomPolicy('credentialSubject.salary', minSalary))).toEqual([]);
+    expect(mismatchTypes(pres, circomPolicy('credentialSubject.bonus', minSalary))).toEqual([
+      PolicyMismatchType.CircomPredicate
+    ]);
+    expect(mismatchTypes(pres, circomPolicy('credentialSubject.salary', new Uint8Array(32)))).toEqual([
+      PolicyMismatchType.CircomPredicate
+    ]);
+  });
+
+  it('fails to resolve when no credential satisfies the request', () => {
+    const request = createRequest();
+    request.credentials[0].issuer = 'did:example:issuer3';
+    const resolver = new PresentationRequestResolver();
+    expect(() => resolver.resolve(request, [credential1, credential2])).toThrow(
+      'No credential found satisfying the requested credential at index 0'
+    );
+
+    // Status requested but no accumulator info available
+    expect(() => resolver.resolve(createRequest(), [credential1, credential2])).toThrow(
+      'Accumulator info not found for the requested credential at index 1'
+    );
+  });
+});
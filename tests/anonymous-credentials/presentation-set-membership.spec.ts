@@ -0,0 +1,166 @@
+import { CredentialSchema, initializeWasm, SetMembershipProtocol, SUBJECT_STR } from '../../src';
+import {
+  Credential,
+  CredentialBuilder,
+  isKvac,
+  isPS,
+  Presentation,
+  PresentationBuilder,
+  PublicKey,
+  Scheme,
+  SecretKey
+} from '../scheme';
+import { checkResult, stringToBytes } from '../utils';
+import { getKeys, verifyCred } from './utils';
+
+describe(`${Scheme} Presentation proving set membership of attributes`, () => {
+  let sk: SecretKey, pk: PublicKey;
+  let credential: Credential;
+
+  beforeAll(async () => {
+    await initializeWasm();
+    [sk, pk] = getKeys('seed1');
+
+    const schema = CredentialSchema.essential();
+    schema.properties[SUBJECT_STR] = {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        location: {
+          type: 'object',
+          properties: {
+            country: { type: 'string' },
+            city: { type: 'string' }
+          }
+        },
+        level: { type: 'integer', minimum: -10 },
+        height: { type: 'number', minimum: 0, multipleOf: 0.1 },
+        issued: { type: 'string', format: 'date-time' }
+      }
+    };
+    const builder = new CredentialBuilder();
+    builder.schema = new CredentialSchema(schema);
+    builder.subject = {
+      name: 'John',
+      location: {
+        country: 'Canada',
+        city: 'Toronto'
+      },
+      level: -3,
+      height: 181.5,
+      issued: '2024-05-01T00:00:00Z'
+    };
+    credential = builder.sign(sk);
+    verifyCred(credential, pk, sk);
+  });
+
+  function newBuilder(): PresentationBuilder {
+    const builder = new PresentationBuilder();
+    builder.addCredential(credential, isPS() ? pk : undefined);
+    builder.markAttributesRevealed(0, new Set(['credentialSubject.name']));
+    return builder;
+  }
+
+  function verifParams(): PublicKey[] | SecretKey[] {
+    return isKvac() ? [sk] : [pk];
+  }
+
+  it('proves attributes of different types to be members of sets', () => {
+    const builder = newBuilder();
+    builder.enforceSetMembership(0, 'credentialSubject.location.country', ['USA', 'Canada', 'Mexico']);
+    builder.enforceSetMembership(0, 'credentialSubject.level', [-3]);
+    builder.enforceSetMembership(0, 'credentialSubject.height', [170.2, 181.5]);
+    builder.enforceSetMembership(0, 'credentialSubject.issued', ['2024-05-01T00:00:00Z', '2025-05-01T00:00:00Z']);
+    // Same attribute in another set
+    builder.enforceSetMembership(0, 'credentialSubject.location.country', ['Canada', 'France']);
+    // Can be combined with other predicates on the same attribute
+    builder.enforceAttributeInequality(0, 'credentialSubject.location.country', 'USA');
+    builder.nonce = stringToBytes('nonce-1');
+    const pres = builder.finalize();
+
+    const setMems = pres.spec.credentials[0].setMemberships;
+    expect(setMems?.[SUBJECT_STR]['location']['country'].length).toEqual(2);
+    expect(setMems?.[SUBJECT_STR]['location']['country'][0].values).toEqual(['USA', 'Canada', 'Mexico']);
+    expect(setMems?.[SUBJECT_STR]['location']['country'][0].commitments.length).toEqual(3);
+    expect(setMems?.[SUBJECT_STR]['location']['country'][0].protocol).toEqual(
+      SetMembershipProtocol.ProductOfDifferences
+    );
+    expect(setMems?.[SUBJECT_STR]['level'][0].values).toEqual([-3]);
+    expect(pres.spec.credentials[0].revealedAttributes[SUBJECT_STR]['location']).not.toBeDefined();
+    checkResult(pres.verify(verifParams()));
+
+    const recreated = Presentation.fromJSON(pres.toJSON());
+    expect(recreated.spec.credentials[0].setMemberships).toEqual(setMems);
+    checkResult(recreated.verify(verifParams()));
+  });
+
+  it('does not prove membership of a value not in the set', () => {
+    const builder = newBuilder();
+    expect(() => builder.enforceSetMembership(0, 'credentialSubject.location.country', [])).toThrow();
+    expect(() => builder.enforceSetMembership(1, 'credentialSubject.location.country', ['Canada'])).toThrow();
+    builder.enforceSetMembership(0, 'credentialSubject.location.country', ['USA', 'Mexico']);
+    expect(() => builder.finalize()).toThrow('Attribute credentialSubject.location.country is not a member of the set');
+
+    const builder1 = newBuilder();
+    builder1.enforceSetMembership(0, 'credentialSubject.height', [181.4, 181.6]);
+    expect(() => builder1.finalize()).toThrow();
+  });
+
+  it('fails verification when the presented set is changed', () => {
+    const builder = newBuilder();
+    builder.enforceSetMembership(0, 'credentialSubject.location.country', ['USA', 'Canada', 'Mexico']);
+    const pres = builder.finalize();
+    checkResult(pres.verify(verifParams()));
+
+    // Replace the value the attribute is equal to
+    const j = pres.toJSON();
+    j['spec']['credentials'][0]['setMemberships'][SUBJECT_STR]['location']['country'][0]['values'] = [
+      'USA',
+      'Chile',
+      'Mexico'
+    ];
+    expect(Presentation.fromJSON(j).verify(verifParams()).verified).toEqual(false);
+
+    // Remove a value
+    const j1 = pres.toJSON();
+    const setMem = j1['spec']['credentials'][0]['setMemberships'][SUBJECT_STR]['location']['country'][0];
+    setMem['values'] = ['USA', 'Mexico'];
+    setMem['commitments'] = [setMem['commitments'][0], setMem['commitments'][2]];
+    expect(Presentation.fromJSON(j1).verify(verifParams()).verified).toEqual(false);
+
+    // Use commitments of another presentation
+    const j2 = pres.toJSON();
+    const other = newBuilder();
+    other.enforceSetMembership(0, 'credentialSubject.location.country', ['USA', 'Canada', 'Mexico']);
+    j2['spec']['credentials'][0]['setMemberships'][SUBJECT_STR]['location']['country'][0]['commitments'] = other
+      .finalize()
+      .toJSON()['spec']['credentials'][0]['setMemberships'][SUBJECT_STR]['location']['country'][0]['commitments'];
+    expect(Presentation.fromJSON(j2).verify(verifParams()).verified).toEqual(false);
+
+    // Move the set to an attribute that isn't in the schema
+    const j3 = pres.toJSON();
+    const location = j3['spec']['credentials'][0]['setMemberships'][SUBJECT_STR]['location'];
+    location['continent'] = location['country'];
+    delete location['country'];
+    expect(Presentation.fromJSON(j3).verify(verifParams())).toEqual({
+      verified: false,
+      error: `Set membership of attribute ${SUBJECT_STR}.location.continent not in schema of credential index 0`
+    });
+  });
+
+  it('proves an attribute to not be a member of a set', () => {
+    const builder = newBuilder();
+    builder.enforceSetNonMembership(0, 'credentialSubject.location.country', ['USA', 'Mexico']);
+    builder.enforceSetNonMembership(0, 'credentialSubject.level', [-2, 0, 3]);
+    const pres = builder.finalize();
+    expect(pres.spec.credentials[0].attributeInequalities?.[SUBJECT_STR]['location']['country'].length).toEqual(2);
+    expect(pres.spec.credentials[0].attributeInequalities?.[SUBJECT_STR]['level'].length).toEqual(3);
+    checkResult(pres.verify(verifParams()));
+    checkResult(Presentation.fromJSON(pres.toJSON()).verify(verifParams()));
+
+    const builder1 = newBuilder();
+    expect(() => builder1.enforceSetNonMembership(0, 'credentialSubject.location.country', [])).toThrow();
+    builder1.enforceSetNonMembership(0, 'credentialSubject.location.country', ['USA', 'Canada']);
+    expect(() => builder1.finalize()).toThrow();
+  });
+});
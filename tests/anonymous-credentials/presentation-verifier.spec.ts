@@ -0,0 +1,190 @@
+import {
+  AccumulatorPublicKey,
+  BoundCheckBppParams,
+  BoundCheckBppParamsUncompressed,
+  CredentialSchema,
+  initializeWasm,
+  MEM_CHECK_STR,
+  ParamsCache,
+  PositiveAccumulator,
+  PresentationVerifier,
+  VBMembershipWitness
+} from '../../src';
+import {
+  Credential,
+  CredentialBuilder,
+  isKvac,
+  isPS,
+  Presentation,
+  PresentationBuilder,
+  PublicKey,
+  Scheme,
+  SecretKey
+} from '../scheme';
+import { checkResult, stringToBytes } from '../utils';
+import { getExampleSchema, getKeys, setupPrefilledAccum, verifyCred } from './utils';
+
+describe(`${Scheme} Verifying many presentations with PresentationVerifier`, () => {
+  let sk1: SecretKey, pk1: PublicKey;
+  let sk2: SecretKey, pk2: PublicKey;
+
+  let credential1: Credential;
+  let credential2: Credential;
+
+  let accumulatorPk: AccumulatorPublicKey;
+  let accumulator: PositiveAccumulator;
+  let accumulatorWitness: VBMembershipWitness;
+
+  const bppParamsId = 'bpp-params';
+  let bppParams: BoundCheckBppParams;
+
+  beforeAll(async () => {
+    await initializeWasm();
+    [sk1, pk1] = getKeys('seed1');
+    [sk2, pk2] = getKeys('seed2');
+
+    const credSchema = new CredentialSchema(getExampleSchema(5));
+    const issue = (sk: SecretKey, pk: PublicKey, userId: string) => {
+      const builder = new CredentialBuilder();
+      builder.schema = credSchema;
+      builder.subject = {
+        fname: 'John',
+        lname: 'Smith',
+        sensitive: {
+          very: {
+            secret: 'my-secret-that-wont-tell-anyone'
+          },
+          email: 'john.smith@acme.com',
+          phone: '801009801',
+          SSN: '123-456789-0'
+        },
+        lessSensitive: {
+          location: {
+            country: 'USA',
+            city: 'New York'
+          },
+          department: {
+            name: 'Random',
+            location: {
+              name: 'Somewhere',
+              geo: {
+                lat: -23.658,
+                long: 2.556
+              }
+            }
+          }
+        },
+        rank: 6
+      };
+      builder.setCredentialStatus('dock:accumulator:accumId123', MEM_CHECK_STR, userId);
+      const cred = builder.sign(sk);
+      verifyCred(cred, pk, sk);
+      return cred;
+    };
+    credential1 = issue(sk1, pk1, 'user:A-123');
+    credential2 = issue(sk2, pk2, 'user:A-123');
+
+    // @ts-ignore
+    [, accumulatorPk, accumulator, accumulatorWitness] = await setupPrefilledAccum(
+      200,
+      122,
+      'user:A-',
+      credSchema,
+      stringToBytes('secret-seed-for-accum')
+    );
+
+    bppParams = new BoundCheckBppParams(stringToBytes('Bulletproofs++ testing'));
+  });
+
+  function createPresentation(nonce: string): Presentation {
+    const builder = new PresentationBuilder();
+    builder.addCredential(credential1, isPS() ? pk1 : undefined);
+    builder.addCredential(credential2, isPS() ? pk2 : undefined);
+    builder.markAttributesRevealed(0, new Set(['credentialSubject.fname']));
+    builder.enforceAttributeEquality([0, 'credentialSubject.sensitive.SSN'], [1, 'credentialSubject.sensitive.SSN']);
+    // Uses the default setup params
+    builder.enforceBounds(0, 'credentialSubject.rank', 2, 10);
+    // Uses the given setup params
+    builder.enforceBounds(1, 'credentialSubject.rank', 5, 100, bppParamsId, bppParams);
+    builder.addAccumInfoForCredStatus(0, accumulatorWitness, accumulator.accumulated, accumulatorPk);
+    builder.addAccumInfoForCredStatus(1, accumulatorWitness, accumulator.accumulated, accumulatorPk);
+    builder.nonce = stringToBytes(nonce);
+    return builder.finalize();
+  }
+
+  function verifParams(): Map<number, PublicKey | SecretKey> {
+    const m = new Map();
+    m.set(0, isKvac() ? sk1 : pk1);
+    m.set(1, isKvac() ? sk2 : pk2);
+    return m;
+  }
+
+  function accumParams(): Map<number, AccumulatorPublicKey> {
+    const m = new Map();
+    m.set(0, accumulatorPk);
+    m.set(1, accumulatorPk);
+    return m;
+  }
+
+  it('verifies many presentations and reuses the parameters', () => {
+    const predicateParams = new Map();
+    predicateParams.set(bppParamsId, bppParams);
+    const verifier = new PresentationVerifier(verifParams(), accumParams(), predicateParams);
+    // Given params are decompressed once
+    expect(verifier.predicateParams.get(bppParamsId)).toBeInstanceOf(BoundCheckBppParamsUncompressed);
+
+    const presentations = [createPresentation('nonce-1'), createPresentation('nonce-2'), createPresentation('nonce-3')];
+    for (const pres of presentations) {
+      checkResult(pres.verify(verifParams(), accumParams(), predicateParams));
+    }
+
+    const results = verifier.verifyMany(presentations);
+    expect(results.length).toEqual(presentations.length);
+    results.forEach((r) => checkResult(r));
+
+    // Both credentials have the same schema
+    const cache = verifier.paramsCache;
+    expect(cache.has(ParamsCache.schemaKey(presentations[0].spec.credentials[0].schema as object))).toEqual(true);
+    expect(cache.has(ParamsCache.staticParamKey('accumulatorParams'))).toEqual(true);
+    expect(cache.has(ParamsCache.staticParamKey('boundCheckBppSetup'))).toEqual(true);
+    const numEntries = cache.numEntries;
+    const cachedParams = cache.getStaticParam('boundCheckBppSetup', () => {
+      throw new Error('Should have been cached');
+    });
+
+    // Cached params are reused
+    checkResult(verifier.verify(createPresentation('nonce-4')));
+    expect(cache.numEntries).toEqual(numEntries);
+    expect(cache.getStaticParam('boundCheckBppSetup', () => cachedParams)).toBe(cachedParams);
+
+    verifier.clearCache();
+    expect(cache.numEntries).toEqual(0);
+    expect(cache.size).toEqual(0);
+    checkResult(verifier.verify(createPresentation('nonce-5')));
+  });
+
+  it('returns result of each presentation', () => {
+    const predicateParams = new Map();
+    predicateParams.set(bppParamsId, bppParams);
+    const verifier = new PresentationVerifier(verifParams(), accumParams(), predicateParams);
+
+    const valid = createPresentation('nonce-1');
+    // Nonce changed after creating the proof
+    const tamperedJson = valid.toJSON();
+    tamperedJson['nonce'] = createPresentation('nonce-2').toJSON()['nonce'];
+    const tampered = Presentation.fromJSON(tamperedJson);
+
+    const results = verifier.verifyMany([valid, tampered, valid]);
+    checkResult(results[0]);
+    expect(results[1].verified).toEqual(false);
+    checkResult(results[2]);
+
+    // Error while verifying is returned as failed result
+    const verifierWithoutAccum = new PresentationVerifier(verifParams(), undefined, predicateParams);
+    const results1 = verifierWithoutAccum.verifyMany([valid, valid]);
+    for (const r of results1) {
+      expect(r.verified).toEqual(false);
+      expect(r.error).toEqual(`Accumulator public key wasn't provided for credential index 0`);
+    }
+  });
+});
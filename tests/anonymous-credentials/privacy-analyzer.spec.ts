@@ -0,0 +1,174 @@
+import {
+  analyzePrivacy,
+  CredentialSchema,
+  initializeWasm,
+  MEM_CHECK_STR,
+  PrivacyWarningSeverity,
+  PrivacyWarningType,
+  PseudonymBases,
+  SUBJECT_STR
+} from '../../src';
+import { generateRandomFieldElement } from 'crypto-wasm-new';
+import { Credential, CredentialBuilder, isPS, PresentationBuilder, PublicKey, Scheme, SecretKey } from '../scheme';
+import { stringToBytes } from '../utils';
+import { getKeys } from './utils';
+
+describe(`${Scheme} Privacy analysis of presentations`, () => {
+  let sk: SecretKey, pk: PublicKey;
+  let credential: Credential;
+
+  beforeAll(async () => {
+    await initializeWasm();
+    [sk, pk] = getKeys('seed1');
+
+    const schema = CredentialSchema.essential();
+    schema.properties[SUBJECT_STR] = {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        gender: { type: 'string' },
+        passportNumber: { $ref: '#/definitions/encryptableString' },
+        height: { type: 'number', minimum: 0, multipleOf: 0.1 },
+        zip: { type: 'integer', minimum: 0 },
+        randomId: { type: 'integer', minimum: 0 },
+        dateOfBirth: { type: 'string', format: 'date-time' },
+        isMarried: { type: 'boolean' }
+      }
+    };
+    schema.properties['credentialStatus'] = CredentialSchema.statusAsJsonSchema();
+    const builder = new CredentialBuilder();
+    builder.schema = new CredentialSchema(schema);
+    builder.subject = {
+      name: 'John Smith',
+      gender: 'male',
+      passportNumber: 'X1234567',
+      height: 181.5,
+      zip: 10001,
+      randomId: 8473928374,
+      dateOfBirth: '1990-05-17T00:00:00Z',
+      isMarried: true
+    };
+    builder.setCredentialStatus('dock:accumulator:accumId123', MEM_CHECK_STR, 'user:A-123');
+    credential = builder.sign(sk);
+  });
+
+  function newBuilder(): PresentationBuilder {
+    const builder = new PresentationBuilder();
+    builder.addCredential(credential, isPS() ? pk : undefined);
+    return builder;
+  }
+
+  it('has no warnings for a presentation that hides identifying attributes', () => {
+    const builder = newBuilder();
+    builder.markAttributesRevealed(0, new Set(['credentialSubject.name', 'credentialSubject.zip']));
+    builder.enforceBounds(0, 'credentialSubject.height', 150, 200);
+    builder.enforceBounds(0, 'credentialSubject.dateOfBirth', new Date('1900-01-01'), new Date('2008-01-01'));
+    builder.addBoundedPseudonym(
+      PseudonymBases.generateBasesForAttributes(1, stringToBytes('scope')),
+      new Map([[0, ['credentialSubject.zip']]]),
+      PseudonymBases.generateBaseForSecretKey(stringToBytes('scope')),
+      generateRandomFieldElement()
+    );
+    expect(analyzePrivacy(builder)).toEqual([]);
+  });
+
+  it('warns about revealing identifiers and the revocation id', () => {
+    const builder = newBuilder();
+    builder.markAttributesRevealed(0, new Set(['credentialSubject.passportNumber', 'credentialStatus.revocationId']));
+    const warnings = analyzePrivacy(builder);
+    expect(warnings.map((w) => [w.type, w.severity, w.attributes])).toEqual([
+      [PrivacyWarningType.RevealedIdentifier, PrivacyWarningSeverity.Medium, [[0, 'credentialSubject.passportNumber']]],
+      [PrivacyWarningType.RevealedRevocationId, PrivacyWarningSeverity.High, [[0, 'credentialStatus.revocationId']]]
+    ]);
+  });
+
+  it('warns about narrow bounds', () => {
+    const builder = newBuilder();
+    // Only 5 possible values as height has 1 decimal place
+    builder.enforceBounds(0, 'credentialSubject.height', 181.2, 181.7);
+    builder.enforceBounds(0, 'credentialSubject.zip', 10000, 10010);
+    builder.enforceBounds(0, 'credentialSubject.dateOfBirth', new Date('1990-05-01'), new Date('1990-06-01'));
+    // Bound on date of birth spanning a month is narrower than the default of a year
+    let warnings = analyzePrivacy(builder);
+    expect(warnings.map((w) => [w.type, w.attributes])).toEqual([
+      [PrivacyWarningType.NarrowBound, [[0, 'credentialSubject.height']]],
+      [PrivacyWarningType.NarrowBound, [[0, 'credentialSubject.dateOfBirth']]]
+    ]);
+
+    const day = 24 * 3600 * 1000;
+    warnings = analyzePrivacy(builder, { minBoundValues: 11, minDateTimeBoundWidth: day });
+    expect(warnings.map((w) => [w.type, w.attributes])).toEqual([
+      [PrivacyWarningType.NarrowBound, [[0, 'credentialSubject.height']]],
+      [PrivacyWarningType.NarrowBound, [[0, 'credentialSubject.zip']]]
+    ]);
+
+    // Width for a specific attribute takes precedence
+    warnings = analyzePrivacy(builder, {
+      minDateTimeBoundWidth: day,
+      minBoundWidths: { 'credentialSubject.dateOfBirth': 60 * day }
+    });
+    expect(warnings.map((w) => [w.type, w.attributes])).toEqual([
+      [PrivacyWarningType.NarrowBound, [[0, 'credentialSubject.height']]],
+      [PrivacyWarningType.NarrowBound, [[0, 'credentialSubject.dateOfBirth']]]
+    ]);
+  });
+
+  it('warns about revealing several low entropy attributes together', () => {
+    const builder = newBuilder();
+    builder.markAttributesRevealed(
+      0,
+      new Set(['credentialSubject.zip', 'credentialSubject.dateOfBirth', 'credentialSubject.gender'])
+    );
+    expect(analyzePrivacy(builder)).toEqual([]);
+
+    const warnings = analyzePrivacy(builder, { lowEntropyAttributes: ['credentialSubject.gender'] });
+    expect(warnings.length).toEqual(1);
+    expect(warnings[0].type).toEqual(PrivacyWarningType.QuasiIdentifiers);
+    expect(warnings[0].severity).toEqual(PrivacyWarningSeverity.Medium);
+    expect(warnings[0].attributes).toEqual([
+      [0, 'credentialSubject.zip'],
+      [0, 'credentialSubject.dateOfBirth'],
+      [0, 'credentialSubject.gender']
+    ]);
+
+    builder.markAttributesRevealed(0, new Set(['credentialSubject.isMarried']));
+    expect(analyzePrivacy(builder)[0].attributes.length).toEqual(3);
+    expect(analyzePrivacy(builder, { quasiIdentifierThreshold: 4 }).length).toEqual(0);
+  });
+
+  it('warns about attribute bound pseudonyms without secret key over low entropy attributes', () => {
+    const builder = newBuilder();
+    const bases = PseudonymBases.generateBasesForAttributes(2, stringToBytes('scope'));
+    builder.addBoundedPseudonym(bases, new Map([[0, ['credentialSubject.zip', 'credentialSubject.dateOfBirth']]]));
+    // Name has enough entropy
+    builder.addBoundedPseudonym(bases, new Map([[0, ['credentialSubject.zip', 'credentialSubject.name']]]));
+    let warnings = analyzePrivacy(builder);
+    expect(warnings.length).toEqual(1);
+    expect(warnings[0].type).toEqual(PrivacyWarningType.LowEntropyPseudonym);
+    expect(warnings[0].severity).toEqual(PrivacyWarningSeverity.High);
+    expect(warnings[0].attributes).toEqual([
+      [0, 'credentialSubject.zip'],
+      [0, 'credentialSubject.dateOfBirth']
+    ]);
+
+    warnings = analyzePrivacy(builder, { highEntropyAttributes: ['credentialSubject.zip'] });
+    expect(warnings.length).toEqual(0);
+
+    const builder1 = newBuilder();
+    builder1.addBoundedPseudonym(
+      PseudonymBases.generateBasesForAttributes(1, stringToBytes('scope')),
+      new Map([[0, ['credentialSubject.randomId']]])
+    );
+    expect(analyzePrivacy(builder1).length).toEqual(1);
+    expect(analyzePrivacy(builder1, { highEntropyAttributes: ['credentialSubject.randomId'] }).length).toEqual(0);
+
+    // Epoch pseudonyms never have a secret key
+    const builder2 = newBuilder();
+    builder2.addEpochPseudonym(stringToBytes('scope'), 10, new Map([[0, ['credentialSubject.dateOfBirth']]]));
+    builder2.addEpochPseudonym(stringToBytes('scope'), 10, new Map([[0, ['credentialSubject.name']]]));
+    warnings = analyzePrivacy(builder2);
+    expect(warnings.map((w) => [w.type, w.attributes])).toEqual([
+      [PrivacyWarningType.LowEntropyPseudonym, [[0, 'credentialSubject.dateOfBirth']]]
+    ]);
+  });
+});
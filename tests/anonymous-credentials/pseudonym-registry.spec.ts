@@ -0,0 +1,175 @@
+import { generateRandomFieldElement } from 'crypto-wasm-new';
+import {
+  CredentialSchema,
+  InMemoryPseudonymRegistryState,
+  initializeWasm,
+  IPseudonymCommitKey,
+  Pseudonym,
+  PseudonymBases,
+  PseudonymRegistry,
+  PresentationVerifier,
+  SUBJECT_STR
+} from '../../src';
+import {
+  Credential,
+  CredentialBuilder,
+  isKvac,
+  isPS,
+  Presentation,
+  PresentationBuilder,
+  PublicKey,
+  Scheme,
+  SecretKey
+} from '../scheme';
+import { checkResult, stringToBytes } from '../utils';
+import { getKeys, verifyCred } from './utils';
+
+describe(`${Scheme} Pseudonym registry`, () => {
+  let sk: SecretKey, pk: PublicKey;
+  let credential: Credential;
+
+  const scope = stringToBytes('shop.example.com');
+  let baseForSecretKey: Uint8Array;
+  let basesForAttributes: Uint8Array[];
+  let holderSecretKey: Uint8Array;
+
+  beforeAll(async () => {
+    await initializeWasm();
+    baseForSecretKey = PseudonymBases.generateBaseForSecretKey(scope);
+    basesForAttributes = PseudonymBases.generateBasesForAttributes(1, scope);
+    holderSecretKey = generateRandomFieldElement();
+    [sk, pk] = getKeys('seed1');
+
+    const schema = CredentialSchema.essential();
+    schema.properties[SUBJECT_STR] = {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        secret: { type: 'string' }
+      }
+    };
+    const builder = new CredentialBuilder();
+    builder.schema = new CredentialSchema(schema);
+    builder.subject = { name: 'John', secret: 'a-long-random-secret-of-john' };
+    credential = builder.sign(sk);
+    verifyCred(credential, pk, sk);
+  });
+
+  function present(bounded: boolean, unbounded: boolean): Presentation {
+    const builder = new PresentationBuilder();
+    builder.addCredential(credential, isPS() ? pk : undefined);
+    if (bounded) {
+      builder.addBoundedPseudonym(basesForAttributes, new Map([[0, ['credentialSubject.secret']]]));
+    }
+    if (unbounded) {
+      builder.addUnboundedPseudonym(baseForSecretKey, holderSecretKey);
+    }
+    return builder.finalize();
+  }
+
+  it('registers, revokes, blocks and unblocks pseudonyms', async () => {
+    const state = new InMemoryPseudonymRegistryState();
+    const registry = new PseudonymRegistry(state);
+    const commitKey: IPseudonymCommitKey = { basesForAttributes: [], baseForSecretKey };
+    const pseudonym = Pseudonym.new(baseForSecretKey, holderSecretKey).value;
+
+    expect(await registry.lookup(pseudonym, commitKey)).toBeUndefined();
+    await registry.register(pseudonym, commitKey);
+    expect(await registry.isRegistered(pseudonym, commitKey)).toEqual(true);
+    expect(await registry.lookup(pseudonym, commitKey)).toEqual({
+      pseudonym: Pseudonym.decode(pseudonym),
+      commitKey: { basesForAttributes: [], baseForSecretKey: PseudonymBases.decodeBaseForSecretKey(baseForSecretKey) },
+      registered: true,
+      blocked: false
+    });
+    await expect(registry.register(pseudonym, commitKey)).rejects.toThrow('already registered');
+
+    // Same pseudonym with a different commit key is a different pseudonym
+    const otherCommitKey = { basesForAttributes: [], baseForSecretKey: PseudonymBases.generateBaseForSecretKey() };
+    expect(await registry.isRegistered(pseudonym, otherCommitKey)).toEqual(false);
+
+    await registry.revoke(pseudonym, commitKey);
+    expect(await registry.isRegistered(pseudonym, commitKey)).toEqual(false);
+    expect(state.size).toEqual(0);
+    await expect(registry.revoke(pseudonym, commitKey)).rejects.toThrow('not registered');
+    // Can be registered again
+    await registry.register(pseudonym, commitKey);
+
+    await registry.block(pseudonym, commitKey, 'spamming');
+    expect(await registry.isBlocked(pseudonym, commitKey)).toEqual(true);
+    expect((await registry.lookup(pseudonym, commitKey))?.reason).toEqual('spamming');
+    expect(await registry.isRegistered(pseudonym, commitKey)).toEqual(true);
+    // Revoking keeps it blocked
+    await registry.revoke(pseudonym, commitKey);
+    expect(await registry.isBlocked(pseudonym, commitKey)).toEqual(true);
+    await expect(registry.register(pseudonym, commitKey)).rejects.toThrow('is blocked');
+
+    await registry.unblock(pseudonym, commitKey);
+    expect(await registry.lookup(pseudonym, commitKey)).toBeUndefined();
+    await expect(registry.unblock(pseudonym, commitKey)).rejects.toThrow('not blocked');
+
+    // Unblocking keeps the registration
+    await registry.register(pseudonym, commitKey);
+    await registry.block(pseudonym, commitKey);
+    await registry.unblock(pseudonym, commitKey);
+    expect(await registry.lookup(pseudonym, commitKey)).toEqual({
+      pseudonym: Pseudonym.decode(pseudonym),
+      commitKey: { basesForAttributes: [], baseForSecretKey: PseudonymBases.decodeBaseForSecretKey(baseForSecretKey) },
+      registered: true,
+      blocked: false
+    });
+  });
+
+  it('fails checking presentations with blocked or unregistered pseudonyms', async () => {
+    const registry = new PseudonymRegistry(new InMemoryPseudonymRegistryState());
+    const verifier = new PresentationVerifier(new Map([[0, isKvac() ? sk : pk]]));
+
+    const pres = present(true, true);
+    const pseudonyms = PseudonymRegistry.pseudonymsOf(pres);
+    expect(pseudonyms.length).toEqual(2);
+    expect(pseudonyms[0][1]).toEqual({ basesForAttributes, baseForSecretKey: undefined });
+    expect(pseudonyms[1]).toEqual([
+      Pseudonym.new(baseForSecretKey, holderSecretKey).value,
+      { basesForAttributes: [], baseForSecretKey }
+    ]);
+
+    checkResult(await verifier.verifyWithPseudonymRegistry(pres, registry));
+    expect((await verifier.verifyWithPseudonymRegistry(pres, registry, true)).verified).toEqual(false);
+
+    // Register on first use
+    for (const [pseudonym, commitKey] of pseudonyms) {
+      await registry.register(pseudonym, commitKey);
+    }
+    checkResult(await verifier.verifyWithPseudonymRegistry(pres, registry, true));
+    // Pseudonyms are deterministic so a new presentation has the same pseudonyms
+    const pres1 = Presentation.fromJSON(present(true, true).toJSON());
+    checkResult(await verifier.verifyWithPseudonymRegistry(pres1, registry, true));
+
+    // Block the pseudonym bound to the attribute
+    await registry.block(pseudonyms[0][0], pseudonyms[0][1], 'abuse');
+    let result = await verifier.verifyWithPseudonymRegistry(pres1, registry);
+    expect(result.verified).toEqual(false);
+    expect(result.error).toContain('is blocked');
+    expect((await registry.checkPresentation(present(true, false))).verified).toEqual(false);
+    checkResult(await registry.checkPresentation(present(false, true), true));
+
+    await registry.unblock(pseudonyms[0][0], pseudonyms[0][1]);
+    checkResult(await verifier.verifyWithPseudonymRegistry(pres1, registry, true));
+
+    // Epoch scoped pseudonyms can be blocked as well
+    const builder = new PresentationBuilder();
+    builder.addCredential(credential, isPS() ? pk : undefined);
+    builder.addEpochPseudonym(scope, 100, new Map([[0, ['credentialSubject.secret']]]));
+    const pres2 = builder.finalize();
+    const [[epochPseudonym, epochCommitKey]] = PseudonymRegistry.pseudonymsOf(pres2);
+    expect(epochCommitKey).toEqual({ basesForAttributes: [PseudonymBases.generateBaseForEpoch(scope, 100)] });
+    await registry.block(epochPseudonym, epochCommitKey);
+    expect((await verifier.verifyWithPseudonymRegistry(pres2, registry)).verified).toEqual(false);
+
+    // A presentation that doesn't verify fails regardless of the registry
+    const j = JSON.parse(JSON.stringify(pres1.toJSON()));
+    j['nonce'] = 'abcdefghijk';
+    result = await verifier.verifyWithPseudonymRegistry(Presentation.fromJSON(j), registry);
+    expect(result.verified).toEqual(false);
+  });
+});
@@ -0,0 +1,184 @@
+import { compareSchemas, CredentialSchema, initializeWasm, SchemaChangeType, SUBJECT_STR } from '../../src';
+import {
+  Credential,
+  CredentialBuilder,
+  isKvac,
+  isPS,
+  PresentationBuilder,
+  PublicKey,
+  Scheme,
+  SecretKey
+} from '../scheme';
+import { checkResult } from '../utils';
+import { getKeys } from './utils';
+
+describe(`${Scheme} Schema compatibility`, () => {
+  let sk: SecretKey, pk: PublicKey;
+
+  function jsonSchema(subjectProps: object, required?: string[]): any {
+    const s = CredentialSchema.essential();
+    s.properties[SUBJECT_STR] = {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        temperature: { type: 'integer', minimum: -100 },
+        ...subjectProps
+      },
+      required
+    };
+    return s;
+  }
+
+  function sign(schema: CredentialSchema, subject: object): Credential {
+    const builder = new CredentialBuilder();
+    builder.schema = schema;
+    builder.subject = subject;
+    return builder.sign(sk);
+  }
+
+  beforeAll(async () => {
+    await initializeWasm();
+    [sk, pk] = getKeys('seed1');
+  });
+
+  it('finds no changes between same schemas', () => {
+    const result = compareSchemas(new CredentialSchema(jsonSchema({})), new CredentialSchema(jsonSchema({})));
+    expect(result).toEqual({ changes: [], signing: true, presentation: true, crossCredentialEquality: true });
+  });
+
+  it('classifies added and removed attributes', () => {
+    const oldSchema = new CredentialSchema(jsonSchema({}));
+    const newSchema = new CredentialSchema(jsonSchema({ email: { type: 'string' } }));
+
+    // The added attribute sorts before the others so their indices change
+    let result = compareSchemas(oldSchema, newSchema);
+    expect(result.signing).toEqual(false);
+    expect(result.presentation).toEqual(true);
+    expect(result.crossCredentialEquality).toEqual(true);
+    expect(result.changes.filter((c) => c.type === SchemaChangeType.AttributeAdded).map((c) => c.attribute)).toEqual([
+      `${SUBJECT_STR}.email`
+    ]);
+    const moved = result.changes.filter((c) => c.type === SchemaChangeType.IndexChanged);
+    expect(moved.map((c) => c.attribute)).toEqual(
+      expect.arrayContaining([`${SUBJECT_STR}.name`, `${SUBJECT_STR}.temperature`])
+    );
+    expect(moved.every((c) => (c.new as number) - (c.old as number) === 1)).toEqual(true);
+
+    // Equality can be proven between credentials of both schemas
+    const builder = new PresentationBuilder();
+    builder.addCredential(sign(oldSchema, { name: 'John', temperature: 20 }), isPS() ? pk : undefined);
+    builder.addCredential(
+      sign(newSchema, { name: 'John', temperature: 20, email: 'john@example.com' }),
+      isPS() ? pk : undefined
+    );
+    builder.enforceAttributeEquality([0, `${SUBJECT_STR}.name`], [1, `${SUBJECT_STR}.name`]);
+    builder.enforceAttributeEquality([0, `${SUBJECT_STR}.temperature`], [1, `${SUBJECT_STR}.temperature`]);
+    checkResult(builder.finalize().verify(isKvac() ? [sk, sk] : [pk, pk]));
+
+    result = compareSchemas(newSchema, oldSchema);
+    expect(result.signing).toEqual(false);
+    expect(result.presentation).toEqual(false);
+    expect(result.crossCredentialEquality).toEqual(true);
+    expect(result.changes.find((c) => c.type === SchemaChangeType.AttributeRemoved)?.message).toEqual(
+      `Attribute ${SUBJECT_STR}.email was removed`
+    );
+  });
+
+  it('classifies changes of type and encoding', () => {
+    const oldSchema = new CredentialSchema(jsonSchema({}));
+    let result = compareSchemas(
+      oldSchema,
+      new CredentialSchema(jsonSchema({ temperature: { type: 'integer', minimum: -200 } }))
+    );
+    expect(result.changes).toEqual([
+      expect.objectContaining({
+        type: SchemaChangeType.MinimumChanged,
+        attribute: `${SUBJECT_STR}.temperature`,
+        old: -100,
+        new: -200
+      })
+    ]);
+    expect(result.signing).toEqual(false);
+    // Bounds are transformed as per the credential's schema
+    expect(result.presentation).toEqual(true);
+    expect(result.crossCredentialEquality).toEqual(false);
+
+    // Equality can't be proven as the encodings differ
+    const newSchema = new CredentialSchema(jsonSchema({ temperature: { type: 'integer', minimum: -200 } }));
+    const builder = new PresentationBuilder();
+    builder.addCredential(sign(oldSchema, { name: 'John', temperature: 20 }), isPS() ? pk : undefined);
+    builder.addCredential(sign(newSchema, { name: 'John', temperature: 20 }), isPS() ? pk : undefined);
+    builder.enforceAttributeEquality([0, `${SUBJECT_STR}.temperature`], [1, `${SUBJECT_STR}.temperature`]);
+    expect(() => builder.finalize()).toThrow();
+
+    result = compareSchemas(
+      oldSchema,
+      new CredentialSchema(jsonSchema({ temperature: { type: 'number', minimum: -100, multipleOf: 0.1 } }))
+    );
+    expect(result.changes.map((c) => c.type)).toEqual([SchemaChangeType.TypeChanged]);
+    expect(result.presentation).toEqual(false);
+
+    result = compareSchemas(
+      new CredentialSchema(jsonSchema({ temperature: { type: 'number', minimum: -100, multipleOf: 0.1 } })),
+      new CredentialSchema(jsonSchema({ temperature: { type: 'number', minimum: -100, multipleOf: 0.01 } }))
+    );
+    expect(result.changes.map((c) => [c.type, c.old, c.new])).toEqual([[SchemaChangeType.DecimalPlacesChanged, 1, 2]]);
+
+    result = compareSchemas(
+      oldSchema,
+      new CredentialSchema(jsonSchema({ name: { $ref: '#/definitions/encryptableCompString' } }))
+    );
+    expect(result.changes.map((c) => c.type)).toEqual([SchemaChangeType.TypeChanged]);
+
+    result = compareSchemas(
+      new CredentialSchema(jsonSchema({ name: { type: 'string', enum: ['John', 'Jane'] } })),
+      new CredentialSchema(jsonSchema({ name: { type: 'string', enum: ['Jane', 'John'] } }))
+    );
+    expect(result.changes.map((c) => c.type)).toEqual([SchemaChangeType.EncodingChanged]);
+    expect(result.crossCredentialEquality).toEqual(false);
+
+    // Appending values keeps the codes of the existing ones
+    const twoNames = new CredentialSchema(jsonSchema({ name: { type: 'string', enum: ['John', 'Jane'] } }));
+    result = compareSchemas(
+      twoNames,
+      new CredentialSchema(jsonSchema({ name: { type: 'string', enum: ['John', 'Jane', 'Alice'] } }))
+    );
+    expect(result.changes.map((c) => [c.type, c.new])).toEqual([
+      [SchemaChangeType.EnumValuesAdded, ['John', 'Jane', 'Alice']]
+    ]);
+    expect([result.signing, result.presentation, result.crossCredentialEquality]).toEqual([true, true, true]);
+    // Removing the last value isn't an append
+    result = compareSchemas(twoNames, new CredentialSchema(jsonSchema({ name: { type: 'string', enum: ['John'] } })));
+    expect(result.changes.map((c) => c.type)).toEqual([SchemaChangeType.EncodingChanged]);
+    result = compareSchemas(
+      twoNames,
+      new CredentialSchema(jsonSchema({ name: { type: 'string', enum: ['Alice', 'John', 'Jane'] } }))
+    );
+    expect(result.changes.map((c) => c.type)).toEqual([SchemaChangeType.EncodingChanged]);
+
+    // Older schemas encode strings with a variable time encoder
+    result = compareSchemas(new CredentialSchema(jsonSchema({}), undefined, true, { version: '0.4.0' }), oldSchema);
+    expect(result.changes.find((c) => c.attribute === `${SUBJECT_STR}.name`)?.type).toEqual(
+      SchemaChangeType.EncodingChanged
+    );
+    expect(result.crossCredentialEquality).toEqual(false);
+  });
+
+  it('classifies changes of optionality', () => {
+    const required = new CredentialSchema(jsonSchema({}, ['name', 'temperature']));
+    const optional = new CredentialSchema(jsonSchema({}, ['name']));
+
+    let result = compareSchemas(required, optional);
+    expect(result.changes.map((c) => [c.type, c.attribute, c.message])).toEqual([
+      [
+        SchemaChangeType.OptionalityChanged,
+        `${SUBJECT_STR}.temperature`,
+        `Attribute ${SUBJECT_STR}.temperature became optional`
+      ]
+    ]);
+    expect([result.signing, result.presentation, result.crossCredentialEquality]).toEqual([true, false, true]);
+
+    result = compareSchemas(optional, required);
+    expect([result.signing, result.presentation, result.crossCredentialEquality]).toEqual([false, true, true]);
+  });
+});
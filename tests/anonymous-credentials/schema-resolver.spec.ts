@@ -0,0 +1,129 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  CredentialSchema,
+  FULL_SCHEMA_HASH_STR,
+  IEmbeddedJsonSchema,
+  initializeWasm,
+  META_SCHEMA_STR,
+  SCHEMA_DETAILS_STR,
+  SchemaResolver,
+  SUBJECT_STR
+} from '../../src';
+import { Credential, CredentialBuilder, PublicKey, Scheme, SecretKey } from '../scheme';
+import { getKeys, verifyCred } from './utils';
+
+describe(`${Scheme} Resolving external schemas`, () => {
+  let sk: SecretKey, pk: PublicKey;
+
+  const schemaRef = 'https://schemas.example.com/employee';
+  const nonEmbeddedSchema = {
+    $id: schemaRef,
+    [META_SCHEMA_STR]: 'http://json-schema.org/draft-07/schema#',
+    type: 'object'
+  };
+
+  function fullSchema(salaryMinimum = 0): IEmbeddedJsonSchema {
+    const s = CredentialSchema.essential();
+    s.$id = schemaRef;
+    s.properties[SUBJECT_STR] = {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        salary: { type: 'integer', minimum: salaryMinimum }
+      }
+    };
+    return s;
+  }
+
+  function sign(schema: CredentialSchema): Credential {
+    const builder = new CredentialBuilder();
+    builder.schema = schema;
+    builder.subject = { name: 'John', salary: 1000 };
+    const cred = builder.sign(sk);
+    verifyCred(cred, pk, sk);
+    return cred;
+  }
+
+  beforeAll(async () => {
+    await initializeWasm();
+    [sk, pk] = getKeys('seed1');
+  });
+
+  it('caches fetched schemas and records their hash', async () => {
+    let fetched = 0;
+    const resolver = new SchemaResolver(async () => {
+      fetched++;
+      return fullSchema();
+    });
+    const schema = await resolver.newSchema(nonEmbeddedSchema);
+    expect(resolver.has(schemaRef)).toEqual(true);
+    const cred = sign(schema);
+
+    const j = schema.toJSON();
+    const hash = JSON.parse(j[SCHEMA_DETAILS_STR])[FULL_SCHEMA_HASH_STR];
+    expect(hash).toEqual(CredentialSchema.hashJsonSchema(fullSchema()));
+    expect(CredentialSchema.hashJsonSchema(fullSchema(-100))).not.toEqual(hash);
+
+    const recreated = await resolver.schemaFromJSON(j);
+    expect(recreated.toJSON()).toEqual(j);
+    await resolver.resolve(schemaRef, hash);
+    expect(fetched).toEqual(1);
+    verifyCred(Credential.fromJSON(cred.toJSON()), pk, sk);
+
+    // Hash isn't recorded by older versions
+    const old = await resolver.newSchema(nonEmbeddedSchema, undefined, undefined, true, { version: '0.5.0' });
+    expect(JSON.parse(old.toJSON()[SCHEMA_DETAILS_STR])[FULL_SCHEMA_HASH_STR]).toBeUndefined();
+    expect((await resolver.schemaFromJSON(old.toJSON())).toJSON()).toEqual(old.toJSON());
+  });
+
+  it('rejects schemas changed by the host', async () => {
+    const schema = await new SchemaResolver(async () => fullSchema()).newSchema(nonEmbeddedSchema);
+    const j = schema.toJSON();
+    const hash = JSON.parse(j[SCHEMA_DETAILS_STR])[FULL_SCHEMA_HASH_STR];
+
+    // Host now returns a schema encoding the salary differently
+    const swapped = async () => fullSchema(-100);
+    const resolver = new SchemaResolver(swapped);
+    await expect(resolver.schemaFromJSON(j)).rejects.toThrow(`was expected to be ${hash}`);
+    // Not cached as the hash didn't match
+    expect(resolver.has(schemaRef)).toEqual(false);
+    await expect(CredentialSchema.fromJSONWithPotentiallyExternalSchema(j, swapped)).rejects.toThrow(
+      'was expected to be'
+    );
+    await expect(resolver.newSchema(nonEmbeddedSchema, hash)).rejects.toThrow('was expected to be');
+
+    // The full schema in the serialized schema is checked as well
+    const details = JSON.parse(j[SCHEMA_DETAILS_STR]);
+    details['fullJsonSchema'] = fullSchema(-100);
+    expect(() => CredentialSchema.fromJSON({ ...j, [SCHEMA_DETAILS_STR]: JSON.stringify(details) })).toThrow(
+      'was expected to be'
+    );
+  });
+
+  it('resolves schemas from offline bundles', async () => {
+    const j = (await new SchemaResolver(async () => fullSchema()).newSchema(nonEmbeddedSchema)).toJSON();
+
+    let resolver = new SchemaResolver(undefined, { [schemaRef]: fullSchema() });
+    expect((await resolver.schemaFromJSON(j)).toJSON()).toEqual(j);
+    await expect(resolver.resolve('https://schemas.example.com/unknown')).rejects.toThrow('not in the bundle');
+    expect(() => resolver.addSchema(fullSchema(-100))).toThrow('different schema');
+    resolver.addSchema(fullSchema());
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'schemas-'));
+    try {
+      fs.writeFileSync(path.join(dir, 'employee.json'), JSON.stringify(fullSchema()));
+      fs.writeFileSync(path.join(dir, 'README.txt'), 'not a schema');
+      resolver = await SchemaResolver.fromDirectory(dir);
+      expect(resolver.has(schemaRef)).toEqual(true);
+      expect((await resolver.schemaFromJSON(j)).toJSON()).toEqual(j);
+
+      fs.writeFileSync(path.join(dir, 'employee.json'), JSON.stringify(fullSchema(-100)));
+      resolver = await SchemaResolver.fromDirectory(dir);
+      await expect(resolver.schemaFromJSON(j)).rejects.toThrow('was expected to be');
+    } finally {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,206 @@
+import { generateRandomG1Element } from 'crypto-wasm-new';
+import { CredentialSchema, initializeWasm, SUBJECT_STR } from '../../src';
+import { ParticipantG2 } from '../../src/frost-dkg';
+import {
+  BaseOTOutput,
+  GadgetVector,
+  Participant as BaseOTParticipant,
+  ThresholdBbsPlusSigner,
+  ThresholdBbsSigner
+} from '../../src/threshold-sigs';
+import { PublicKeyBase } from '../../src/types';
+import {
+  Credential,
+  CredentialBuilder,
+  isBBS,
+  isBBSPlus,
+  Presentation,
+  PresentationBuilder,
+  PublicKey,
+  Scheme,
+  SecretKey,
+  SignatureLabelBytes,
+  SignatureParams
+} from '../scheme';
+import { checkResult, runFrostKeygen, stringToBytes } from '../utils';
+
+type ThresholdSigner = ThresholdBbsSigner | ThresholdBbsPlusSigner;
+
+const skipIfNotBBSOrBBSPlus = isBBS() || isBBSPlus() ? describe : describe.skip;
+
+skipIfNotBBSOrBBSPlus(`${Scheme} Issuing credentials with threshold signers`, () => {
+  const threshold = 2;
+  const total = 3;
+  const sigBatchSize = 3;
+  // Any threshold of signers can sign
+  const signerIds = [1, 3];
+
+  const secretKeys: SecretKey[] = [];
+  let thresholdPk: PublicKey;
+  const baseOTOutputs: BaseOTOutput[] = [];
+  let gadgetVector: GadgetVector;
+  let schema: CredentialSchema;
+
+  function newBuilder(name: string) {
+    const builder = new CredentialBuilder();
+    builder.schema = schema;
+    builder.subject = { name, email: `${name.toLowerCase()}@example.com`, score: 90 };
+    return builder;
+  }
+
+  // Runs the 2 rounds of threshold signing among the given signers. Messages to sign aren't needed for these
+  function startSigning(protocolId: Uint8Array): ThresholdSigner[] {
+    const signerClass = isBBS() ? ThresholdBbsSigner : ThresholdBbsPlusSigner;
+    const signers = signerIds.map(
+      (id) => new signerClass(id, new Set(signerIds.filter((i) => i !== id)), threshold, sigBatchSize, protocolId)
+    );
+    const round1 = new Map(signers.map((s) => [s.id, s.startRound1()]));
+    for (const signer of signers) {
+      for (const [senderId, [comms, commsZero]] of round1) {
+        if (senderId !== signer.id) {
+          // @ts-ignore
+          signer.processReceivedCommitments(senderId, comms, commsZero.get(signer.id));
+        }
+      }
+    }
+    for (const sender of signers) {
+      for (const receiver of signers) {
+        if (receiver.id !== sender.id) {
+          const [s, z] = sender.getSharesForOtherSigner(receiver.id);
+          receiver.processReceivedShares(sender.id, s, z);
+        }
+      }
+    }
+    // @ts-ignore
+    signers.forEach((s) => s.finishRound1(secretKeys[s.id - 1]));
+
+    const msg1s = new Map(signers.map((s) => [s.id, s.startRound2(baseOTOutputs[s.id - 1], gadgetVector)]));
+    for (const [senderId, msgs] of msg1s) {
+      for (const [receiverId, msg] of msgs) {
+        const receiver = signers.find((s) => s.id === receiverId) as ThresholdSigner;
+        const sender = signers.find((s) => s.id === senderId) as ThresholdSigner;
+        sender.processReceivedMsg2(receiverId, receiver.processReceivedMsg1(senderId, msg, gadgetVector), gadgetVector);
+      }
+    }
+    signers.forEach((s) => s.finishRound2());
+    return signers;
+  }
+
+  function checkCredential(cred: Credential) {
+    checkResult(cred.verify(thresholdPk));
+    checkResult(Credential.fromJSON(cred.toJSON()).verify(thresholdPk));
+  }
+
+  beforeAll(async () => {
+    await initializeWasm();
+    // Public key base is the same for signature params of any size
+    const params = SignatureParams.generate(1, SignatureLabelBytes);
+    const pkBase = isBBS()
+      ? ParticipantG2.generatePublicKeyBaseFromBbsParams(params)
+      : ParticipantG2.generatePublicKeyBaseFromBbsPlusParams(params);
+    const protocolId = stringToBytes('DKG for threshold issuance');
+    const keygen: ParticipantG2[] = [];
+    for (let i = 1; i <= total; i++) {
+      keygen.push(new ParticipantG2(i, threshold, total, protocolId));
+    }
+    const [sks, _, tpk] = runFrostKeygen(keygen, pkBase);
+    sks.forEach((s) => secretKeys.push(new SecretKey(s)));
+    thresholdPk = new PublicKey(tpk);
+
+    const otPkBase = new PublicKeyBase(generateRandomG1Element());
+    const allIds = Array.from({ length: total }, (_, i) => i + 1);
+    const participants = allIds.map((id) => new BaseOTParticipant(id, new Set(allIds.filter((i) => i !== id))));
+    const senderPks = new Map(participants.map((p) => [p.id, p.start(otPkBase)]));
+    for (const [senderId, pks] of senderPks) {
+      for (const [receiverId, pk] of pks) {
+        const receiver = participants[receiverId - 1];
+        const sender = participants[senderId - 1];
+        const challenges = sender.processReceiverPublicKey(
+          receiverId,
+          receiver.processSenderPublicKey(senderId, pk, otPkBase)
+        );
+        sender.processResponses(receiverId, receiver.processChallenges(senderId, challenges));
+      }
+    }
+    participants.forEach((p) => {
+      p.finish();
+      baseOTOutputs.push(p.outputs as BaseOTOutput);
+    });
+    gadgetVector = GadgetVector.generate(stringToBytes('threshold issuance'));
+
+    const jsonSchema = CredentialSchema.essential();
+    jsonSchema.properties[SUBJECT_STR] = {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        email: { type: 'string' },
+        score: { type: 'integer', minimum: 0 }
+      }
+    };
+    schema = new CredentialSchema(jsonSchema);
+  });
+
+  it('issues a batch of credentials verifiable with the threshold public key', () => {
+    const signers = startSigning(stringToBytes('batch 1'));
+    const creds = CredentialBuilder.signBatchWithThresholdSigners([newBuilder('John'), newBuilder('Jane')], signers);
+    expect(creds.length).toEqual(2);
+    creds.forEach((c) => checkCredential(c));
+    expect(creds[1].subject).toEqual({ name: 'Jane', email: 'jane@example.com', score: 90 });
+
+    // The last signature of the batch is created by signers having their own builders and the shares are aggregated
+    // by another party
+    const shares = signers.map((s) => newBuilder('Alice').createThresholdSigShare(s, 2));
+    const aggregator = newBuilder('Alice');
+    const cred = aggregator.aggregateThresholdSigShares(shares);
+    checkCredential(cred);
+    expect(aggregator.signature).toEqual(cred.signature);
+
+    // Indices of the batch can't be used again
+    expect(() => newBuilder('Bob').createThresholdSigShare(signers[0], 1)).toThrow(
+      `Signer ${signers[0].id} has already created a signature share for index 1`
+    );
+    expect(() => CredentialBuilder.signBatchWithThresholdSigners([newBuilder('Bob')], signers)).toThrow(
+      'with 0 unused'
+    );
+    // The used indices are part of each signer's state
+    signers.forEach((s) => expect([...s.usedIndicesInBatch].sort()).toEqual([0, 1, 2]));
+
+    // Credential can be used in presentations like any other
+    const presBuilder = new PresentationBuilder();
+    expect(presBuilder.addCredential(cred, thresholdPk)).toEqual(0);
+    presBuilder.markAttributesRevealed(0, new Set<string>([`${SUBJECT_STR}.name`]));
+    const pres = presBuilder.finalize();
+    checkResult(pres.verify([thresholdPk]));
+    checkResult(Presentation.fromJSON(pres.toJSON()).verify([thresholdPk]));
+  });
+
+  it('rejects signing outside the batch or with an index used already', () => {
+    const signers = startSigning(stringToBytes('batch 2'));
+    const builder = newBuilder('John');
+    expect(() => builder.signWithThresholdSigners(signers, sigBatchSize)).toThrow('less than the batch size');
+    expect(() => builder.signWithThresholdSigners(signers, -1)).toThrow('less than the batch size');
+    const builders = ['A', 'B', 'C', 'D'].map((n) => newBuilder(n));
+    expect(() => CredentialBuilder.signBatchWithThresholdSigners(builders, signers)).toThrow(
+      `batch size is ${sigBatchSize}`
+    );
+    expect(() => CredentialBuilder.signBatchWithThresholdSigners(builders, [])).toThrow('at least one');
+
+    // Signers must have finished both rounds
+    const signerClass = isBBS() ? ThresholdBbsSigner : ThresholdBbsPlusSigner;
+    const notStarted = new signerClass(1, new Set([3]), threshold, sigBatchSize, stringToBytes('batch 3'));
+    expect(() => builder.createThresholdSigShare(notStarted, 0)).toThrow('Round 2 has not finished');
+
+    // A signature share alone doesn't verify
+    const share = builder.createThresholdSigShare(signers[0], 0);
+    expect(newBuilder('John').aggregateThresholdSigShares([share]).verify(thresholdPk).verified).toEqual(false);
+
+    // The share used up index 0 for the 1st signer so it can't be used by both the signers anymore and a batch gets the
+    // remaining indices
+    expect(() => builder.signWithThresholdSigners(signers, 0)).toThrow('already created a signature share for index 0');
+    const creds = CredentialBuilder.signBatchWithThresholdSigners([newBuilder('Jane'), builder], signers);
+    creds.forEach((c) => checkCredential(c));
+    expect(() => newBuilder('Bob').signWithThresholdSigners(signers, sigBatchSize - 1)).toThrow(
+      `index ${sigBatchSize - 1}`
+    );
+  });
+});
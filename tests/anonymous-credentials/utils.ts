@@ -718,6 +718,8 @@ export function checkPresentationJson(
   const recreatedPres = Presentation.fromJSON(presJson);
   checkResult(recreatedPres.verify(pks, accumulatorPublicKeys, predicateParams, circomOutputs, undefined, circomOutputsMultiCred));
   expect(presJson).toEqual(recreatedPres.toJSON());
+  // CBOR serialization has the same result as serializing to a JSON string
+  expect(Presentation.fromCBOR(pres.toCBOR()).toJSON()).toEqual(JSON.parse(JSON.stringify(presJson)));
   return recreatedPres;
 }
 
@@ -0,0 +1,199 @@
+import {
+  BoundCheckBppParams,
+  BoundCheckProtocol,
+  CredentialSchema,
+  initializeWasm,
+  IPresentationPolicy,
+  PolicyMismatchType,
+  VALID_FROM_STR,
+  VALID_UNTIL_STR
+} from '../../src';
+import {
+  Credential,
+  CredentialBuilder,
+  isKvac,
+  isPS,
+  Presentation,
+  PresentationBuilder,
+  PublicKey,
+  Scheme,
+  SecretKey
+} from '../scheme';
+import { checkResult, stringToBytes } from '../utils';
+import { getExampleSchema, getKeys, verifyCred } from './utils';
+
+describe(`${Scheme} Credential validity period`, () => {
+  let sk: SecretKey, pk: PublicKey;
+  let credSchema: CredentialSchema;
+  let credential: Credential;
+
+  const validFrom = new Date('2024-01-01T00:00:00Z');
+  const validUntil = new Date('2030-06-30T12:00:00Z');
+  const now = new Date('2026-10-18T09:30:00Z');
+
+  function newBuilder(): CredentialBuilder {
+    const builder = new CredentialBuilder();
+    builder.schema = credSchema;
+    builder.subject = {
+      fname: 'John',
+      lname: 'Smith',
+      email: 'john.smith@example.com',
+      SSN: '123-456789-0',
+      userId: 'user:123-xyz-#',
+      country: 'USA',
+      city: 'New York',
+      timeOfBirth: 1662010849619,
+      height: 181.5,
+      weight: 210.4,
+      BMI: 23.25,
+      score: -13.5,
+      secret: 'my-secret-that-wont-tell-anyone'
+    };
+    return builder;
+  }
+
+  beforeAll(async () => {
+    await initializeWasm();
+    [sk, pk] = getKeys('seed1');
+
+    const schema = getExampleSchema(9);
+    Object.assign(schema.properties, CredentialSchema.validityPeriodAsJsonSchema());
+    credSchema = new CredentialSchema(schema);
+    expect(credSchema.isDateTime(VALID_FROM_STR)).toEqual(true);
+    expect(credSchema.isDateTime(VALID_UNTIL_STR)).toEqual(true);
+    expect(credSchema.isDateTime('credentialSubject.fname')).toEqual(false);
+
+    const builder = newBuilder();
+    builder.setValidityPeriod(validFrom, validUntil.toISOString());
+    credential = builder.sign(sk);
+    verifyCred(credential, pk, sk);
+  });
+
+  function createPresentation(cred: Credential, time: Date | number, nonce: string): Presentation {
+    const builder = new PresentationBuilder();
+    builder.addCredential(cred, isPS() ? pk : undefined);
+    builder.markAttributesRevealed(0, new Set(['credentialSubject.fname']));
+    builder.enforceNotExpired(0, time);
+    builder.nonce = stringToBytes(nonce);
+    return builder.finalize();
+  }
+
+  it('sets validity period on the credential', () => {
+    expect(credential.getTopLevelField(VALID_FROM_STR)).toEqual('2024-01-01T00:00:00.000Z');
+    expect(credential.getTopLevelField(VALID_UNTIL_STR)).toEqual('2030-06-30T12:00:00.000Z');
+    expect(credential.isValidAt(now)).toEqual(true);
+    expect(credential.isValidAt(validUntil)).toEqual(true);
+    expect(credential.isValidAt(new Date('2023-12-31T23:59:59Z'))).toEqual(false);
+    expect(credential.isValidAt(validUntil.getTime() + 1)).toEqual(false);
+
+    // Survives serialization
+    const recreated = Credential.fromJSON(credential.toJSON());
+    expect(recreated.getTopLevelField(VALID_UNTIL_STR)).toEqual(credential.getTopLevelField(VALID_UNTIL_STR));
+    verifyCred(recreated, pk, sk);
+
+    const builder = newBuilder();
+    expect(() => builder.setValidityPeriod()).toThrow();
+    expect(() => builder.setValidityPeriod(validUntil, validFrom)).toThrow();
+    expect(() => builder.setValidityPeriod(undefined, 'not a date')).toThrow();
+
+    // Only expiration date
+    const schema = getExampleSchema(9);
+    schema.properties[VALID_UNTIL_STR] = CredentialSchema.validityPeriodAsJsonSchema()[VALID_UNTIL_STR];
+    builder.schema = new CredentialSchema(schema);
+    builder.setValidityPeriod(undefined, validUntil);
+    const cred = builder.sign(sk);
+    verifyCred(cred, pk, sk);
+    expect(cred.topLevelFields.has(VALID_FROM_STR)).toEqual(false);
+    expect(cred.isValidAt(new Date('2000-01-01T00:00:00Z'))).toEqual(true);
+  });
+
+  it('proves that the credential is not expired without revealing the expiration date', () => {
+    const pres = createPresentation(credential, now, 'nonce-1');
+    checkResult(pres.verify([isKvac() ? sk : pk]));
+
+    const presentedCred = pres.spec.credentials[0];
+    expect(presentedCred.revealedAttributes[VALID_UNTIL_STR]).not.toBeDefined();
+    expect(presentedCred.bounds?.[VALID_UNTIL_STR]).toEqual([
+      {
+        min: now.getTime(),
+        max: PresentationBuilder.MAX_VALID_UNTIL,
+        paramId: undefined,
+        protocol: BoundCheckProtocol.Bpp
+      }
+    ]);
+    checkResult(Presentation.fromJSON(pres.toJSON()).verify([isKvac() ? sk : pk]));
+
+    // Protocol is selected using the setup param
+    const builder = new PresentationBuilder();
+    builder.addCredential(credential, isPS() ? pk : undefined);
+    builder.enforceNotExpired(0, now, 'bpp-params', new BoundCheckBppParams(stringToBytes('Bulletproofs++ testing')));
+    const pres1 = builder.finalize();
+    expect(pres1.spec.credentials[0].bounds?.[VALID_UNTIL_STR][0].paramId).toEqual('bpp-params');
+    const predicateParams = new Map();
+    predicateParams.set('bpp-params', new BoundCheckBppParams(stringToBytes('Bulletproofs++ testing')));
+    checkResult(pres1.verify([isKvac() ? sk : pk], undefined, predicateParams));
+  });
+
+  it('does not prove an expired credential', () => {
+    const builder = new PresentationBuilder();
+    builder.addCredential(credential, isPS() ? pk : undefined);
+    expect(() => builder.enforceNotExpired(0, validUntil.getTime() + 1)).toThrow(
+      `Credential at index 0 is expired at ${new Date(validUntil.getTime() + 1).toISOString()}`
+    );
+    // At the expiration time, it's still valid
+    builder.enforceNotExpired(0, validUntil);
+    checkResult(builder.finalize().verify([isKvac() ? sk : pk]));
+
+    // Credential without validity period
+    const schema = getExampleSchema(9);
+    const builder1 = newBuilder();
+    builder1.schema = new CredentialSchema(schema);
+    const cred = builder1.sign(sk);
+    const presBuilder = new PresentationBuilder();
+    presBuilder.addCredential(cred, isPS() ? pk : undefined);
+    expect(() => presBuilder.enforceNotExpired(0, now)).toThrow(
+      `Credential at index 0 should have ${VALID_UNTIL_STR} of date-time type in its schema`
+    );
+
+    // Credential whose schema has the validity period but which doesn't have the end of it
+    const j = credential.toJSON();
+    delete j[VALID_UNTIL_STR];
+    const presBuilder2 = new PresentationBuilder();
+    presBuilder2.addCredential(Credential.fromJSON(j), isPS() ? pk : undefined);
+    expect(() => presBuilder2.enforceNotExpired(0, now)).toThrow(
+      `Credential at index 0 does not have ${VALID_UNTIL_STR}`
+    );
+  });
+
+  it('checks the time of the expiry proof against the policy', () => {
+    const pres = createPresentation(credential, now, 'nonce-1');
+    checkResult(pres.verify([isKvac() ? sk : pk]));
+
+    const policy = (time?: Date | number, tolerance?: number): IPresentationPolicy => {
+      return { credentials: [{ notExpired: { time, tolerance } }] };
+    };
+
+    expect(pres.verifyAgainstPolicy(policy(now)).satisfied).toEqual(true);
+    // Verifier's clock is a minute ahead or behind
+    expect(pres.verifyAgainstPolicy(policy(now.getTime() + 60000, 5 * 60000)).satisfied).toEqual(true);
+    expect(pres.verifyAgainstPolicy(policy(now.getTime() - 60000, 5 * 60000)).satisfied).toEqual(true);
+
+    // Proof was created too long ago
+    const result = pres.verifyAgainstPolicy(policy(now.getTime() + 10 * 60000, 5 * 60000));
+    expect(result.satisfied).toEqual(false);
+    expect(result.mismatches.length).toEqual(1);
+    expect(result.mismatches[0].type).toEqual(PolicyMismatchType.Expiry);
+    expect(result.mismatches[0].attributeName).toEqual(VALID_UNTIL_STR);
+
+    // Defaults to current time and proof was not created now
+    expect(pres.verifyAgainstPolicy(policy()).satisfied).toEqual(false);
+
+    // Expiry not proved
+    const builder = new PresentationBuilder();
+    builder.addCredential(credential, isPS() ? pk : undefined);
+    const pres1 = builder.finalize();
+    const result1 = pres1.verifyAgainstPolicy(policy(now));
+    expect(result1.satisfied).toEqual(false);
+    expect(result1.mismatches[0].type).toEqual(PolicyMismatchType.Expiry);
+  });
+});
@@ -0,0 +1,208 @@
+import { CredentialSchema, initializeWasm, SUBJECT_STR } from '../../src';
+import {
+  Credential,
+  CredentialBuilder,
+  isKvac,
+  isPS,
+  Presentation,
+  PresentationBuilder,
+  PublicKey,
+  Scheme,
+  SecretKey
+} from '../scheme';
+import { checkResult } from '../utils';
+import { getKeys, verifyCred } from './utils';
+
+describe(`${Scheme} Credentials with variable length arrays`, () => {
+  let sk: SecretKey, pk: PublicKey;
+  let schema: CredentialSchema;
+  let credential1: Credential;
+  let credential2: Credential;
+
+  const degreesName = `${SUBJECT_STR}.degrees`;
+  const languagesName = `${SUBJECT_STR}.languages`;
+
+  function jsonSchema(degrees: object): any {
+    const s = CredentialSchema.essential();
+    s.properties[SUBJECT_STR] = {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        degrees,
+        languages: { type: 'array', maxItems: 5, items: { type: 'string' } }
+      }
+    };
+    return s;
+  }
+
+  function sign(subject: object): Credential {
+    const builder = new CredentialBuilder();
+    builder.schema = schema;
+    builder.subject = subject;
+    const cred = builder.sign(sk);
+    verifyCred(cred, pk, sk);
+    return cred;
+  }
+
+  function newBuilder(cred: Credential): PresentationBuilder {
+    const builder = new PresentationBuilder();
+    builder.addCredential(cred, isPS() ? pk : undefined);
+    return builder;
+  }
+
+  function verify(pres: Presentation) {
+    checkResult(pres.verify([isKvac() ? sk : pk]));
+    checkResult(Presentation.fromJSON(pres.toJSON()).verify([isKvac() ? sk : pk]));
+  }
+
+  beforeAll(async () => {
+    await initializeWasm();
+    [sk, pk] = getKeys('seed1');
+    schema = new CredentialSchema(
+      jsonSchema({
+        type: 'array',
+        maxItems: 4,
+        items: {
+          type: 'object',
+          properties: {
+            field: { type: 'string' },
+            year: { type: 'integer', minimum: 0 }
+          }
+        }
+      })
+    );
+    credential1 = sign({
+      name: 'John',
+      degrees: [
+        { field: 'Mathematics', year: 2010 },
+        { field: 'Physics', year: 2012 }
+      ],
+      languages: ['English', 'French', 'German']
+    });
+    credential2 = sign({
+      name: 'Jane',
+      degrees: [{ field: 'Physics', year: 2015 }],
+      languages: []
+    });
+  });
+
+  it('pads the arrays to the maximum length', () => {
+    expect(schema.variableLengthArrays()).toEqual(
+      new Map([
+        [degreesName, 4],
+        [languagesName, 5]
+      ])
+    );
+    const names = schema.flatten()[0];
+    for (let i = 0; i < 4; i++) {
+      expect(names).toContain(`${degreesName}.${i}.field`);
+      expect(names).toContain(`${degreesName}.${i}.year`);
+    }
+    expect(names).not.toContain(`${degreesName}.4.field`);
+    expect(names).toContain(CredentialSchema.arrayLengthName(degreesName));
+    expect(names).toContain(CredentialSchema.arrayLengthName(languagesName));
+    expect(CredentialSchema.arrayElementsOf(`${degreesName}.3.year`, schema.variableLengthArrays())).toEqual([
+      [degreesName, 3]
+    ]);
+
+    // The credential keeps the arrays as they are
+    expect(credential1.subject['degrees'].length).toEqual(2);
+    expect(credential2.subject['languages']).toEqual([]);
+    const recreated = Credential.fromJSON(credential2.toJSON());
+    verifyCred(recreated, pk, sk);
+
+    expect(() =>
+      sign({
+        name: 'John',
+        degrees: [
+          { field: 'Mathematics', year: 2010 },
+          { field: 'Physics', year: 2012 }
+        ],
+        languages: ['English', 'French', 'German', 'Spanish', 'Italian', 'Hindi']
+      })
+    ).toThrow('at most 5');
+
+    expect(() => new CredentialSchema(jsonSchema({ type: 'array', items: { type: 'string' } }))).toThrow('maxItems');
+    expect(() => new CredentialSchema(jsonSchema({ type: 'array', maxItems: 0, items: { type: 'string' } }))).toThrow(
+      'maxItems'
+    );
+  });
+
+  it('proves that an array contains a value without revealing which item or its length', () => {
+    for (const cred of [credential1, credential2]) {
+      const builder = newBuilder(cred);
+      builder.proveArrayContains(0, degreesName, 'Physics', 'field');
+      const pres = builder.finalize();
+      verify(pres);
+      checkResult(Presentation.fromCBOR(pres.toCBOR()).verify([isKvac() ? sk : pk]));
+
+      // No item is revealed and the length isn't bounded
+      expect(pres.spec.credentials[0].revealedAttributes).toEqual({});
+      expect(pres.spec.credentials[0].bounds).toBeUndefined();
+      expect(pres.spec.arrayMemberships?.length).toEqual(1);
+      // A commitment for each item including the padding
+      expect(pres.spec.arrayMemberships?.[0].commitments.length).toEqual(4);
+      expect(pres.spec.arrayContains(0, degreesName, 'Physics', 'field')).toEqual(true);
+      expect(pres.spec.arrayContains(0, degreesName, 'Mathematics', 'field')).toEqual(false);
+      expect(Presentation.fromJSON(pres.toJSON()).spec.arrayContains(0, degreesName, 'Physics', 'field')).toEqual(true);
+
+      const disclosures = pres.spec.describe().disclosures;
+      expect(disclosures.map((d) => [d.type, d.attributes, d.params])).toEqual([
+        [
+          'array-membership',
+          [[0, degreesName]],
+          { arrayName: degreesName, itemAttributeName: 'field', value: 'Physics' }
+        ]
+      ]);
+      expect(builder.describe().disclosures).toEqual(disclosures);
+
+      // Claiming another value fails verification
+      const j = JSON.parse(JSON.stringify(pres.toJSON()));
+      j['spec']['arrayMemberships'][0]['value'] = 'Mathematics';
+      expect(Presentation.fromJSON(j).verify([isKvac() ? sk : pk]).verified).toEqual(false);
+    }
+
+    const builder = newBuilder(credential1);
+    builder.proveArrayContains(0, languagesName, 'German');
+    const pres = builder.finalize();
+    verify(pres);
+    expect(pres.spec.arrayContains(0, languagesName, 'German')).toEqual(true);
+    expect(pres.spec.arrayMemberships?.[0].commitments.length).toEqual(5);
+
+    expect(() => newBuilder(credential1).proveArrayContains(0, degreesName, 'Chemistry', 'field')).toThrow();
+    // Padding can't be used as a value
+    expect(() => newBuilder(credential2).proveArrayContains(0, languagesName, '')).toThrow('same as the padding');
+    expect(() => newBuilder(credential1).proveArrayContains(0, `${SUBJECT_STR}.name`, 'John')).toThrow();
+
+    // The items can't be revealed
+    const builder2 = newBuilder(credential1);
+    builder2.proveArrayContains(0, languagesName, 'German');
+    builder2.markAttributesRevealed(0, new Set([`${languagesName}.0`]));
+    expect(() => builder2.finalize()).toThrow();
+  });
+
+  it('proves predicates over array items and their count', () => {
+    const builder = newBuilder(credential1);
+    builder.markAttributesRevealed(0, new Set([`${SUBJECT_STR}.name`]));
+    builder.enforceBounds(0, `${degreesName}.1.year`, 2000, 2020);
+    // At least 2 degrees
+    builder.enforceBounds(0, CredentialSchema.arrayLengthName(degreesName), 2, 5);
+    const pres = builder.finalize();
+    verify(pres);
+    // No extra bound was needed
+    expect(pres.spec.credentials[0].bounds?.[SUBJECT_STR]['degrees__length'].length).toEqual(1);
+
+    // Items that are padding can't be used
+    let builder1 = newBuilder(credential2);
+    builder1.enforceBounds(0, `${degreesName}.2.year`, 0, 2020);
+    expect(() => builder1.finalize()).toThrow('has 1 items');
+    builder1 = newBuilder(credential2);
+    builder1.markAttributesRevealed(0, new Set([`${languagesName}.0`]));
+    expect(() => builder1.finalize()).toThrow('has 0 items');
+
+    // Verifier rejects presentations not proving the length
+    const j = JSON.parse(JSON.stringify(pres.toJSON()));
+    delete j['spec']['credentials'][0]['bounds'][SUBJECT_STR]['degrees__length'];
+    expect(() => Presentation.fromJSON(j).verify([isKvac() ? sk : pk])).toThrow('length');
+  });
+});
@@ -0,0 +1,228 @@
+import {
+  AccumulatorPublicKey,
+  CredentialSchema,
+  Cryptosuite,
+  DATA_INTEGRITY_PROOF_TYPE,
+  initializeWasm,
+  MEM_CHECK_STR,
+  PositiveAccumulator,
+  PRESENTATION_CRYPTOSUITE,
+  VBMembershipWitness,
+  W3C_CREDENTIALS_V2_CONTEXT
+} from '../../src';
+import {
+  Credential,
+  CredentialBuilder,
+  isBBS,
+  isBBSPlus,
+  isKvac,
+  isPS,
+  Presentation,
+  PresentationBuilder,
+  PublicKey,
+  Scheme,
+  SecretKey
+} from '../scheme';
+import { credentialJsonToW3C, w3cToCredentialJson } from '../../src/anonymous-credentials/w3c';
+import { checkResult, stringToBytes } from '../utils';
+import { getExampleSchema, getKeys, setupPrefilledAccum, verifyCred } from './utils';
+
+describe(`${Scheme} W3C verifiable credentials and presentations`, () => {
+  let sk: SecretKey, pk: PublicKey;
+
+  let credential1: Credential;
+  let credential2: Credential;
+
+  let accumulatorPk: AccumulatorPublicKey;
+  let accumulator: PositiveAccumulator;
+  let accumulatorWitness: VBMembershipWitness;
+
+  const cryptosuite = isBBS()
+    ? Cryptosuite.Bbs
+    : isBBSPlus()
+    ? Cryptosuite.BbsPlus
+    : isPS()
+    ? Cryptosuite.Ps
+    : Cryptosuite.Bbdt16;
+
+  beforeAll(async () => {
+    await initializeWasm();
+    [sk, pk] = getKeys('seed1');
+
+    const schema1 = getExampleSchema(5);
+    schema1.properties['issuer'] = { type: 'string' };
+    schema1.properties['validFrom'] = { type: 'string' };
+    const credSchema1 = new CredentialSchema(schema1);
+    const builder1 = new CredentialBuilder();
+    builder1.schema = credSchema1;
+    builder1.subject = {
+      fname: 'John',
+      lname: 'Smith',
+      sensitive: {
+        very: {
+          secret: 'my-secret-that-wont-tell-anyone'
+        },
+        email: 'john.smith@acme.com',
+        phone: '801009801',
+        SSN: '123-456789-0'
+      },
+      lessSensitive: {
+        location: {
+          country: 'USA',
+          city: 'New York'
+        },
+        department: {
+          name: 'Random',
+          location: {
+            name: 'Somewhere',
+            geo: {
+              lat: -23.658,
+              long: 2.556
+            }
+          }
+        }
+      },
+      rank: 6
+    };
+    builder1.setTopLevelField('issuer', 'did:example:issuer1');
+    builder1.setTopLevelField('validFrom', '2024-01-01T00:00:00Z');
+    builder1.setCredentialStatus('dock:accumulator:accumId123', MEM_CHECK_STR, 'user:A-123');
+    credential1 = builder1.sign(sk);
+    verifyCred(credential1, pk, sk);
+
+    // Credential that already has the context and type as signed fields
+    const schema2 = getExampleSchema(4);
+    const builder2 = new CredentialBuilder();
+    builder2.schema = new CredentialSchema(schema2);
+    builder2.subject = { fname: 'John', score: 10 };
+    builder2.setTopLevelField('@context', [W3C_CREDENTIALS_V2_CONTEXT, 'https://example.com/contexts/score']);
+    builder2.setTopLevelField('type', ['VerifiableCredential', 'ScoreCredential']);
+    builder2.setTopLevelField('issuer', { id: 'did:example:issuer2' });
+    credential2 = builder2.sign(sk, undefined, { requireSameFieldsAsSchema: false });
+    verifyCred(credential2, pk, sk);
+
+    // @ts-ignore
+    [, accumulatorPk, accumulator, accumulatorWitness] = await setupPrefilledAccum(
+      200,
+      122,
+      'user:A-',
+      credSchema1,
+      stringToBytes('secret-seed-for-accum')
+    );
+  });
+
+  it('converts credential to and from W3C verifiable credential', () => {
+    const vc = credential1.toW3CVerifiableCredential();
+    expect(vc['@context']).toEqual([W3C_CREDENTIALS_V2_CONTEXT]);
+    expect(vc['type']).toEqual(['VerifiableCredential']);
+    expect(vc['issuer']).toEqual('did:example:issuer1');
+    expect(vc['validFrom']).toEqual('2024-01-01T00:00:00Z');
+    expect(vc['credentialSubject']).toEqual(credential1.subject);
+    expect(vc['credentialStatus']).toEqual(credential1.credentialStatus);
+    expect(vc['cryptoVersion']).not.toBeDefined();
+    expect(vc['proof']['type']).toEqual(DATA_INTEGRITY_PROOF_TYPE);
+    expect(vc['proof']['cryptosuite']).toEqual(cryptosuite);
+    expect(vc['proof']['cryptoVersion']).toEqual(credential1.version);
+
+    const recreated = Credential.fromW3CVerifiableCredential(JSON.parse(JSON.stringify(vc)));
+    verifyCred(recreated, pk, sk);
+    expect(recreated.toJSON()).toEqual(credential1.toJSON());
+    expect(recreated.toW3CVerifiableCredential()).toEqual(vc);
+
+    // Context and type of the credential are kept. The credential doesn't have `validFrom` so it needs to be given
+    expect(() => credential2.toW3CVerifiableCredential()).toThrow(
+      'Credential does not have validFrom and no default value for it was given'
+    );
+    const vc2 = credential2.toW3CVerifiableCredential({ validFrom: '2024-02-01T00:00:00Z' });
+    expect(vc2['@context']).toEqual([W3C_CREDENTIALS_V2_CONTEXT, 'https://example.com/contexts/score']);
+    expect(vc2['type']).toEqual(['VerifiableCredential', 'ScoreCredential']);
+    expect(vc2['issuer']).toEqual({ id: 'did:example:issuer2' });
+    expect(vc2['validFrom']).toEqual('2024-02-01T00:00:00Z');
+    const recreated2 = Credential.fromW3CVerifiableCredential(vc2);
+    verifyCred(recreated2, pk, sk);
+    expect(recreated2.toJSON()).toEqual(credential2.toJSON());
+
+    // Unknown cryptosuite
+    expect(() =>
+      Credential.fromW3CVerifiableCredential({ ...vc, proof: { ...vc['proof'], cryptosuite: 'bbs-2023' } })
+    ).toThrow('Unrecognized cryptosuite bbs-2023');
+  });
+
+  it('converts credential without issuer or with other contexts', () => {
+    const schema = getExampleSchema(4);
+    const builder = new CredentialBuilder();
+    builder.schema = new CredentialSchema(schema);
+    builder.subject = { fname: 'John', score: 10 };
+    builder.setTopLevelField('@context', 'https://example.com/contexts/score');
+    const cred = builder.sign(sk, undefined, { requireSameFieldsAsSchema: false });
+    verifyCred(cred, pk, sk);
+
+    expect(() => cred.toW3CVerifiableCredential()).toThrow(
+      'Credential does not have issuer and no default value for it was given'
+    );
+    const vc = cred.toW3CVerifiableCredential({ issuer: 'did:example:issuer2', validFrom: '2024-02-01T00:00:00Z' });
+    expect(vc['@context']).toEqual([W3C_CREDENTIALS_V2_CONTEXT, 'https://example.com/contexts/score']);
+    expect(vc['issuer']).toEqual('did:example:issuer2');
+    expect(vc['validFrom']).toEqual('2024-02-01T00:00:00Z');
+    const recreated = Credential.fromW3CVerifiableCredential(JSON.parse(JSON.stringify(vc)));
+    verifyCred(recreated, pk, sk);
+    expect(recreated.toJSON()).toEqual(cred.toJSON());
+
+    // The W3C context is prepended to the JSON-LD contexts of the credential
+    const j = credential1.toJSONWithJsonLdContext();
+    expect(j['@context'][0]).not.toEqual(W3C_CREDENTIALS_V2_CONTEXT);
+    const vc1 = credentialJsonToW3C(j);
+    expect(vc1['@context']).toEqual([W3C_CREDENTIALS_V2_CONTEXT, ...j['@context']]);
+    expect(w3cToCredentialJson(JSON.parse(JSON.stringify(vc1)))).toEqual(j);
+  });
+
+  it('converts presentation to and from W3C verifiable presentation', () => {
+    const builder = new PresentationBuilder();
+    builder.addCredential(credential1, isPS() ? pk : undefined);
+    builder.addCredential(credential2, isPS() ? pk : undefined);
+    builder.markAttributesRevealed(
+      0,
+      new Set(['issuer', 'validFrom', 'credentialSubject.lessSensitive.location.city'])
+    );
+    builder.markAttributesRevealed(1, new Set(['issuer.id']));
+    builder.enforceBounds(0, 'credentialSubject.rank', 2, 10);
+    builder.enforceAttributeEquality([0, 'credentialSubject.fname'], [1, 'credentialSubject.fname']);
+    builder.addAccumInfoForCredStatus(0, accumulatorWitness, accumulator.accumulated, accumulatorPk);
+    builder.context = 'Test context';
+    builder.nonce = stringToBytes('a nonce');
+    const pres = builder.finalize();
+
+    const vp = pres.toW3CVerifiablePresentation();
+    expect(vp['@context']).toEqual([W3C_CREDENTIALS_V2_CONTEXT]);
+    expect(vp['type']).toEqual(['VerifiablePresentation']);
+    expect(vp['proof']['type']).toEqual(DATA_INTEGRITY_PROOF_TYPE);
+    expect(vp['proof']['cryptosuite']).toEqual(PRESENTATION_CRYPTOSUITE);
+    expect(vp['proof']['domain']).toEqual('Test context');
+    expect(vp['proof']['challenge']).toEqual(pres.toJSON()['nonce']);
+
+    const [vc1, vc2] = vp['verifiableCredential'];
+    expect(vc1['@context']).toEqual([W3C_CREDENTIALS_V2_CONTEXT]);
+    expect(vc1['type']).toEqual(['VerifiableCredential']);
+    expect(vc1['issuer']).toEqual('did:example:issuer1');
+    expect(vc1['validFrom']).toEqual('2024-01-01T00:00:00Z');
+    expect(vc1['credentialSubject']).toEqual({ lessSensitive: { location: { city: 'New York' } } });
+    expect(vc1['credentialSchema']).toEqual(pres.spec.credentials[0].schema);
+    expect(vc1['proof']['cryptosuite']).toEqual(cryptosuite);
+    expect(vc1['proof']['presentedCredential']['bounds']).toBeDefined();
+    expect(vc1['proof']['presentedCredential']['status']).toBeDefined();
+    // Context and type of the credential weren't revealed
+    expect(vc2['@context']).toEqual([W3C_CREDENTIALS_V2_CONTEXT]);
+    expect(vc2['type']).toEqual(['VerifiableCredential']);
+    expect(vc2['issuer']).toEqual({ id: 'did:example:issuer2' });
+
+    const recreated = Presentation.fromW3CVerifiablePresentation(JSON.parse(JSON.stringify(vp)));
+    expect(recreated.toJSON()).toEqual(pres.toJSON());
+    const acc = new Map();
+    acc.set(0, accumulatorPk);
+    checkResult(recreated.verify(isKvac() ? [sk, sk] : [pk, pk], acc));
+
+    expect(() => Presentation.fromW3CVerifiablePresentation({ ...vp, type: ['VerifiableCredential'] })).toThrow(
+      'Expected type to include VerifiablePresentation'
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import { CborTagged, decodeCbor, encodeCbor, hexToBytearray, bytearrayToHex } from '../src';
+
+describe('CBOR encoding', () => {
+  it('encodes as per the examples in RFC 8949', () => {
+    const vectors: [unknown, string][] = [
+      [0, '00'],
+      [1, '01'],
+      [10, '0a'],
+      [23, '17'],
+      [24, '1818'],
+      [100, '1864'],
+      [1000, '1903e8'],
+      [1000000, '1a000f4240'],
+      [1000000000000, '1b000000e8d4a51000'],
+      [Number.MAX_SAFE_INTEGER, '1b001fffffffffffff'],
+      [-1, '20'],
+      [-10, '29'],
+      [-100, '3863'],
+      [-1000, '3903e7'],
+      [1.5, 'fa3fc00000'],
+      [1.1, 'fb3ff199999999999a'],
+      [-4.1, 'fbc010666666666666'],
+      [100000.5, 'fa47c35040'],
+      [false, 'f4'],
+      [true, 'f5'],
+      [null, 'f6'],
+      [undefined, 'f7'],
+      [new Uint8Array([]), '40'],
+      [new Uint8Array([1, 2, 3, 4]), '4401020304'],
+      ['', '60'],
+      ['a', '6161'],
+      ['IETF', '6449455446'],
+      ['ü', '62c3bc'],
+      ['水', '63e6b0b4'],
+      [[], '80'],
+      [[1, 2, 3], '83010203'],
+      [[1, [2, 3], [4, 5]], '8301820203820405'],
+      [new Map(), 'a0'],
+      [
+        new Map([
+          [1, 2],
+          [3, 4]
+        ]),
+        'a201020304'
+      ],
+      [new CborTagged(1, 1363896240), 'c11a514b67b0']
+    ];
+    for (const [v, hex] of vectors) {
+      const encoded = encodeCbor(v);
+      expect(bytearrayToHex(encoded)).toEqual(hex);
+      expect(decodeCbor(encoded)).toEqual(v);
+    }
+
+    // Objects are decoded as maps
+    expect(bytearrayToHex(encodeCbor({ a: 1, b: [2, 3] }))).toEqual('a26161016162820203');
+    expect(decodeCbor(encodeCbor({ a: 1, b: [2, 3] }))).toEqual(
+      new Map<string, unknown>([
+        ['a', 1],
+        ['b', [2, 3]]
+      ])
+    );
+    expect(bytearrayToHex(encodeCbor(['a', { b: 'c' }]))).toEqual('826161a161626163');
+  });
+
+  it('encodes deterministically', () => {
+    // Keys are sorted by their encoding so integer keys come before strings and shorter strings before longer ones
+    const m1 = new Map<number | string, unknown>([
+      ['bb', 1],
+      [10, 2],
+      ['a', 3],
+      [-1, 4]
+    ]);
+    const m2 = new Map<number | string, unknown>([
+      [-1, 4],
+      ['a', 3],
+      [10, 2],
+      ['bb', 1]
+    ]);
+    expect(encodeCbor(m1)).toEqual(encodeCbor(m2));
+    expect(bytearrayToHex(encodeCbor(m1))).toEqual('a40a02200461610362626201');
+
+    // Undefined values of objects are skipped
+    expect(encodeCbor({ a: 1, b: undefined })).toEqual(encodeCbor({ a: 1 }));
+  });
+
+  it('decodes half precision floats', () => {
+    expect(decodeCbor(hexToBytearray('f93c00'))).toEqual(1);
+    expect(decodeCbor(hexToBytearray('f97bff'))).toEqual(65504);
+    expect(decodeCbor(hexToBytearray('f90001'))).toEqual(5.960464477539063e-8);
+    expect(decodeCbor(hexToBytearray('f9c400'))).toEqual(-4);
+    expect(decodeCbor(hexToBytearray('f97c00'))).toEqual(Infinity);
+  });
+
+  it('rejects malformed input', () => {
+    // Truncated
+    expect(() => decodeCbor(hexToBytearray('1903'))).toThrow('Unexpected end of CBOR input');
+    // Trailing bytes
+    expect(() => decodeCbor(hexToBytearray('0101'))).toThrow('trailing bytes');
+    // Indefinite length array
+    expect(() => decodeCbor(hexToBytearray('9f01ff'))).toThrow('Unsupported additional info 31');
+    // Duplicate keys
+    expect(() => decodeCbor(hexToBytearray('a201020103'))).toThrow('Duplicate map key 1');
+  });
+});
@@ -0,0 +1,45 @@
+import { generateRandomG1Element } from 'crypto-wasm-new';
+import {
+  bigIntToFieldElement,
+  CompositeProof,
+  initializeWasm,
+  MetaStatements,
+  ProofSpec,
+  Statement,
+  Statements,
+  Witness,
+  Witnesses
+} from '../../src';
+
+describe('Proving linear relation between witnesses', () => {
+  beforeAll(async () => {
+    await initializeWasm();
+  });
+
+  function proveAndVerify(coefficients: number[], constant: number, witnessValues: number[]): boolean {
+    const base = generateRandomG1Element();
+    const toFe = (n: number) => bigIntToFieldElement(BigInt(n));
+    const statements = new Statements();
+    statements.add(Statement.linearCombinationG1(coefficients.map(toFe), toFe(constant), base));
+    const proofSpec = new ProofSpec(statements, new MetaStatements());
+
+    const witnesses = new Witnesses();
+    witnesses.add(Witness.pedersenCommitment(witnessValues.map(toFe)));
+    const proof = CompositeProof.generate(proofSpec, witnesses);
+    return proof.verify(proofSpec).verified;
+  }
+
+  it('proves that witnesses satisfy the relation', () => {
+    // 2 * 10 + 3 * 7 - 5 = 36
+    expect(proveAndVerify([2, 3, -1], 36, [10, 7, 5])).toEqual(true);
+    // Negative constant
+    expect(proveAndVerify([1, -4], -2, [10, 3])).toEqual(true);
+    // 0 constant
+    expect(proveAndVerify([1, -1], 0, [25, 25])).toEqual(true);
+  });
+
+  it('does not prove a relation that the witnesses do not satisfy', () => {
+    expect(proveAndVerify([2, 3, -1], 36, [10, 7, 6])).toEqual(false);
+    expect(proveAndVerify([1, -4], 2, [10, 3])).toEqual(false);
+  });
+});